@@ -0,0 +1,80 @@
+/**
+ * Local stub for the ATS posting APIs
+ * Serves the recorded responses in fixtures/ats so the ATS adapters can run offline.
+ *
+ * Usage: npx tsx ats-stub-server.ts [port]   (default 4010)
+ * then start the backend with ATS_STUB_URL=http://localhost:4010
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export interface AtsFixture {
+  name: string;
+  postingUrl: string; // Public posting URL the adapter is given
+  path: string; // Request path the stub answers: /{api host}{api path}, query ignored
+  contentType: string;
+  body: unknown;
+  expected: {
+    title: string;
+    location?: string;
+    remote?: boolean;
+    requirements: string[];
+    descriptionIncludes: string[];
+  };
+}
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'ats');
+
+export function loadAtsFixtures(): AtsFixture[] {
+  return fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => ({
+      name: path.basename(file, '.json'),
+      ...JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf-8'))
+    }));
+}
+
+/**
+ * Start the stub - port 0 picks a free port
+ */
+export function startAtsStubServer(port = 0): Promise<{ url: string; close: () => Promise<void> }> {
+  const fixtures = loadAtsFixtures();
+
+  const server = http.createServer((req, res) => {
+    const requestPath = new URL(req.url || '/', 'http://stub').pathname;
+    const fixture = fixtures.find(candidate => candidate.path === requestPath);
+
+    if (!fixture) {
+      console.warn(`⚠️ No ATS fixture for ${requestPath}`);
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'No fixture for this path' }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': fixture.contentType });
+    res.end(typeof fixture.body === 'string' ? fixture.body : JSON.stringify(fixture.body));
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address() as { port: number };
+      resolve({
+        url: `http://127.0.0.1:${address.port}`,
+        close: () => new Promise<void>(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+// Run directly: serve until stopped
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const port = Number(process.argv[2]) || 4010;
+  startAtsStubServer(port).then(({ url }) => {
+    console.log(`🧪 ATS stub serving ${loadAtsFixtures().length} fixtures at ${url}`);
+    console.log(`   Start the backend with ATS_STUB_URL=${url} to use it`);
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * ATS adapter check
+ * Runs every adapter against its recorded fixture, served by the local ATS stub
+ *
+ * Usage: npx tsx check-ats-adapters.ts
+ */
+
+import { loadAtsFixtures, startAtsStubServer } from './ats-stub-server';
+
+async function checkAtsAdapters() {
+  console.log('🔍 Checking ATS adapters against recorded fixtures\n');
+
+  const stub = await startAtsStubServer();
+  process.env.ATS_STUB_URL = stub.url;
+  // Loaded after ATS_STUB_URL is set so every request goes to the stub
+  const { findAtsAdapter, fetchAtsPosting } = await import('./src/services/ats');
+
+  let failures = 0;
+
+  for (const fixture of loadAtsFixtures()) {
+    const problems: string[] = [];
+    const adapter = findAtsAdapter(fixture.postingUrl);
+
+    if (adapter?.provider !== fixture.name) {
+      problems.push(`URL matched ${adapter?.provider ?? 'no adapter'}`);
+    } else {
+      const posting = await fetchAtsPosting(fixture.postingUrl);
+      const { expected } = fixture;
+
+      if (!posting) {
+        problems.push('fetch failed');
+      } else {
+        if (posting.title !== expected.title) problems.push(`title "${posting.title}"`);
+        if (posting.location !== expected.location) problems.push(`location "${posting.location}"`);
+        if (Boolean(posting.remote) !== Boolean(expected.remote)) problems.push(`remote ${posting.remote}`);
+        if (JSON.stringify(posting.requirements) !== JSON.stringify(expected.requirements)) {
+          problems.push(`requirements ${JSON.stringify(posting.requirements)}`);
+        }
+        expected.descriptionIncludes
+          .filter(line => !posting.description.split('\n').includes(line))
+          .forEach(line => problems.push(`description is missing "${line}"`));
+      }
+    }
+
+    if (problems.length === 0) {
+      console.log(`✅ ${fixture.name}`);
+    } else {
+      failures++;
+      console.log(`❌ ${fixture.name}: ${problems.join('; ')}`);
+    }
+  }
+
+  await stub.close();
+
+  console.log(failures === 0 ? '\n✅ All ATS adapters match their fixtures' : `\n❌ ${failures} adapter(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+checkAtsAdapters();
@@ -1,11 +1,11 @@
 import { Request, Response } from 'express';
 import dotenv from 'dotenv';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { generateJson, createBehavioralFeedbackSchema, StructuredOutputError } from '../services/llm';
+import { buildStarAnalysis } from '../services/starAnalysisService';
+import { getRubricService } from '../services/rubricService';
 
 dotenv.config();
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-
 export const gradeBehavioral = async (req: Request, res: Response) => {
   try {
     console.log('Behavioral grader request received:', { 
@@ -15,16 +15,18 @@ export const gradeBehavioral = async (req: Request, res: Response) => {
       answerLength: req.body.answer?.length
     });
 
-    const { question, answer } = req.body;
+    const { question, answer, tags } = req.body;
 
     if (!question || !answer) {
       console.log('Missing required fields:', { question: !!question, answer: !!answer });
       return res.status(400).json({ error: 'Missing question or answer' });
     }
 
-    console.log('API key available:', !!process.env.GEMINI_API_KEY);
-    
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+    // Question tags decide which rubric competencies this answer is graded on
+    const rubricService = getRubricService();
+    const competencies = rubricService.resolveCompetencies(Array.isArray(tags) ? tags : []);
+    const { scale } = rubricService.getRubric();
+    console.log('Grading competencies:', competencies.map(c => c.id));
 
     const prompt = `
 You are an interview coach. 
@@ -43,41 +45,46 @@ IMPORTANT: Return ONLY valid JSON with this structure:
   "strengths": "What the candidate did well (1-2 sentence)",
   "weaknesses": "Main areas for improvement (1-2 sentence)", 
   "suggestions": ["Most important suggestion", "Second suggestion if needed", "Third only if answer needs major work"],
-  "score": "number from 1-10"
+  "score": <number from 1-10>,
+  "star": {
+    "situation": { "quotes": ["exact excerpt from the answer"], "score": <number from 0-10>, "comment": "One sentence on this component" },
+    "task": { "quotes": [], "score": 0, "comment": "..." },
+    "action": { "quotes": ["..."], "score": <number from 0-10>, "comment": "..." },
+    "result": { "quotes": ["..."], "score": <number from 0-10>, "comment": "..." }
+  },
+  "competencies": [
+    { "id": "competency id", "level": <number from ${scale.min}-${scale.max}>, "evidence": "One sentence citing what in the answer justifies this level" }
+  ]
 }
 
 Each suggestion should be actionable and under 40 words.
+
+For "star", segment the answer using the STAR method (Situation, Task, Action, Result):
+- "quotes" must be copied VERBATIM from the answer (same words, same order) - never paraphrase
+- Use one quote per contiguous passage; a component may have several quotes
+- If a component is missing from the answer, use "quotes": [] and "score": 0 and explain what is missing in "comment"
+
+For "competencies", rate the answer on EACH of these rubric competencies (one entry per competency, using the level descriptors):
+${rubricService.describeCompetencies(competencies)}
     `;
 
-    const result = await model.generateContent(prompt);
-    const responseText = result.response.text();
-
-    console.log('Gemini response received, length:', responseText.length);
-    console.log('Gemini response preview:', responseText.substring(0, 200));
-
-    let feedback;
-    try {
-      // Try to extract JSON from the response text if it's wrapped in markdown
-      let jsonText = responseText;
-      if (responseText.includes('```json')) {
-        const jsonStart = responseText.indexOf('```json') + 7;
-        const jsonEnd = responseText.indexOf('```', jsonStart);
-        if (jsonEnd > jsonStart) {
-          jsonText = responseText.substring(jsonStart, jsonEnd).trim();
-        }
-      }
-      
-      feedback = JSON.parse(jsonText);
-      console.log('Successfully parsed JSON feedback:', feedback);
-    } catch (parseError) {
-      console.log('Failed to parse JSON, using raw response:', parseError);
-      console.log('Response text:', responseText.substring(0, 200));
-      feedback = { raw: responseText }; // fallback if not valid JSON
-    }
+    const schema = createBehavioralFeedbackSchema(competencies.map(c => c.id), scale);
+    const { star, competencies: levels, ...grades } = await generateJson('behavioralGrading', prompt, schema);
+    const feedback = {
+      ...grades,
+      star: buildStarAnalysis(answer, star),
+      ...rubricService.buildGrade(levels)
+    };
+    console.log('Validated behavioral feedback:', feedback);
+    console.log('STAR components missing:', feedback.star.missing);
 
     console.log('Sending response with feedback');
     res.json({ success: true, feedback });
   } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      return res.status(502).json(error.toResponse('Failed to grade behavioral response'));
+    }
+
     console.error('Error grading behavioral response:', error);
     console.error('Error details:', {
       message: (error as Error).message,
@@ -86,3 +93,16 @@ Each suggestion should be actionable and under 40 words.
     res.status(500).json({ error: 'Failed to grade behavioral response' });
   }
 };
+
+/**
+ * Get the active behavioral grading rubric
+ * GET /api/behav-grader/rubric
+ */
+export const getRubric = (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, rubric: getRubricService().getRubric() });
+  } catch (error) {
+    console.error('Error loading rubric:', error);
+    res.status(500).json({ error: 'Failed to load grading rubric' });
+  }
+};
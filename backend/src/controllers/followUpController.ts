@@ -0,0 +1,183 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { generateJson, followUpDecisionSchema, StructuredOutputError } from '../services/llm';
+import { getSessionStore, isValidSessionId } from '../services/sessionStore';
+
+dotenv.config();
+
+const sessionStore = getSessionStore();
+
+const DEFAULT_FOLLOW_UP_BUDGET = 2;
+
+/**
+ * Maximum follow-ups per interview run (FOLLOW_UP_BUDGET, default 2)
+ */
+function getFollowUpBudget(): number {
+  const budget = parseInt(process.env.FOLLOW_UP_BUDGET || '', 10);
+  return Number.isFinite(budget) && budget >= 0 ? budget : DEFAULT_FOLLOW_UP_BUDGET;
+}
+
+/**
+ * Start a new interview run for the session, which gets a fresh follow-up budget.
+ * Follow-ups from earlier runs are dropped - only the latest run can ask for more.
+ * POST /api/interview/run
+ */
+export const startInterviewRun = async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.headers['x-session-id'];
+
+    if (!isValidSessionId(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Session ID required',
+        error: 'Session ID must be provided in headers'
+      });
+    }
+
+    const session = await sessionStore.get(sessionId);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
+        error: `No interview session found with ID ${sessionId}`
+      });
+    }
+
+    const runId = `run_${crypto.randomUUID()}`;
+    await sessionStore.save({ ...session, interviewRunId: runId, followUps: [] });
+
+    res.status(201).json({ success: true, runId });
+
+  } catch (error) {
+    console.error('❌ Failed to start interview run:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start interview run',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Decide whether to probe the answer just given with a follow-up question.
+ * Each question gets at most one follow-up, and each interview run is capped by the budget.
+ * The run must be the one the server issued last for this session.
+ */
+export const requestFollowUp = async (req: Request, res: Response) => {
+  try {
+    const { runId, questionId, question, answer, questionType } = req.body || {};
+    const sessionId = req.headers['x-session-id'] as string;
+
+    if (!isValidSessionId(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Session ID required',
+        error: 'Session ID must be provided in headers'
+      });
+    }
+
+    if (!runId || !questionId || !question || !answer) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields',
+        error: 'runId, questionId, question and answer are required'
+      });
+    }
+
+    const session = await sessionStore.get(sessionId);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
+        error: `No interview session found with ID ${sessionId}`
+      });
+    }
+
+    if (runId !== session.interviewRunId) {
+      return res.status(409).json({
+        success: false,
+        message: 'Unknown interview run',
+        error: 'runId must be the run returned by POST /api/interview/run for this session'
+      });
+    }
+
+    const followUps = session.followUps || [];
+    const askedThisRun = followUps.filter(f => f.runId === runId);
+    const remainingBudget = Math.max(0, getFollowUpBudget() - askedThisRun.length);
+
+    if (remainingBudget === 0 || askedThisRun.some(f => f.questionId === questionId)) {
+      return res.json({
+        success: true,
+        askFollowUp: false,
+        reason: remainingBudget === 0 ? 'Follow-up budget used' : 'Question already followed up',
+        remainingBudget
+      });
+    }
+
+    const prompt = `
+You are interviewing a candidate live. Decide whether their answer needs ONE short probing follow-up question before moving on.
+
+Question type: ${questionType === 'technical' ? 'technical' : 'behavioral'}
+Question: "${question}"
+Answer: "${answer}"
+
+Ask a follow-up only when something important is missing or vague, for example:
+- No measurable result or outcome ("What was the measurable result?")
+- Unclear personal contribution versus the team's
+- A technical claim without explanation of how or why
+
+Do not ask a follow-up if the answer is already complete, or if it is so short or off-topic that probing would not help.
+The follow-up must be a single spoken question under 25 words that refers to what the candidate actually said.
+
+IMPORTANT: Return ONLY valid JSON with this structure:
+{
+  "askFollowUp": true or false,
+  "reason": "One sentence explaining the decision",
+  "followUp": "The follow-up question, or an empty string when askFollowUp is false"
+}
+    `;
+
+    const decision = await generateJson('followUp', prompt, followUpDecisionSchema);
+    console.log('🔎 Follow-up decision:', { questionId, ...decision });
+
+    if (!decision.askFollowUp) {
+      return res.json({ success: true, askFollowUp: false, reason: decision.reason, remainingBudget });
+    }
+
+    await sessionStore.save({
+      ...session,
+      followUps: [
+        ...followUps,
+        {
+          runId,
+          questionId,
+          question,
+          followUp: decision.followUp,
+          reason: decision.reason,
+          askedAt: new Date().toISOString()
+        }
+      ]
+    });
+
+    res.json({
+      success: true,
+      askFollowUp: true,
+      followUp: decision.followUp,
+      reason: decision.reason,
+      remainingBudget: remainingBudget - 1
+    });
+
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      return res.status(502).json(error.toResponse('Failed to decide on a follow-up question'));
+    }
+
+    console.error('❌ Follow-up error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Follow-up decision failed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
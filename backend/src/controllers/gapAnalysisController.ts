@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { StructuredOutputError } from '../services/llm';
+import { getSessionStore, isValidSessionId } from '../services/sessionStore';
+import { normalizeResumeProfile, parseResume } from '../services/resumeParserService';
+import { analyzeGaps } from '../services/gapAnalysisService';
+
+const sessionStore = getSessionStore();
+
+const MAX_JOB_DESCRIPTION_LENGTH = 10000;
+
+/**
+ * Compare the resume against the job description and return a coverage matrix.
+ * Uses `jobDescription` from the body (e.g. a job brief in manual setup), or the uploaded job description.
+ * The resume side is the body `resumeProfile`, the session's reviewed profile, or the uploaded resume parsed now.
+ * The report is stored on the session to steer question generation and technical question selection.
+ */
+export const analyzeResumeGaps = async (req: Request, res: Response) => {
+  try {
+    const { jobDescription, resumeProfile: rawProfile } = req.body || {};
+    const sessionId = req.headers['x-session-id'] as string;
+
+    if (!isValidSessionId(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Session ID required',
+        error: 'Session ID must be provided in headers'
+      });
+    }
+
+    const session = await sessionStore.getOrCreate(sessionId);
+    const jobText = typeof jobDescription === 'string' && jobDescription.trim()
+      ? jobDescription.trim()
+      : session.uploads.jobDescription?.content;
+
+    if (!jobText) {
+      return res.status(400).json({
+        success: false,
+        message: 'No job description to analyze',
+        error: 'Upload a job description or provide its text'
+      });
+    }
+
+    if (jobText.length > MAX_JOB_DESCRIPTION_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: 'Job description too long',
+        error: 'Text must be less than 10,000 characters'
+      });
+    }
+
+    let profile = rawProfile ? normalizeResumeProfile(rawProfile) : session.resumeProfile || null;
+    if (rawProfile && !profile) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid resume profile',
+        error: 'resumeProfile does not match the expected structure'
+      });
+    }
+
+    if (!profile) {
+      const resumeText = session.uploads.resume?.content;
+      if (!resumeText) {
+        return res.status(400).json({
+          success: false,
+          message: 'No resume to analyze',
+          error: 'Upload a resume before running the analysis'
+        });
+      }
+      profile = (await parseResume(resumeText)).profile;
+      session.resumeProfile = profile;
+    }
+
+    const report = await analyzeGaps(jobText, profile);
+    console.log(`🧭 Gap analysis (${report.source}): ${report.summary.covered} covered, ${report.summary.weak} weak, ${report.summary.missing} missing`);
+
+    session.gapAnalysis = report;
+    await sessionStore.save(session);
+
+    res.json({
+      success: true,
+      report
+    });
+
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      return res.status(502).json(error.toResponse('Failed to analyze resume against job description'));
+    }
+
+    console.error('Gap analysis error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to analyze resume against job description',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -5,6 +5,8 @@ import path from 'path';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { PDFExtract } from 'pdf-extract';
+import { getSessionStore, isValidSessionId } from '../services/sessionStore';
+import type { SessionUpload, UploadType } from '../types/session.types';
 
 // Configure multer for file uploads
 const upload = multer({
@@ -21,8 +23,16 @@ const upload = multer({
   },
 });
 
-// In-memory session storage (in production, use Redis or database)
-const sessions = new Map<string, any>();
+const sessionStore = getSessionStore();
+
+/**
+ * Store an upload on the session, creating the session on first upload
+ */
+async function storeUpload(sessionId: string, type: UploadType, upload: SessionUpload): Promise<void> {
+  const session = await sessionStore.getOrCreate(sessionId);
+  session.uploads[type] = upload;
+  await sessionStore.save(session);
+}
 
 /**
  * Extract text content from uploaded PDF file
@@ -166,7 +176,7 @@ export const uploadFile = [
         });
       }
 
-      if (!sessionId) {
+      if (!isValidSessionId(sessionId)) {
         return res.status(400).json({
           success: false,
           message: 'Session ID required',
@@ -181,17 +191,12 @@ export const uploadFile = [
       await cleanupFile(file.path);
 
       // Store in session
-      if (!sessions.has(sessionId)) {
-        sessions.set(sessionId, { uploads: {} });
-      }
-      
-      const session = sessions.get(sessionId);
-      session.uploads[type] = {
+      await storeUpload(sessionId, type as UploadType, {
         method: 'file',
         content,
         filename: file.originalname,
         uploadedAt: new Date().toISOString()
-      };
+      });
 
       res.json({
         success: true,
@@ -231,7 +236,7 @@ export const uploadText = async (req: Request, res: Response) => {
       });
     }
 
-    if (!sessionId) {
+    if (!isValidSessionId(sessionId)) {
       return res.status(400).json({
         success: false,
         message: 'Session ID required',
@@ -255,16 +260,11 @@ export const uploadText = async (req: Request, res: Response) => {
     const content = text.trim();
 
     // Store in session
-    if (!sessions.has(sessionId)) {
-      sessions.set(sessionId, { uploads: {} });
-    }
-    
-    const session = sessions.get(sessionId);
-    session.uploads[type] = {
+    await storeUpload(sessionId, type as UploadType, {
       method: 'text',
       content,
       uploadedAt: new Date().toISOString()
-    };
+    });
 
     res.json({
       success: true,
@@ -298,7 +298,7 @@ export const uploadUrl = async (req: Request, res: Response) => {
       });
     }
 
-    if (!sessionId) {
+    if (!isValidSessionId(sessionId)) {
       return res.status(400).json({
         success: false,
         message: 'Session ID required',
@@ -310,17 +310,12 @@ export const uploadUrl = async (req: Request, res: Response) => {
     const content = await extractUrlContent(url);
 
     // Store in session
-    if (!sessions.has(sessionId)) {
-      sessions.set(sessionId, { uploads: {} });
-    }
-    
-    const session = sessions.get(sessionId);
-    session.uploads[type] = {
+    await storeUpload(sessionId, type as UploadType, {
       method: 'url',
       content,
       url,
       uploadedAt: new Date().toISOString()
-    };
+    });
 
     res.json({
       success: true,
@@ -338,60 +333,5 @@ export const uploadUrl = async (req: Request, res: Response) => {
   }
 };
 
-/**
- * Get session data
- */
-export const getSession = async (req: Request, res: Response) => {
-  try {
-    const { sessionId } = req.params;
-
-    if (!sessions.has(sessionId)) {
-      return res.status(404).json({
-        success: false,
-        message: 'Session not found'
-      });
-    }
-
-    const session = sessions.get(sessionId);
-    res.json(session);
-
-  } catch (error) {
-    console.error('Get session error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to retrieve session',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-};
-
-/**
- * Update session data
- */
-export const updateSession = async (req: Request, res: Response) => {
-  try {
-    const { sessionId } = req.params;
-    const sessionData = req.body;
-
-    // Update or create session
-    if (sessions.has(sessionId)) {
-      const existingSession = sessions.get(sessionId);
-      sessions.set(sessionId, { ...existingSession, ...sessionData });
-    } else {
-      sessions.set(sessionId, sessionData);
-    }
-
-    res.json({
-      success: true,
-      message: 'Session updated successfully'
-    });
-
-  } catch (error) {
-    console.error('Update session error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to update session',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-};
\ No newline at end of file
+// Session reads/writes share the SessionStore-backed handlers in uploadController
+export { getSession, updateSession } from './uploadController';
@@ -0,0 +1,216 @@
+import { Request, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import type {
+  InterviewFeedbackItem,
+  InterviewRecordRow,
+  InterviewResultsPayload
+} from '../types/interviewHistory.types';
+dotenv.config();
+
+// Service role client - every query below is scoped to the authenticated user explicitly
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const INTERVIEWS_TABLE = 'Interviews';
+
+type AuthenticatedRequest = Request & { user?: any };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate the results payload produced by InterviewPage
+ */
+function validateResults(body: unknown): { valid: true; results: InterviewResultsPayload } | { valid: false; error: string } {
+  if (!isRecord(body)) {
+    return { valid: false, error: 'Request body must be an object' };
+  }
+
+  const { duration, questionsAnswered, totalQuestions, feedbackData, completedAt, position, company } = body;
+
+  if (typeof duration !== 'number' || duration < 0) {
+    return { valid: false, error: 'duration must be a non-negative number' };
+  }
+  if (typeof questionsAnswered !== 'number' || typeof totalQuestions !== 'number') {
+    return { valid: false, error: 'questionsAnswered and totalQuestions must be numbers' };
+  }
+  if (!Array.isArray(feedbackData)) {
+    return { valid: false, error: 'feedbackData must be an array' };
+  }
+  if (typeof completedAt !== 'string' || isNaN(Date.parse(completedAt))) {
+    return { valid: false, error: 'completedAt must be an ISO date string' };
+  }
+
+  for (let i = 0; i < feedbackData.length; i++) {
+    const item: unknown = feedbackData[i];
+    if (!isRecord(item) || typeof item.question !== 'string' || typeof item.answer !== 'string') {
+      return { valid: false, error: `Invalid feedbackData item at index ${i}` };
+    }
+    if (item.questionType !== 'behavioral' && item.questionType !== 'technical') {
+      return { valid: false, error: `Invalid questionType at index ${i}` };
+    }
+  }
+
+  return {
+    valid: true,
+    results: {
+      duration,
+      questionsAnswered,
+      totalQuestions,
+      feedbackData: feedbackData as InterviewFeedbackItem[],
+      completedAt,
+      position: typeof position === 'string' ? position : undefined,
+      company: typeof company === 'string' ? company : undefined
+    }
+  };
+}
+
+/**
+ * Average of the numeric scores across all graded questions
+ */
+function calculateAverageScore(feedbackData: InterviewFeedbackItem[]): number | null {
+  const scores = feedbackData
+    .map(item => Number(item.feedback?.score))
+    .filter(score => Number.isFinite(score));
+
+  if (scores.length === 0) {
+    return null;
+  }
+
+  return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length * 10) / 10;
+}
+
+/**
+ * Convert a table row into the shape InterviewFeedbackPage expects
+ */
+function toInterviewResults(row: InterviewRecordRow) {
+  return {
+    id: row.id,
+    duration: row.duration_minutes,
+    questionsAnswered: row.questions_answered,
+    totalQuestions: row.total_questions,
+    averageScore: row.average_score,
+    position: row.position || undefined,
+    company: row.company || undefined,
+    feedbackData: row.feedback_data,
+    completedAt: row.completed_at
+  };
+}
+
+/**
+ * Save a completed interview for the current user
+ * POST /api/interviews
+ */
+export const saveInterview = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = validateResults(req.body);
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const { results } = validation;
+
+    const { data, error } = await supabase
+      .from(INTERVIEWS_TABLE)
+      .insert({
+        user_id: req.user.id,
+        completed_at: results.completedAt,
+        duration_minutes: results.duration,
+        questions_answered: results.questionsAnswered,
+        total_questions: results.totalQuestions,
+        average_score: calculateAverageScore(results.feedbackData),
+        position: results.position || null,
+        company: results.company || null,
+        feedback_data: results.feedbackData
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Interview save error:', error);
+      return res.status(500).json({ error: 'Failed to save interview' });
+    }
+
+    res.status(201).json({
+      message: 'Interview saved successfully',
+      interview: toInterviewResults(data as InterviewRecordRow)
+    });
+
+  } catch (error) {
+    console.error('Interview save error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * List the current user's past interviews (summaries only, newest first)
+ * GET /api/interviews
+ */
+export const listInterviews = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 20, 1), 100);
+
+    const { data, error } = await supabase
+      .from(INTERVIEWS_TABLE)
+      .select('id, completed_at, duration_minutes, questions_answered, total_questions, average_score, position, company')
+      .eq('user_id', req.user.id)
+      .order('completed_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Interview list error:', error);
+      return res.status(500).json({ error: 'Failed to load interviews' });
+    }
+
+    res.json({
+      interviews: (data || []).map(row => ({
+        id: row.id,
+        completedAt: row.completed_at,
+        duration: row.duration_minutes,
+        questionsAnswered: row.questions_answered,
+        totalQuestions: row.total_questions,
+        averageScore: row.average_score,
+        position: row.position || undefined,
+        company: row.company || undefined
+      }))
+    });
+
+  } catch (error) {
+    console.error('Interview list error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Get one past interview with full feedback data
+ * GET /api/interviews/:id
+ */
+export const getInterview = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { data, error } = await supabase
+      .from(INTERVIEWS_TABLE)
+      .select('*')
+      .eq('id', req.params.id)
+      .eq('user_id', req.user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Interview fetch error:', error);
+      return res.status(500).json({ error: 'Failed to load interview' });
+    }
+
+    if (!data) {
+      return res.status(404).json({ error: 'Interview not found' });
+    }
+
+    res.json({ interview: toInterviewResults(data as InterviewRecordRow) });
+
+  } catch (error) {
+    console.error('Interview fetch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
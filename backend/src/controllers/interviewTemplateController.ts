@@ -0,0 +1,22 @@
+import { Request, Response } from 'express';
+import { getDefaultTemplateId, getInterviewTemplates } from '../services/interviewTemplateService';
+
+/**
+ * List the interview formats offered on the setup page
+ */
+export const listInterviewTemplates = async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      templates: getInterviewTemplates(),
+      defaultTemplate: getDefaultTemplateId()
+    });
+  } catch (error) {
+    console.error('List interview templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve interview templates',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
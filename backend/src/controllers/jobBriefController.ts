@@ -1,72 +1,28 @@
 import { html } from "cheerio/dist/commonjs/static";
 import { raw, type Request, type Response } from "express";
+import { ATS_HOSTS, fetchAtsPosting, formatAtsPosting } from "../services/ats";
+import { extractJobPosting, formatJobPostingDetails, type ExtractedJobPosting } from "../services/jobPostingExtractorService";
+import { StructuredOutputError } from "../services/llm";
+import { getWebSearchCacheTtlMs, getWebSearchProvider, normalizeUrl, TtlCache, type WebSearchProvider } from "../services/webSearch";
+import type { AtsPosting } from "../types/ats.types";
+import type { WebSearchResult } from "../types/webSearch.types";
 
-/* ------------------------------------------------------------------ */
-/*  Config & helpers                                                  */
-/* ------------------------------------------------------------------ */
-const TAVILY_API = "https://api.tavily.com";
-const ATS = [
-  "myworkdayjobs.com",
-  "greenhouse.io",
-  "lever.co",
-  "ashbyhq.com",
-  "icims.com",
-  "smartrecruiters.com",
-  "taleo.net",
-] as const;
-
-type TavilyResult = {
-  title?: string;
-  url?: string;
-  content?: string;
-  score?: number;
-};
-
-async function postJSON<T>(url: string, body: unknown, timeoutMs = 12_000): Promise<T> {
-  const ctrl = new AbortController();
-  const timer = setTimeout(() => ctrl.abort(), timeoutMs);
-
-  try {
-    const r = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "User-Agent": "pitch-ai/1.0",
-      },
-      body: JSON.stringify(body),
-      signal: ctrl.signal,
-    });
-    if (!r.ok) throw new Error(`${url} ${r.status}`);
-    return (await r.json()) as T;
-  } finally {
-    clearTimeout(timer);
-  }
-}
-
-/* ------------------------------------------------------------------ */
-/*  Tavily wrappers                                                   */
-/* ------------------------------------------------------------------ */
-async function tavilySearch(query: string, maxResults = 8): Promise<TavilyResult[]> {
-  type SearchResponse = { results?: TavilyResult[] };
-  const data = await postJSON<SearchResponse>(`${TAVILY_API}/search`, {
-    api_key: process.env.TAVILY_API_KEY,
-    query,
-    search_depth: "advanced",
-    max_results: maxResults,
-    include_answer: false,
-    include_raw_content: true,
-  });
-  return data.results ?? [];
+/**
+ * A posting read and extracted from one URL - the expensive part of a brief
+ */
+interface PostingAnalysis extends ExtractedJobPosting {
+  rawContent: string;
+  posting: AtsPosting | null;
 }
 
-async function tavilyExtract(url: string): Promise<string> {
-  type ExtractResponse = { content?: string };
-  const data = await postJSON<ExtractResponse>(`${TAVILY_API}/extract`, {
-    api_key: process.env.TAVILY_API_KEY,
-    url,
-  });
-  return String(data.content ?? "");
-}
+// Analysed postings by URL, so repeated briefs skip the ATS fetch and extraction.
+// Searches are already cached by company and title, so a repeated brief is served
+// from memory end to end. Shares the web search TTL (WEB_SEARCH_CACHE_TTL_MINUTES).
+const POSTING_CACHE_MAX_ENTRIES = 200;
+const postingCacheTtlMs = getWebSearchCacheTtlMs();
+const postingCache = postingCacheTtlMs > 0
+  ? new TtlCache<PostingAnalysis>(postingCacheTtlMs, POSTING_CACHE_MAX_ENTRIES)
+  : null;
 
 /* ------------------------------------------------------------------ */
 /*  Ranking logic                                                     */
@@ -90,29 +46,6 @@ function htmlToText(html: string): string {
     .trim();
 }
 
-async function fetchAtsFullText(url: string): Promise<string | null> {
-  try {
-    const gh = url.match(/^https?:\/\/(?:job-boards|boards)\.greenhouse\.io\/([^/]+)\/jobs\/(\d+)/);
-    if (gh) {
-      const [, board, id] = gh;
-      const api = `https://boards-api.greenhouse.io/v1/boards/${board}/jobs/${id}?content=true`;
-      const json: any = await fetch(api).then(r => r.json());
-      return json?.content ?? null;
-    }
-
-    const lv = url.match(/^https?:\/\/jobs\.lever\.co\/([^/]+)\/([\w-]+)/);
-    if (lv) {
-      const [, company, slug] = lv;
-      const api = `https://api.lever.co/v0/postings/${company}/${slug}?mode=json`;
-      const json: any = await fetch(api).then(r => r.json());
-      return json?.description ?? null;
-    }
-  } catch (e) {
-    console.warn("ATS JSON fetch failed:", (e as Error).message);
-  }
-  return null;   // not an ATS url or network error
-}
-
 function isAtsForCompany(url: string, company: string): boolean {
   const u    = new URL(url);
   const host = u.hostname.toLowerCase();
@@ -131,7 +64,7 @@ function isAtsForCompany(url: string, company: string): boolean {
   }
 
   // Workday, AshbyHQ, iCIMS, SmartRecruiters, Taleo …
-  return ATS.some(d => host.includes(d)) && host.includes(c);
+  return ATS_HOSTS.some(d => host.includes(d)) && host.includes(c);
 }
 
 
@@ -141,62 +74,23 @@ function isCompanyCareer(url: string, company: string): boolean {
   return host.includes(c) && (host.includes("careers") || host.includes("jobs"));
 }
 
-function allowedDomain(url: string, company: string): boolean {
-  return isAtsForCompany(url, company) || isCompanyCareer(url, company);
-}
-
-/**
- * Extract only the “what you’ll do” + “what we’re looking for” sections.
- * If they’re not found, fall back to Responsibilities / Qualifications.
- */
-function summarizePosting(raw: string): string {
-    const lines = raw.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
-
-  /* ── DEBUG LOGS ────────────────────────────── */
-  console.log(">>> summarizer invoked");
-  console.log("raw first line:", lines[0]);            // ← produces “raw first line: …”
-
-  // locate section headings
-  const startIdx = lines.findIndex(l =>
-    /here.?s what (you.?ll|you will) do/i.test(l)
-  );
-  const qualIdx = lines.findIndex(l =>
-    /here.?s what we.?re looking for/i.test(l)
-  );
-
-  /* another debug line */
-  console.log("startIdx", startIdx, "qualIdx", qualIdx); // ← prints the indices
-
-  // if neither marker found, look for more generic headings
-  const respIdx = lines.findIndex(l => /responsibilities/i.test(l));
-  const reqIdx  = lines.findIndex(l => /(qualifications|requirements|skills)/i.test(l));
-
-  // decide which blocks to keep
-  let slice: string[] = [];
-  if (startIdx !== -1) {
-    // keep “what you’ll do” plus 12 lines below
-    slice = slice.concat(lines.slice(startIdx, startIdx + 12));
-  }
-  if (qualIdx !== -1) {
-    slice.push("");                                         // blank line between sections
-    slice = slice.concat(lines.slice(qualIdx, qualIdx + 12));
-  }
-
-  // fallback if both custom markers missing
-  if (!slice.length) {
-    const s = respIdx !== -1 ? respIdx : 0;
-    const e = reqIdx  !== -1 ? reqIdx  : s + 10;
-    slice = lines.slice(s, e + 10);                        // ~20 lines total
+function isHttpUrl(url: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol);
+  } catch {
+    return false;
   }
+}
 
-  return slice.join(" ").slice(0, 1500);                   // cap to ~1 ½ kB
+function allowedDomain(url: string, company: string): boolean {
+  return isAtsForCompany(url, company) || isCompanyCareer(url, company);
 }
 
 function pickBestPosting(
-  results: TavilyResult[],
+  results: WebSearchResult[],
   company: string,
   title: string,
-): TavilyResult | null {
+): WebSearchResult | null {
   const lc = (s?: string) => s?.toLowerCase() ?? "";
   const c  = lc(company);
   const t  = lc(title);
@@ -221,55 +115,92 @@ function pickBestPosting(
 }
 
 /* ------------------------------------------------------------------ */
-/*  Controller                                                        */
+/*  Posting analysis                                                  */
 /* ------------------------------------------------------------------ */
-export async function jobBrief(req: Request, res: Response) {
-  try {
-    const { company, title } = req.body ?? {};
-    if (!process.env.TAVILY_API_KEY) {
-      return res.status(500).json({ error: "TAVILY_API_KEY missing" });
-    }
-    if (!company || !title) {
-      return res.status(400).json({ error: "company and title required" });
-    }
 
-    const companySlug = String(company).toLowerCase().replace(/[^a-z0-9]/g, "");
-    const query =
-      `${company} "${title}" (Workday OR Greenhouse OR Lever OR ` +
-      `site:careers.${companySlug}.com OR site:jobs.${companySlug}.com)`;
+async function analyzePosting(best: WebSearchResult, search: WebSearchProvider): Promise<PostingAnalysis> {
+  const key = normalizeUrl(best.url!);
+  const cached = postingCache?.get(key);
+  if (cached) return cached;
+
+  let rawContent = best.content?.trim() || "";
 
-    const results = await tavilySearch(query, 8);
-    if (results.length === 0) return res.json({ notFound: true, sources: [] });
+  // An ATS posting API gives the full, structured posting - prefer it over search snippets
+  const posting = await fetchAtsPosting(best.url!);
+  if (posting) rawContent = formatAtsPosting(posting);
 
-    const best = pickBestPosting(results, company, title);
-    if (!best) return res.json({ notFound: true, sources: [] });
+  // Otherwise fall back to the full page text
+  if (!posting && rawContent.length < 7000) {
+    try {
+      rawContent = await search.extract(best.url!);
+    } catch (e) {
+      console.warn(`${search.provider} extract failed:`, (e as Error).message);
+    } 
+  }
 
-    let rawContent = best.content?.trim() || "";
+  //rawContent = htmlToText(rawContent);
 
-    if (!rawContent || rawContent.length < 4000) {
-      const atsFull = await fetchAtsFullText(best.url!);
-      if (atsFull) rawContent = atsFull.trim();
-    }
+  const extracted = await extractJobPosting(rawContent, {
+    title: posting?.title,
+    location: posting?.location,
+    remote: posting?.remote,
+    requirements: posting?.requirements,
+  });
+
+  const analysis: PostingAnalysis = { ...extracted, rawContent, posting };
+  // Heuristic results mean the LLM was unreachable - leave them out so the next brief retries it
+  if (extracted.source === "llm") postingCache?.set(key, analysis);
+  return analysis;
+}
 
-    // Otherwise fall back to Tavily /extract
-    if (rawContent.length < 7000) {
-      try {
-        rawContent = await tavilyExtract(best.url!);
-      } catch (e) {
-        console.warn("Tavily extract failed:", (e as Error).message);
-      } 
+/* ------------------------------------------------------------------ */
+/*  Controller                                                        */
+/* ------------------------------------------------------------------ */
+export async function jobBrief(req: Request, res: Response) {
+  try {
+    const { company, title, postingUrl } = req.body ?? {};
+    // Throws when Tavily is selected without TAVILY_API_KEY
+    const search = getWebSearchProvider();
+    if (!company || !title) {
+      return res.status(400).json({ error: "company and title required" });
     }
 
-    //rawContent = htmlToText(rawContent);
+    let results: WebSearchResult[];
+    let best: WebSearchResult | null;
+
+    if (postingUrl !== undefined) {
+      // A posting picked from the sources of an earlier brief - skip the search
+      if (typeof postingUrl !== "string" || !isHttpUrl(postingUrl) || !allowedDomain(postingUrl, company)) {
+        return res.status(400).json({ error: "postingUrl must be a job posting of the company" });
+      }
+      best = { url: postingUrl };
+      results = [best];
+    } else {
+      results = await search.searchJobPostings({ company: String(company), title: String(title), maxResults: 8 });
+      if (results.length === 0) return res.json({ notFound: true, sources: [] });
+
+      best = pickBestPosting(results, company, title);
+      if (!best) return res.json({ notFound: true, sources: [] });
+    }
 
-    // now run the summariser
-    const summary = summarizePosting(rawContent);
+    const { details, source: detailsSource, rawContent, posting } = await analyzePosting(best, search);
 
     return res.json({
       company,
       title,
       postingUrl: best.url,
-      summary,
+      summary: formatJobPostingDetails(details),
+      details,
+      detailsSource,
+      ...(posting && {
+        posting: {
+          provider: posting.provider,
+          title: posting.title,
+          location: posting.location,
+          remote: posting.remote,
+          requirements: posting.requirements,
+        },
+      }),
       raw: rawContent.slice(0, 120_000),
       sources: results
         .filter(r => r.url && allowedDomain(r.url, company))
@@ -277,6 +208,9 @@ export async function jobBrief(req: Request, res: Response) {
         .map(({ title, url }) => ({ title, url })),
     });
   } catch (err: any) {
+    if (err instanceof StructuredOutputError) {
+      return res.status(502).json(err.toResponse("Failed to extract job posting"));
+    }
     return res.status(500).json({ error: err?.message ?? "job-brief failed" });
   }
 }
\ No newline at end of file
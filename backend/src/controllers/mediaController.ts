@@ -0,0 +1,221 @@
+import { Request, Response, NextFunction } from 'express';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import multer from 'multer';
+import { getMediaStore } from '../services/mediaStore';
+import { getSessionStore, isValidSessionId } from '../services/sessionStore';
+import type { MediaByteRange, MediaKind } from '../types/media.types';
+
+const MAX_UPLOAD_MB = Number(process.env.MEDIA_MAX_UPLOAD_MB) > 0 ? Number(process.env.MEDIA_MAX_UPLOAD_MB) : 100;
+const UPLOAD_DIR = process.env.MEDIA_UPLOAD_DIR || path.join(os.tmpdir(), 'pitch-ai-media-uploads');
+
+// Configure multer for recording uploads - streamed to disk, so large recordings are never held in memory
+const upload = multer({
+  storage: multer.diskStorage({ destination: UPLOAD_DIR }),
+  limits: {
+    fileSize: MAX_UPLOAD_MB * 1024 * 1024
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('video/') || file.mimetype.startsWith('audio/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only video or audio recordings are allowed'));
+    }
+  }
+});
+
+/**
+ * Multer middleware for the `media` field - reports upload errors as JSON instead of an HTML 500
+ */
+export const mediaUploadMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('media')(req, res, (error: unknown) => {
+    if (!error) {
+      return next();
+    }
+
+    const tooLarge = error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE';
+    res.status(tooLarge ? 413 : 400).json({
+      success: false,
+      message: tooLarge ? `Recording exceeds the ${MAX_UPLOAD_MB}MB limit` : 'Invalid recording upload',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  });
+};
+
+const mediaStore = getMediaStore();
+const sessionStore = getSessionStore();
+
+const MEDIA_KINDS: MediaKind[] = ['answer', 'followUp'];
+
+function isMediaKind(kind: unknown): kind is MediaKind {
+  return typeof kind === 'string' && (MEDIA_KINDS as string[]).includes(kind);
+}
+
+/**
+ * Parse a single-range "bytes=start-end" header against the file size.
+ * Returns null when the header is absent, 'invalid' when it cannot be satisfied.
+ */
+function parseRange(header: string | undefined, size: number): MediaByteRange | null | 'invalid' {
+  if (!header) {
+    return null;
+  }
+
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return 'invalid';
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  return start <= end && start < size ? { start, end } : 'invalid';
+}
+
+/**
+ * Upload the recording of one answer
+ * POST /api/media (multipart: media file + runId, questionIndex, questionId?, kind?, durationMs?)
+ */
+export const uploadMedia = async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.headers['x-session-id'];
+    if (!isValidSessionId(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Session ID required',
+        error: 'Missing or invalid x-session-id header'
+      });
+    }
+
+    // Recordings belong to an interview set up on this server
+    if (!(await sessionStore.get(sessionId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
+        error: `No interview session found with ID ${sessionId}`
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No recording uploaded',
+        error: 'Expected a multipart file in the "media" field'
+      });
+    }
+
+    const { runId, questionIndex, questionId, kind = 'answer', durationMs } = req.body || {};
+    const parsedIndex = Number(questionIndex);
+
+    if (!isValidSessionId(runId) || !Number.isInteger(parsedIndex) || parsedIndex < 0 || !isMediaKind(kind)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid recording metadata',
+        error: 'runId, a non-negative integer questionIndex and kind (answer or followUp) are required'
+      });
+    }
+
+    const parsedDuration = Number(durationMs);
+    const record = await mediaStore.save({
+      sessionId,
+      runId,
+      questionIndex: parsedIndex,
+      questionId: typeof questionId === 'string' && questionId ? questionId : undefined,
+      kind,
+      mimeType: req.file.mimetype,
+      durationMs: parsedDuration > 0 ? Math.round(parsedDuration) : undefined
+    }, req.file.path);
+
+    res.status(201).json({
+      success: true,
+      message: 'Recording stored successfully',
+      data: {
+        media: record,
+        url: `/api/media/${record.id}`
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to store recording:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to store recording',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  } finally {
+    // The store moves the upload on success - anything left over was rejected
+    if (req.file) {
+      await fs.unlink(req.file.path).catch(() => undefined);
+    }
+  }
+};
+
+/**
+ * Stream a recording, honouring Range requests so players can seek.
+ * Only the session that uploaded a recording can play it. <video> elements cannot send
+ * headers, so the session ID may also be passed as the `sessionId` query parameter.
+ * GET /api/media/:id?sessionId=<sessionId>
+ */
+export const streamMedia = async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.headers['x-session-id'] || req.query.sessionId;
+    const record = await mediaStore.get(req.params.id);
+    // Someone else's recording is reported as missing, so IDs cannot be probed
+    if (!record || !isValidSessionId(sessionId) || record.sessionId !== sessionId) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recording not found',
+        error: `No recording found with ID ${req.params.id}`
+      });
+    }
+
+    const range = parseRange(req.headers.range, record.size);
+    if (range === 'invalid') {
+      res.setHeader('Content-Range', `bytes */${record.size}`);
+      return res.status(416).end();
+    }
+
+    const stream = await mediaStore.createReadStream(record.id, range || undefined);
+    if (!stream) {
+      return res.status(404).json({
+        success: false,
+        message: 'Recording not found',
+        error: `No recording found with ID ${record.id}`
+      });
+    }
+
+    res.setHeader('Content-Type', record.mimeType);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${record.size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.setHeader('Content-Length', record.size);
+    }
+
+    stream.on('error', (error) => {
+      console.error(`❌ Failed to stream recording ${record.id}:`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+
+  } catch (error) {
+    console.error('❌ Failed to stream recording:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to stream recording',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
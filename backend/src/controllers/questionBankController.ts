@@ -0,0 +1,239 @@
+import { Request, Response } from 'express';
+import {
+  getQuestionBank,
+  parseQuestionsCsv,
+  questionsToCsv,
+  QuestionValidationError
+} from '../services/questionBankService';
+import { getTechnicalEvaluator } from '../services/technicalEvaluatorService';
+import type { QuestionExportFormat, QuestionImportMode, TechnicalQuestionInput } from '../types/questionBank.types';
+
+/**
+ * Controller for editing the technical question bank
+ */
+
+/**
+ * Bring a running evaluator up to date with the bank, re-embedding changed reference answers.
+ * Returns false when the evaluator has not been initialized yet - it will read the bank when it is.
+ */
+async function syncEvaluator(): Promise<boolean> {
+  const evaluator = getTechnicalEvaluator();
+  if (!evaluator.getStatus().isInitialized) {
+    return false;
+  }
+
+  await evaluator.reloadQuestions();
+  return true;
+}
+
+function parseQuestionId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof QuestionValidationError) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid question data',
+      error: error.message,
+      details: error.errors
+    });
+  }
+
+  console.error(`❌ ${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+/**
+ * Create a technical question
+ * POST /api/technical/questions
+ */
+export const createQuestion = async (req: Request, res: Response) => {
+  try {
+    const question = await getQuestionBank().create(req.body as TechnicalQuestionInput);
+    const reembedded = await syncEvaluator();
+
+    res.status(201).json({
+      success: true,
+      message: 'Question created successfully',
+      data: { question, reembedded }
+    });
+
+  } catch (error) {
+    handleError(res, error, 'Failed to create technical question');
+  }
+};
+
+/**
+ * Update a technical question (partial update)
+ * PUT /api/technical/questions/:id
+ */
+export const updateQuestion = async (req: Request, res: Response) => {
+  try {
+    const questionId = parseQuestionId(req.params.id);
+    if (questionId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid question ID',
+        error: 'Question ID must be a positive integer'
+      });
+    }
+
+    const question = await getQuestionBank().update(questionId, req.body as TechnicalQuestionInput);
+    if (!question) {
+      return res.status(404).json({
+        success: false,
+        message: 'Question not found',
+        error: `No question found with ID ${questionId}`
+      });
+    }
+
+    const reembedded = await syncEvaluator();
+
+    res.json({
+      success: true,
+      message: 'Question updated successfully',
+      data: { question, reembedded }
+    });
+
+  } catch (error) {
+    handleError(res, error, 'Failed to update technical question');
+  }
+};
+
+/**
+ * Delete a technical question
+ * DELETE /api/technical/questions/:id
+ */
+export const deleteQuestion = async (req: Request, res: Response) => {
+  try {
+    const questionId = parseQuestionId(req.params.id);
+    if (questionId === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid question ID',
+        error: 'Question ID must be a positive integer'
+      });
+    }
+
+    const deleted = await getQuestionBank().delete(questionId);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'Question not found',
+        error: `No question found with ID ${questionId}`
+      });
+    }
+
+    await syncEvaluator();
+
+    res.json({
+      success: true,
+      message: 'Question deleted successfully',
+      data: { id: questionId }
+    });
+
+  } catch (error) {
+    handleError(res, error, 'Failed to delete technical question');
+  }
+};
+
+/**
+ * Import questions from JSON or CSV
+ * POST /api/technical/questions/import
+ * Body: { format: 'json' | 'csv', data: array | string, mode?: 'merge' | 'replace' }
+ */
+export const importQuestions = async (req: Request, res: Response) => {
+  try {
+    const { format = 'json', data, mode = 'merge' } = req.body || {};
+
+    if (mode !== 'merge' && mode !== 'replace') {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid import mode',
+        error: 'Mode must be merge or replace'
+      });
+    }
+
+    let questions: TechnicalQuestionInput[];
+    if (format === 'csv') {
+      if (typeof data !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'CSV data is required',
+          error: 'data must be the CSV file contents as a string'
+        });
+      }
+      questions = parseQuestionsCsv(data);
+    } else if (format === 'json') {
+      const parsed = typeof data === 'string' ? JSON.parse(data) : data;
+      if (!Array.isArray(parsed)) {
+        return res.status(400).json({
+          success: false,
+          message: 'JSON data is required',
+          error: 'data must be an array of questions'
+        });
+      }
+      questions = parsed;
+    } else {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid import format',
+        error: 'Format must be json or csv'
+      });
+    }
+
+    const result = await getQuestionBank().importQuestions(questions, mode as QuestionImportMode);
+    const reembedded = await syncEvaluator();
+
+    res.json({
+      success: true,
+      message: 'Questions imported successfully',
+      data: { ...result, reembedded }
+    });
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid JSON data',
+        error: error.message
+      });
+    }
+    handleError(res, error, 'Failed to import technical questions');
+  }
+};
+
+/**
+ * Export the whole question bank as a JSON or CSV download
+ * GET /api/technical/questions/export?format=json|csv
+ */
+export const exportQuestions = async (req: Request, res: Response) => {
+  try {
+    const format = (req.query.format || 'json') as QuestionExportFormat;
+    if (format !== 'json' && format !== 'csv') {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid export format',
+        error: 'Format must be json or csv'
+      });
+    }
+
+    const questions = await getQuestionBank().list();
+
+    res.setHeader('Content-Disposition', `attachment; filename="technical-questions.${format}"`);
+    if (format === 'csv') {
+      res.type('text/csv').send(questionsToCsv(questions));
+    } else {
+      res.json(questions);
+    }
+
+  } catch (error) {
+    handleError(res, error, 'Failed to export technical questions');
+  }
+};
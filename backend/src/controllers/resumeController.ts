@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { StructuredOutputError } from '../services/llm';
+import { getSessionStore, isValidSessionId } from '../services/sessionStore';
+import { parseResume } from '../services/resumeParserService';
+
+const sessionStore = getSessionStore();
+
+const MAX_RESUME_LENGTH = 10000;
+
+/**
+ * Parse the resume into a structured profile for the setup page's review step.
+ * Uses `text` from the body, or the resume already uploaded to the session.
+ * The parsed profile is stored on the session until the user saves their edits.
+ */
+export const parseResumeProfile = async (req: Request, res: Response) => {
+  try {
+    const { text } = req.body || {};
+    const sessionId = req.headers['x-session-id'] as string;
+
+    if (!isValidSessionId(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Session ID required',
+        error: 'Session ID must be provided in headers'
+      });
+    }
+
+    const session = await sessionStore.getOrCreate(sessionId);
+    const resumeText = typeof text === 'string' && text.trim() ? text.trim() : session.uploads.resume?.content;
+
+    if (!resumeText) {
+      return res.status(400).json({
+        success: false,
+        message: 'No resume to parse',
+        error: 'Upload a resume or provide its text'
+      });
+    }
+
+    if (resumeText.length > MAX_RESUME_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: 'Resume text too long',
+        error: 'Text must be less than 10,000 characters'
+      });
+    }
+
+    const { profile, source } = await parseResume(resumeText);
+    console.log(`📄 Resume parsed (${source}): ${profile.experiences.length} experiences, ${profile.projects.length} projects, ${profile.skills.length} skills`);
+
+    session.resumeProfile = profile;
+    await sessionStore.save(session);
+
+    res.json({
+      success: true,
+      profile,
+      source
+    });
+
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      return res.status(502).json(error.toResponse('Failed to parse resume'));
+    }
+
+    console.error('Resume parsing error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to parse resume',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,269 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { getStreamingRecognizer, type StreamingRecognitionSession } from '../services/stt';
+import { getSessionStore, isValidSessionId } from '../services/sessionStore';
+import { computeDeliveryMetrics } from '../services/deliveryMetricsService';
+import type { RecognizedWord, SttClientMessage, SttServerMessage, StreamingRecognitionConfig } from '../types/stt.types';
+
+/**
+ * Streaming speech-to-text over WebSocket
+ *
+ * Protocol (ws://<host>/api/stt/stream?sessionId=<sessionId>):
+ *   client -> { type: 'start', config?, question? }  server -> { type: 'ready', provider }
+ *   client -> binary WebM/Opus audio frames         server -> { type: 'transcript', text, transcript, isFinal }
+ *   client -> { type: 'stop' }                    server -> { type: 'end', transcript, words, delivery } and closes
+ * Errors are reported as { type: 'error', error } before the socket closes.
+ *
+ * Cloud recognition is billed per stream, so the upgrade is refused without an allowed
+ * browser origin, without an existing session, or once the session has too many open streams.
+ */
+
+export const STT_STREAM_PATH = '/api/stt/stream';
+
+const DEFAULT_CONFIG: StreamingRecognitionConfig = {
+  languageCode: 'en-US',
+  encoding: 'WEBM_OPUS',
+  sampleRateHertz: 48000 // Must match the browser's WebM Opus encoding
+};
+
+const MAX_STREAM_SECONDS = Number(process.env.STT_STREAM_MAX_SECONDS) > 0 ? Number(process.env.STT_STREAM_MAX_SECONDS) : 300;
+const MAX_STREAMS_PER_SESSION = Number(process.env.STT_STREAM_MAX_PER_SESSION) > 0 ? Number(process.env.STT_STREAM_MAX_PER_SESSION) : 2;
+
+const DEFAULT_ORIGINS = ['http://localhost:5173', 'http://127.0.0.1:5173'];
+
+// Open streams by session ID
+const openStreams = new Map<string, number>();
+
+/**
+ * Browser origins allowed to open streams.
+ * STT_STREAM_ORIGINS is a comma-separated list (default: the Vite dev server), "*" allows any origin.
+ */
+function getAllowedOrigins(): string[] {
+  const configured = (process.env.STT_STREAM_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_ORIGINS;
+}
+
+function isAllowedOrigin(origin: string): boolean {
+  const allowed = getAllowedOrigins();
+  return allowed.includes('*') || allowed.includes(origin.replace(/\/+$/, ''));
+}
+
+function send(socket: WebSocket, message: SttServerMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function parseClientMessage(data: RawData): SttClientMessage | null {
+  try {
+    const message = JSON.parse(data.toString());
+    return message && (message.type === 'start' || message.type === 'stop') ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Only accept config fields the recognizers understand
+ */
+function resolveConfig(config: Partial<StreamingRecognitionConfig> = {}): StreamingRecognitionConfig {
+  return {
+    languageCode: typeof config.languageCode === 'string' && config.languageCode ? config.languageCode : DEFAULT_CONFIG.languageCode,
+    encoding: DEFAULT_CONFIG.encoding,
+    sampleRateHertz: Number.isInteger(config.sampleRateHertz) ? config.sampleRateHertz! : DEFAULT_CONFIG.sampleRateHertz
+  };
+}
+
+/**
+ * Handle one client connection - a connection carries exactly one recognition stream
+ */
+function handleConnection(socket: WebSocket): void {
+  let session: StreamingRecognitionSession | null = null;
+  let stopping = false;
+  let maxDurationTimer: NodeJS.Timeout | null = null;
+  let startedAt = 0;
+  let question: string | undefined;
+
+  // Final utterances so far plus the current interim one
+  const finals: string[] = [];
+  const words: RecognizedWord[] = [];
+  let interim = '';
+  const fullTranscript = () => [...finals, interim].filter(Boolean).join(' ');
+
+  const fail = (error: string) => {
+    send(socket, { type: 'error', error });
+    session?.abort();
+    session = null;
+    socket.close(1011, 'Recognition failed');
+  };
+
+  const stop = async () => {
+    if (!session || stopping) {
+      return;
+    }
+    stopping = true;
+    const durationMs = Date.now() - startedAt;
+    if (maxDurationTimer) {
+      clearTimeout(maxDurationTimer);
+    }
+
+    await session.end();
+    session = null;
+    interim = '';
+
+    const transcript = fullTranscript();
+    send(socket, {
+      type: 'end',
+      transcript,
+      words,
+      delivery: computeDeliveryMetrics({ transcript, words, durationMs, question })
+    });
+    socket.close(1000, 'Stream complete');
+  };
+
+  socket.on('message', (data: RawData, isBinary: boolean) => {
+    if (isBinary) {
+      if (!session) {
+        return fail('Audio received before the stream was started');
+      }
+      if (!stopping) {
+        session.write(Buffer.isBuffer(data) ? data : Buffer.from(data as ArrayBuffer));
+      }
+      return;
+    }
+
+    const message = parseClientMessage(data);
+    if (!message) {
+      return fail('Invalid control message');
+    }
+
+    if (message.type === 'stop') {
+      stop().catch(error => fail(error instanceof Error ? error.message : 'Unknown error'));
+      return;
+    }
+
+    if (session) {
+      return fail('Stream already started');
+    }
+
+    try {
+      const recognizer = getStreamingRecognizer();
+      startedAt = Date.now();
+      question = typeof message.question === 'string' && message.question.trim() ? message.question : undefined;
+      session = recognizer.start(resolveConfig(message.config), {
+        onResult: (result) => {
+          if (result.isFinal) {
+            if (result.transcript) {
+              finals.push(result.transcript);
+            }
+            words.push(...(result.words || []));
+            interim = '';
+          } else {
+            interim = result.transcript;
+          }
+
+          send(socket, {
+            type: 'transcript',
+            text: result.transcript,
+            transcript: fullTranscript(),
+            isFinal: result.isFinal,
+            confidence: result.confidence
+          });
+        },
+        onError: (error) => {
+          console.error('❌ Streaming recognition error:', error);
+          fail(error.message);
+        }
+      });
+
+      // Recognition streams are capped by the providers - close them ourselves first
+      maxDurationTimer = setTimeout(() => {
+        console.warn(`⚠️ STT stream reached ${MAX_STREAM_SECONDS}s, stopping`);
+        stop().catch(error => fail(error instanceof Error ? error.message : 'Unknown error'));
+      }, MAX_STREAM_SECONDS * 1000);
+
+      send(socket, { type: 'ready', provider: recognizer.provider });
+
+    } catch (error) {
+      console.error('❌ Failed to start streaming recognition:', error);
+      fail(error instanceof Error ? error.message : 'Unknown error');
+    }
+  });
+
+  socket.on('close', () => {
+    if (maxDurationTimer) {
+      clearTimeout(maxDurationTimer);
+    }
+    // Client went away without stopping - nobody is listening for the final results
+    if (session && !stopping) {
+      session.abort();
+      session = null;
+    }
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+/**
+ * Attach the streaming STT WebSocket endpoint to the HTTP server
+ */
+export function attachSttStreamServer(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    if (url.pathname !== STT_STREAM_PATH) {
+      return rejectUpgrade(socket, 404, 'Not Found');
+    }
+
+    // Browsers always send an Origin on WebSocket upgrades - a missing one is a script, not the app
+    const origin = request.headers.origin;
+    if (!origin || !isAllowedOrigin(origin)) {
+      console.warn(`⚠️ Rejected STT stream from origin ${origin || '(none)'}`);
+      return rejectUpgrade(socket, 403, 'Forbidden');
+    }
+
+    // WebSocket clients in the browser cannot send headers, so the session comes in the query string.
+    // Only sessions created through interview setup may stream, so made-up IDs cannot dodge the per-session cap.
+    const sessionId = url.searchParams.get('sessionId');
+    if (!isValidSessionId(sessionId)) {
+      return rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+
+    try {
+      if (!(await getSessionStore().get(sessionId))) {
+        return rejectUpgrade(socket, 401, 'Unauthorized');
+      }
+    } catch (error) {
+      console.error('Failed to look up session for STT stream:', error);
+      return rejectUpgrade(socket, 500, 'Internal Server Error');
+    }
+
+    const open = openStreams.get(sessionId) || 0;
+    if (open >= MAX_STREAMS_PER_SESSION) {
+      console.warn(`⚠️ Session ${sessionId} already has ${open} open STT streams`);
+      return rejectUpgrade(socket, 429, 'Too Many Requests');
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      openStreams.set(sessionId, (openStreams.get(sessionId) || 0) + 1);
+      ws.on('close', () => {
+        const remaining = (openStreams.get(sessionId) || 1) - 1;
+        if (remaining > 0) {
+          openStreams.set(sessionId, remaining);
+        } else {
+          openStreams.delete(sessionId);
+        }
+      });
+      handleConnection(ws);
+    });
+  });
+
+  return wss;
+}
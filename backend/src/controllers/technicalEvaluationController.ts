@@ -1,9 +1,11 @@
 import { Request, Response } from 'express';
 import { getTechnicalEvaluator } from '../services/technicalEvaluatorService';
 import type { TechnicalEvaluationResult, EvaluationConfig } from '../services/technicalEvaluatorService';
+import { StructuredOutputError } from '../services/llm';
+import { getQuestionBank, isQuestionDifficulty, QUESTION_DIFFICULTIES } from '../services/questionBankService';
 
 /**
- * Controller for technical question evaluation using Cohere embeddings
+ * Controller for technical question evaluation using semantic embeddings
  */
 
 /**
@@ -24,6 +26,8 @@ export const initializeEvaluator = async (req: Request, res: Response) => {
       message: 'Technical evaluator initialized successfully',
       data: {
         questionCount: status.questionCount,
+        embeddingProvider: status.embeddingProvider,
+        embeddingModel: status.embeddingModel,
         embeddingDimension: status.embeddingDimension,
         config: status.config
       }
@@ -94,6 +98,10 @@ export const evaluateTechnicalAnswer = async (req: Request, res: Response) => {
 
   } catch (error) {
     console.error('❌ Technical answer evaluation failed:', error);
+
+    if (error instanceof StructuredOutputError) {
+      return res.status(502).json(error.toResponse('Failed to evaluate technical answer'));
+    }
     
     if (error instanceof Error && error.message.includes('not found')) {
       return res.status(404).json({
@@ -208,8 +216,7 @@ export const getTechnicalQuestion = async (req: Request, res: Response) => {
       });
     }
 
-    const evaluator = getTechnicalEvaluator();
-    const question = evaluator.getQuestion(questionId);
+    const question = await getQuestionBank().get(questionId);
 
     if (!question) {
       return res.status(404).json({
@@ -219,13 +226,10 @@ export const getTechnicalQuestion = async (req: Request, res: Response) => {
       });
     }
 
-    // Return question without embedding for security
-    const { embedding, ...questionData } = question;
-
     res.json({
       success: true,
       message: 'Question retrieved successfully',
-      data: questionData
+      data: question
     });
 
   } catch (error) {
@@ -239,21 +243,26 @@ export const getTechnicalQuestion = async (req: Request, res: Response) => {
 };
 
 /**
- * Get all technical questions
- * GET /api/technical/questions
+ * Get all technical questions, optionally filtered
+ * GET /api/technical/questions?role=&difficulty=easy|medium|hard
  */
 export const getAllTechnicalQuestions = async (req: Request, res: Response) => {
   try {
-    const { role } = req.query;
-    
-    const evaluator = getTechnicalEvaluator();
-    
-    let questions;
-    if (role && typeof role === 'string') {
-      questions = evaluator.getQuestionsByRole(role);
-    } else {
-      questions = evaluator.getAllQuestions();
+    const { role, difficulty } = req.query;
+
+    if (difficulty !== undefined && !isQuestionDifficulty(difficulty)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid difficulty',
+        error: `Difficulty must be one of: ${QUESTION_DIFFICULTIES.join(', ')}`
+      });
     }
+    
+    // Read from the question bank so questions are listed even before the evaluator is initialized
+    const questions = await getQuestionBank().list({
+      role: typeof role === 'string' ? role : undefined,
+      difficulty
+    });
 
     res.json({
       success: true,
@@ -261,7 +270,8 @@ export const getAllTechnicalQuestions = async (req: Request, res: Response) => {
       data: {
         questions,
         total: questions.length,
-        role: role || 'all'
+        role: role || 'all',
+        difficulty: difficulty || 'all'
       }
     });
 
@@ -1,52 +1,64 @@
 import { Request, Response } from "express";
 import axios from "axios";
+import { getTtsService } from "../services/ttsService";
+import {
+  buildClosingScript,
+  buildIntroductionScript,
+  buildQuestionScript,
+  buildWrapUpScript,
+  getInterviewerStyles
+} from "../services/interviewerScriptService";
+import { getInterviewTemplate } from "../services/interviewTemplateService";
+import type { QuestionSpeechContext } from "../types/tts.types";
+
+/**
+ * Log the Google error body as well - it explains rejected voices and quota problems
+ */
+const logTtsError = (label: string, error: unknown) => {
+  console.error(`${label}:`, error);
+
+  if (axios.isAxiosError(error)) {
+    console.error("Axios error response:", error.response?.data);
+    console.error("Axios error status:", error.response?.status);
+  }
+};
 
-export const testTTS = async (req: Request, res: Response) => {
-  try {
-    const API_KEY = process.env.GOOGLE_TTS_API_KEY;
-    
-    if (!API_KEY) {
-      throw new Error("Google TTS API key not found in environment variables");
-    }
-
-
-    const text = "Hello! Welcome to your interview. My name is Prepper, and I’ll be asking you a few questions today.";
-
+const QUESTION_CATEGORIES = ["behavioral", "technical"] as const;
 
-    // Call Google TTS REST API
-    const response = await axios.post(
-      `https://texttospeech.googleapis.com/v1/text:synthesize?key=${API_KEY}`,
-      {
-        input: { text },
-        voice: { languageCode: "en-US", 
-                  name: "en-US-Chirp3-HD-Sadaltager",    // change voice 
-                  ssmlGender: "MALE" },
-        audioConfig: { audioEncoding: "MP3" },
-      }
-    );
+/**
+ * Keep only well-formed question context fields - anything else just drops the transition
+ */
+const parseQuestionContext = (context: any): QuestionSpeechContext | undefined => {
+  if (!context || typeof context !== "object") {
+    return undefined;
+  }
 
+  const parsed: QuestionSpeechContext = {
+    kind: context.kind === "followUp" ? "followUp" : "question"
+  };
+  if (QUESTION_CATEGORIES.includes(context.category)) parsed.category = context.category;
+  if (QUESTION_CATEGORIES.includes(context.previousCategory)) parsed.previousCategory = context.previousCategory;
+  if (Number.isInteger(context.questionNumber) && context.questionNumber > 0) parsed.questionNumber = context.questionNumber;
+  if (Number.isInteger(context.totalQuestions) && context.totalQuestions > 0) parsed.totalQuestions = context.totalQuestions;
 
-    const audioContent = response.data.audioContent;
+  return parsed;
+};
 
-    if (!audioContent) {
-      console.error("No audioContent in response:", response.data);
-      throw new Error("No audio returned from TTS API");
-    }
+export const testTTS = async (req: Request, res: Response) => {
+  try {
+    const text = "Hello! Welcome to your interview. My name is Prepper, and I’ll be asking you a few questions today.";
 
+    const { audioContent, cached } = await getTtsService().synthesize(text);
 
     // Return base64 audio to frontend
     res.json({
       message: "TTS synthesis successful",
       audioContent,
+      cached
     });
   } catch (error) {
-    console.error("TTS Error:", error);
-    
-    if (axios.isAxiosError(error)) {
-      console.error("Axios error response:", error.response?.data);
-      console.error("Axios error status:", error.response?.status);
-    }
-    
+    logTtsError("TTS Error", error);
+
     res.status(500).json({
       message: "TTS synthesis failed",
       error: (error as Error).message,
@@ -54,16 +66,35 @@ export const testTTS = async (req: Request, res: Response) => {
   }
 };
 
-export const generateIntroduction = async (req: Request, res: Response) => {
+/**
+ * List the interviewer voices, speaking rate range and interviewer styles offered on the setup page
+ */
+export const listVoices = async (req: Request, res: Response) => {
   try {
-    const API_KEY = process.env.GOOGLE_TTS_API_KEY;
-    
-    if (!API_KEY) {
-      throw new Error("Google TTS API key not found in environment variables");
-    }
+    const ttsService = getTtsService();
+    const catalog = ttsService.getCatalog();
 
+    res.json({
+      message: "TTS voices retrieved successfully",
+      voices: catalog.voices,
+      speakingRate: catalog.speakingRate,
+      styles: getInterviewerStyles().map(({ id, name, description }) => ({ id, name, description })),
+      defaultPersona: ttsService.getDefaultPersona()
+    });
+  } catch (error) {
+    console.error("TTS voices error:", error);
+
+    res.status(500).json({
+      message: "Failed to retrieve TTS voices",
+      error: (error as Error).message,
+    });
+  }
+};
+
+export const generateIntroduction = async (req: Request, res: Response) => {
+  try {
     // Extract parameters from request body
-    const { position, company, interviewerName } = req.body;
+    const { position, company, interviewerName, persona, templateId } = req.body;
 
     // Validate required parameters
     if (!position || !company || !interviewerName) {
@@ -73,49 +104,24 @@ export const generateIntroduction = async (req: Request, res: Response) => {
       });
     }
 
-    // Generate personalized introduction text
-    const introText = `Hi! Welcome to your interview for the ${position} position at ${company}. My name is ${interviewerName}, and I'll be asking you a few questions today. Let's begin with some behavioral questions to better understand your experience and approach to different situations.`;
-
-
-    // Call Google TTS REST API
-    const response = await axios.post(
-      `https://texttospeech.googleapis.com/v1/text:synthesize?key=${API_KEY}`,
-      {
-        input: { text: introText },
-        voice: { 
-          languageCode: "en-US", 
-          name: "en-US-Chirp3-HD-Sadaltager",
-          ssmlGender: "MALE" 
-        },
-        audioConfig: { 
-            audioEncoding: "MP3",
-            speakingRate: 1.0, // 1.0 is normal
-        },
-      }
-    );
-
-    const audioContent = response.data.audioContent;
-
-    if (!audioContent) {
-      console.error("No audioContent in response:", response.data);
-      throw new Error("No audio returned from TTS API");
-    }
+    // Generate personalized introduction in the interviewer's style, with the agenda of the
+    // interview template (missing or unknown ids fall back to the default template)
+    const ttsService = getTtsService();
+    const { style } = ttsService.resolvePersona(persona);
+    const script = buildIntroductionScript({ position, company, interviewerName }, getInterviewTemplate(templateId), style);
 
+    const { audioContent, cached } = await ttsService.synthesize(script, persona);
 
     // Return base64 audio to frontend
     res.json({
       message: "Introduction TTS synthesis successful",
       audioContent,
-      introText
+      introText: script.text,
+      cached
     });
   } catch (error) {
-    console.error("Introduction TTS Error:", error);
-    
-    if (axios.isAxiosError(error)) {
-      console.error("Axios error response:", error.response?.data);
-      console.error("Axios error status:", error.response?.status);
-    }
-    
+    logTtsError("Introduction TTS Error", error);
+
     res.status(500).json({
       message: "Introduction TTS synthesis failed",
       error: (error as Error).message,
@@ -125,14 +131,8 @@ export const generateIntroduction = async (req: Request, res: Response) => {
 
 export const askQuestion = async (req: Request, res: Response) => {
   try {
-    const API_KEY = process.env.GOOGLE_TTS_API_KEY;
-    
-    if (!API_KEY) {
-      throw new Error("Google TTS API key not found in environment variables");
-    }
-
-    // Extract question from request body
-    const { question } = req.body;
+    // Extract question and its place in the interview from request body
+    const { question, persona, context } = req.body;
 
     // Validate required parameter
     if (!question || typeof question !== 'string') {
@@ -143,49 +143,92 @@ export const askQuestion = async (req: Request, res: Response) => {
       });
     }
 
+    // Lead into the question with the interviewer's transition for this point in the interview
+    const ttsService = getTtsService();
+    const { style } = ttsService.resolvePersona(persona);
+    const script = buildQuestionScript(question, parseQuestionContext(context), style);
 
-    // Call Google TTS REST API
-    const response = await axios.post(
-      `https://texttospeech.googleapis.com/v1/text:synthesize?key=${API_KEY}`,
-      {
-        input: { text: question },
-        voice: { 
-          languageCode: "en-US", 
-          name: "en-US-Chirp3-HD-Sadaltager",
-          ssmlGender: "MALE" 
-        },
-        audioConfig: { 
-            audioEncoding: "MP3",
-            speakingRate: 1.0, // 1.0 is normal
-         },
-      }
-    );
-
-    const audioContent = response.data.audioContent;
-
-    if (!audioContent) {
-      console.error("No audioContent in response:", response.data);
-      throw new Error("No audio returned from TTS API");
-    }
-
+    const { audioContent, cached } = await ttsService.synthesize(script, persona);
 
     // Return base64 audio to frontend
     res.json({
       message: "Question TTS synthesis successful",
       audioContent,
-      question
+      question,
+      spokenText: script.text,
+      cached
     });
   } catch (error) {
-    console.error("Question TTS Error:", error);
-    
-    if (axios.isAxiosError(error)) {
-      console.error("Axios error response:", error.response?.data);
-      console.error("Axios error status:", error.response?.status);
-    }
-    
+    logTtsError("Question TTS Error", error);
+
     res.status(500).json({
       message: "Question TTS synthesis failed",
       error: (error as Error).message,
     });
   }
 };
+
+export const generateWrapUp = async (req: Request, res: Response) => {
+  try {
+    const { persona } = req.body;
+
+    // Ask the candidate to wrap up in the interviewer's style
+    const ttsService = getTtsService();
+    const { style } = ttsService.resolvePersona(persona);
+    const script = buildWrapUpScript(style);
+
+    const { audioContent, cached } = await ttsService.synthesize(script, persona);
+
+    // Return base64 audio to frontend
+    res.json({
+      message: "Wrap-up TTS synthesis successful",
+      audioContent,
+      wrapUpText: script.text,
+      cached
+    });
+  } catch (error) {
+    logTtsError("Wrap-up TTS Error", error);
+
+    res.status(500).json({
+      message: "Wrap-up TTS synthesis failed",
+      error: (error as Error).message,
+    });
+  }
+};
+
+export const generateClosing = async (req: Request, res: Response) => {
+  try {
+    // Extract parameters from request body
+    const { position, company, interviewerName, persona } = req.body;
+
+    // Validate required parameters
+    if (!position || !company || !interviewerName) {
+      return res.status(400).json({
+        message: "Missing required parameters",
+        required: ["position", "company", "interviewerName"]
+      });
+    }
+
+    // Sign off in the interviewer's style
+    const ttsService = getTtsService();
+    const { style } = ttsService.resolvePersona(persona);
+    const script = buildClosingScript({ position, company, interviewerName }, style);
+
+    const { audioContent, cached } = await ttsService.synthesize(script, persona);
+
+    // Return base64 audio to frontend
+    res.json({
+      message: "Closing TTS synthesis successful",
+      audioContent,
+      closingText: script.text,
+      cached
+    });
+  } catch (error) {
+    logTtsError("Closing TTS Error", error);
+
+    res.status(500).json({
+      message: "Closing TTS synthesis failed",
+      error: (error as Error).message,
+    });
+  }
+};
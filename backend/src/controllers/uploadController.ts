@@ -2,6 +2,11 @@ import { Request, Response } from 'express';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import multer from 'multer';
+import { getSessionStore, isValidSessionId } from '../services/sessionStore';
+import { getTtsService } from '../services/ttsService';
+import { isInterviewTemplate } from '../services/interviewTemplateService';
+import { normalizeResumeProfile } from '../services/resumeParserService';
+import type { SessionStatus, SessionUpdate, SessionUpload, UploadType } from '../types/session.types';
 
 // Configure multer for file uploads
 const upload = multer({ 
@@ -14,15 +19,47 @@ const upload = multer({
 // Export multer middleware for use in routes
 export const uploadMiddleware = upload.single('file');
 
-// In-memory session storage (in production, use Redis or database)
-const sessions = new Map<string, any>();
+const sessionStore = getSessionStore();
+
+const UPLOAD_TYPES: UploadType[] = ['resume', 'jobDescription', 'companyInfo', 'otherInfo'];
+
+function isUploadType(type: unknown): type is UploadType {
+  return typeof type === 'string' && (UPLOAD_TYPES as string[]).includes(type);
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Store an upload on the session, creating the session on first upload.
+ * A new resume makes the parsed profile stale unless it is the same text.
+ */
+async function storeUpload(sessionId: string, type: UploadType, upload: SessionUpload): Promise<void> {
+  const session = await sessionStore.getOrCreate(sessionId);
+  const changed = session.uploads[type]?.content !== upload.content;
+  if (type === 'resume' && changed) {
+    delete session.resumeProfile;
+  }
+  // The coverage report compares the resume with the job description
+  if ((type === 'resume' || type === 'jobDescription') && changed) {
+    delete session.gapAnalysis;
+  }
+  session.uploads[type] = upload;
+  await sessionStore.save(session);
+}
 
 /**
  * Handle text input processing
  */
 export const uploadText = async (req: Request, res: Response) => {
   try {
-    const { text, type } = req.body;
+    const { text, type, postingUrl } = req.body;
     const sessionId = req.headers['x-session-id'] as string;
 
     if (!text || typeof text !== 'string') {
@@ -33,7 +70,7 @@ export const uploadText = async (req: Request, res: Response) => {
       });
     }
 
-    if (!sessionId) {
+    if (!isValidSessionId(sessionId)) {
       return res.status(400).json({
         success: false,
         message: 'Session ID required',
@@ -41,6 +78,23 @@ export const uploadText = async (req: Request, res: Response) => {
       });
     }
 
+    if (!isUploadType(type)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid content type',
+        error: `Type must be one of: ${UPLOAD_TYPES.join(', ')}`
+      });
+    }
+
+    // Job descriptions filled in from a job brief keep the posting they came from
+    if (postingUrl !== undefined && (type !== 'jobDescription' || !isHttpUrl(postingUrl))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid posting URL',
+        error: 'postingUrl must be an http(s) URL and is only accepted for job descriptions'
+      });
+    }
+
     // Set character limits based on content type
     const isResume = type === 'resume';
     const maxLength = isResume ? 10000 : 20000;
@@ -57,16 +111,12 @@ export const uploadText = async (req: Request, res: Response) => {
     const content = text.trim();
 
     // Store in session
-    if (!sessions.has(sessionId)) {
-      sessions.set(sessionId, { uploads: {} });
-    }
-    
-    const session = sessions.get(sessionId);
-    session.uploads[type] = {
+    await storeUpload(sessionId, type, {
       method: 'text',
       content,
+      ...(postingUrl && { postingUrl }),
       uploadedAt: new Date().toISOString()
-    };
+    });
 
     res.json({
       success: true,
@@ -229,7 +279,7 @@ export const uploadUrl = async (req: Request, res: Response) => {
       });
     }
 
-    if (!sessionId) {
+    if (!isValidSessionId(sessionId)) {
       return res.status(400).json({
         success: false,
         message: 'Session ID required',
@@ -237,21 +287,24 @@ export const uploadUrl = async (req: Request, res: Response) => {
       });
     }
 
+    if (!isUploadType(type)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid content type',
+        error: `Type must be one of: ${UPLOAD_TYPES.join(', ')}`
+      });
+    }
+
     // Extract content from URL
     const content = await extractUrlContent(url, type);
 
     // Store in session
-    if (!sessions.has(sessionId)) {
-      sessions.set(sessionId, { uploads: {} });
-    }
-    
-    const session = sessions.get(sessionId);
-    session.uploads[type] = {
+    await storeUpload(sessionId, type, {
       method: 'url',
       content,
       url,
       uploadedAt: new Date().toISOString()
-    };
+    });
 
     res.json({
       success: true,
@@ -439,7 +492,7 @@ export const uploadFile = async (req: Request, res: Response) => {
     const sessionId = req.headers['x-session-id'] as string;
 
 
-    if (!sessionId) {
+    if (!isValidSessionId(sessionId)) {
       return res.status(400).json({
         success: false,
         message: 'Session ID required',
@@ -447,6 +500,14 @@ export const uploadFile = async (req: Request, res: Response) => {
       });
     }
 
+    if (!isUploadType(type)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid content type',
+        error: `Type must be one of: ${UPLOAD_TYPES.join(', ')}`
+      });
+    }
+
     // Check if file was uploaded
     if (!req.file) {
       return res.status(400).json({
@@ -491,13 +552,8 @@ export const uploadFile = async (req: Request, res: Response) => {
     });
     
 
-    // Store in session with detailed logging
-    if (!sessions.has(sessionId)) {
-      sessions.set(sessionId, { uploads: {} });
-    }
-    
-    const session = sessions.get(sessionId);
-    const uploadData = {
+    // Store in session
+    const uploadData: SessionUpload = {
       method: 'file',
       content,
       filename,
@@ -511,7 +567,7 @@ export const uploadFile = async (req: Request, res: Response) => {
       }
     };
     
-    session.uploads[type] = uploadData;
+    await storeUpload(sessionId, type, uploadData);
     
     
     // Log session content for verification
@@ -542,14 +598,14 @@ export const getSession = async (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
 
-    if (!sessions.has(sessionId)) {
+    const session = await sessionStore.get(sessionId);
+    if (!session) {
       return res.status(404).json({
         success: false,
         message: 'Session not found'
       });
     }
 
-    const session = sessions.get(sessionId);
     res.json(session);
 
   } catch (error) {
@@ -562,22 +618,58 @@ export const getSession = async (req: Request, res: Response) => {
   }
 };
 
+const SESSION_STATUSES: SessionStatus[] = ['setup', 'ready', 'in-progress', 'completed'];
+
+function isSessionStatus(status: unknown): status is SessionStatus {
+  return typeof status === 'string' && (SESSION_STATUSES as string[]).includes(status);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keep only the session fields clients are allowed to write
+ */
+function pickSessionUpdate(body: unknown): SessionUpdate {
+  const update: SessionUpdate = {};
+  if (!isRecord(body)) {
+    return update;
+  }
+
+  if (isSessionStatus(body.status)) update.status = body.status;
+  if (Array.isArray(body.processedContent)) update.processedContent = body.processedContent as SessionUpdate['processedContent'];
+  if (isRecord(body.questions) && Array.isArray(body.questions.behavioral)) update.questions = body.questions as SessionUpdate['questions'];
+  if (typeof body.position === 'string') update.position = body.position;
+  if (typeof body.company === 'string') update.company = body.company;
+  if (isRecord(body.interviewer)) update.interviewer = getTtsService().resolvePersona(body.interviewer);
+  if (isInterviewTemplate(body.templateId)) update.templateId = body.templateId;
+  if (body.resumeProfile) {
+    const resumeProfile = normalizeResumeProfile(body.resumeProfile);
+    if (resumeProfile) update.resumeProfile = resumeProfile;
+  }
+  if (body.data !== undefined) update.data = body.data;
+
+  return update;
+}
+
 /**
  * Update session data
  */
 export const updateSession = async (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
-    const sessionData = req.body;
 
-    // Update or create session
-    if (sessions.has(sessionId)) {
-      const existingSession = sessions.get(sessionId);
-      sessions.set(sessionId, { ...existingSession, ...sessionData });
-    } else {
-      sessions.set(sessionId, sessionData);
+    if (!isValidSessionId(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid session ID'
+      });
     }
 
+    // Update or create session
+    await sessionStore.update(sessionId, pickSessionUpdate(req.body));
+
     res.json({
       success: true,
       message: 'Session updated successfully'
@@ -13,6 +13,10 @@ import interviewRoutes from './routes/interviewRoutes';
 import behavGraderRoutes from './routes/behavGraderRoutes';
 import jobBriefRoutes from './routes/jobBriefRoutes';
 import technicalEvaluationRoutes from './routes/technicalEvaluationRoutes';
+import interviewHistoryRoutes from './routes/interviewHistoryRoutes';
+import mediaRoutes from './routes/mediaRoutes';
+import { attachSttStreamServer } from './controllers/sttStreamController';
+import { getSttJobQueue } from './services/stt/sttJobQueue';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -30,6 +34,8 @@ app.use('/api/interview', interviewRoutes);
 app.use('/api/behav-grader', behavGraderRoutes);
 app.use("/api/tavily", jobBriefRoutes);
 app.use('/api/technical', technicalEvaluationRoutes);
+app.use('/api/interviews', interviewHistoryRoutes);
+app.use('/api/media', mediaRoutes);
 
 
 
@@ -43,6 +49,14 @@ app.get('/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`Server running at http://localhost:${PORT}`);
 });
+
+// Streaming speech-to-text shares the HTTP server (WebSocket upgrade on /api/stt/stream)
+attachSttStreamServer(server);
+
+// Resume transcription jobs left queued or running by the previous process
+getSttJobQueue().start().catch(error => {
+  console.error('❌ Failed to start transcription job queue:', error);
+});
@@ -16,3 +16,27 @@ export const authMiddleware = async (req: Request & { user?: any }, res: Respons
   req.user = data.user;
   next();
 };
+
+function envList(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map(value => value.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Only lets administrators through - must run after authMiddleware.
+ * A user is an administrator if their id or email is listed in ADMIN_USER_IDS / ADMIN_EMAILS,
+ * or their Supabase app_metadata role is "admin".
+ */
+export const adminMiddleware = (req: Request & { user?: any }, res: Response, next: NextFunction) => {
+  const user = req.user;
+  if (!user) return res.status(401).json({ error: 'No token provided' });
+
+  const isAdmin = user.app_metadata?.role === 'admin'
+    || envList('ADMIN_USER_IDS').includes(String(user.id).toLowerCase())
+    || (typeof user.email === 'string' && envList('ADMIN_EMAILS').includes(user.email.toLowerCase()));
+
+  if (!isAdmin) return res.status(403).json({ error: 'Administrator access required' });
+  next();
+};
@@ -1,8 +1,9 @@
 import { Router } from 'express';
-import { gradeBehavioral } from '../controllers/behavGraderController';
+import { gradeBehavioral, getRubric } from '../controllers/behavGraderController';
 
 const router = Router();
 
 router.post('/grade', gradeBehavioral);
+router.get('/rubric', getRubric);
 
 export default router;
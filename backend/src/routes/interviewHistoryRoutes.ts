@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { saveInterview, listInterviews, getInterview } from '../controllers/interviewHistoryController';
+
+const router = Router();
+
+// Every history route belongs to the authenticated Supabase user
+router.use(authMiddleware);
+
+router.post('/', saveInterview);
+router.get('/', listInterviews);
+router.get('/:id', getInterview);
+
+export default router;
@@ -2,6 +2,10 @@ import { Router } from 'express';
 import { uploadText, uploadUrl, uploadFile, getSession, updateSession, uploadMiddleware } from '../controllers/uploadController';
 import { generateQuestions } from '../controllers/geminiController';
 import { selectTechnicalQuestions } from '../controllers/technicalSelectorController';
+import { requestFollowUp, startInterviewRun } from '../controllers/followUpController';
+import { listInterviewTemplates } from '../controllers/interviewTemplateController';
+import { parseResumeProfile } from '../controllers/resumeController';
+import { analyzeResumeGaps } from '../controllers/gapAnalysisController';
 
 const router = Router();
 
@@ -18,15 +22,32 @@ router.post('/upload/url', uploadUrl);
 // File upload endpoint with multer middleware for PDF processing
 router.post('/upload/file', uploadMiddleware, uploadFile);
 
+// Parse the resume into a structured profile for review
+router.post('/resume/parse', parseResumeProfile);
+
+// Compare the resume against the job description (coverage matrix)
+router.post('/gap-analysis', analyzeResumeGaps);
+
+/**
+ * Interview format routes
+ */
+router.get('/templates', listInterviewTemplates);
+
 /**
  * Question generation route
  */
 router.post('/generate-questions', generateQuestions);
 
 
-// Select two technical questions tailored to the provided job description
+// Select the template's number of technical questions tailored to the provided job description
 router.post('/select-technical-questions', selectTechnicalQuestions);
 
+// Start an interview run - scopes the follow-up budget to one interview
+router.post('/run', startInterviewRun);
+
+// Decide on (and generate) a probing follow-up for the answer just given
+router.post('/follow-up', requestFollowUp);
+
 /**
  * Session management routes
  */
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { mediaUploadMiddleware, uploadMedia, streamMedia } from '../controllers/mediaController';
+
+const router = Router();
+
+// Upload the recording of one answer (multipart, tied to the interview run and question)
+router.post('/', mediaUploadMiddleware, uploadMedia);
+
+// Stream a recording back for replay (supports Range requests)
+router.get('/:id', streamMedia);
+
+export default router;
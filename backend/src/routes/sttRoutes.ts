@@ -1,15 +1,16 @@
 import { Router } from 'express';
-import { transcribeAudio, transcribeChunk, testSTT } from '../controllers/sttController';
+import { createTranscriptionJob, getTranscriptionJob, streamTranscriptionJobEvents, testSTT } from '../controllers/sttController';
 
 const router = Router();
 
 // Define the STT test route
 router.get('/test', testSTT);
 
-// Define the transcription route for full audio
-router.post('/transcribe', transcribeAudio);
+// Full recordings are transcribed by a persistent job queue - poll the job or subscribe to its events
+router.post('/jobs', createTranscriptionJob);
+router.get('/jobs/:id', getTranscriptionJob);
+router.get('/jobs/:id/events', streamTranscriptionJobEvents);
 
-// Define the chunk transcription route for 30-second chunks
-router.post('/transcribe-chunk', transcribeChunk);
+// Live streaming transcription is served over WebSocket at /api/stt/stream (see sttStreamController)
 
 export default router;
@@ -8,6 +8,14 @@ import {
   getEvaluatorStatus,
   healthCheck
 } from '../controllers/technicalEvaluationController';
+import {
+  createQuestion,
+  updateQuestion,
+  deleteQuestion,
+  importQuestions,
+  exportQuestions
+} from '../controllers/questionBankController';
+import { authMiddleware, adminMiddleware } from '../middleware/authMiddleware';
 
 const router = Router();
 
@@ -25,8 +33,15 @@ router.get('/status', getEvaluatorStatus);
 
 // Question management
 router.get('/questions', getAllTechnicalQuestions);
+router.get('/questions/export', exportQuestions); // Must precede /questions/:id
 router.get('/questions/:id', getTechnicalQuestion);
 
+// Question bank editing (administrators only)
+router.post('/questions', authMiddleware, adminMiddleware, createQuestion);
+router.post('/questions/import', authMiddleware, adminMiddleware, importQuestions);
+router.put('/questions/:id', authMiddleware, adminMiddleware, updateQuestion);
+router.delete('/questions/:id', authMiddleware, adminMiddleware, deleteQuestion);
+
 // Answer evaluation
 router.post('/evaluate', evaluateTechnicalAnswer);
 router.post('/evaluate-batch', evaluateBatchTechnicalAnswers);
@@ -1,15 +1,24 @@
 import { Router } from 'express';
-import { testTTS, generateIntroduction, askQuestion } from '../controllers/ttsController';
+import { testTTS, listVoices, generateIntroduction, askQuestion, generateWrapUp, generateClosing } from '../controllers/ttsController';
 
 const router = Router();
 
 // Define the TTS test route
 router.get('/test', testTTS);
 
+// Define the interviewer voice catalog route
+router.get('/voices', listVoices);
+
 // Define the introduction generation route
 router.post('/introduction', generateIntroduction);
 
 // Define the question TTS route
 router.post('/question', askQuestion);
 
+// Define the answer wrap-up warning route
+router.post('/wrap-up', generateWrapUp);
+
+// Define the interview closing route
+router.post('/closing', generateClosing);
+
 export default router;
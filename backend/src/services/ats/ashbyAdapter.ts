@@ -0,0 +1,45 @@
+import type { AtsPosting } from '../../types/ats.types';
+import { type AtsAdapter, extractRequirements, getJson, htmlToText, pathSegments } from './atsAdapter';
+
+interface AshbyJobBoard {
+  jobs?: {
+    id: string;
+    title?: string;
+    location?: string;
+    isRemote?: boolean;
+    workplaceType?: string;
+    descriptionHtml?: string;
+  }[];
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * jobs.ashbyhq.com/{organization}/{jobId} via the public Posting API, which lists the whole board
+ */
+export class AshbyAdapter implements AtsAdapter {
+  readonly provider = 'ashby' as const;
+
+  matches(url: URL): boolean {
+    return url.hostname === 'jobs.ashbyhq.com' && UUID.test(pathSegments(url)[1] || '');
+  }
+
+  async fetchPosting(url: URL): Promise<AtsPosting> {
+    const [organization, jobId] = pathSegments(url);
+    const board = await getJson<AshbyJobBoard>(`https://api.ashbyhq.com/posting-api/job-board/${organization}`);
+    const job = board.jobs?.find(candidate => candidate.id.toLowerCase() === jobId.toLowerCase());
+    if (!job?.title || !job.descriptionHtml) {
+      throw new Error(`Ashby job ${organization}/${jobId} is not on the job board`);
+    }
+
+    return {
+      provider: this.provider,
+      url: url.toString(),
+      title: job.title.trim(),
+      location: job.location?.trim() || undefined,
+      remote: job.isRemote || job.workplaceType === 'Remote' || undefined,
+      description: htmlToText(job.descriptionHtml),
+      requirements: extractRequirements(job.descriptionHtml)
+    };
+  }
+}
@@ -0,0 +1,211 @@
+import * as cheerio from 'cheerio';
+import type { AtsPosting, AtsProvider } from '../../types/ats.types';
+
+const REQUEST_TIMEOUT_MS = 12_000;
+
+// Headings that introduce the qualifications list of a posting
+const REQUIREMENTS_HEADING = /\b(?:requirements|qualifications|what you.?ll need|what we.?re looking for|you have|you bring|must haves?|skills)\b/i;
+
+/**
+ * Contract every ATS adapter implements
+ */
+export interface AtsAdapter {
+  readonly provider: AtsProvider;
+  /** Whether the URL is a job posting page on this ATS */
+  matches(url: URL): boolean;
+  /** Fetch and normalize the posting - throws if the ATS API fails or has no such posting */
+  fetchPosting(url: URL): Promise<AtsPosting>;
+}
+
+/**
+ * Send ATS requests to a local stub when ATS_STUB_URL is set, e.g.
+ * https://api.lever.co/v0/postings/x -> http://localhost:4010/api.lever.co/v0/postings/x
+ */
+export function resolveRequestUrl(url: string): string {
+  const stub = process.env.ATS_STUB_URL?.replace(/\/+$/, '');
+  if (!stub) {
+    return url;
+  }
+  const target = new URL(url);
+  return `${stub}/${target.host}${target.pathname}${target.search}`;
+}
+
+async function request(url: string, accept: string): Promise<Response> {
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(resolveRequestUrl(url), {
+      headers: { Accept: accept, 'User-Agent': 'pitch-ai/1.0' },
+      signal: ctrl.signal
+    });
+    if (!response.ok) {
+      throw new Error(`${url} ${response.status}`);
+    }
+    return response;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function getJson<T>(url: string): Promise<T> {
+  return (await (await request(url, 'application/json')).json()) as T;
+}
+
+export async function getHtml(url: string): Promise<string> {
+  return (await request(url, 'text/html')).text();
+}
+
+function cleanLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Convert posting HTML to plain text with one paragraph, heading or bullet per line
+ */
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style').remove();
+  $('br').replaceWith('\n');
+  $('li').each((_, el) => { $(el).prepend('- '); });
+  $('p, div, li, h1, h2, h3, h4, h5, h6, ul, ol, section').each((_, el) => { $(el).append('\n'); });
+
+  return $.root().text()
+    .split('\n')
+    .map(cleanLine)
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Bullets listed under a requirements-style heading, in document order.
+ * A heading is an h1-h6, or a short p/strong/b outside a list.
+ */
+export function extractRequirements(html: string): string[] {
+  const $ = cheerio.load(html);
+  const requirements: string[] = [];
+  let inRequirements = false;
+
+  $('h1, h2, h3, h4, h5, h6, p, strong, b, li').each((_, el) => {
+    const text = cleanLine($(el).text());
+    if (!text) return;
+
+    if (el.tagName === 'li') {
+      if (inRequirements) requirements.push(text);
+      return;
+    }
+
+    const isHeading = /^h\d$/.test(el.tagName) || ($(el).closest('li').length === 0 && text.length <= 80);
+    if (isHeading) {
+      inRequirements = REQUIREMENTS_HEADING.test(text);
+    }
+  });
+
+  return Array.from(new Set(requirements));
+}
+
+/**
+ * Bullets of a plain-text section, e.g. a SmartRecruiters qualifications block
+ */
+export function splitBullets(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => cleanLine(line.replace(/^[-*•·▪]\s*/, '')))
+    .filter(line => line.length > 0);
+}
+
+export function isRequirementsHeading(text: string): boolean {
+  return REQUIREMENTS_HEADING.test(text);
+}
+
+/**
+ * Path segments of a URL without empty entries
+ */
+export function pathSegments(url: URL): string[] {
+  return url.pathname.split('/').filter(Boolean);
+}
+
+/**
+ * schema.org JobPosting embedded as JSON-LD - used by career sites without a public JSON API
+ */
+interface JobPostingJsonLd {
+  '@type'?: string | string[];
+  title?: string;
+  description?: string;
+  jobLocationType?: string;
+  jobLocation?: JobLocationJsonLd | JobLocationJsonLd[];
+}
+
+interface JobLocationJsonLd {
+  address?: { addressLocality?: string; addressRegion?: string; addressCountry?: string | { name?: string } };
+}
+
+function findJobPosting(value: unknown): JobPostingJsonLd | null {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const posting = findJobPosting(item);
+      if (posting) return posting;
+    }
+    return null;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+  const node = value as JobPostingJsonLd & { '@graph'?: unknown };
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  if (types.includes('JobPosting')) {
+    return node;
+  }
+  return node['@graph'] ? findJobPosting(node['@graph']) : null;
+}
+
+function formatJsonLdLocation(location: JobPostingJsonLd['jobLocation']): string | undefined {
+  const first = Array.isArray(location) ? location[0] : location;
+  const address = first?.address;
+  if (!address) return undefined;
+  const country = typeof address.addressCountry === 'object' ? address.addressCountry?.name : address.addressCountry;
+  const parts = [address.addressLocality, address.addressRegion, country].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+/**
+ * Read a posting from a career page: the JSON-LD JobPosting if the page has one,
+ * otherwise the page title and main text
+ */
+export function parsePostingPage(provider: AtsProvider, url: string, html: string): AtsPosting {
+  const $ = cheerio.load(html);
+
+  for (const script of $('script[type="application/ld+json"]').toArray()) {
+    try {
+      const posting = findJobPosting(JSON.parse($(script).text()));
+      if (posting?.title && posting.description) {
+        return {
+          provider,
+          url,
+          title: cleanLine(posting.title),
+          location: formatJsonLdLocation(posting.jobLocation),
+          remote: posting.jobLocationType === 'TELECOMMUTE' || undefined,
+          description: htmlToText(posting.description),
+          requirements: extractRequirements(posting.description)
+        };
+      }
+    } catch {
+      // Malformed JSON-LD blocks are common - try the next one
+    }
+  }
+
+  const title = cleanLine($('meta[property="og:title"]').attr('content') || $('h1').first().text() || $('title').text());
+  $('script, style, nav, header, footer').remove();
+  const body = $('main').html() || $('body').html() || '';
+  if (!title || !body.trim()) {
+    throw new Error(`${url} has no readable job posting`);
+  }
+
+  return {
+    provider,
+    url,
+    title,
+    description: htmlToText(body),
+    requirements: extractRequirements(body)
+  };
+}
@@ -0,0 +1,41 @@
+import * as cheerio from 'cheerio';
+import type { AtsPosting } from '../../types/ats.types';
+import { type AtsAdapter, extractRequirements, getJson, htmlToText, pathSegments } from './atsAdapter';
+
+interface GreenhouseJob {
+  title?: string;
+  location?: { name?: string };
+  content?: string; // HTML, entity-encoded
+}
+
+/**
+ * boards.greenhouse.io/{board}/jobs/{id} (and job-boards.greenhouse.io) via the public Job Board API
+ */
+export class GreenhouseAdapter implements AtsAdapter {
+  readonly provider = 'greenhouse' as const;
+
+  matches(url: URL): boolean {
+    const [, jobs, id] = pathSegments(url);
+    return /^(?:job-boards|boards)\.greenhouse\.io$/.test(url.hostname) && jobs === 'jobs' && /^\d+$/.test(id || '');
+  }
+
+  async fetchPosting(url: URL): Promise<AtsPosting> {
+    const [board, , id] = pathSegments(url);
+    const job = await getJson<GreenhouseJob>(`https://boards-api.greenhouse.io/v1/boards/${board}/jobs/${id}?content=true`);
+    if (!job.title || !job.content) {
+      throw new Error(`Greenhouse job ${board}/${id} has no content`);
+    }
+
+    // The API returns the description HTML with its entities encoded once more
+    const html = cheerio.load(job.content).text();
+    return {
+      provider: this.provider,
+      url: url.toString(),
+      title: job.title.trim(),
+      location: job.location?.name?.trim() || undefined,
+      remote: /remote/i.test(job.location?.name || '') || undefined,
+      description: htmlToText(html),
+      requirements: extractRequirements(html)
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import type { AtsPosting } from '../../types/ats.types';
+import { type AtsAdapter, getHtml, parsePostingPage, pathSegments } from './atsAdapter';
+
+/**
+ * {portal}.icims.com/jobs/{id}/{slug}/job - iCIMS has no public JSON API, so the
+ * frameless posting page is read for its JSON-LD JobPosting
+ */
+export class IcimsAdapter implements AtsAdapter {
+  readonly provider = 'icims' as const;
+
+  matches(url: URL): boolean {
+    const [jobs, id] = pathSegments(url);
+    return url.hostname.endsWith('.icims.com') && jobs === 'jobs' && /^\d+$/.test(id || '');
+  }
+
+  async fetchPosting(url: URL): Promise<AtsPosting> {
+    const [, id, slug = 'job'] = pathSegments(url);
+    // in_iframe=1 returns the posting without the portal's frame around it
+    const html = await getHtml(`https://${url.host}/jobs/${id}/${slug}/job?in_iframe=1`);
+    return parsePostingPage(this.provider, url.toString(), html);
+  }
+}
@@ -0,0 +1,72 @@
+import type { AtsPosting } from '../../types/ats.types';
+import type { AtsAdapter } from './atsAdapter';
+import { GreenhouseAdapter } from './greenhouseAdapter';
+import { LeverAdapter } from './leverAdapter';
+import { WorkdayAdapter } from './workdayAdapter';
+import { AshbyAdapter } from './ashbyAdapter';
+import { SmartRecruitersAdapter } from './smartRecruitersAdapter';
+import { IcimsAdapter } from './icimsAdapter';
+import { TaleoAdapter } from './taleoAdapter';
+
+export type { AtsAdapter } from './atsAdapter';
+
+/**
+ * Hosts whose job pages an adapter can read, used to rank search results
+ */
+export const ATS_HOSTS = [
+  'myworkdayjobs.com',
+  'greenhouse.io',
+  'lever.co',
+  'ashbyhq.com',
+  'icims.com',
+  'smartrecruiters.com',
+  'taleo.net'
+] as const;
+
+const adapters: AtsAdapter[] = [
+  new GreenhouseAdapter(),
+  new LeverAdapter(),
+  new WorkdayAdapter(),
+  new AshbyAdapter(),
+  new SmartRecruitersAdapter(),
+  new IcimsAdapter(),
+  new TaleoAdapter()
+];
+
+/**
+ * Adapter for a job posting URL, null if no ATS adapter recognizes it
+ */
+export function findAtsAdapter(url: string): AtsAdapter | null {
+  try {
+    const parsed = new URL(url);
+    return adapters.find(adapter => adapter.matches(parsed)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch a structured posting from the ATS behind the URL.
+ * Returns null for non-ATS URLs and when the ATS request fails, so callers can fall back to scraping.
+ */
+export async function fetchAtsPosting(url: string): Promise<AtsPosting | null> {
+  const adapter = findAtsAdapter(url);
+  if (!adapter) {
+    return null;
+  }
+
+  try {
+    return await adapter.fetchPosting(new URL(url));
+  } catch (error) {
+    console.warn(`ATS fetch failed (${adapter.provider}):`, (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Plain-text posting for summarizing: title and location header, then the description
+ */
+export function formatAtsPosting(posting: AtsPosting): string {
+  const header = [posting.title, posting.location, posting.remote ? 'Remote' : undefined].filter(Boolean).join(' - ');
+  return `${header}\n${posting.description}`;
+}
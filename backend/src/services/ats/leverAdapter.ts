@@ -0,0 +1,60 @@
+import type { AtsPosting } from '../../types/ats.types';
+import {
+  type AtsAdapter,
+  extractRequirements,
+  getJson,
+  htmlToText,
+  isRequirementsHeading,
+  pathSegments
+} from './atsAdapter';
+
+interface LeverPosting {
+  text?: string;
+  categories?: { location?: string; commitment?: string; team?: string };
+  workplaceType?: 'onsite' | 'remote' | 'hybrid' | 'unspecified';
+  description?: string; // HTML
+  lists?: { text?: string; content?: string }[]; // Titled sections, content is <li> HTML
+  additional?: string; // HTML
+}
+
+/**
+ * jobs.lever.co/{company}/{postingId} via the public Postings API
+ */
+export class LeverAdapter implements AtsAdapter {
+  readonly provider = 'lever' as const;
+
+  matches(url: URL): boolean {
+    return url.hostname === 'jobs.lever.co' && /^[\w-]{8,}$/.test(pathSegments(url)[1] || '');
+  }
+
+  async fetchPosting(url: URL): Promise<AtsPosting> {
+    const [company, postingId] = pathSegments(url);
+    const posting = await getJson<LeverPosting>(`https://api.lever.co/v0/postings/${company}/${postingId}?mode=json`);
+    if (!posting.text) {
+      throw new Error(`Lever posting ${company}/${postingId} has no title`);
+    }
+
+    const lists = posting.lists || [];
+    const html = [
+      posting.description || '',
+      ...lists.map(list => `<h3>${list.text || ''}</h3><ul>${list.content || ''}</ul>`),
+      posting.additional || ''
+    ].join('\n');
+
+    // Lever keeps qualifications in titled lists; fall back to headings inside the description
+    const requirementLists = lists.filter(list => isRequirementsHeading(list.text || ''));
+    const requirements = requirementLists.length > 0
+      ? requirementLists.flatMap(list => extractRequirements(`<h3>Requirements</h3><ul>${list.content || ''}</ul>`))
+      : extractRequirements(html);
+
+    return {
+      provider: this.provider,
+      url: url.toString(),
+      title: posting.text.trim(),
+      location: posting.categories?.location?.trim() || undefined,
+      remote: posting.workplaceType === 'remote' || undefined,
+      description: htmlToText(html),
+      requirements
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import type { AtsPosting } from '../../types/ats.types';
+import { type AtsAdapter, extractRequirements, getJson, htmlToText, pathSegments } from './atsAdapter';
+
+interface SmartRecruitersSection {
+  title?: string;
+  text?: string; // HTML
+}
+
+interface SmartRecruitersPosting {
+  name?: string;
+  location?: { city?: string; region?: string; country?: string; remote?: boolean; fullLocation?: string };
+  jobAd?: {
+    sections?: {
+      companyDescription?: SmartRecruitersSection;
+      jobDescription?: SmartRecruitersSection;
+      qualifications?: SmartRecruitersSection;
+      additionalInformation?: SmartRecruitersSection;
+    };
+  };
+}
+
+/**
+ * jobs.smartrecruiters.com/{company}/{postingId}-{slug} via the public Posting API
+ */
+export class SmartRecruitersAdapter implements AtsAdapter {
+  readonly provider = 'smartrecruiters' as const;
+
+  matches(url: URL): boolean {
+    return url.hostname === 'jobs.smartrecruiters.com' && /^\d+(?:-|$)/.test(pathSegments(url)[1] || '');
+  }
+
+  async fetchPosting(url: URL): Promise<AtsPosting> {
+    const [company, postingSlug] = pathSegments(url);
+    const postingId = postingSlug.match(/^\d+/)![0];
+    const posting = await getJson<SmartRecruitersPosting>(`https://api.smartrecruiters.com/v1/companies/${company}/postings/${postingId}`);
+    const sections = posting.jobAd?.sections;
+    if (!posting.name || !sections) {
+      throw new Error(`SmartRecruiters posting ${company}/${postingId} has no job ad`);
+    }
+
+    const ordered = [sections.jobDescription, sections.qualifications, sections.additionalInformation]
+      .filter((section): section is SmartRecruitersSection => Boolean(section?.text));
+    const html = ordered.map(section => `<h3>${section.title || ''}</h3>${section.text}`).join('\n');
+
+    // The qualifications section is the requirements list, whatever its own headings say
+    const qualifications = sections.qualifications?.text;
+    const requirements = qualifications
+      ? extractRequirements(`<h3>Qualifications</h3>${qualifications}`)
+      : extractRequirements(html);
+
+    const location = posting.location;
+    return {
+      provider: this.provider,
+      url: url.toString(),
+      title: posting.name.trim(),
+      location: location?.fullLocation || [location?.city, location?.region, location?.country].filter(Boolean).join(', ') || undefined,
+      remote: location?.remote || undefined,
+      description: htmlToText(html),
+      requirements
+    };
+  }
+}
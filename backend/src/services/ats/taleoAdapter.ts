@@ -0,0 +1,24 @@
+import type { AtsPosting } from '../../types/ats.types';
+import { type AtsAdapter, getHtml, parsePostingPage, pathSegments } from './atsAdapter';
+
+/**
+ * {company}.taleo.net/careersection/{section}/jobdetail.ftl?job={id} - Taleo has no public
+ * JSON API, so the job detail page is read (JSON-LD if present, otherwise the page text)
+ */
+export class TaleoAdapter implements AtsAdapter {
+  readonly provider = 'taleo' as const;
+
+  matches(url: URL): boolean {
+    const [careersection, , page] = pathSegments(url);
+    return url.hostname.endsWith('.taleo.net')
+      && careersection === 'careersection'
+      && page === 'jobdetail.ftl'
+      && Boolean(url.searchParams.get('job'));
+  }
+
+  async fetchPosting(url: URL): Promise<AtsPosting> {
+    const [, section] = pathSegments(url);
+    const html = await getHtml(`https://${url.host}/careersection/${section}/jobdetail.ftl?job=${encodeURIComponent(url.searchParams.get('job')!)}`);
+    return parsePostingPage(this.provider, url.toString(), html);
+  }
+}
@@ -0,0 +1,59 @@
+import type { AtsPosting } from '../../types/ats.types';
+import { type AtsAdapter, extractRequirements, getJson, htmlToText, pathSegments } from './atsAdapter';
+
+interface WorkdayJob {
+  jobPostingInfo?: {
+    title?: string;
+    jobDescription?: string; // HTML
+    location?: string;
+    additionalLocations?: string[];
+    remoteType?: string; // e.g. "Fully Remote", "Hybrid"
+  };
+}
+
+// Optional locale segment before the career site name, e.g. /en-US/External/job/...
+const LOCALE_SEGMENT = /^[a-z]{2}-[A-Z]{2}$/;
+
+/**
+ * {tenant}.wd{N}.myworkdayjobs.com/{site}/job/{location}/{title}_{reqId} via the
+ * career site's own CXS JSON endpoint, which mirrors the public page path
+ */
+export class WorkdayAdapter implements AtsAdapter {
+  readonly provider = 'workday' as const;
+
+  private parse(url: URL): { tenant: string; site: string; jobPath: string } | null {
+    if (!url.hostname.endsWith('.myworkdayjobs.com')) return null;
+
+    const segments = pathSegments(url);
+    if (LOCALE_SEGMENT.test(segments[0] || '')) segments.shift();
+
+    const [site, kind, ...rest] = segments;
+    if (!site || (kind !== 'job' && kind !== 'details') || rest.length === 0) return null;
+
+    return { tenant: url.hostname.split('.')[0], site, jobPath: `${kind}/${rest.join('/')}` };
+  }
+
+  matches(url: URL): boolean {
+    return this.parse(url) !== null;
+  }
+
+  async fetchPosting(url: URL): Promise<AtsPosting> {
+    const { tenant, site, jobPath } = this.parse(url)!;
+    const job = await getJson<WorkdayJob>(`https://${url.host}/wday/cxs/${tenant}/${site}/${jobPath.replace(/^details\//, 'job/')}`);
+    const info = job.jobPostingInfo;
+    if (!info?.title || !info.jobDescription) {
+      throw new Error(`Workday job ${tenant}/${site} has no description`);
+    }
+
+    const locations = [info.location, ...(info.additionalLocations || [])].filter(Boolean);
+    return {
+      provider: this.provider,
+      url: url.toString(),
+      title: info.title.trim(),
+      location: locations.length > 0 ? locations.join('; ') : undefined,
+      remote: /remote/i.test(info.remoteType || '') || undefined,
+      description: htmlToText(info.jobDescription),
+      requirements: extractRequirements(info.jobDescription)
+    };
+  }
+}
@@ -1,10 +1,14 @@
 import { CohereClientV2 } from 'cohere-ai';
+import type { EmbeddingInputType } from '../types/embedding.types';
+import { cosineSimilarity, type EmbeddingProvider } from './embeddings/embeddingProvider';
 
 /**
  * Production-quality Cohere embedding service
  * Handles text embedding generation with error handling, retry logic, and performance monitoring
  */
-export class CohereEmbeddingService {
+export class CohereEmbeddingService implements EmbeddingProvider {
+  readonly provider = 'cohere' as const;
+  readonly model: string = 'embed-english-v3.0'; // Latest high-quality embedding model
   private client: CohereClientV2;
   private isInitialized: boolean = false;
   private readonly maxRetries: number = 3;
@@ -47,7 +51,7 @@ export class CohereEmbeddingService {
    */
   async generateEmbedding(
     text: string, 
-    inputType: 'search_document' | 'search_query' | 'classification' | 'clustering' = 'search_document'
+    inputType: EmbeddingInputType = 'search_document'
   ): Promise<number[]> {
     if (!text || text.trim().length === 0) {
       throw new Error('Text cannot be empty');
@@ -61,7 +65,7 @@ export class CohereEmbeddingService {
       try {
         const response = await this.client.embed({
           texts: [cleanText],
-          model: 'embed-english-v3.0', // Latest high-quality embedding model
+          model: this.model,
           inputType: inputType,
           embeddingTypes: ['float']
         });
@@ -108,7 +112,7 @@ export class CohereEmbeddingService {
    */
   async generateBatchEmbeddings(
     texts: string[], 
-    inputType: 'search_document' | 'search_query' | 'classification' | 'clustering' = 'search_document'
+    inputType: EmbeddingInputType = 'search_document'
   ): Promise<number[][]> {
     if (!texts || texts.length === 0) {
       return [];
@@ -130,7 +134,7 @@ export class CohereEmbeddingService {
         // Cohere API supports batch processing
         const response = await this.client.embed({
           texts: validTexts,
-          model: 'embed-english-v3.0',
+          model: this.model,
           inputType: inputType,
           embeddingTypes: ['float']
         });
@@ -167,32 +171,7 @@ export class CohereEmbeddingService {
    * @returns number - Cosine similarity score (0-1)
    */
   static cosineSimilarity(embedding1: number[], embedding2: number[]): number {
-    if (!embedding1 || !embedding2) {
-      throw new Error('Both embeddings must be provided');
-    }
-
-    if (embedding1.length !== embedding2.length) {
-      throw new Error(`Embedding dimensions must match: ${embedding1.length} vs ${embedding2.length}`);
-    }
-
-    let dotProduct = 0;
-    let norm1 = 0;
-    let norm2 = 0;
-
-    for (let i = 0; i < embedding1.length; i++) {
-      dotProduct += embedding1[i] * embedding2[i];
-      norm1 += embedding1[i] * embedding1[i];
-      norm2 += embedding2[i] * embedding2[i];
-    }
-
-    if (norm1 === 0 || norm2 === 0) {
-      return 0; // Handle zero vectors
-    }
-
-    const similarity = dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
-    
-    // Clamp to [0, 1] range and handle floating point precision
-    return Math.max(0, Math.min(1, similarity));
+    return cosineSimilarity(embedding1, embedding2);
   }
 
   /**
@@ -275,7 +254,7 @@ export class CohereEmbeddingService {
   getStatus(): { isInitialized: boolean, model: string, maxRetries: number } {
     return {
       isInitialized: this.isInitialized,
-      model: 'embed-english-v3.0',
+      model: this.model,
       maxRetries: this.maxRetries
     };
   }
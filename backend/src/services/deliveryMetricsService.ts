@@ -0,0 +1,165 @@
+import type { DeliveryMetrics, DeliveryPause } from '../types/delivery.types';
+import type { RecognizedWord } from '../types/stt.types';
+
+const LONG_PAUSE_MS = 2000; // Silences between words at least this long are reported
+const QUESTION_WORDS_PER_MINUTE = 150; // Typical speaking rate used to estimate how long a question took to ask
+const SET_OFF_PAUSE_MS = 300; // A silence at least this long next to a word sets it off from the sentence
+
+// Multi-word fillers are listed as space-separated phrases
+const FILLER_PHRASES = ['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'ah', 'hmm', 'like', 'you know', 'i mean', 'basically', 'literally', 'sort of', 'kind of'];
+
+// "kind of" and "sort of" are only fillers when they are not doing grammatical work
+const NON_FILLER_CONTEXT: Record<string, Set<string>> = {
+  'kind of': new Set(['a', 'the', 'what', 'this', 'that', 'which', 'any', 'every', 'same']),
+  'sort of': new Set(['a', 'the', 'what', 'this', 'that', 'which', 'any', 'every', 'same'])
+};
+
+// "like" is usually grammatical ("I'd like to", "things like caching"), so it only counts
+// when set off on both sides - "it was, like, slow" - by commas or by pauses in the word timings
+const SET_OFF_FILLERS = new Set(['like']);
+
+/**
+ * Transcript word, and whether punctuation (or the start or end of the answer) separates it from its neighbours
+ */
+interface TranscriptToken {
+  text: string;
+  breakBefore: boolean;
+  breakAfter: boolean;
+}
+
+export interface DeliveryMetricsInput {
+  transcript: string;
+  words?: RecognizedWord[];
+  durationMs?: number; // Length of the answer recording, when known
+  question?: string;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) || [];
+}
+
+function tokenizeWithBreaks(text: string): TranscriptToken[] {
+  const parts = text.toLowerCase().match(/[a-z0-9']+|[,.;:!?]/g) || [];
+  const isPunctuation = (part: string | undefined) => part === undefined || /^[,.;:!?]$/.test(part);
+
+  return parts.flatMap((part, i) => isPunctuation(part) ? [] : [{
+    text: part,
+    breakBefore: isPunctuation(parts[i - 1]),
+    breakAfter: isPunctuation(parts[i + 1])
+  }]);
+}
+
+/**
+ * For each timed occurrence of a set-off filler, in order, whether a pause comes before and after it
+ */
+function findSetOffPauses(words: RecognizedWord[]): Record<string, { before: boolean; after: boolean }[]> {
+  const pauses: Record<string, { before: boolean; after: boolean }[]> = {};
+  words.forEach((word, i) => {
+    const text = word.word.toLowerCase().replace(/[^a-z0-9']/g, '');
+    if (!SET_OFF_FILLERS.has(text)) return;
+    (pauses[text] ||= []).push({
+      before: i === 0 || word.startMs - words[i - 1].endMs >= SET_OFF_PAUSE_MS,
+      after: i === words.length - 1 || words[i + 1].startMs - word.endMs >= SET_OFF_PAUSE_MS
+    });
+  });
+  return pauses;
+}
+
+/**
+ * Count filler words and phrases, skipping uses that are part of the sentence.
+ * The nth "like" in the transcript is matched to the nth "like" in the word timings.
+ */
+function countFillers(
+  tokens: TranscriptToken[],
+  setOffPauses: Record<string, { before: boolean; after: boolean }[]> = {}
+): Record<string, number> {
+  const fillers: Record<string, number> = {};
+  const occurrences: Record<string, number> = {};
+
+  for (let i = 0; i < tokens.length; i++) {
+    for (const phrase of FILLER_PHRASES) {
+      const parts = phrase.split(' ');
+      if (parts.some((part, offset) => tokens[i + offset]?.text !== part)) {
+        continue;
+      }
+      if (i > 0 && NON_FILLER_CONTEXT[phrase]?.has(tokens[i - 1].text)) {
+        continue;
+      }
+      if (SET_OFF_FILLERS.has(phrase)) {
+        const occurrence = occurrences[phrase] = (occurrences[phrase] ?? -1) + 1;
+        const pauses = setOffPauses[phrase]?.[occurrence];
+        const setOff = (tokens[i].breakBefore || Boolean(pauses?.before)) && (tokens[i].breakAfter || Boolean(pauses?.after));
+        if (!setOff) {
+          continue;
+        }
+      }
+
+      fillers[phrase] = (fillers[phrase] || 0) + 1;
+      i += parts.length - 1;
+      break;
+    }
+  }
+
+  return fillers;
+}
+
+function findLongPauses(words: RecognizedWord[]): DeliveryPause[] {
+  const pauses: DeliveryPause[] = [];
+  for (let i = 1; i < words.length; i++) {
+    const gap = words[i].startMs - words[i - 1].endMs;
+    if (gap >= LONG_PAUSE_MS) {
+      pauses.push({ startMs: words[i - 1].endMs, durationMs: gap });
+    }
+  }
+  return pauses;
+}
+
+const round = (value: number, decimals: number = 0) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Compute pace, filler, pause and talk-time analytics for one answer.
+ * Word offsets give exact talk time and pauses; without them the recording length stands in for talk time.
+ */
+export function computeDeliveryMetrics({ transcript, words = [], durationMs, question }: DeliveryMetricsInput): DeliveryMetrics {
+  const timedWords = words
+    .filter(word => Number.isFinite(word.startMs) && Number.isFinite(word.endMs))
+    .sort((a, b) => a.startMs - b.startMs);
+  const hasWordTimings = timedWords.length > 0;
+
+  const tokens = tokenizeWithBreaks(transcript);
+  const wordCount = tokens.length;
+
+  const talkTimeMs = hasWordTimings
+    ? Math.max(0, timedWords[timedWords.length - 1].endMs - timedWords[0].startMs)
+    : Math.max(0, durationMs || 0);
+
+  const fillers = countFillers(tokens, findSetOffPauses(timedWords));
+  const fillerCount = Object.values(fillers).reduce((sum, count) => sum + count, 0);
+  const longPauses = hasWordTimings ? findLongPauses(timedWords) : [];
+
+  const metrics: DeliveryMetrics = {
+    wordCount,
+    durationMs: Math.max(durationMs || 0, hasWordTimings ? timedWords[timedWords.length - 1].endMs : 0),
+    talkTimeMs,
+    wordsPerMinute: talkTimeMs > 0 ? Math.round(wordCount / (talkTimeMs / 60000)) : 0,
+    fillerCount,
+    fillers,
+    fillersPer100Words: wordCount > 0 ? round((fillerCount / wordCount) * 100, 1) : 0,
+    longPauses,
+    longestPauseMs: longPauses.reduce((longest, pause) => Math.max(longest, pause.durationMs), 0),
+    hasWordTimings
+  };
+
+  const questionWordCount = question ? tokenize(question).length : 0;
+  if (questionWordCount > 0) {
+    const questionLengthMs = Math.round((questionWordCount / QUESTION_WORDS_PER_MINUTE) * 60000);
+    metrics.questionWordCount = questionWordCount;
+    metrics.questionLengthMs = questionLengthMs;
+    metrics.talkTimeToQuestionRatio = round(talkTimeMs / questionLengthMs, 1);
+  }
+
+  return metrics;
+}
@@ -1,6 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
+import type { EmbeddingProviderName, EmbeddingSpace } from '../types/embedding.types';
 
 /**
  * Cached embedding data structure
@@ -8,10 +9,12 @@ import crypto from 'crypto';
 export interface CachedEmbedding {
   id: string;
   questionId?: number;  // Add question ID for reference answer embeddings
+  referenceIndex?: number;  // Which of the question's reference answers (0 = primary)
   text: string;
   embedding: number[];
   textHash: string;
   createdAt: number;
+  provider: EmbeddingProviderName;
   model: string;
 }
 
@@ -20,16 +23,22 @@ export interface CachedEmbedding {
  */
 export interface CacheMetadata {
   version: string;
-  model: string;
+  spaces: string[];  // provider:model namespaces present in the cache
   createdAt: number;
   lastUpdated: number;
   embeddingCount: number;
   questionIds: number[];  // Track which questions have cached embeddings
 }
 
+/**
+ * Before entries were namespaced, every cached vector came from Cohere
+ */
+const LEGACY_PROVIDER: EmbeddingProviderName = 'cohere';
+
 /**
  * Production-quality embedding cache for persistent storage
- * Stores embeddings to disk to avoid re-computation on service restart
+ * Stores embeddings to disk to avoid re-computation on service restart.
+ * Entries are keyed by provider and model, so vectors from different embedding spaces never mix.
  */
 export class EmbeddingCache {
   private cacheDir: string;
@@ -37,8 +46,7 @@ export class EmbeddingCache {
   private metadataFile: string;
   private cache: Map<string, CachedEmbedding> = new Map();
   private isLoaded: boolean = false;
-  private readonly currentVersion = '1.0.0';
-  private readonly model = 'embed-english-v3.0';
+  private readonly currentVersion = '2.0.0';
 
   constructor(cacheDirectory?: string) {
     this.cacheDir = cacheDirectory || path.join(process.cwd(), 'cache', 'embeddings');
@@ -72,7 +80,7 @@ export class EmbeddingCache {
   /**
    * Store an embedding in the cache
    */
-  async storeEmbedding(id: string, text: string, embedding: number[]): Promise<void> {
+  async storeEmbedding(space: EmbeddingSpace, id: string, text: string, embedding: number[]): Promise<void> {
     if (!text || !embedding || embedding.length === 0) {
       throw new Error('Invalid text or embedding data');
     }
@@ -84,10 +92,11 @@ export class EmbeddingCache {
       embedding,
       textHash,
       createdAt: Date.now(),
-      model: this.model
+      provider: space.provider,
+      model: space.model
     };
 
-    this.cache.set(id, cachedEmbedding);
+    this.cache.set(this.cacheKey(space, id), cachedEmbedding);
 
     // Persist to disk (async, don't block)
     this.persistCache().catch(error => {
@@ -98,7 +107,7 @@ export class EmbeddingCache {
   /**
    * Store multiple embeddings in batch
    */
-  async storeBatchEmbeddings(embeddings: { id: string, text: string, embedding: number[] }[]): Promise<void> {
+  async storeBatchEmbeddings(space: EmbeddingSpace, embeddings: { id: string, text: string, embedding: number[] }[]): Promise<void> {
     const validEmbeddings = embeddings.filter(item => 
       item.id && item.text && item.embedding && item.embedding.length > 0
     );
@@ -115,10 +124,11 @@ export class EmbeddingCache {
         embedding: item.embedding,
         textHash,
         createdAt: Date.now(),
-        model: this.model
+        provider: space.provider,
+        model: space.model
       };
 
-      this.cache.set(item.id, cachedEmbedding);
+      this.cache.set(this.cacheKey(space, item.id), cachedEmbedding);
     }
 
     console.log(`💾 Stored ${validEmbeddings.length} embeddings in cache`);
@@ -130,16 +140,16 @@ export class EmbeddingCache {
   /**
    * Retrieve an embedding from the cache
    */
-  getEmbedding(id: string): number[] | null {
-    const cached = this.cache.get(id);
+  getEmbedding(space: EmbeddingSpace, id: string): number[] | null {
+    const cached = this.cache.get(this.cacheKey(space, id));
     return cached?.embedding || null;
   }
 
   /**
    * Check if an embedding exists in cache and is valid
    */
-  hasEmbedding(id: string, text?: string): boolean {
-    const cached = this.cache.get(id);
+  hasEmbedding(space: EmbeddingSpace, id: string, text?: string): boolean {
+    const cached = this.cache.get(this.cacheKey(space, id));
     if (!cached) {
       return false;
     }
@@ -156,11 +166,11 @@ export class EmbeddingCache {
   /**
    * Get multiple embeddings in batch
    */
-  getBatchEmbeddings(ids: string[]): Map<string, number[]> {
+  getBatchEmbeddings(space: EmbeddingSpace, ids: string[]): Map<string, number[]> {
     const results = new Map<string, number[]>();
     
     for (const id of ids) {
-      const embedding = this.getEmbedding(id);
+      const embedding = this.getEmbedding(space, id);
       if (embedding) {
         results.set(id, embedding);
       }
@@ -172,8 +182,8 @@ export class EmbeddingCache {
   /**
    * Remove an embedding from cache
    */
-  removeEmbedding(id: string): boolean {
-    return this.cache.delete(id);
+  removeEmbedding(space: EmbeddingSpace, id: string): boolean {
+    return this.cache.delete(this.cacheKey(space, id));
   }
 
   /**
@@ -193,17 +203,23 @@ export class EmbeddingCache {
     totalEmbeddings: number,
     oldestEntry?: number,
     newestEntry?: number,
-    model: string
+    spaces: Record<string, number>
   } {
     const embeddings = Array.from(this.cache.values());
     const timestamps = embeddings.map(e => e.createdAt);
-    
+
+    const spaces: Record<string, number> = {};
+    for (const embedding of embeddings) {
+      const space = this.spaceName(embedding);
+      spaces[space] = (spaces[space] || 0) + 1;
+    }
+
     return {
       size: this.cache.size,
       totalEmbeddings: embeddings.length,
       oldestEntry: timestamps.length > 0 ? Math.min(...timestamps) : undefined,
       newestEntry: timestamps.length > 0 ? Math.max(...timestamps) : undefined,
-      model: this.model
+      spaces
     };
   }
 
@@ -262,26 +278,30 @@ export class EmbeddingCache {
       const metadataContent = await fs.readFile(this.metadataFile, 'utf-8');
       const metadata: CacheMetadata = JSON.parse(metadataContent);
 
-      // Validate metadata
-      if (metadata.model !== this.model) {
-        console.log(`🔄 Cache model mismatch (${metadata.model} vs ${this.model}), invalidating cache`);
-        await this.clearCache();
-        return;
-      }
-
       // Load cache data
       const cacheContent = await fs.readFile(this.cacheFile, 'utf-8');
       const cacheData: CachedEmbedding[] = JSON.parse(cacheContent);
 
-      // Rebuild cache map
+      // Rebuild cache map, moving entries written before namespacing into the legacy provider's space
+      let migratedCount = 0;
       for (const cached of cacheData) {
+        if (cached && cached.provider === undefined) {
+          cached.provider = LEGACY_PROVIDER;
+          migratedCount++;
+        }
+
         if (this.isValidCachedEmbedding(cached)) {
-          this.cache.set(cached.id, cached);
+          this.cache.set(this.cacheKey(cached, cached.id), cached);
         }
       }
 
       console.log(`📚 Loaded ${this.cache.size} embeddings from cache (${metadata.embeddingCount} total in file)`);
 
+      if (migratedCount > 0) {
+        console.log(`🔄 Migrated ${migratedCount} cached embeddings to the ${LEGACY_PROVIDER} namespace`);
+        await this.persistCache();
+      }
+
     } catch (error) {
       console.error('⚠️ Error loading cache from disk:', error);
       console.log('🔄 Starting with empty cache');
@@ -303,9 +323,11 @@ export class EmbeddingCache {
           .filter((id): id is number => id !== undefined)
       )).sort((a, b) => a - b);
 
+      const spaces = Array.from(new Set(cacheData.map(embedding => this.spaceName(embedding)))).sort();
+
       const metadata: CacheMetadata = {
         version: this.currentVersion,
-        model: this.model,
+        spaces,
         createdAt: Date.now(),
         lastUpdated: Date.now(),
         embeddingCount: cacheData.length,
@@ -348,6 +370,7 @@ export class EmbeddingCache {
       cached.embedding.length > 0 &&
       typeof cached.textHash === 'string' &&
       typeof cached.createdAt === 'number' &&
+      (cached.provider === 'cohere' || cached.provider === 'local') &&
       typeof cached.model === 'string'
     );
   }
@@ -359,32 +382,54 @@ export class EmbeddingCache {
     return crypto.createHash('sha256').update(text.trim()).digest('hex');
   }
 
+  /**
+   * Map key for an entry - ids are unique within a provider/model space
+   */
+  private cacheKey(space: EmbeddingSpace, id: string): string {
+    return `${this.spaceName(space)}:${id}`;
+  }
+
+  private spaceName(space: EmbeddingSpace): string {
+    return `${space.provider}:${space.model}`;
+  }
+
+  /**
+   * Cache id for a question's reference answer - the primary answer keeps the original id
+   */
+  private questionEmbeddingId(questionId: number, referenceIndex: number = 0): string {
+    return referenceIndex === 0 ? `question_${questionId}` : `question_${questionId}_ref_${referenceIndex}`;
+  }
+
   /**
    * Store embedding with question ID
    */
   async storeQuestionEmbedding(
+    space: EmbeddingSpace,
     questionId: number,
     text: string, 
-    embedding: number[]
+    embedding: number[],
+    referenceIndex: number = 0
   ): Promise<void> {
     if (!this.isLoaded) {
       await this.initialize();
     }
     
-    const id = `question_${questionId}`;
+    const id = this.questionEmbeddingId(questionId, referenceIndex);
     const textHash = this.hashText(text);
     
     const cachedEmbedding: CachedEmbedding = {
       id,
       questionId,
+      referenceIndex,
       text,
       embedding,
       textHash,
       createdAt: Date.now(),
-      model: this.model
+      provider: space.provider,
+      model: space.model
     };
 
-    this.cache.set(id, cachedEmbedding);
+    this.cache.set(this.cacheKey(space, id), cachedEmbedding);
     await this.persistCache();
     
     console.log(`Cached embedding for question ${questionId}`);
@@ -393,33 +438,36 @@ export class EmbeddingCache {
   /**
    * Get embedding by question ID
    */
-  async getQuestionEmbedding(questionId: number): Promise<CachedEmbedding | null> {
+  async getQuestionEmbedding(
+    space: EmbeddingSpace,
+    questionId: number,
+    referenceIndex: number = 0
+  ): Promise<CachedEmbedding | null> {
     if (!this.isLoaded) {
       await this.initialize();
     }
-    const id = `question_${questionId}`;
-    return this.cache.get(id) || null;
+    return this.cache.get(this.cacheKey(space, this.questionEmbeddingId(questionId, referenceIndex))) || null;
   }
 
   /**
    * Check if question embedding is cached
    */
-  async hasQuestionEmbedding(questionId: number): Promise<boolean> {
+  async hasQuestionEmbedding(space: EmbeddingSpace, questionId: number): Promise<boolean> {
     if (!this.isLoaded) {
       await this.initialize();
     }
-    const id = `question_${questionId}`;
-    return this.cache.has(id);
+    return this.cache.has(this.cacheKey(space, this.questionEmbeddingId(questionId)));
   }
 
   /**
-   * Get all cached question IDs
+   * Get all cached question IDs, optionally only those cached for one provider/model
    */
-  async getCachedQuestionIds(): Promise<number[]> {
+  async getCachedQuestionIds(space?: EmbeddingSpace): Promise<number[]> {
     if (!this.isLoaded) {
       await this.initialize();
     }
     const questionIds = Array.from(this.cache.values())
+      .filter(embedding => !space || this.spaceName(embedding) === this.spaceName(space))
       .map(embedding => embedding.questionId)
       .filter((id): id is number => id !== undefined);
     
@@ -430,33 +478,55 @@ export class EmbeddingCache {
    * Store multiple question embeddings efficiently
    */
   async storeQuestionEmbeddings(
-    embeddings: { questionId: number; text: string; embedding: number[] }[]
+    space: EmbeddingSpace,
+    embeddings: { questionId: number; referenceIndex?: number; text: string; embedding: number[] }[]
   ): Promise<void> {
     if (!this.isLoaded) {
       await this.initialize();
     }
     
-    for (const { questionId, text, embedding } of embeddings) {
-      const id = `question_${questionId}`;
+    for (const { questionId, referenceIndex = 0, text, embedding } of embeddings) {
+      const id = this.questionEmbeddingId(questionId, referenceIndex);
       const textHash = this.hashText(text);
       
       const cachedEmbedding: CachedEmbedding = {
         id,
         questionId,
+        referenceIndex,
         text,
         embedding,
         textHash,
         createdAt: Date.now(),
-        model: this.model
+        provider: space.provider,
+        model: space.model
       };
 
-      this.cache.set(id, cachedEmbedding);
+      this.cache.set(this.cacheKey(space, id), cachedEmbedding);
     }
     
     await this.persistCache();
     console.log(`Cached embeddings for ${embeddings.length} questions`);
   }
 
+  /**
+   * Remove embeddings (every reference answer, from every provider) for deleted questions
+   */
+  async removeQuestionEmbeddings(questionIds: number[]): Promise<void> {
+    if (!this.isLoaded) {
+      await this.initialize();
+    }
+
+    const removedIds = new Set(questionIds);
+    for (const [id, cached] of this.cache.entries()) {
+      if (cached.questionId !== undefined && removedIds.has(cached.questionId)) {
+        this.cache.delete(id);
+      }
+    }
+
+    await this.persistCache();
+    console.log(`Removed cached embeddings for ${questionIds.length} questions`);
+  }
+
   /**
    * Get cache status
    */
@@ -468,7 +538,7 @@ export class EmbeddingCache {
       totalEmbeddings: number,
       oldestEntry?: number,
       newestEntry?: number,
-      model: string
+      spaces: Record<string, number>
     }
   } {
     return {
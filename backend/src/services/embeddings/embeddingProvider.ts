@@ -0,0 +1,44 @@
+import type { EmbeddingInputType, EmbeddingProviderName } from '../../types/embedding.types';
+
+/**
+ * Contract every embedding provider implements
+ */
+export interface EmbeddingProvider {
+  readonly provider: EmbeddingProviderName;
+  readonly model: string;
+  initialize(): Promise<void>;
+  generateEmbedding(text: string, inputType?: EmbeddingInputType): Promise<number[]>;
+}
+
+/**
+ * Calculate cosine similarity between two embedding vectors
+ * @returns number - Cosine similarity score (0-1)
+ */
+export function cosineSimilarity(embedding1: number[], embedding2: number[]): number {
+  if (!embedding1 || !embedding2) {
+    throw new Error('Both embeddings must be provided');
+  }
+
+  if (embedding1.length !== embedding2.length) {
+    throw new Error(`Embedding dimensions must match: ${embedding1.length} vs ${embedding2.length}`);
+  }
+
+  let dotProduct = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+
+  for (let i = 0; i < embedding1.length; i++) {
+    dotProduct += embedding1[i] * embedding2[i];
+    norm1 += embedding1[i] * embedding1[i];
+    norm2 += embedding2[i] * embedding2[i];
+  }
+
+  if (norm1 === 0 || norm2 === 0) {
+    return 0; // Handle zero vectors
+  }
+
+  const similarity = dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
+
+  // Clamp to [0, 1] range and handle floating point precision
+  return Math.max(0, Math.min(1, similarity));
+}
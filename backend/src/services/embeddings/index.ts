@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+import type { EmbeddingProviderName } from '../../types/embedding.types';
+import type { EmbeddingProvider } from './embeddingProvider';
+import { getCohereService } from '../cohereEmbeddingService';
+import { LocalEmbeddingProvider } from './localEmbeddingProvider';
+
+dotenv.config();
+
+export type { EmbeddingProvider } from './embeddingProvider';
+export { cosineSimilarity } from './embeddingProvider';
+export { LocalEmbeddingProvider } from './localEmbeddingProvider';
+
+function resolveProvider(): EmbeddingProviderName {
+  const provider = (process.env.EMBEDDING_PROVIDER || 'cohere').toLowerCase();
+  if (provider === 'cohere' || provider === 'local') {
+    return provider;
+  }
+  throw new Error(`Unsupported EMBEDDING_PROVIDER: ${provider}`);
+}
+
+let providerInstance: EmbeddingProvider | null = null;
+
+/**
+ * Get the configured embedding provider.
+ * EMBEDDING_PROVIDER=cohere|local (default cohere)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!providerInstance) {
+    const provider = resolveProvider();
+
+    if (provider === 'local') {
+      const dimension = process.env.LOCAL_EMBEDDING_DIMENSION ? Number(process.env.LOCAL_EMBEDDING_DIMENSION) : undefined;
+      providerInstance = new LocalEmbeddingProvider(dimension);
+    } else {
+      providerInstance = getCohereService();
+    }
+
+    console.log(`🧮 Embedding provider: ${provider} (${providerInstance.model})`);
+  }
+  return providerInstance;
+}
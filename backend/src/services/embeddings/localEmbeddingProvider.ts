@@ -0,0 +1,105 @@
+import type { EmbeddingInputType } from '../../types/embedding.types';
+import type { EmbeddingProvider } from './embeddingProvider';
+
+// Common words that carry no meaning for answer comparison
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so',
+  'such', 'that', 'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'were',
+  'what', 'when', 'which', 'while', 'will', 'with', 'you', 'your'
+]);
+
+// Relative weight of each feature family
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/**
+ * Offline, deterministic embedding provider.
+ * Hashes word unigrams, word bigrams and character trigrams into a fixed-size
+ * vector (sublinear term frequency, L2-normalised). No network access or API key needed,
+ * so technical evaluation can run in tests and without connectivity.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly provider = 'local' as const;
+  readonly model: string;
+  private readonly dimension: number;
+
+  constructor(dimension: number = 512) {
+    if (!Number.isInteger(dimension) || dimension < 16) {
+      throw new Error('Local embedding dimension must be an integer of at least 16');
+    }
+    this.dimension = dimension;
+    // The dimension is part of the model name so cached vectors of another size are never reused
+    this.model = `hashed-ngrams-v2-${dimension}`;
+  }
+
+  async initialize(): Promise<void> {
+    console.log(`✅ Local embedding provider ready (${this.model})`);
+  }
+
+  async generateEmbedding(text: string, _inputType?: EmbeddingInputType): Promise<number[]> {
+    if (!text || text.trim().length === 0) {
+      throw new Error('Text cannot be empty');
+    }
+
+    // Raw occurrences per feature - the family weight scales the damped count, so every feature stays positive
+    const features = new Map<string, { weight: number; count: number }>();
+    const addFeature = (feature: string, weight: number) => {
+      const entry = features.get(feature);
+      if (entry) {
+        entry.count++;
+      } else {
+        features.set(feature, { weight, count: 1 });
+      }
+    };
+
+    const words = this.tokenize(text);
+    for (let i = 0; i < words.length; i++) {
+      addFeature(`w:${words[i]}`, WORD_WEIGHT);
+
+      if (i > 0) {
+        addFeature(`b:${words[i - 1]} ${words[i]}`, BIGRAM_WEIGHT);
+      }
+
+      // Character trigrams let "index" and "indexes" share most of their signal
+      const padded = `^${words[i]}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        addFeature(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [feature, { weight, count }] of features) {
+      const hash = this.hash(feature);
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[hash % this.dimension] += sign * weight * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  /**
+   * Lowercased alphanumeric words without stop words (falls back to every word if all are stop words)
+   */
+  private tokenize(text: string): string[] {
+    const words = text.toLowerCase().match(/[a-z0-9]+(?:[+#][a-z0-9+#]*)?/g) || [];
+    const contentWords = words.filter(word => !STOP_WORDS.has(word));
+    return contentWords.length > 0 ? contentWords : words;
+  }
+
+  /**
+   * 32-bit FNV-1a - stable across processes and platforms
+   */
+  private hash(feature: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      hash ^= feature.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+export default LocalEmbeddingProvider;
@@ -0,0 +1,273 @@
+import { generateJson, createGapAnalysisSchema, StructuredOutputError } from './llm';
+import { createResumeCitation, formatResumeProfileForPrompt, getResumeEntryIds } from './resumeParserService';
+import type { GapRequirementOutput } from '../types/llm.types';
+import type { ResumeCitation, ResumeProfile } from '../types/resumeProfile.types';
+import type {
+  GapAnalysisReport,
+  GapAnalysisSource,
+  RequirementCategory,
+  RequirementCoverage,
+  RequirementMatch,
+  RequirementPriority
+} from '../types/gapAnalysis.types';
+
+const MAX_HEURISTIC_REQUIREMENTS = 12;
+
+// Headings that switch the requirement list being read - PDF extraction flattens line breaks, so they are matched per segment
+const REQUIRED_HEADING = /^(?:requirements|required|qualifications|minimum qualifications|basic qualifications|what you'll need|what you need|must have)\b/i;
+const PREFERRED_HEADING = /^(?:preferred|nice to have|bonus|preferred qualifications)\b/i;
+const RESPONSIBILITIES_HEADING = /^(?:responsibilities|what you'll do|what you will do|the role|duties|key responsibilities)\b/i;
+
+const SKILL_CUE = /\b(?:experience|knowledge|proficien\w*|familiar\w*|understanding|skills?|degree|fluency|fluent|expertise)\b/i;
+const PREFERRED_CUE = /\b(?:preferred|nice to have|bonus|a plus|ideally)\b/i;
+
+// Words that say nothing about whether a resume entry backs up a requirement
+const STOPWORDS = new Set([
+  'of', 'in', 'to', 'on', 'an', 'at', 'by', 'or', 'as', 'is', 'be', 'we', 'it', 'and', 'the', 'with', 'for',
+  'you', 'your', 'our', 'are', 'will', 'have', 'has', 'from', 'into', 'that', 'this',
+  'who', 'able', 'ability', 'strong', 'solid', 'good', 'excellent', 'experience', 'experienced', 'knowledge',
+  'proficiency', 'proficient', 'familiarity', 'familiar', 'understanding', 'skills', 'skill', 'years', 'year',
+  'plus', 'preferred', 'bonus', 'nice', 'ideally', 'required', 'including', 'such', 'using', 'work', 'working',
+  'team', 'teams', 'other', 'related', 'etc', 'least', 'more', 'one', 'two', 'three', 'new', 'well', 'both', 'all',
+  'degree', 'field', 'equivalent'
+]);
+
+function emptySummary(): Record<RequirementCoverage, number> {
+  return { covered: 0, weak: 0, missing: 0 };
+}
+
+function summarize(requirements: RequirementMatch[]): Record<RequirementCoverage, number> {
+  return requirements.reduce((summary, requirement) => {
+    summary[requirement.coverage]++;
+    return summary;
+  }, emptySummary());
+}
+
+function buildReport(requirements: RequirementMatch[], source: GapAnalysisSource): GapAnalysisReport {
+  return { requirements, summary: summarize(requirements), source, createdAt: new Date().toISOString() };
+}
+
+function keywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*/g) || [];
+  return Array.from(new Set(
+    words
+      .map(word => word.replace(/\.+$/, ''))
+      .filter(word => word.length > 1 && !STOPWORDS.has(word) && !/^\d+$/.test(word))
+  ));
+}
+
+/**
+ * Pull requirement-like segments out of the job description, tracking which
+ * section (required, preferred, responsibilities) each one sits in
+ */
+function extractRequirements(jobDescription: string): Omit<RequirementMatch, 'coverage' | 'citations' | 'note'>[] {
+  const segments = jobDescription
+    .split(/\n|•|·|▪|(?<=[.;])\s+|\s[-*]\s/)
+    .map(segment => segment.replace(/^[\s\-*:]+/, '').trim())
+    .filter(Boolean);
+
+  let section: 'required' | 'preferred' | 'responsibilities' | null = null;
+  const seen = new Set<string>();
+  const requirements: Omit<RequirementMatch, 'coverage' | 'citations' | 'note'>[] = [];
+
+  for (const segment of segments) {
+    if (RESPONSIBILITIES_HEADING.test(segment)) section = 'responsibilities';
+    else if (PREFERRED_HEADING.test(segment)) section = 'preferred';
+    else if (REQUIRED_HEADING.test(segment)) section = 'required';
+
+    // Headings themselves are short; the text after a "Heading:" prefix is still a candidate
+    const text = segment.replace(/^[^:]{0,40}:\s*/, '').replace(/[.;]$/, '').trim();
+    if (text.length < 15 || text.length > 200 || keywords(text).length === 0) {
+      continue;
+    }
+
+    let category: RequirementCategory;
+    if (SKILL_CUE.test(text) || section === 'required' || section === 'preferred') {
+      category = 'skill';
+    } else if (section === 'responsibilities') {
+      category = 'responsibility';
+    } else {
+      continue;
+    }
+
+    const key = text.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const priority: RequirementPriority = section === 'preferred' || PREFERRED_CUE.test(text) ? 'preferred' : 'required';
+    requirements.push({ id: `req_${requirements.length + 1}`, requirement: text, category, priority });
+
+    if (requirements.length >= MAX_HEURISTIC_REQUIREMENTS) break;
+  }
+
+  return requirements;
+}
+
+function entryText(profile: ResumeProfile, entryId: string): string {
+  const experience = profile.experiences.find(entry => entry.id === entryId);
+  if (experience) return [experience.role, experience.employer, ...experience.bullets].join(' ');
+  const project = profile.projects.find(entry => entry.id === entryId);
+  if (project) return [project.name, project.description || '', ...project.technologies, ...project.bullets].join(' ');
+  const education = profile.education.find(entry => entry.id === entryId);
+  if (education) return [education.institution, education.degree || '', education.field || ''].join(' ');
+  return '';
+}
+
+/**
+ * Offline fallback when the LLM is unavailable: requirements are rated by keyword
+ * overlap with each resume entry. Listing a skill without an entry that uses it is weak evidence.
+ */
+function analyzeGapsHeuristically(jobDescription: string, profile: ResumeProfile): RequirementMatch[] {
+  const entries = getResumeEntryIds(profile).map(entryId => ({ entryId, words: new Set(keywords(entryText(profile, entryId))) }));
+  const skillWords = new Set(keywords(profile.skills.join(' ')));
+
+  return extractRequirements(jobDescription).map(requirement => {
+    const required = keywords(requirement.requirement);
+    const matches = entries
+      .map(entry => ({ entryId: entry.entryId, matched: required.filter(word => entry.words.has(word)) }))
+      .filter(entry => entry.matched.length > 0)
+      .sort((a, b) => b.matched.length - a.matched.length);
+    const strong = matches.filter(entry => entry.matched.length >= 2 || entry.matched.length / required.length >= 0.5);
+    const matchedSkills = required.filter(word => skillWords.has(word));
+
+    const coverage: RequirementCoverage = strong.length > 0 ? 'covered' : matches.length > 0 || matchedSkills.length > 0 ? 'weak' : 'missing';
+    const evidence = (strong.length > 0 ? strong : matches).slice(0, 3);
+    const matchedWords = Array.from(new Set([...evidence.flatMap(entry => entry.matched), ...matchedSkills]));
+
+    return {
+      ...requirement,
+      coverage,
+      citations: evidence
+        .map(entry => createResumeCitation(profile, entry.entryId))
+        .filter((citation): citation is ResumeCitation => citation !== undefined),
+      ...(matchedWords.length > 0 && { note: `Matched on: ${matchedWords.join(', ')}` })
+    };
+  });
+}
+
+function buildAnalysisPrompt(jobDescription: string, profile: ResumeProfile, resumeEntryIds: string[]): string {
+  return `You are comparing a candidate's resume against a job description before a mock interview.
+
+STEP 1 - Extract the job's requirements:
+- Skills: technologies, tools, domain knowledge, qualifications. Responsibilities: what the person will do in the role.
+- Mark each as "required" or "preferred" (preferred = "nice to have", "bonus", "a plus", "preferred qualifications").
+- Keep each requirement short and specific. Merge duplicates. At most 20 requirements, most important first.
+
+STEP 2 - Rate each requirement against the STRUCTURED RESUME PROFILE:
+- "covered": an experience, project or education entry shows the candidate doing or using it. Cite those entries in resumeEntryIds.
+- "weak": only listed under SKILLS, or only loosely related experience. Cite any related entries.
+- "missing": nothing on the resume speaks to it. Use an empty resumeEntryIds.
+- resumeEntryIds may only contain these ids: ${resumeEntryIds.join(', ') || '(the resume has no entries - always use [])'}
+- Use ONLY what is written. Never assume experience the resume does not state.
+- "note": one short sentence explaining the rating.
+
+JOB DESCRIPTION:
+${jobDescription}
+
+STRUCTURED RESUME PROFILE (entries are labelled with [id]):
+${formatResumeProfileForPrompt(profile)}
+
+Return ONLY valid JSON with this structure:
+${createGapAnalysisSchema(resumeEntryIds).shape}`;
+}
+
+function toRequirementMatch(output: GapRequirementOutput, index: number, profile: ResumeProfile): RequirementMatch {
+  return {
+    id: `req_${index + 1}`,
+    requirement: output.requirement,
+    category: output.category,
+    priority: output.priority,
+    coverage: output.coverage,
+    citations: output.resumeEntryIds
+      .map(entryId => createResumeCitation(profile, entryId))
+      .filter((citation): citation is ResumeCitation => citation !== undefined),
+    ...(output.note && { note: output.note })
+  };
+}
+
+/**
+ * Extract the job description's requirements and rate the resume's coverage of each.
+ * Invalid model output is reported as a StructuredOutputError; an unreachable
+ * LLM falls back to keyword matching.
+ */
+export async function analyzeGaps(jobDescription: string, profile: ResumeProfile): Promise<GapAnalysisReport> {
+  const resumeEntryIds = getResumeEntryIds(profile);
+
+  try {
+    const { requirements } = await generateJson(
+      'gapAnalysis',
+      buildAnalysisPrompt(jobDescription, profile, resumeEntryIds),
+      createGapAnalysisSchema(resumeEntryIds),
+      { temperature: 0 }
+    );
+    return buildReport(requirements.map((requirement, index) => toRequirementMatch(requirement, index, profile)), 'llm');
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+    console.error('LLM request for gap analysis failed, using keyword matching:', error);
+    return buildReport(analyzeGapsHeuristically(jobDescription, profile), 'heuristic');
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCitation(value: unknown): value is ResumeCitation {
+  return isRecord(value) && typeof value.entryId === 'string' && typeof value.label === 'string';
+}
+
+function isRequirementMatch(value: unknown): value is RequirementMatch {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.requirement === 'string' && value.requirement.trim().length > 0
+    && (value.category === 'skill' || value.category === 'responsibility')
+    && (value.priority === 'required' || value.priority === 'preferred')
+    && (value.coverage === 'covered' || value.coverage === 'weak' || value.coverage === 'missing')
+    && Array.isArray(value.citations) && value.citations.every(isCitation)
+    && (value.note === undefined || typeof value.note === 'string');
+}
+
+/**
+ * Validate a stored report - returns null if it is not a usable report
+ */
+export function normalizeGapAnalysis(value: unknown): GapAnalysisReport | null {
+  const report = value as Partial<GapAnalysisReport> | null;
+  if (!report || !Array.isArray(report.requirements) || !report.requirements.every(isRequirementMatch)) {
+    return null;
+  }
+  const source: GapAnalysisSource = report.source === 'llm' ? 'llm' : 'heuristic';
+  return {
+    requirements: report.requirements,
+    summary: summarize(report.requirements),
+    source,
+    createdAt: typeof report.createdAt === 'string' ? report.createdAt : new Date().toISOString()
+  };
+}
+
+const COVERAGE_ORDER: Record<RequirementCoverage, number> = { missing: 0, weak: 1, covered: 2 };
+
+/**
+ * Missing and weakly covered requirements, required ones and the biggest gaps first
+ */
+export function getFocusRequirements(report: GapAnalysisReport): RequirementMatch[] {
+  return report.requirements
+    .filter(requirement => requirement.coverage !== 'covered')
+    .sort((a, b) =>
+      (a.priority === b.priority ? 0 : a.priority === 'required' ? -1 : 1)
+      || COVERAGE_ORDER[a.coverage] - COVERAGE_ORDER[b.coverage]
+    );
+}
+
+/**
+ * Render the coverage matrix for prompts, one requirement per line
+ */
+export function formatGapAnalysisForPrompt(report: GapAnalysisReport): string {
+  return report.requirements
+    .map(requirement => {
+      const evidence = requirement.citations.length > 0 ? ` - evidence: ${requirement.citations.map(citation => `[${citation.entryId}]`).join(', ')}` : '';
+      return `- [${requirement.coverage.toUpperCase()}, ${requirement.priority} ${requirement.category}] ${requirement.requirement}${evidence}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,61 @@
+import templateCatalog from '../data/interviewTemplates.json';
+import type { InterviewTemplate, InterviewTemplateCatalog } from '../types/interviewTemplate.types';
+
+// Generated prompts and the question bank both get unwieldy past this many questions per kind
+export const MAX_QUESTIONS_PER_TYPE = 5;
+
+/**
+ * Fail fast on malformed template data so a bad edit never reaches question generation
+ */
+function validateCatalog(catalog: InterviewTemplateCatalog): InterviewTemplateCatalog {
+  const isCount = (count: unknown) => Number.isInteger(count) && (count as number) >= 0 && (count as number) <= MAX_QUESTIONS_PER_TYPE;
+
+  for (const template of catalog.templates) {
+    if (!template.id || !template.name) {
+      throw new Error(`Interview template ${template.id || '(missing id)'} needs an id and name`);
+    }
+    if (!isCount(template.behavioralCount) || !isCount(template.technicalCount)) {
+      throw new Error(`Interview template ${template.id} question counts must be whole numbers from 0-${MAX_QUESTIONS_PER_TYPE}`);
+    }
+    if (template.behavioralCount + template.technicalCount === 0) {
+      throw new Error(`Interview template ${template.id} must ask at least one question`);
+    }
+    if (!(template.answerTimeSeconds?.behavioral > 0) || !(template.answerTimeSeconds?.technical > 0)) {
+      throw new Error(`Interview template ${template.id} needs positive answer times`);
+    }
+    if (!(template.thinkTimeSeconds?.behavioral >= 0) || !(template.thinkTimeSeconds?.technical >= 0)) {
+      throw new Error(`Interview template ${template.id} needs think times of zero or more`);
+    }
+    if (!(template.wrapUpWarningSeconds >= 0)
+      || template.wrapUpWarningSeconds >= Math.min(template.answerTimeSeconds.behavioral, template.answerTimeSeconds.technical)) {
+      throw new Error(`Interview template ${template.id} needs a wrap-up warning time shorter than its answer times`);
+    }
+  }
+
+  if (!catalog.templates.some(template => template.id === catalog.defaultTemplate)) {
+    throw new Error(`Default interview template ${catalog.defaultTemplate} is not defined`);
+  }
+  return catalog;
+}
+
+const catalog = validateCatalog(templateCatalog as InterviewTemplateCatalog);
+const templatesById = new Map(catalog.templates.map(template => [template.id, template]));
+
+export function getInterviewTemplates(): InterviewTemplate[] {
+  return catalog.templates;
+}
+
+export function getDefaultTemplateId(): string {
+  return catalog.defaultTemplate;
+}
+
+export function isInterviewTemplate(id: unknown): id is string {
+  return typeof id === 'string' && templatesById.has(id);
+}
+
+/**
+ * Look up a template, falling back to the default for missing or unknown ids
+ */
+export function getInterviewTemplate(id?: unknown): InterviewTemplate {
+  return (isInterviewTemplate(id) && templatesById.get(id)) || templatesById.get(catalog.defaultTemplate)!;
+}
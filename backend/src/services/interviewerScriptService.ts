@@ -0,0 +1,204 @@
+import styleCatalog from '../data/interviewerStyles.json';
+import type { InterviewTemplate } from '../types/interviewTemplate.types';
+import type {
+  AgendaKind,
+  InterviewerStyle,
+  InterviewerStyleCatalog,
+  QuestionSpeechContext,
+  SpeechScript,
+  TransitionKind
+} from '../types/tts.types';
+
+const TRANSITION_KINDS: TransitionKind[] = ['first', 'next', 'toTechnical', 'toBehavioral', 'last', 'followUp'];
+const AGENDA_KINDS: AgendaKind[] = ['mixed', 'behavioralOnly', 'technicalOnly'];
+const COUNT_WORDS = ['no', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+const QUESTION_BREAK = "<break time='400ms'/>";
+// Breaks at least this long are spoken as an ellipsis by voices without SSML, shorter ones as a comma
+const LONG_PAUSE_MS = 400;
+
+export interface ScriptDetails {
+  position: string;
+  company: string;
+  interviewerName: string;
+}
+
+export type AgendaCounts = Pick<InterviewTemplate, 'behavioralCount' | 'technicalCount'>;
+
+type TemplateValues = Record<string, string | number | undefined>;
+
+/**
+ * Fail fast on malformed style data so a bad edit never reaches the TTS API
+ */
+function validateCatalog(catalog: InterviewerStyleCatalog): InterviewerStyleCatalog {
+  for (const style of catalog.styles) {
+    if (!style.id || !style.name || !style.introduction || !style.wrapUp || !style.closing) {
+      throw new Error(`Interviewer style ${style.id || '(missing id)'} needs an id, name, introduction, wrap-up and closing`);
+    }
+    for (const kind of TRANSITION_KINDS) {
+      if (!Array.isArray(style.transitions?.[kind]) || style.transitions[kind].length === 0) {
+        throw new Error(`Interviewer style ${style.id} has no "${kind}" transitions`);
+      }
+    }
+    for (const kind of AGENDA_KINDS) {
+      if (!style.agenda?.[kind]) {
+        throw new Error(`Interviewer style ${style.id} has no "${kind}" agenda`);
+      }
+    }
+  }
+
+  if (!catalog.styles.some(style => style.id === catalog.defaultStyle)) {
+    throw new Error(`Default interviewer style ${catalog.defaultStyle} is not defined`);
+  }
+  return catalog;
+}
+
+const catalog = validateCatalog(styleCatalog as InterviewerStyleCatalog);
+const stylesById = new Map(catalog.styles.map(style => [style.id, style]));
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Plain-text rendering of an SSML fragment - markup is dropped, entities decoded
+ */
+function ssmlToText(ssml: string): string {
+  return ssml
+    .replace(/<break[^>]*>/g, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,!?;:])/g, '$1')
+    .trim();
+}
+
+/**
+ * Plain-text rendering that keeps the pacing of an SSML fragment for voices that ignore markup.
+ * A break after a full stop lengthens it to an ellipsis, a break after other punctuation
+ * is already a pause, and a break mid-sentence becomes a comma or an ellipsis.
+ */
+function ssmlToPacedText(ssml: string): string {
+  const paced = ssml.replace(
+    /([.!?,;:]?)\s*<break[^>]*time=['"](\d+)ms['"][^>]*>/g,
+    (_match, punctuation: string, ms: string) => {
+      const isLong = Number(ms) >= LONG_PAUSE_MS;
+      if (punctuation === '.') return isLong ? '... ' : '. ';
+      if (punctuation) return `${punctuation} `;
+      return isLong ? '... ' : ', ';
+    }
+  );
+  return ssmlToText(paced);
+}
+
+/**
+ * Fill {placeholder} slots - values come from users, so they are escaped before entering SSML
+ */
+function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = values[name];
+    return value === undefined ? match : escapeXml(String(value));
+  });
+}
+
+function toScript(fragments: string[]): SpeechScript {
+  const body = fragments.filter(Boolean).join(' ');
+  return { ssml: `<speak>${body}</speak>`, text: ssmlToText(body), spokenText: ssmlToPacedText(body) };
+}
+
+/**
+ * "one technical question", "three behavioral questions"
+ */
+function describeCount(count: number, kind: 'behavioral' | 'technical'): string {
+  return `${COUNT_WORDS[count] ?? count} ${kind} question${count === 1 ? '' : 's'}`;
+}
+
+function selectAgenda(counts: AgendaCounts): AgendaKind {
+  if (counts.technicalCount === 0) return 'behavioralOnly';
+  if (counts.behavioralCount === 0) return 'technicalOnly';
+  return 'mixed';
+}
+
+/**
+ * Pick the transition for a question's position in the interview
+ */
+function selectTransition(context: QuestionSpeechContext): TransitionKind {
+  if (context.kind === 'followUp') return 'followUp';
+  if (context.questionNumber === 1) return 'first';
+  if (context.totalQuestions && context.questionNumber === context.totalQuestions) return 'last';
+  if (context.previousCategory && context.category && context.previousCategory !== context.category) {
+    return context.category === 'technical' ? 'toTechnical' : 'toBehavioral';
+  }
+  return 'next';
+}
+
+export function getInterviewerStyles(): InterviewerStyle[] {
+  return catalog.styles;
+}
+
+export function getDefaultStyleId(): string {
+  return catalog.defaultStyle;
+}
+
+export function isInterviewerStyle(id: unknown): id is string {
+  return typeof id === 'string' && stylesById.has(id);
+}
+
+function getStyle(styleId?: string): InterviewerStyle {
+  return (styleId && stylesById.get(styleId)) || stylesById.get(catalog.defaultStyle)!;
+}
+
+/**
+ * Introduce the interviewer and walk through the agenda for the interview template's question counts
+ */
+export function buildIntroductionScript(details: ScriptDetails, counts: AgendaCounts, styleId?: string): SpeechScript {
+  const style = getStyle(styleId);
+  // The agenda is trusted style data, so it is spliced in before the user-supplied values are escaped
+  const template = style.introduction.replace('{agenda}', style.agenda[selectAgenda(counts)]);
+
+  return toScript([renderTemplate(template, {
+    ...details,
+    behavioralQuestions: describeCount(counts.behavioralCount, 'behavioral'),
+    technicalQuestions: describeCount(counts.technicalCount, 'technical')
+  })]);
+}
+
+/**
+ * Lead into a question with the style's transition. Without its place in the interview
+ * there is nothing to transition from, so the question is spoken on its own.
+ */
+export function buildQuestionScript(question: string, context: QuestionSpeechContext | undefined, styleId?: string): SpeechScript {
+  const questionSsml = escapeXml(question);
+  if (!context?.questionNumber || !context.totalQuestions) {
+    return toScript([questionSsml]);
+  }
+
+  const options = getStyle(styleId).transitions[selectTransition(context)];
+  // Deterministic choice keeps repeated interviews on cached audio while still varying the wording
+  const template = options[(context.questionNumber - 1) % options.length];
+  const transition = renderTemplate(template, {
+    questionNumber: context.questionNumber,
+    totalQuestions: context.totalQuestions
+  });
+
+  return toScript([transition, QUESTION_BREAK, questionSsml]);
+}
+
+/**
+ * Nudge to finish an answer - has no placeholders so every interview shares the cached audio
+ */
+export function buildWrapUpScript(styleId?: string): SpeechScript {
+  return toScript([getStyle(styleId).wrapUp]);
+}
+
+export function buildClosingScript(details: ScriptDetails, styleId?: string): SpeechScript {
+  return toScript([renderTemplate(getStyle(styleId).closing, { ...details })]);
+}
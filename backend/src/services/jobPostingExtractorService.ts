@@ -0,0 +1,296 @@
+import { generateJson, jobPostingSchema, StructuredOutputError } from './llm';
+import type {
+  Compensation,
+  CompensationPeriod,
+  JobPostingDetails,
+  JobPostingHints,
+  JobPostingSource,
+  Seniority,
+  WorkplaceType
+} from '../types/jobPosting.types';
+
+const MAX_POSTING_TEXT_LENGTH = 20_000;
+const MAX_SECTION_ITEMS = 15;
+
+type PostingSection = 'responsibilities' | 'required' | 'preferred' | 'other';
+
+// Section headings, checked in order - "preferred qualifications" has to win over "qualifications"
+const SECTION_HEADINGS: [PostingSection, RegExp][] = [
+  ['preferred', /\b(?:preferred|nice to have|nice-to-have|bonus points?|bonus if|ideally|it'?s a plus|plus if you)\b/i],
+  ['responsibilities', /\b(?:responsibilities|what you.?ll do|what you will do|the role|your role|your impact|day[- ]to[- ]day|in this role|you will)\b/i],
+  ['required', /\b(?:requirements|qualifications|what you.?ll need|what we.?re looking for|you have|you bring|must[- ]haves?|who you are|about you|skills)\b/i],
+  ['other', /\b(?:benefits|perks|about us|about the company|who we are|compensation|salary|pay range|equal opportunity|eeo|how to apply|our values)\b/i]
+];
+
+const REQUIREMENT_CUE = /\b(?:experience|knowledge|proficien\w*|familiar\w*|understanding|degree|fluen\w*|expertise|ability to)\b/i;
+const PREFERRED_CUE = /\b(?:preferred|nice to have|bonus|a plus|ideally)\b/i;
+
+// Known technologies, matched on word boundaries; short ambiguous names are matched case-sensitively
+const TECH_TERMS: [string, RegExp][] = [
+  ['JavaScript', /\bjavascript\b/i], ['TypeScript', /\btypescript\b/i], ['Python', /\bpython\b/i],
+  ['Java', /\bjava\b(?!\s*script)/i], ['Go', /\b(?:Go|Golang)\b/], ['Rust', /\bRust\b/], ['C++', /\bc\+\+/i],
+  ['C#', /\bc#/i], ['Ruby', /\bruby\b/i], ['PHP', /\bphp\b/i], ['Kotlin', /\bkotlin\b/i], ['Swift', /\bSwift\b/],
+  ['Scala', /\bscala\b/i], ['SQL', /\bsql\b/i], ['PostgreSQL', /\bpostgres(?:ql)?\b/i], ['MySQL', /\bmysql\b/i],
+  ['MongoDB', /\bmongo(?:db)?\b/i], ['Redis', /\bredis\b/i], ['Kafka', /\bkafka\b/i], ['Elasticsearch', /\belasticsearch\b/i],
+  ['Snowflake', /\bSnowflake\b/], ['dbt', /\bdbt\b/], ['Spark', /\b(?:apache )?spark\b/i], ['Airflow', /\bairflow\b/i],
+  ['React', /\breact(?:\.js)?\b/i], ['Angular', /\bangular\b/i], ['Vue', /\bvue(?:\.js)?\b/i], ['Next.js', /\bnext\.js\b/i],
+  ['Node.js', /\bnode(?:\.js|js)?\b/i], ['Django', /\bdjango\b/i], ['Flask', /\bflask\b/i], ['FastAPI', /\bfastapi\b/i],
+  ['Spring', /\bspring(?: boot)?\b/i], ['Rails', /\brails\b/i], ['.NET', /\.net\b/i], ['GraphQL', /\bgraphql\b/i],
+  ['REST', /\brest(?:ful)?\b(?= ?api)/i], ['gRPC', /\bgrpc\b/i], ['AWS', /\baws\b/i], ['GCP', /\b(?:gcp|google cloud)\b/i],
+  ['Azure', /\bazure\b/i], ['Docker', /\bdocker\b/i], ['Kubernetes', /\b(?:kubernetes|k8s)\b/i], ['Terraform', /\bterraform\b/i],
+  ['Linux', /\blinux\b/i], ['Git', /\bgit\b/i], ['CI/CD', /\bci\s*\/\s*cd\b/i], ['TensorFlow', /\btensorflow\b/i],
+  ['PyTorch', /\bpytorch\b/i], ['Pandas', /\bpandas\b/i], ['Figma', /\bfigma\b/i], ['Tableau', /\btableau\b/i]
+];
+
+// Checked in order, so "Senior Staff Engineer" is staff and "Engineering Manager, Platform" is manager
+const SENIORITY_PATTERNS: [Seniority, RegExp][] = [
+  ['intern', /\bintern(?:ship)?\b|\bco-?op\b/i],
+  ['director', /\b(?:director|head of|vp|vice president)\b/i],
+  ['manager', /\bmanager\b/i],
+  ['principal', /\bprincipal\b/i],
+  ['staff', /\bstaff\b/i],
+  ['senior', /\b(?:senior|sr\.?|lead)\b/i],
+  ['entry', /\b(?:junior|jr\.?|entry[- ]level|new grad(?:uate)?|graduate|associate)\b/i]
+];
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP' };
+const AMOUNT = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?\s?[kK]|\d+(?:\.\d+)?`;
+const COMPENSATION_PATTERN = new RegExp(
+  String.raw`(?:\b(USD|CAD|EUR|GBP|AUD)\s*)?([$€£])\s?(${AMOUNT})\s*(?:-|–|—|to)\s*(?:[$€£]\s?)?(${AMOUNT})(?:\s*(USD|CAD|EUR|GBP|AUD)\b)?(?:\s*(?:\/|per|an|a)\s*(year|yr|annum|month|mo|hour|hr)\b)?`,
+  'i'
+);
+
+export interface ExtractedJobPosting {
+  details: JobPostingDetails;
+  source: JobPostingSource;
+}
+
+function cleanItem(line: string): string {
+  return line.replace(/^[\s\-*•·▪◦]+/, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Section a line introduces, if it reads like a heading: short, no sentence punctuation
+ */
+function headingSection(line: string): PostingSection | null {
+  const text = line.replace(/[:\s]+$/, '');
+  if (text.length === 0 || text.length > 60 || /[.!?]$/.test(text) || /^[-*•·▪◦]/.test(line)) {
+    return null;
+  }
+  return SECTION_HEADINGS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+function splitLines(text: string): string[] {
+  return text
+    // Bullets flattened into one line by HTML-to-text conversion
+    .replace(/\s[•·▪◦]\s/g, '\n- ')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+function readSections(lines: string[]): Record<Exclude<PostingSection, 'other'>, string[]> {
+  const sections = { responsibilities: [] as string[], required: [] as string[], preferred: [] as string[] };
+  let current: PostingSection | null = null;
+
+  for (const line of lines) {
+    const heading = headingSection(line);
+    if (heading) {
+      current = heading;
+      // "Requirements: 3+ years of Python" keeps its item after the heading
+      const inline = line.includes(':') ? cleanItem(line.substring(line.indexOf(':') + 1)) : '';
+      if (!inline) continue;
+      if (current !== 'other') sections[current].push(inline);
+      continue;
+    }
+    if (current && current !== 'other') {
+      const item = cleanItem(line);
+      if (item.length >= 3 && item.length <= 300) sections[current].push(item);
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Postings without recognizable headings: classify bullet lines by their wording
+ */
+function classifyBullets(lines: string[]): Record<Exclude<PostingSection, 'other'>, string[]> {
+  const sections = { responsibilities: [] as string[], required: [] as string[], preferred: [] as string[] };
+  for (const line of lines.filter(candidate => /^[-*•·▪◦]/.test(candidate))) {
+    const item = cleanItem(line);
+    if (item.length < 3 || item.length > 300) continue;
+    if (REQUIREMENT_CUE.test(item)) {
+      sections[PREFERRED_CUE.test(item) ? 'preferred' : 'required'].push(item);
+    } else {
+      sections.responsibilities.push(item);
+    }
+  }
+  return sections;
+}
+
+function detectSeniority(title: string | undefined, text: string): Seniority | undefined {
+  const fromTitle = title ? SENIORITY_PATTERNS.find(([, pattern]) => pattern.test(title))?.[0] : undefined;
+  if (fromTitle) return fromTitle;
+
+  // Without a title hint, go by the years of experience asked for
+  const years = text.match(/\b(\d{1,2})\+?\s*(?:-\s*\d{1,2}\s*)?years?\b/i);
+  if (!years) return undefined;
+  const minimum = Number(years[1]);
+  if (minimum <= 1) return 'entry';
+  if (minimum <= 4) return 'mid';
+  if (minimum <= 7) return 'senior';
+  return 'staff';
+}
+
+function detectWorkplace(text: string, hints: JobPostingHints): WorkplaceType | undefined {
+  if (/\bhybrid\b/i.test(text)) return 'hybrid';
+  if (hints.remote || /\b(?:fully remote|remote[- ]first|100% remote|remote)\b/i.test(text)) return 'remote';
+  if (/\b(?:on-?site|in[- ]office|in person)\b/i.test(text)) return 'onsite';
+  return undefined;
+}
+
+function detectLocation(lines: string[], hints: JobPostingHints): string | undefined {
+  if (hints.location) return hints.location;
+  const line = lines.find(candidate => /^(?:location|based in|office)s?\s*:/i.test(candidate));
+  return line ? cleanItem(line.substring(line.indexOf(':') + 1)) || undefined : undefined;
+}
+
+function parseAmount(value: string): number {
+  const amount = parseFloat(value.replace(/[,\s]/g, ''));
+  return /k$/i.test(value.trim()) ? amount * 1000 : amount;
+}
+
+function detectCompensation(text: string): Compensation | undefined {
+  const match = text.match(COMPENSATION_PATTERN);
+  if (!match) return undefined;
+
+  const [textMatch, leadingCode, symbol, low, high, trailingCode, period] = match;
+  const periodMap: Record<string, CompensationPeriod> = { year: 'year', yr: 'year', annum: 'year', month: 'month', mo: 'month', hour: 'hour', hr: 'hour' };
+  const min = parseAmount(low);
+  const max = parseAmount(high);
+
+  return {
+    text: textMatch.trim(),
+    min,
+    max,
+    currency: (leadingCode || trailingCode)?.toUpperCase() || CURRENCY_SYMBOLS[symbol],
+    // Ranges in the hundreds are hourly rates when the posting does not say
+    period: period ? periodMap[period.toLowerCase()] : max < 1000 ? 'hour' : 'year'
+  };
+}
+
+/**
+ * Offline fallback when the LLM is unavailable: sections are read from headings,
+ * the tech stack from a fixed vocabulary and pay from the first salary range
+ */
+function extractHeuristically(text: string, hints: JobPostingHints): JobPostingDetails {
+  const lines = splitLines(text);
+  const byHeading = readSections(lines);
+  const sections = byHeading.responsibilities.length + byHeading.required.length + byHeading.preferred.length > 0
+    ? byHeading
+    : classifyBullets(lines);
+
+  // An ATS requirements list beats guessing from unstructured text
+  const requiredQualifications = sections.required.length > 0 ? sections.required : hints.requirements || [];
+
+  return {
+    title: hints.title,
+    responsibilities: sections.responsibilities.slice(0, MAX_SECTION_ITEMS),
+    requiredQualifications: requiredQualifications.slice(0, MAX_SECTION_ITEMS),
+    preferredQualifications: sections.preferred.slice(0, MAX_SECTION_ITEMS),
+    techStack: TECH_TERMS.filter(([, pattern]) => pattern.test(text)).map(([name]) => name),
+    seniority: detectSeniority(hints.title, text),
+    location: detectLocation(lines, hints),
+    workplaceType: detectWorkplace(text, hints),
+    compensation: detectCompensation(text)
+  };
+}
+
+function buildExtractionPrompt(text: string, hints: JobPostingHints): string {
+  const known = [
+    hints.title && `Title: ${hints.title}`,
+    hints.location && `Location: ${hints.location}`,
+    hints.remote && 'The posting is listed as remote'
+  ].filter(Boolean);
+
+  return `You are extracting structured fields from a job posting.
+
+RULES:
+- Use ONLY information in the posting. Never invent requirements, technologies or pay.
+- responsibilities: what the person will do. requiredQualifications: must-have skills, experience and education. preferredQualifications: "nice to have", "bonus", "preferred" items.
+- Keep every item as a short phrase close to the posting's wording, one item per requirement. Include ALL listed requirements.
+- techStack: languages, frameworks, databases, cloud and tools named in the posting.
+- seniority: infer from the title first, then from the years of experience required. Omit if unclear.
+- workplaceType: "remote", "hybrid" or "onsite" only if stated. location: as written.
+- compensation: only if the posting states pay; "text" as written, min/max as plain numbers, currency as an ISO code.
+- Ignore company boilerplate, benefits and equal opportunity statements.
+${known.length > 0 ? `\nALREADY KNOWN:\n${known.join('\n')}\n` : ''}
+POSTING TEXT:
+${text}
+
+Return ONLY valid JSON with this structure:
+${jobPostingSchema.shape}`;
+}
+
+/**
+ * Extract structured fields from posting text.
+ * Invalid model output is reported as a StructuredOutputError; an unreachable
+ * LLM falls back to the heuristic extractor.
+ */
+export async function extractJobPosting(text: string, hints: JobPostingHints = {}): Promise<ExtractedJobPosting> {
+  const postingText = text.slice(0, MAX_POSTING_TEXT_LENGTH);
+
+  try {
+    const details = await generateJson('jobPostingExtraction', buildExtractionPrompt(postingText, hints), jobPostingSchema, { temperature: 0 });
+    return {
+      details: {
+        ...details,
+        title: details.title || hints.title,
+        location: details.location || hints.location,
+        workplaceType: details.workplaceType || (hints.remote ? 'remote' : undefined)
+      },
+      source: 'llm'
+    };
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+    console.error('LLM request for job posting extraction failed, using heuristic extractor:', error);
+    return { details: extractHeuristically(postingText, hints), source: 'heuristic' };
+  }
+}
+
+const SENIORITY_LABELS: Record<Seniority, string> = {
+  intern: 'Intern',
+  entry: 'Entry level',
+  mid: 'Mid level',
+  senior: 'Senior',
+  staff: 'Staff',
+  principal: 'Principal',
+  manager: 'Manager',
+  director: 'Director'
+};
+
+/**
+ * Plain-text summary of the extracted fields, used as the job description for question generation
+ */
+export function formatJobPostingDetails(details: JobPostingDetails): string {
+  const overview = [
+    details.seniority && `Level: ${SENIORITY_LABELS[details.seniority]}`,
+    details.location && `Location: ${details.location}`,
+    details.workplaceType && `Workplace: ${details.workplaceType}`,
+    details.compensation && `Compensation: ${details.compensation.text}`,
+    details.techStack.length > 0 && `Tech stack: ${details.techStack.join(', ')}`
+  ].filter(Boolean);
+
+  const section = (heading: string, items: string[]) =>
+    items.length > 0 ? `${heading}:\n${items.map(item => `- ${item}`).join('\n')}` : '';
+
+  return [
+    overview.join('\n'),
+    section('Responsibilities', details.responsibilities),
+    section('Required qualifications', details.requiredQualifications),
+    section('Preferred qualifications', details.preferredQualifications)
+  ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,232 @@
+import type { LlmFeature, LlmGenerateRequest } from '../../types/llm.types';
+import type { LlmClient } from './llmClient';
+
+/**
+ * Read the requested question count from a prompt's "exactly N" instruction
+ */
+function requestedCount(prompt: string, pattern: RegExp): number {
+  const match = prompt.match(pattern);
+  return match ? Number(match[1]) : 2;
+}
+
+/**
+ * Pick the first N question objects from the AVAILABLE QUESTIONS block
+ * of the technical selection prompt
+ */
+function selectFromPrompt(prompt: string): string {
+  const listStart = prompt.indexOf('[', prompt.indexOf('AVAILABLE QUESTIONS'));
+  const listEnd = prompt.lastIndexOf(']');
+  const count = requestedCount(prompt, /Choose exactly (\d+) question IDs/);
+
+  try {
+    const questions = JSON.parse(prompt.substring(listStart, listEnd + 1));
+    return JSON.stringify({ selected: questions.slice(0, count) });
+  } catch {
+    return JSON.stringify({ selected: [] });
+  }
+}
+
+/**
+ * Split the graded answer into sentences and assign them to STAR components in order
+ */
+function gradeFromPrompt(prompt: string): string {
+  const answer = prompt.match(/Answer: "([\s\S]*?)"\n/)?.[1] || '';
+  const sentences = answer.match(/[^.!?]+[.!?]*/g)?.map(s => s.trim()).filter(Boolean) || [];
+
+  const quote = (index: number) => (sentences[index] ? [sentences[index]] : []);
+  const component = (quotes: string[]) => ({
+    quotes,
+    score: quotes.length > 0 ? 7 : 0,
+    comment: quotes.length > 0 ? 'Clearly described.' : 'Not covered in the answer.'
+  });
+
+  // Rubric competencies are listed as "- <id>: <name> - <description>"
+  const rubricSection = prompt.substring(prompt.indexOf('"competencies", rate'));
+  const competencyIds = Array.from(rubricSection.matchAll(/^- ([\w-]+): /gm), match => match[1]);
+
+  return JSON.stringify({
+    strengths: 'The answer describes a concrete situation and the actions taken.',
+    weaknesses: 'The result is not quantified and the reflection is brief.',
+    suggestions: ['Quantify the outcome with a metric or concrete result.'],
+    score: 7,
+    star: {
+      situation: component(quote(0)),
+      task: component(quote(1)),
+      action: component(sentences.length > 3 ? [sentences.slice(2, -1).join(' ')] : quote(2)),
+      result: component(sentences.length > 2 ? quote(sentences.length - 1) : [])
+    },
+    competencies: competencyIds.map(id => ({ id, level: 3, evidence: 'The answer gives a relevant, specific example.' }))
+  });
+}
+
+/**
+ * Ask for a measurable result when the answer contains no numbers
+ */
+function followUpFromPrompt(prompt: string): string {
+  const answer = prompt.match(/Answer: "([\s\S]*?)"\n/)?.[1] || '';
+  const hasNumbers = /\d/.test(answer);
+
+  return JSON.stringify({
+    askFollowUp: !hasNumbers,
+    reason: hasNumbers ? 'The answer already quantifies the outcome.' : 'The answer does not quantify the outcome.',
+    followUp: hasNumbers ? '' : 'What was the measurable result of that work?'
+  });
+}
+
+const CANNED_BEHAVIORAL_QUESTIONS = [
+  {
+    id: 'behav_1_resume',
+    question: 'Walk me through a project on your resume that you are most proud of. What was your role and what was the outcome?',
+    category: 'behavioral',
+    difficulty: 'medium',
+    tags: ['resume', 'experience']
+  },
+  {
+    id: 'behav_2_job',
+    question: 'Tell me about a time you had to learn a new skill quickly to deliver on a goal. How did you approach it?',
+    category: 'behavioral',
+    difficulty: 'medium',
+    tags: ['job', 'learning', 'adaptability']
+  },
+  {
+    id: 'behav_3_team',
+    question: 'Describe a disagreement you had with a teammate. How did you resolve it and what did you learn?',
+    category: 'behavioral',
+    difficulty: 'medium',
+    tags: ['teamwork', 'conflict-resolution', 'collaboration']
+  },
+  {
+    id: 'behav_4_fit',
+    question: 'What attracts you to this role, and how does it fit into your longer-term career goals?',
+    category: 'behavioral',
+    difficulty: 'easy',
+    tags: ['motivation-fit', 'career-alignment']
+  }
+];
+
+/**
+ * Cycle through the canned behavioral questions until the requested count is reached.
+ * With a structured resume in the prompt, the first question cites its first entry.
+ */
+function questionsFromPrompt(prompt: string): string {
+  const count = requestedCount(prompt, /Generate exactly (\d+) behavioral questions/);
+  const firstEntryId = prompt.match(/^\[((?:exp|proj|edu)_\d+)\]/m)?.[1];
+  const behavioral = Array.from({ length: count }, (_, index) => {
+    const canned = CANNED_BEHAVIORAL_QUESTIONS[index % CANNED_BEHAVIORAL_QUESTIONS.length];
+    // Repeats need their own ids
+    const question = index < CANNED_BEHAVIORAL_QUESTIONS.length ? canned : { ...canned, id: `${canned.id}_${index + 1}` };
+    return index === 0 && firstEntryId ? { ...question, resumeEntryId: firstEntryId } : question;
+  });
+  return JSON.stringify({ behavioral });
+}
+
+/**
+ * Fixed profile so the resume review step can be exercised offline
+ */
+const CANNED_RESUME_PROFILE = {
+  experiences: [
+    {
+      employer: 'Example Corp',
+      role: 'Software Engineering Intern',
+      startDate: 'Jun 2023',
+      endDate: 'Aug 2023',
+      bullets: [
+        'Built an internal dashboard used by the support team.',
+        'Reduced page load time by 30% by caching API responses.'
+      ]
+    }
+  ],
+  projects: [
+    {
+      name: 'Study Group Finder',
+      description: 'Web app that matches students into study groups',
+      technologies: ['React', 'Node.js'],
+      bullets: ['Led a team of three and shipped the first version in six weeks.']
+    }
+  ],
+  skills: ['TypeScript', 'React', 'Node.js', 'SQL'],
+  education: [
+    { institution: 'Example University', degree: 'B.S.', field: 'Computer Science', graduationDate: '2025' }
+  ]
+};
+
+/**
+ * Rate the first job description lines in order: covered by the first resume entry,
+ * weakly covered, then missing - enough to exercise every state of the coverage report
+ */
+function gapsFromPrompt(prompt: string): string {
+  const jobDescription = prompt.match(/JOB DESCRIPTION:\n([\s\S]*?)\n\nSTRUCTURED RESUME PROFILE/)?.[1] || '';
+  const lines = jobDescription
+    .split('\n')
+    .map(line => line.replace(/^[\s\-*•]+/, '').trim())
+    // Skip section headings such as "Requirements:"
+    .filter(line => line.length >= 10 && !line.endsWith(':'))
+    .slice(0, 4);
+  const firstEntryId = prompt.match(/^\[((?:exp|proj|edu)_\d+)\]/m)?.[1];
+
+  const requirements = (lines.length > 0 ? lines : ['Collaborate with a team to deliver software']).map((requirement, index) => {
+    const coverage = index === 0 && firstEntryId ? 'covered' : index <= 1 ? 'weak' : 'missing';
+    return {
+      requirement,
+      category: index % 2 === 0 ? 'skill' : 'responsibility',
+      priority: index < 3 ? 'required' : 'preferred',
+      coverage,
+      resumeEntryIds: coverage === 'covered' ? [firstEntryId] : [],
+      note: coverage === 'missing' ? 'Not mentioned on the resume.' : 'Related experience is listed.'
+    };
+  });
+  return JSON.stringify({ requirements });
+}
+
+/**
+ * Bulleted lines of the posting text: requirement-style lines become required
+ * qualifications, the rest responsibilities
+ */
+function postingFromPrompt(prompt: string): string {
+  const text = prompt.match(/POSTING TEXT:\n([\s\S]*?)\n\nReturn ONLY valid JSON/)?.[1] || '';
+  const bullets = text
+    .split('\n')
+    .filter(line => /^\s*[-*•]/.test(line))
+    .map(line => line.replace(/^[\s\-*•]+/, '').trim())
+    .filter(Boolean);
+  const isRequirement = (line: string) => /\b(?:experience|years|knowledge|degree|proficien)/i.test(line);
+
+  return JSON.stringify({
+    title: text.match(/^Title:\s*(.+)$/m)?.[1],
+    responsibilities: bullets.filter(line => !isRequirement(line)).slice(0, 5),
+    requiredQualifications: bullets.filter(isRequirement).slice(0, 5),
+    preferredQualifications: [],
+    techStack: ['TypeScript', 'React', 'Node.js'].filter(term => text.includes(term)),
+    seniority: /\bsenior\b/i.test(text) ? 'senior' : 'mid',
+    workplaceType: /\bremote\b/i.test(text) ? 'remote' : undefined
+  });
+}
+
+const cannedResponses: Record<LlmFeature, (prompt: string) => string> = {
+  questionGeneration: questionsFromPrompt,
+  behavioralGrading: gradeFromPrompt,
+  technicalSelection: selectFromPrompt,
+  technicalFeedback: () => JSON.stringify({
+    feedback: 'Partially correct. You covered the core idea but could explain the key details more precisely.'
+  }),
+  technicalSuggestions: () => JSON.stringify([
+    'Explain the underlying mechanism in more detail.',
+    'Add a concrete example to support your answer.'
+  ]),
+  followUp: followUpFromPrompt,
+  resumeParsing: () => JSON.stringify(CANNED_RESUME_PROFILE),
+  gapAnalysis: gapsFromPrompt,
+  jobPostingExtraction: postingFromPrompt
+};
+
+/**
+ * Deterministic offline client - returns canned, well-formed responses for each
+ * feature so the backend can run without network access or API keys
+ */
+export class FakeLlmClient implements LlmClient {
+  readonly provider = 'fake' as const;
+
+  async generateText({ feature, prompt }: LlmGenerateRequest): Promise<string> {
+    return cannedResponses[feature](prompt);
+  }
+}
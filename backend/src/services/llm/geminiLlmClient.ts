@@ -0,0 +1,29 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { LlmGenerateRequest } from '../../types/llm.types';
+import type { LlmClient } from './llmClient';
+
+/**
+ * Google Gemini implementation of the LLM client
+ */
+export class GeminiLlmClient implements LlmClient {
+  readonly provider = 'gemini' as const;
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey?: string) {
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is required');
+    }
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generateText({ prompt, model, temperature }: LlmGenerateRequest): Promise<string> {
+    const generativeModel = this.client.getGenerativeModel({
+      model,
+      ...(temperature !== undefined && { generationConfig: { temperature } })
+    });
+
+    const result = await generativeModel.generateContent(prompt);
+    const response = await result.response;
+    return response.text();
+  }
+}
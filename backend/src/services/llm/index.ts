@@ -0,0 +1,111 @@
+import dotenv from 'dotenv';
+import type { LlmFeature, LlmProvider } from '../../types/llm.types';
+import type { LlmClient } from './llmClient';
+import { GeminiLlmClient } from './geminiLlmClient';
+import { OpenAiCompatibleLlmClient } from './openAiCompatibleLlmClient';
+import { FakeLlmClient } from './fakeLlmClient';
+import { generateStructured } from './structuredOutput';
+import type { OutputSchema } from './schemas';
+
+dotenv.config();
+
+export type { LlmClient } from './llmClient';
+export { extractJson } from './llmClient';
+export { StructuredOutputError } from './structuredOutput';
+export * from './schemas';
+
+const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  gemini: 'gemini-1.5-flash',
+  openai: 'gpt-4o-mini',
+  fake: 'fake'
+};
+
+// Per-feature model overrides, e.g. LLM_MODEL_GRADER=gemini-1.5-pro
+const FEATURE_MODEL_ENV: Record<LlmFeature, string> = {
+  questionGeneration: 'LLM_MODEL_QUESTIONS',
+  behavioralGrading: 'LLM_MODEL_GRADER',
+  technicalSelection: 'LLM_MODEL_SELECTOR',
+  technicalFeedback: 'LLM_MODEL_TECHNICAL_FEEDBACK',
+  technicalSuggestions: 'LLM_MODEL_TECHNICAL_FEEDBACK',
+  followUp: 'LLM_MODEL_FOLLOW_UP',
+  resumeParsing: 'LLM_MODEL_RESUME',
+  gapAnalysis: 'LLM_MODEL_GAP_ANALYSIS',
+  jobPostingExtraction: 'LLM_MODEL_JOB_POSTING'
+};
+
+function resolveProvider(): LlmProvider {
+  const provider = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  if (provider === 'gemini' || provider === 'openai' || provider === 'fake') {
+    return provider;
+  }
+  throw new Error(`Unsupported LLM_PROVIDER: ${provider}`);
+}
+
+let clientInstance: LlmClient | null = null;
+
+/**
+ * Get the configured LLM client.
+ * LLM_PROVIDER=gemini|openai|fake (default gemini)
+ */
+export function getLlmClient(): LlmClient {
+  if (!clientInstance) {
+    const provider = resolveProvider();
+
+    switch (provider) {
+      case 'openai':
+        clientInstance = new OpenAiCompatibleLlmClient(process.env.OPENAI_BASE_URL, process.env.OPENAI_API_KEY);
+        break;
+      case 'fake':
+        clientInstance = new FakeLlmClient();
+        break;
+      default:
+        clientInstance = new GeminiLlmClient(process.env.GEMINI_API_KEY);
+    }
+
+    console.log(`🤖 LLM provider: ${provider}`);
+  }
+  return clientInstance;
+}
+
+/**
+ * Model used for a feature: the feature override, then LLM_MODEL, then the provider default
+ */
+export function getModelForFeature(feature: LlmFeature): string {
+  return process.env[FEATURE_MODEL_ENV[feature]]
+    || process.env.LLM_MODEL
+    || DEFAULT_MODELS[getLlmClient().provider];
+}
+
+/**
+ * Run a prompt for a feature with its configured model
+ */
+export async function generateText(
+  feature: LlmFeature,
+  prompt: string,
+  options: { temperature?: number } = {}
+): Promise<string> {
+  return getLlmClient().generateText({
+    feature,
+    prompt,
+    model: getModelForFeature(feature),
+    temperature: options.temperature
+  });
+}
+
+/**
+ * Run a prompt for a feature and return schema-validated JSON.
+ * Throws StructuredOutputError if the output is still invalid after one repair round.
+ */
+export async function generateJson<T>(
+  feature: LlmFeature,
+  prompt: string,
+  schema: OutputSchema<T>,
+  options: { temperature?: number } = {}
+): Promise<T> {
+  return generateStructured(
+    (text: string) => generateText(feature, text, options),
+    feature,
+    prompt,
+    schema
+  );
+}
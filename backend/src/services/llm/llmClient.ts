@@ -0,0 +1,41 @@
+import type { LlmGenerateRequest, LlmProvider } from '../../types/llm.types';
+
+/**
+ * Minimal text-in/text-out contract every LLM provider implements
+ */
+export interface LlmClient {
+  readonly provider: LlmProvider;
+  generateText(request: LlmGenerateRequest): Promise<string>;
+}
+
+/**
+ * Extract the JSON payload from a model response.
+ * Handles markdown code fences and leading/trailing prose around the JSON.
+ */
+export function extractJson(text: string): unknown {
+  let candidate = text.trim();
+
+  // Prefer the contents of a ```json ... ``` (or bare ```) block when present
+  const fenceMatch = candidate.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenceMatch) {
+    candidate = fenceMatch[1].trim();
+  }
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // Fall back to the outermost object or array in the text
+    const start = candidate.search(/[[{]/);
+    if (start === -1) {
+      throw new Error('No JSON found in response');
+    }
+
+    const closing = candidate[start] === '{' ? '}' : ']';
+    const end = candidate.lastIndexOf(closing);
+    if (end <= start) {
+      throw new Error('No JSON found in response');
+    }
+
+    return JSON.parse(candidate.substring(start, end + 1));
+  }
+}
@@ -0,0 +1,45 @@
+import axios from 'axios';
+import type { LlmGenerateRequest } from '../../types/llm.types';
+import type { LlmClient } from './llmClient';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Client for any OpenAI-compatible /chat/completions endpoint
+ * (OpenAI, Azure OpenAI proxies, Ollama, vLLM, LM Studio, ...)
+ */
+export class OpenAiCompatibleLlmClient implements LlmClient {
+  readonly provider = 'openai' as const;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(baseUrl?: string, apiKey?: string) {
+    this.baseUrl = (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = apiKey;
+  }
+
+  async generateText({ prompt, model, temperature }: LlmGenerateRequest): Promise<string> {
+    const response = await axios.post(
+      `${this.baseUrl}/chat/completions`,
+      {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(temperature !== undefined && { temperature })
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+        },
+        timeout: 60000
+      }
+    );
+
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('OpenAI-compatible response did not contain message content');
+    }
+
+    return content;
+  }
+}
@@ -0,0 +1,529 @@
+import type { StarComponent } from '../../types/star.types';
+import type { ResumeEducation, ResumeExperience, ResumeProfile, ResumeProject } from '../../types/resumeProfile.types';
+import type { Compensation, JobPostingDetails } from '../../types/jobPosting.types';
+import type {
+  BehavioralFeedbackOutput,
+  CompetencyLevelOutput,
+  FollowUpDecisionOutput,
+  GapAnalysisOutput,
+  GapRequirementOutput,
+  GeneratedBehavioralQuestion,
+  QuestionGenerationOutput,
+  SelectableTechnicalQuestion,
+  StarComponentOutput,
+  TechnicalFeedbackOutput,
+  TechnicalSelectionOutput
+} from '../../types/llm.types';
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * Validator for one kind of structured LLM output.
+ * `shape` is shown to the model when asking it to repair invalid output.
+ */
+export interface OutputSchema<T> {
+  name: string;
+  shape: string;
+  parse(value: unknown): SchemaResult<T>;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function result<T>(errors: string[], data: () => T): SchemaResult<T> {
+  return errors.length > 0 ? { success: false, errors } : { success: true, data: data() };
+}
+
+/**
+ * Validate an array of non-empty strings with a length range.
+ * A single string is accepted and treated as a one-item list.
+ */
+function parseStringList(value: unknown, path: string, min: number, max: number, errors: string[]): string[] {
+  const list = typeof value === 'string' ? [value] : value;
+
+  if (!Array.isArray(list)) {
+    errors.push(`${path} must be an array of strings`);
+    return [];
+  }
+
+  list.forEach((item, index) => {
+    if (!isNonEmptyString(item)) {
+      errors.push(`${path}[${index}] must be a non-empty string`);
+    }
+  });
+
+  if (list.length < min || list.length > max) {
+    errors.push(`${path} must contain ${min === max ? min : `${min}-${max}`} items (got ${list.length})`);
+  }
+
+  return list.map(item => String(item).trim());
+}
+
+function parseScore(value: unknown, path: string, min: number, max: number, errors: string[]): number {
+  // Models often return scores as strings ("7" or "7/10")
+  const score = typeof value === 'number' ? value : parseFloat(String(value));
+  if (!Number.isFinite(score) || score < min || score > max) {
+    errors.push(`${path} must be a number from ${min}-${max}`);
+  }
+  return score;
+}
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+const STAR_COMPONENTS: StarComponent[] = ['situation', 'task', 'action', 'result'];
+
+/**
+ * { behavioral: [ `count` questions ] } from question generation.
+ * With a structured resume, questions may cite one of `resumeEntryIds` as resumeEntryId.
+ */
+export function createQuestionGenerationSchema(count: number, resumeEntryIds: string[] = []): OutputSchema<QuestionGenerationOutput> {
+  const citation = resumeEntryIds.length > 0 ? `, "resumeEntryId"?: one of ${resumeEntryIds.join(', ')}` : '';
+
+  return {
+    name: 'questionGeneration',
+    shape: `{ "behavioral": [ { "id": string, "question": string, "category": "behavioral", "difficulty": "easy"|"medium"|"hard", "tags": string[]${citation} } ] } with exactly ${count} questions`,
+    parse(value) {
+      const errors: string[] = [];
+
+      if (!isObject(value) || !Array.isArray(value.behavioral)) {
+        return { success: false, errors: ['behavioral must be an array'] };
+      }
+
+      if (value.behavioral.length !== count) {
+        errors.push(`behavioral must contain exactly ${count} questions (got ${value.behavioral.length})`);
+      }
+
+      const questions = value.behavioral.map((item: unknown, index: number): GeneratedBehavioralQuestion | null => {
+        const path = `behavioral[${index}]`;
+        if (!isObject(item)) {
+          errors.push(`${path} must be an object`);
+          return null;
+        }
+        if (!isNonEmptyString(item.id)) errors.push(`${path}.id must be a non-empty string`);
+        if (!isNonEmptyString(item.question)) errors.push(`${path}.question must be a non-empty string`);
+        if (!DIFFICULTIES.includes(item.difficulty)) errors.push(`${path}.difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+        const tags = parseStringList(item.tags ?? [], `${path}.tags`, 0, 10, errors);
+
+        // Models fill unused optional fields with "" or null - only a real id is a citation
+        const resumeEntryId = isNonEmptyString(item.resumeEntryId) ? item.resumeEntryId.trim() : undefined;
+        if (resumeEntryId && !resumeEntryIds.includes(resumeEntryId)) {
+          errors.push(`${path}.resumeEntryId must be one of ${resumeEntryIds.join(', ') || '(no resume entries)'}`);
+        }
+
+        return {
+          id: String(item.id),
+          question: String(item.question).trim(),
+          category: 'behavioral',
+          difficulty: item.difficulty,
+          tags,
+          ...(resumeEntryId && { resumeEntryId })
+        };
+      });
+
+      return result(errors, () => ({ behavioral: questions as GeneratedBehavioralQuestion[] }));
+    }
+  };
+}
+
+const MAX_RESUME_ENTRIES = 15;
+const MAX_RESUME_BULLETS = 10;
+const MAX_RESUME_SKILLS = 60;
+
+function optionalString(value: unknown): string | undefined {
+  return isNonEmptyString(value) ? value.trim() : undefined;
+}
+
+/**
+ * Lenient list of short strings - blanks are dropped and the list is capped
+ */
+function cleanStringList(value: unknown, max: number): string[] {
+  const list = typeof value === 'string' ? value.split(/\n|;/) : Array.isArray(value) ? value : [];
+  return list
+    .filter(isNonEmptyString)
+    .map(item => item.trim())
+    .slice(0, max);
+}
+
+/**
+ * Validate a list of resume entries, requiring `required` fields on each.
+ * Entry ids are reassigned by position so citations always match the stored profile.
+ */
+function parseResumeEntries<T>(
+  value: unknown,
+  path: string,
+  idPrefix: string,
+  required: string[],
+  errors: string[],
+  build: (entry: Record<string, any>, id: string) => T
+): T[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return [];
+  }
+  if (value.length > MAX_RESUME_ENTRIES) {
+    errors.push(`${path} must contain at most ${MAX_RESUME_ENTRIES} entries (got ${value.length})`);
+  }
+
+  return value.slice(0, MAX_RESUME_ENTRIES).map((entry: unknown, index: number) => {
+    if (!isObject(entry)) {
+      errors.push(`${path}[${index}] must be an object`);
+      return null;
+    }
+    for (const field of required) {
+      if (!isNonEmptyString(entry[field])) errors.push(`${path}[${index}].${field} must be a non-empty string`);
+    }
+    return build(entry, `${idPrefix}_${index + 1}`);
+  }).filter((entry): entry is T => entry !== null);
+}
+
+/**
+ * Structured resume profile - parsed from resume text by the model, or edited by the user
+ */
+export const resumeProfileSchema: OutputSchema<ResumeProfile> = {
+  name: 'resumeProfile',
+  shape: '{ "name"?: string, "summary"?: string, "experiences": [ { "employer": string, "role": string, "startDate"?: string, "endDate"?: string, "location"?: string, "bullets": string[] } ], "projects": [ { "name": string, "description"?: string, "technologies": string[], "bullets": string[] } ], "skills": string[], "education": [ { "institution": string, "degree"?: string, "field"?: string, "graduationDate"?: string } ] }',
+  parse(value) {
+    if (!isObject(value)) {
+      return { success: false, errors: ['Response must be a JSON object'] };
+    }
+
+    const errors: string[] = [];
+
+    const experiences = parseResumeEntries<ResumeExperience>(value.experiences, 'experiences', 'exp', ['employer', 'role'], errors, (entry, id) => ({
+      id,
+      employer: String(entry.employer ?? '').trim(),
+      role: String(entry.role ?? '').trim(),
+      startDate: optionalString(entry.startDate),
+      endDate: optionalString(entry.endDate),
+      location: optionalString(entry.location),
+      bullets: cleanStringList(entry.bullets, MAX_RESUME_BULLETS)
+    }));
+
+    const projects = parseResumeEntries<ResumeProject>(value.projects, 'projects', 'proj', ['name'], errors, (entry, id) => ({
+      id,
+      name: String(entry.name ?? '').trim(),
+      description: optionalString(entry.description),
+      technologies: cleanStringList(entry.technologies, MAX_RESUME_BULLETS),
+      bullets: cleanStringList(entry.bullets, MAX_RESUME_BULLETS)
+    }));
+
+    const education = parseResumeEntries<ResumeEducation>(value.education, 'education', 'edu', ['institution'], errors, (entry, id) => ({
+      id,
+      institution: String(entry.institution ?? '').trim(),
+      degree: optionalString(entry.degree),
+      field: optionalString(entry.field),
+      graduationDate: optionalString(entry.graduationDate)
+    }));
+
+    if (value.skills !== undefined && !Array.isArray(value.skills) && typeof value.skills !== 'string') {
+      errors.push('skills must be an array of strings');
+    }
+
+    return result(errors, () => ({
+      name: optionalString(value.name),
+      summary: optionalString(value.summary),
+      experiences,
+      projects,
+      skills: cleanStringList(value.skills, MAX_RESUME_SKILLS),
+      education
+    }));
+  }
+};
+
+const MAX_GAP_REQUIREMENTS = 20;
+const REQUIREMENT_CATEGORIES = ['skill', 'responsibility'] as const;
+const REQUIREMENT_PRIORITIES = ['required', 'preferred'] as const;
+const REQUIREMENT_COVERAGE = ['covered', 'weak', 'missing'] as const;
+
+/**
+ * Job requirements rated against the structured resume. Evidence must be one of
+ * `resumeEntryIds`; a requirement rated covered without evidence is downgraded to weak.
+ */
+export function createGapAnalysisSchema(resumeEntryIds: string[]): OutputSchema<GapAnalysisOutput> {
+  return {
+    name: 'gapAnalysis',
+    shape: `{ "requirements": [ { "requirement": string, "category": "skill"|"responsibility", "priority": "required"|"preferred", "coverage": "covered"|"weak"|"missing", "resumeEntryIds": string[] (each one of ${resumeEntryIds.join(', ') || 'no entries - use []'}), "note"?: string } ] } with 1-${MAX_GAP_REQUIREMENTS} requirements`,
+    parse(value) {
+      if (!isObject(value) || !Array.isArray(value.requirements)) {
+        return { success: false, errors: ['requirements must be an array'] };
+      }
+
+      const errors: string[] = [];
+      if (value.requirements.length === 0 || value.requirements.length > MAX_GAP_REQUIREMENTS) {
+        errors.push(`requirements must contain 1-${MAX_GAP_REQUIREMENTS} items (got ${value.requirements.length})`);
+      }
+
+      const requirements = value.requirements.map((item: unknown, index: number): GapRequirementOutput | null => {
+        const path = `requirements[${index}]`;
+        if (!isObject(item)) {
+          errors.push(`${path} must be an object`);
+          return null;
+        }
+        if (!isNonEmptyString(item.requirement)) errors.push(`${path}.requirement must be a non-empty string`);
+        if (!REQUIREMENT_CATEGORIES.includes(item.category)) errors.push(`${path}.category must be one of ${REQUIREMENT_CATEGORIES.join(', ')}`);
+        if (!REQUIREMENT_PRIORITIES.includes(item.priority)) errors.push(`${path}.priority must be one of ${REQUIREMENT_PRIORITIES.join(', ')}`);
+        if (!REQUIREMENT_COVERAGE.includes(item.coverage)) errors.push(`${path}.coverage must be one of ${REQUIREMENT_COVERAGE.join(', ')}`);
+
+        const entryIds = Array.from(new Set(cleanStringList(item.resumeEntryIds, MAX_RESUME_ENTRIES)));
+        entryIds.filter(id => !resumeEntryIds.includes(id)).forEach(id => {
+          errors.push(`${path}.resumeEntryIds contains ${id}, which is not a resume entry id`);
+        });
+
+        return {
+          requirement: String(item.requirement).trim(),
+          category: item.category,
+          priority: item.priority,
+          coverage: item.coverage === 'covered' && entryIds.length === 0 ? 'weak' : item.coverage,
+          resumeEntryIds: entryIds,
+          ...(isNonEmptyString(item.note) && { note: item.note.trim() })
+        };
+      });
+
+      return result(errors, () => ({ requirements: requirements as GapRequirementOutput[] }));
+    }
+  };
+}
+
+const MAX_POSTING_ITEMS = 20;
+const SENIORITIES = ['intern', 'entry', 'mid', 'senior', 'staff', 'principal', 'manager', 'director'] as const;
+const WORKPLACE_TYPES = ['remote', 'hybrid', 'onsite'] as const;
+const COMPENSATION_PERIODS = ['year', 'month', 'hour'] as const;
+
+function optionalAmount(value: unknown): number | undefined {
+  const amount = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[,$]/g, ''));
+  return Number.isFinite(amount) && amount > 0 ? amount : undefined;
+}
+
+/**
+ * Structured job posting - lists are lenient, enum fields must be valid when present
+ */
+export const jobPostingSchema: OutputSchema<JobPostingDetails> = {
+  name: 'jobPosting',
+  shape: `{ "title"?: string, "responsibilities": string[], "requiredQualifications": string[], "preferredQualifications": string[], "techStack": string[], "seniority"?: ${SENIORITIES.map(s => `"${s}"`).join('|')}, "location"?: string, "workplaceType"?: "remote"|"hybrid"|"onsite", "compensation"?: { "text": string, "min"?: number, "max"?: number, "currency"?: string, "period"?: "year"|"month"|"hour" } }`,
+  parse(value) {
+    if (!isObject(value)) {
+      return { success: false, errors: ['Response must be a JSON object'] };
+    }
+
+    const errors: string[] = [];
+    // Models fill unknown optional fields with "", null or "unknown"
+    const present = (field: unknown) => isNonEmptyString(field) && field.trim().toLowerCase() !== 'unknown';
+
+    if (present(value.seniority) && !SENIORITIES.includes(value.seniority)) {
+      errors.push(`seniority must be one of ${SENIORITIES.join(', ')}`);
+    }
+    if (present(value.workplaceType) && !WORKPLACE_TYPES.includes(value.workplaceType)) {
+      errors.push(`workplaceType must be one of ${WORKPLACE_TYPES.join(', ')}`);
+    }
+
+    let compensation: Compensation | undefined;
+    if (isObject(value.compensation) && isNonEmptyString(value.compensation.text)) {
+      const { text, min, max, currency, period } = value.compensation;
+      if (present(period) && !COMPENSATION_PERIODS.includes(period)) {
+        errors.push(`compensation.period must be one of ${COMPENSATION_PERIODS.join(', ')}`);
+      }
+      compensation = {
+        text: text.trim(),
+        min: optionalAmount(min),
+        max: optionalAmount(max),
+        currency: isNonEmptyString(currency) ? currency.trim().toUpperCase() : undefined,
+        period: present(period) ? period : undefined
+      };
+    }
+
+    return result(errors, () => ({
+      title: optionalString(value.title),
+      responsibilities: cleanStringList(value.responsibilities, MAX_POSTING_ITEMS),
+      requiredQualifications: cleanStringList(value.requiredQualifications, MAX_POSTING_ITEMS),
+      preferredQualifications: cleanStringList(value.preferredQualifications, MAX_POSTING_ITEMS),
+      techStack: Array.from(new Set(cleanStringList(value.techStack, MAX_POSTING_ITEMS * 2))),
+      seniority: present(value.seniority) ? value.seniority : undefined,
+      location: optionalString(value.location),
+      workplaceType: present(value.workplaceType) ? value.workplaceType : undefined,
+      compensation
+    }));
+  }
+};
+
+/**
+ * Behavioral grader feedback with a numeric 1-10 score, STAR assessment and
+ * one rubric level per requested competency
+ */
+export function createBehavioralFeedbackSchema(
+  competencyIds: string[],
+  levelRange: { min: number; max: number }
+): OutputSchema<BehavioralFeedbackOutput> {
+  return {
+    name: 'behavioralFeedback',
+    shape: `{ "strengths": string, "weaknesses": string, "suggestions": string[] (1-3 items), "score": number from 1-10, "star": { "situation"|"task"|"action"|"result": { "quotes": string[] (verbatim excerpts of the answer, [] if missing), "score": number from 0-10, "comment": string } }, "competencies": [ { "id": one of ${competencyIds.join(', ')}, "level": number from ${levelRange.min}-${levelRange.max}, "evidence": string } ] with one entry per competency }`,
+    parse(value) {
+      if (!isObject(value)) {
+        return { success: false, errors: ['Response must be a JSON object'] };
+      }
+
+      const errors: string[] = [];
+      if (!isNonEmptyString(value.strengths)) errors.push('strengths must be a non-empty string');
+      if (!isNonEmptyString(value.weaknesses)) errors.push('weaknesses must be a non-empty string');
+      const suggestions = parseStringList(value.suggestions, 'suggestions', 1, 3, errors);
+
+      const score = parseScore(value.score, 'score', 1, 10, errors);
+
+      const star = {} as Record<StarComponent, StarComponentOutput>;
+      if (!isObject(value.star)) {
+        errors.push('star must be an object with situation, task, action and result');
+      } else {
+        for (const component of STAR_COMPONENTS) {
+          const entry = value.star[component];
+          const path = `star.${component}`;
+          if (!isObject(entry)) {
+            errors.push(`${path} must be an object`);
+            continue;
+          }
+          star[component] = {
+            quotes: parseStringList(entry.quotes ?? [], `${path}.quotes`, 0, 5, errors),
+            score: parseScore(entry.score, `${path}.score`, 0, 10, errors),
+            comment: typeof entry.comment === 'string' ? entry.comment.trim() : ''
+          };
+        }
+      }
+
+      const competencies: CompetencyLevelOutput[] = [];
+      if (!Array.isArray(value.competencies)) {
+        errors.push('competencies must be an array');
+      } else {
+        value.competencies.forEach((entry: unknown, index: number) => {
+          const path = `competencies[${index}]`;
+          if (!isObject(entry) || !competencyIds.includes(entry.id)) {
+            errors.push(`${path}.id must be one of ${competencyIds.join(', ')}`);
+            return;
+          }
+          competencies.push({
+            id: entry.id,
+            level: parseScore(entry.level, `${path}.level`, levelRange.min, levelRange.max, errors),
+            evidence: typeof entry.evidence === 'string' ? entry.evidence.trim() : ''
+          });
+        });
+
+        const missingIds = competencyIds.filter(id => !competencies.some(c => c.id === id));
+        if (missingIds.length > 0) {
+          errors.push(`competencies is missing entries for: ${missingIds.join(', ')}`);
+        }
+      }
+
+      return result(errors, () => ({
+        strengths: value.strengths.trim(),
+        weaknesses: value.weaknesses.trim(),
+        suggestions,
+        score,
+        star,
+        competencies
+      }));
+    }
+  };
+}
+
+/**
+ * `count` distinct technical questions picked from the provided list.
+ * Selected entries are replaced by the original questions so the model
+ * cannot alter question text.
+ */
+export function createTechnicalSelectionSchema(
+  available: SelectableTechnicalQuestion[],
+  count: number
+): OutputSchema<TechnicalSelectionOutput> {
+  const byId = new Map(available.map(question => [question.id, question]));
+
+  return {
+    name: 'technicalSelection',
+    shape: `{ "selected": [ { "id": number, "role": string, "difficulty": string, "question": string, "keywords": string[] } ] } with exactly ${count} distinct ids from the AVAILABLE QUESTIONS list`,
+    parse(value) {
+      if (!isObject(value) || !Array.isArray(value.selected)) {
+        return { success: false, errors: ['selected must be an array'] };
+      }
+
+      const errors: string[] = [];
+      const ids = value.selected.map((item: unknown) => Number(isObject(item) ? item.id : item));
+
+      if (ids.length !== count) {
+        errors.push(`selected must contain exactly ${count} questions (got ${ids.length})`);
+      }
+      if (new Set(ids).size !== ids.length) {
+        errors.push('selected question ids must be distinct');
+      }
+      ids.forEach((id: number, index: number) => {
+        if (!byId.has(id)) {
+          errors.push(`selected[${index}].id ${id} is not in the available question list`);
+        }
+      });
+
+      return result(errors, () => ({ selected: ids.map((id: number) => byId.get(id)!) }));
+    }
+  };
+}
+
+/**
+ * Array of 1-4 improvement suggestions for a technical answer
+ */
+export const technicalSuggestionsSchema: OutputSchema<string[]> = {
+  name: 'technicalSuggestions',
+  shape: 'a JSON array of 1-4 strings, e.g. ["suggestion one", "suggestion two"]',
+  parse(value) {
+    const errors: string[] = [];
+    const suggestions = parseStringList(value, 'suggestions', 1, 4, errors);
+    return result(errors, () => suggestions);
+  }
+};
+
+/**
+ * Short written assessment of a technical answer
+ */
+export const technicalFeedbackSchema: OutputSchema<TechnicalFeedbackOutput> = {
+  name: 'technicalFeedback',
+  shape: '{ "feedback": string }',
+  parse(value) {
+    if (!isObject(value) || !isNonEmptyString(value.feedback)) {
+      return { success: false, errors: ['feedback must be a non-empty string'] };
+    }
+    return { success: true, data: { feedback: value.feedback.trim() } };
+  }
+};
+
+/**
+ * Whether to probe the candidate's answer, and the follow-up question to ask
+ */
+export const followUpDecisionSchema: OutputSchema<FollowUpDecisionOutput> = {
+  name: 'followUp',
+  shape: '{ "askFollowUp": boolean, "reason": string, "followUp": string }',
+  parse(value) {
+    if (!isObject(value)) {
+      return { success: false, errors: ['response must be a JSON object'] };
+    }
+
+    const errors: string[] = [];
+    const askFollowUp = value.askFollowUp === true || value.askFollowUp === 'true';
+    if (typeof value.askFollowUp !== 'boolean' && value.askFollowUp !== 'true' && value.askFollowUp !== 'false') {
+      errors.push('askFollowUp must be a boolean');
+    }
+    if (!isNonEmptyString(value.reason)) {
+      errors.push('reason must be a non-empty string');
+    }
+    if (askFollowUp && !isNonEmptyString(value.followUp)) {
+      errors.push('followUp must be a non-empty string when askFollowUp is true');
+    }
+
+    return result(errors, () => ({
+      askFollowUp,
+      reason: String(value.reason).trim(),
+      followUp: askFollowUp ? String(value.followUp).trim() : ''
+    }));
+  }
+};
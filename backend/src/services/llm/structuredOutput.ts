@@ -0,0 +1,93 @@
+import type { LlmFeature } from '../../types/llm.types';
+import { extractJson } from './llmClient';
+import type { OutputSchema, SchemaResult } from './schemas';
+
+/**
+ * Thrown when an LLM response still fails schema validation after the repair round
+ */
+export class StructuredOutputError extends Error {
+  readonly code = 'LLM_INVALID_OUTPUT';
+  readonly feature: LlmFeature;
+  readonly schema: string;
+  readonly errors: string[];
+  readonly rawOutput: string;
+
+  constructor(feature: LlmFeature, schema: string, errors: string[], rawOutput: string) {
+    super(`LLM returned invalid ${schema} output: ${errors.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.feature = feature;
+    this.schema = schema;
+    this.errors = errors;
+    this.rawOutput = rawOutput;
+  }
+
+  /**
+   * JSON body returned to API clients
+   */
+  toResponse(message: string) {
+    return {
+      success: false,
+      message,
+      error: this.message,
+      code: this.code,
+      details: this.errors
+    };
+  }
+}
+
+function parseWithSchema<T>(text: string, schema: OutputSchema<T>): SchemaResult<T> {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (error) {
+    return { success: false, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  return schema.parse(value);
+}
+
+function buildRepairPrompt<T>(prompt: string, output: string, errors: string[], schema: OutputSchema<T>): string {
+  return `Your previous response to the task below did not match the required format.
+
+VALIDATION ERRORS:
+${errors.map(error => `- ${error}`).join('\n')}
+
+REQUIRED FORMAT:
+${schema.shape}
+
+YOUR PREVIOUS RESPONSE:
+${output}
+
+Return ONLY the corrected JSON. Do not add explanations or markdown.
+
+ORIGINAL TASK:
+${prompt}`;
+}
+
+/**
+ * Run a prompt and validate the JSON response against a schema.
+ * Invalid output gets one automatic repair round before a StructuredOutputError is thrown.
+ */
+export async function generateStructured<T>(
+  generate: (prompt: string) => Promise<string>,
+  feature: LlmFeature,
+  prompt: string,
+  schema: OutputSchema<T>
+): Promise<T> {
+  const output = await generate(prompt);
+  const firstAttempt = parseWithSchema(output, schema);
+  if (firstAttempt.success) {
+    return firstAttempt.data;
+  }
+
+  console.warn(`⚠️ Invalid ${schema.name} output, requesting repair:`, firstAttempt.errors);
+
+  const repairedOutput = await generate(buildRepairPrompt(prompt, output, firstAttempt.errors, schema));
+  const repairAttempt = parseWithSchema(repairedOutput, schema);
+  if (repairAttempt.success) {
+    console.log(`🔧 Repaired ${schema.name} output`);
+    return repairAttempt.data;
+  }
+
+  console.error(`❌ ${schema.name} output still invalid after repair:`, repairAttempt.errors);
+  throw new StructuredOutputError(feature, schema.name, repairAttempt.errors, repairedOutput);
+}
@@ -0,0 +1,186 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { Readable } from 'stream';
+import type { MediaByteRange, MediaRecord, MediaUploadInput } from '../types/media.types';
+
+/**
+ * Pluggable storage for interview recordings
+ */
+export interface MediaStore {
+  /** Take ownership of an uploaded file - it is moved into the store */
+  save(input: MediaUploadInput, uploadedFile: string): Promise<MediaRecord>;
+  get(mediaId: string): Promise<MediaRecord | null>;
+  createReadStream(mediaId: string, range?: MediaByteRange): Promise<Readable | null>;
+  delete(mediaId: string): Promise<boolean>;
+  /** Remove recordings older than the retention period, returning how many were removed */
+  purgeExpired(): Promise<number>;
+}
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const MEDIA_ID_PATTERN = /^media_[a-f0-9-]{36}$/;
+
+/**
+ * Media IDs appear in URLs, so only accept the format the store generates
+ */
+export function isValidMediaId(mediaId: unknown): mediaId is string {
+  return typeof mediaId === 'string' && MEDIA_ID_PATTERN.test(mediaId);
+}
+
+/**
+ * Local disk store - each recording is kept as <id>.media with an <id>.json metadata file
+ */
+export class LocalMediaStore implements MediaStore {
+  private mediaDir: string;
+  private ttlMs: number;
+  private dirReady: Promise<void> | null = null;
+
+  constructor(mediaDirectory?: string, ttlMs: number = DEFAULT_TTL_MS) {
+    this.mediaDir = mediaDirectory || path.join(process.cwd(), 'cache', 'media');
+    this.ttlMs = ttlMs;
+  }
+
+  private dataPath(mediaId: string): string {
+    return path.join(this.mediaDir, `${mediaId}.media`);
+  }
+
+  private metadataPath(mediaId: string): string {
+    return path.join(this.mediaDir, `${mediaId}.json`);
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.dirReady) {
+      this.dirReady = fs.mkdir(this.mediaDir, { recursive: true }).then(() => undefined);
+    }
+    return this.dirReady;
+  }
+
+  async save(input: MediaUploadInput, uploadedFile: string): Promise<MediaRecord> {
+    const { size } = await fs.stat(uploadedFile);
+    if (size === 0) {
+      await fs.unlink(uploadedFile).catch(() => undefined);
+      throw new Error('Recording is empty');
+    }
+
+    await this.ensureDirectory();
+
+    const record: MediaRecord = {
+      ...input,
+      id: `media_${crypto.randomUUID()}`,
+      size,
+      createdAt: new Date().toISOString()
+    };
+
+    // Move the data before writing the metadata - a recording only exists once its metadata does
+    const target = this.dataPath(record.id);
+    try {
+      await fs.rename(uploadedFile, target);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error;
+      }
+      // Upload directory on another filesystem - copy through a temp file instead
+      const tempFile = `${target}.${process.pid}.tmp`;
+      await fs.copyFile(uploadedFile, tempFile);
+      await fs.rename(tempFile, target);
+      await fs.unlink(uploadedFile).catch(() => undefined);
+    }
+    await fs.writeFile(this.metadataPath(record.id), JSON.stringify(record, null, 2));
+
+    console.log(`🎞️ Stored ${record.kind} recording for question ${record.questionIndex + 1} (${record.size} bytes)`);
+    return record;
+  }
+
+  async get(mediaId: string): Promise<MediaRecord | null> {
+    if (!isValidMediaId(mediaId)) {
+      return null;
+    }
+
+    try {
+      const content = await fs.readFile(this.metadataPath(mediaId), 'utf-8');
+      return JSON.parse(content) as MediaRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`⚠️ Failed to read media metadata ${mediaId}:`, error);
+      }
+      return null;
+    }
+  }
+
+  async createReadStream(mediaId: string, range?: MediaByteRange): Promise<Readable | null> {
+    if (!(await this.get(mediaId))) {
+      return null;
+    }
+    return createReadStream(this.dataPath(mediaId), range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async delete(mediaId: string): Promise<boolean> {
+    if (!isValidMediaId(mediaId)) {
+      return false;
+    }
+
+    try {
+      await fs.unlink(this.metadataPath(mediaId));
+      await fs.unlink(this.dataPath(mediaId)).catch(() => undefined);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async purgeExpired(): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.mediaDir);
+    } catch {
+      return 0; // Nothing recorded yet
+    }
+
+    const cutoff = Date.now() - this.ttlMs;
+    let removedCount = 0;
+
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const record = await this.get(file.slice(0, -'.json'.length));
+      if (record && Date.parse(record.createdAt) < cutoff && await this.delete(record.id)) {
+        removedCount++;
+      }
+    }
+
+    if (removedCount > 0) {
+      console.log(`🧹 Purged ${removedCount} expired recordings`);
+    }
+
+    return removedCount;
+  }
+}
+
+// Create and export singleton instance
+let storeInstance: MediaStore | null = null;
+
+/**
+ * Get the configured media store.
+ * MEDIA_STORE=local (default), MEDIA_STORE_DIR (default cache/media), MEDIA_TTL_HOURS (default 168)
+ */
+export function getMediaStore(): MediaStore {
+  if (!storeInstance) {
+    const store = (process.env.MEDIA_STORE || 'local').toLowerCase();
+    if (store !== 'local') {
+      throw new Error(`Unsupported MEDIA_STORE: ${store}`);
+    }
+    const ttlHours = Number(process.env.MEDIA_TTL_HOURS);
+    const ttlMs = ttlHours > 0 ? ttlHours * 60 * 60 * 1000 : DEFAULT_TTL_MS;
+    storeInstance = new LocalMediaStore(process.env.MEDIA_STORE_DIR, ttlMs);
+
+    // Periodically sweep expired recordings without keeping the process alive
+    setInterval(() => {
+      storeInstance?.purgeExpired().catch(error => {
+        console.error('Warning: Failed to purge expired recordings:', error);
+      });
+    }, 60 * 60 * 1000).unref();
+  }
+  return storeInstance;
+}
+
+export default getMediaStore;
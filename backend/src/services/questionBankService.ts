@@ -0,0 +1,532 @@
+import fs from 'fs/promises';
+import path from 'path';
+import seedQuestions from '../data/technicalQuestions.json';
+import type {
+  ConceptPhrase,
+  QuestionDifficulty,
+  QuestionFilters,
+  QuestionImportMode,
+  QuestionImportResult,
+  TechnicalQuestion,
+  TechnicalQuestionInput
+} from '../types/questionBank.types';
+
+const DEFAULT_ROLE = 'Software Engineer';
+const DEFAULT_DIFFICULTY: QuestionDifficulty = 'medium';
+const MIN_REFERENCE_ANSWER_LENGTH = 10;
+const CSV_COLUMNS: (keyof TechnicalQuestion)[] = [
+  'id', 'role', 'difficulty', 'question', 'reference_answer', 'alternate_answers', 'keywords', 'must_mention', 'must_not_claim'
+];
+// Fields added after the first stored banks were written - filled in from the bundled seed on load
+const UPGRADED_FIELDS = ['difficulty', 'alternate_answers', 'must_mention', 'must_not_claim'] as const;
+
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+export function isQuestionDifficulty(value: unknown): value is QuestionDifficulty {
+  return typeof value === 'string' && (QUESTION_DIFFICULTIES as string[]).includes(value);
+}
+
+/**
+ * Every acceptable reference answer, primary first
+ */
+export function getReferenceAnswers(question: TechnicalQuestion): string[] {
+  return [question.reference_answer, ...question.alternate_answers];
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function cleanList(value: unknown): string[] {
+  return isStringList(value) ? value.map(item => item.trim()).filter(Boolean) : [];
+}
+
+function isConceptList(value: unknown): value is ConceptPhrase[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' || isStringList(item));
+}
+
+/**
+ * Trim concept phrases, collapsing alias lists with a single entry to a plain string
+ */
+function cleanConceptList(value: unknown): ConceptPhrase[] {
+  if (!isConceptList(value)) {
+    return [];
+  }
+
+  return value
+    .map(item => typeof item === 'string' ? item.trim() : cleanList(item))
+    .filter(item => item.length > 0)
+    .map(item => Array.isArray(item) && item.length === 1 ? item[0] : item);
+}
+
+function conceptsToCsv(concepts: ConceptPhrase[]): string {
+  return concepts.map(concept => typeof concept === 'string' ? concept : concept.join(' | ')).join('; ');
+}
+
+function conceptsFromCsv(cell: string): ConceptPhrase[] {
+  return cleanConceptList(cell.split(';').map(item => item.split('|')));
+}
+
+/**
+ * Thrown when submitted questions fail validation - nothing is saved
+ */
+export class QuestionValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid technical question data: ${errors.join('; ')}`);
+    this.name = 'QuestionValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Validate a question with the same rules the evaluator applies when loading questions.
+ * The id is optional here; callers decide whether one is required.
+ */
+export function validateTechnicalQuestion(input: unknown): {
+  question: Omit<TechnicalQuestion, 'id'> & { id?: number };
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const value = (typeof input === 'object' && input !== null ? input : {}) as Record<string, any>;
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    errors.push('question must be an object');
+  }
+
+  const hasId = value.id !== undefined && value.id !== null && value.id !== '';
+  if (hasId && (!Number.isInteger(value.id) || value.id <= 0)) {
+    errors.push('id must be a positive integer');
+  }
+
+  if (typeof value.question !== 'string' || value.question.trim().length === 0) {
+    errors.push('question is required');
+  }
+
+  if (typeof value.reference_answer !== 'string' || value.reference_answer.trim().length < MIN_REFERENCE_ANSWER_LENGTH) {
+    errors.push(`reference_answer must be at least ${MIN_REFERENCE_ANSWER_LENGTH} characters`);
+  }
+
+  if (value.role !== undefined && typeof value.role !== 'string') {
+    errors.push('role must be a string');
+  }
+
+  if (value.difficulty !== undefined && !isQuestionDifficulty(value.difficulty)) {
+    errors.push(`difficulty must be one of ${QUESTION_DIFFICULTIES.join(', ')}`);
+  }
+
+  for (const field of ['alternate_answers', 'keywords']) {
+    if (value[field] !== undefined && !isStringList(value[field])) {
+      errors.push(`${field} must be an array of strings`);
+    }
+  }
+
+  for (const field of ['must_mention', 'must_not_claim']) {
+    if (value[field] !== undefined && !isConceptList(value[field])) {
+      errors.push(`${field} must be an array of strings or alias lists`);
+    }
+  }
+
+  if (isStringList(value.alternate_answers)
+    && value.alternate_answers.some(answer => answer.trim().length < MIN_REFERENCE_ANSWER_LENGTH)) {
+    errors.push(`alternate_answers must each be at least ${MIN_REFERENCE_ANSWER_LENGTH} characters`);
+  }
+
+  return {
+    question: {
+      ...(hasId && { id: value.id }),
+      role: typeof value.role === 'string' && value.role.trim() ? value.role.trim() : DEFAULT_ROLE,
+      difficulty: isQuestionDifficulty(value.difficulty) ? value.difficulty : DEFAULT_DIFFICULTY,
+      question: String(value.question || '').trim(),
+      reference_answer: String(value.reference_answer || '').trim(),
+      alternate_answers: cleanList(value.alternate_answers),
+      keywords: cleanList(value.keywords),
+      must_mention: cleanConceptList(value.must_mention),
+      must_not_claim: cleanConceptList(value.must_not_claim)
+    },
+    errors
+  };
+}
+
+function escapeCsvField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Serialise questions as CSV - keyword and concept lists are joined with "; ",
+ * concept aliases with " | " and alternate answers (which may contain semicolons) with " || "
+ */
+export function questionsToCsv(questions: TechnicalQuestion[]): string {
+  const rows = questions.map(q => [
+    String(q.id),
+    q.role,
+    q.difficulty,
+    q.question,
+    q.reference_answer,
+    q.alternate_answers.join(' || '),
+    q.keywords.join('; '),
+    conceptsToCsv(q.must_mention),
+    conceptsToCsv(q.must_not_claim)
+  ].map(escapeCsvField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting, quoted newlines allowed)
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim().length > 0));
+}
+
+/**
+ * Parse CSV produced by questionsToCsv (or a spreadsheet with the same headers)
+ */
+export function parseQuestionsCsv(text: string): TechnicalQuestionInput[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new QuestionValidationError(['CSV is empty']);
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const missing = ['question', 'reference_answer'].filter(name => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new QuestionValidationError([`CSV is missing required columns: ${missing.join(', ')}`]);
+  }
+
+  return rows.map(cells => {
+    const cell = (name: string) => {
+      const index = columns.indexOf(name);
+      return index >= 0 ? (cells[index] || '').trim() : '';
+    };
+
+    const keywords = cell('keywords').split(';').map(item => item.trim()).filter(Boolean);
+
+    return {
+      id: cell('id') ? Number(cell('id')) : undefined,
+      role: cell('role') || undefined,
+      difficulty: (cell('difficulty').toLowerCase() || undefined) as QuestionDifficulty | undefined,
+      question: cell('question'),
+      reference_answer: cell('reference_answer'),
+      alternate_answers: cell('alternate_answers').split('||').map(answer => answer.trim()).filter(Boolean),
+      keywords,
+      must_mention: conceptsFromCsv(cell('must_mention')),
+      must_not_claim: conceptsFromCsv(cell('must_not_claim'))
+    };
+  });
+}
+
+/**
+ * Persistent, editable technical question bank.
+ * Starts from the bundled technicalQuestions.json and is stored as JSON at
+ * QUESTION_BANK_PATH (default cache/question-bank/technicalQuestions.json).
+ */
+export class QuestionBankService {
+  private filePath: string;
+  private questions: Map<number, TechnicalQuestion> = new Map();
+  private loaded: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || path.join(process.cwd(), 'cache', 'question-bank', 'technicalQuestions.json');
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load().catch(error => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Fill fields missing from a stored question with the bundled seed question of the same id.
+   * Banks written before difficulty and concept checks existed would otherwise get defaults for all of them.
+   * Imported or edited banks reuse ids for other questions, so the question text has to match the seed too;
+   * anything else keeps the empty defaults rather than another question's concept checks.
+   * Returns the fields that were filled in.
+   */
+  private static upgradeFromSeed(item: unknown, seedById: Map<number, Record<string, unknown>>): string[] {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      return [];
+    }
+    const stored = item as Record<string, unknown>;
+    const seed = typeof stored.id === 'number' ? seedById.get(stored.id) : undefined;
+    const sameText = (a: unknown, b: unknown) =>
+      typeof a === 'string' && typeof b === 'string'
+      && a.trim().replace(/\s+/g, ' ').toLowerCase() === b.trim().replace(/\s+/g, ' ').toLowerCase();
+    if (!seed || !sameText(stored.question, seed.question)) {
+      return [];
+    }
+
+    const filled = UPGRADED_FIELDS.filter(field => stored[field] === undefined && seed[field] !== undefined);
+    for (const field of filled) {
+      stored[field] = seed[field];
+    }
+    return filled;
+  }
+
+  /**
+   * Load the stored bank, seeding it from the bundled questions on first run
+   */
+  private async load(): Promise<void> {
+    let stored: unknown[];
+    let seeded = false;
+
+    try {
+      stored = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to read question bank ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      stored = seedQuestions as unknown[];
+      seeded = true;
+    }
+
+    if (!Array.isArray(stored)) {
+      throw new Error(`Question bank ${this.filePath} is not a JSON array`);
+    }
+
+    const seedById = new Map(
+      (seedQuestions as Record<string, unknown>[]).map(seed => [seed.id as number, seed])
+    );
+    const upgraded: string[] = [];
+
+    this.questions.clear();
+    for (const item of stored) {
+      if (!seeded) {
+        const filled = QuestionBankService.upgradeFromSeed(item, seedById);
+        if (filled.length > 0) {
+          upgraded.push(`#${(item as { id: number }).id} (${filled.join(', ')})`);
+        }
+      }
+
+      const { question, errors } = validateTechnicalQuestion(item);
+      if (errors.length > 0 || question.id === undefined) {
+        console.warn('Skipping invalid technical question:', errors.join('; ') || 'missing id', item);
+        continue;
+      }
+      this.questions.set(question.id, question as TechnicalQuestion);
+    }
+
+    if (seeded) {
+      console.log(`🌱 Seeding question bank with ${this.questions.size} bundled questions`);
+      await this.persist();
+    } else {
+      console.log(`📚 Loaded ${this.questions.size} technical questions from ${this.filePath}`);
+      if (upgraded.length > 0) {
+        console.log(`⬆️ Upgraded ${upgraded.length} stored questions from the bundled seed: ${upgraded.join('; ')}`);
+        await this.persist();
+      }
+    }
+  }
+
+  /**
+   * Write the bank to disk - writes are serialised and go through a temp file
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.sortedQuestions(), null, 2);
+
+    this.writeChain = this.writeChain.catch(() => undefined).then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempFile = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempFile, snapshot);
+      await fs.rename(tempFile, this.filePath);
+    });
+
+    return this.writeChain;
+  }
+
+  private sortedQuestions(): TechnicalQuestion[] {
+    return Array.from(this.questions.values()).sort((a, b) => a.id - b.id);
+  }
+
+  private nextId(): number {
+    return Math.max(0, ...this.questions.keys()) + 1;
+  }
+
+  /**
+   * All questions, optionally filtered by role (substring match) and difficulty
+   */
+  async list(filters: QuestionFilters = {}): Promise<TechnicalQuestion[]> {
+    await this.ensureLoaded();
+    const { role, difficulty } = filters;
+
+    return this.sortedQuestions().filter(q =>
+      (!role || q.role.toLowerCase().includes(role.toLowerCase()))
+      && (!difficulty || q.difficulty === difficulty)
+    );
+  }
+
+  async get(id: number): Promise<TechnicalQuestion | undefined> {
+    await this.ensureLoaded();
+    return this.questions.get(id);
+  }
+
+  /**
+   * Add a question, assigning the next free id when none is given
+   */
+  async create(input: TechnicalQuestionInput): Promise<TechnicalQuestion> {
+    await this.ensureLoaded();
+
+    const { question, errors } = validateTechnicalQuestion(input);
+    if (question.id !== undefined && this.questions.has(question.id)) {
+      errors.push(`question ${question.id} already exists`);
+    }
+    if (errors.length > 0) {
+      throw new QuestionValidationError(errors);
+    }
+
+    const created: TechnicalQuestion = { ...question, id: question.id ?? this.nextId() };
+    this.questions.set(created.id, created);
+    await this.persist();
+
+    console.log(`➕ Added technical question ${created.id}`);
+    return created;
+  }
+
+  /**
+   * Apply a partial update; returns null if the question does not exist
+   */
+  async update(id: number, changes: TechnicalQuestionInput): Promise<TechnicalQuestion | null> {
+    await this.ensureLoaded();
+
+    const existing = this.questions.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const { question, errors } = validateTechnicalQuestion({ ...existing, ...changes, id });
+    if (errors.length > 0) {
+      throw new QuestionValidationError(errors);
+    }
+
+    const updated: TechnicalQuestion = { ...question, id };
+    this.questions.set(id, updated);
+    await this.persist();
+
+    console.log(`✏️ Updated technical question ${id}`);
+    return updated;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    await this.ensureLoaded();
+
+    if (!this.questions.delete(id)) {
+      return false;
+    }
+    await this.persist();
+
+    console.log(`🗑️ Deleted technical question ${id}`);
+    return true;
+  }
+
+  /**
+   * Import a batch of questions. Every question is validated first and
+   * nothing is changed if any of them is invalid.
+   */
+  async importQuestions(inputs: TechnicalQuestionInput[], mode: QuestionImportMode = 'merge'): Promise<QuestionImportResult> {
+    await this.ensureLoaded();
+
+    const errors: string[] = [];
+    const seenIds = new Set<number>();
+    const validated = inputs.map((input, index) => {
+      const { question, errors: itemErrors } = validateTechnicalQuestion(input);
+      errors.push(...itemErrors.map(error => `questions[${index}]: ${error}`));
+
+      if (question.id !== undefined) {
+        if (seenIds.has(question.id)) {
+          errors.push(`questions[${index}]: duplicate id ${question.id}`);
+        }
+        seenIds.add(question.id);
+      }
+      return question;
+    });
+
+    if (inputs.length === 0) {
+      errors.push('no questions to import');
+    }
+    if (errors.length > 0) {
+      throw new QuestionValidationError(errors);
+    }
+
+    const previous = new Map(this.questions);
+    const next = mode === 'replace' ? new Map<number, TechnicalQuestion>() : new Map(this.questions);
+    let nextId = Math.max(0, ...previous.keys(), ...seenIds) + 1;
+    let created = 0;
+    let updated = 0;
+
+    for (const question of validated) {
+      const id = question.id ?? nextId++;
+      if (previous.has(id)) {
+        updated++;
+      } else {
+        created++;
+      }
+      next.set(id, { ...question, id });
+    }
+
+    const removed = Array.from(previous.keys()).filter(id => !next.has(id)).length;
+
+    this.questions = next;
+    await this.persist();
+
+    console.log(`📥 Imported technical questions (${mode}): ${created} created, ${updated} updated, ${removed} removed`);
+    return { created, updated, removed, total: next.size };
+  }
+}
+
+// Create and export singleton instance
+let questionBankInstance: QuestionBankService | null = null;
+
+export function getQuestionBank(): QuestionBankService {
+  if (!questionBankInstance) {
+    questionBankInstance = new QuestionBankService(process.env.QUESTION_BANK_PATH);
+  }
+  return questionBankInstance;
+}
+
+export default QuestionBankService;
@@ -0,0 +1,231 @@
+import { generateJson, resumeProfileSchema, StructuredOutputError } from './llm';
+import type {
+  ResumeCitation,
+  ResumeEducation,
+  ResumeProfile,
+  ResumeProfileSource
+} from '../types/resumeProfile.types';
+
+// Headings that start a resume section, longest phrasing first
+const SECTION_HEADINGS: Record<string, string> = {
+  experience: 'work experience|professional experience|employment history|experience',
+  projects: 'personal projects|projects',
+  skills: 'technical skills|skills|technologies',
+  education: 'education',
+  other: 'certifications|awards|activities|leadership|interests|volunteer(?:ing)?|publications'
+};
+
+// Capitalized words around University/College/..., stopping before a degree name
+const INSTITUTION_PATTERN = /(?:[A-Z][\w.&'-]*\s+){0,4}(?:University|College|Institute|School|Academy)\b(?:\s+of(?:\s+(?!Bachelor|Master|Associate|Doctor|B\.|M\.)[A-Z][\w.&'-]*){1,3})?/g;
+const DEGREE_PATTERN = /\b(?:B\.?S\.?c?|B\.?A\.?|M\.?S\.?c?|M\.?A\.?|MBA|Ph\.?D\.?|Bachelor(?:'s)?|Master(?:'s)?|Associate(?:'s)?|Doctor(?:ate)?)\b[^,;|\d]*/i;
+const YEAR_PATTERN = /\b(?:19|20)\d{2}\b/g;
+
+export interface ParsedResume {
+  profile: ResumeProfile;
+  source: ResumeProfileSource;
+}
+
+/**
+ * Find where a section heading starts. Heading words also appear in ordinary sentences
+ * ("experience with Kafka"), so only heading-like matches count: the heading alone on
+ * its line, otherwise the first upper-case heading or capitalized heading followed by a
+ * colon (PDF extraction flattens line breaks, so those are found inline).
+ */
+function findHeading(text: string, phrases: string): { index: number; headingLength: number } | null {
+  const onOwnLine = new RegExp(`((?:^|\\n)[ \\t]*)((?:${phrases})[ \\t]*:?)[ \\t]*(?=\\r?\\n|$)`, 'i').exec(text);
+  if (onOwnLine) {
+    return { index: onOwnLine.index + onOwnLine[1].length, headingLength: onOwnLine[2].length };
+  }
+
+  for (const match of text.matchAll(new RegExp(`\\b(?:${phrases})\\b(\\s*:)?`, 'gi'))) {
+    const heading = match[0].replace(/\s*:$/, '');
+    const isUpperCase = heading === heading.toUpperCase();
+    const isLabel = Boolean(match[1]) && /^[A-Z]/.test(heading);
+    if (isUpperCase || isLabel) {
+      return { index: match.index, headingLength: match[0].length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Split resume text into sections by the first heading-like occurrence of each known heading
+ */
+function splitSections(text: string): Record<string, string> {
+  const starts = Object.entries(SECTION_HEADINGS)
+    .map(([section, phrases]) => {
+      const heading = findHeading(text, phrases);
+      return heading ? { section, ...heading } : null;
+    })
+    .filter((start): start is { section: string; index: number; headingLength: number } => start !== null)
+    .sort((a, b) => a.index - b.index);
+
+  const sections: Record<string, string> = {};
+  starts.forEach((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : text.length;
+    sections[start.section] = text.substring(start.index + start.headingLength, end).replace(/^[\s:]+/, '').trim();
+  });
+  return sections;
+}
+
+function parseSkills(section: string | undefined): string[] {
+  if (!section) {
+    return [];
+  }
+  return Array.from(new Set(
+    section
+      // Drop category labels such as "Languages:" so only the skills remain
+      .replace(/\b[A-Z][\w /&-]{0,30}:/g, ',')
+      .split(/[,;|•·\n]/)
+      .map(skill => skill.trim())
+      .filter(skill => skill.length > 1 && skill.length <= 40)
+  )).slice(0, 60);
+}
+
+function parseEducation(section: string | undefined): ResumeEducation[] {
+  if (!section) {
+    return [];
+  }
+  const institutions = Array.from(new Set(section.match(INSTITUTION_PATTERN)?.map(name => name.trim()) || []));
+
+  return institutions.slice(0, 5).map((institution, index) => {
+    // Degree and graduation year are looked for between this institution and the next
+    const start = section.indexOf(institution) + institution.length;
+    const next = institutions[index + 1] ? section.indexOf(institutions[index + 1], start) : -1;
+    const following = section.substring(start, next === -1 ? start + 200 : next);
+    const years = following.match(YEAR_PATTERN);
+    return {
+      id: `edu_${index + 1}`,
+      institution,
+      degree: following.match(DEGREE_PATTERN)?.[0].trim(),
+      graduationDate: years ? years[years.length - 1] : undefined
+    };
+  });
+}
+
+/**
+ * Offline fallback when the LLM is unavailable. Experience and project entries are too
+ * varied in flattened PDF text to split reliably, so they are left for the review step.
+ */
+function parseResumeHeuristically(text: string): ResumeProfile {
+  const sections = splitSections(text);
+  return {
+    experiences: [],
+    projects: [],
+    skills: parseSkills(sections.skills),
+    education: parseEducation(sections.education)
+  };
+}
+
+function buildParsingPrompt(text: string): string {
+  return `You are extracting structured data from a candidate's resume.
+
+RULES:
+- Use ONLY information that appears in the resume text. Never invent employers, dates, projects or skills.
+- Copy bullet points close to verbatim; split run-on text into one bullet per accomplishment.
+- Keep dates as written on the resume (e.g. "Jun 2023", "2021", "Present").
+- Internships, part-time jobs, research positions and leadership roles with an organization are experiences.
+- List experiences, projects and education in the order they appear.
+- Omit optional fields that are not present; use empty arrays for empty sections.
+
+RESUME TEXT:
+${text}
+
+Return ONLY valid JSON with this structure:
+${resumeProfileSchema.shape}`;
+}
+
+/**
+ * Parse extracted resume text into a structured profile.
+ * Invalid model output is reported as a StructuredOutputError; an unreachable
+ * LLM falls back to the heuristic parser.
+ */
+export async function parseResume(text: string): Promise<ParsedResume> {
+  try {
+    const profile = await generateJson('resumeParsing', buildParsingPrompt(text), resumeProfileSchema, { temperature: 0 });
+    return { profile, source: 'llm' };
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+    console.error('LLM request for resume parsing failed, using heuristic parser:', error);
+    return { profile: parseResumeHeuristically(text), source: 'heuristic' };
+  }
+}
+
+/**
+ * Validate a profile edited by the user - returns null if it is not a usable profile
+ */
+export function normalizeResumeProfile(value: unknown): ResumeProfile | null {
+  const parsed = resumeProfileSchema.parse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+export function getResumeEntryIds(profile: ResumeProfile): string[] {
+  return [...profile.experiences, ...profile.projects, ...profile.education].map(entry => entry.id);
+}
+
+function formatDates(start?: string, end?: string): string {
+  if (!start && !end) return '';
+  return ` (${[start, end].filter(Boolean).join(' - ')})`;
+}
+
+/**
+ * Short human-readable label for a resume entry, used in citations and prompts
+ */
+export function describeResumeEntry(profile: ResumeProfile, entryId: string): string | null {
+  const experience = profile.experiences.find(entry => entry.id === entryId);
+  if (experience) {
+    return `${experience.role} at ${experience.employer}${formatDates(experience.startDate, experience.endDate)}`;
+  }
+  const project = profile.projects.find(entry => entry.id === entryId);
+  if (project) {
+    return `Project: ${project.name}`;
+  }
+  const education = profile.education.find(entry => entry.id === entryId);
+  if (education) {
+    const qualification = [education.degree, education.field].filter(Boolean).join(' in ');
+    return qualification ? `${qualification} at ${education.institution}` : education.institution;
+  }
+  return null;
+}
+
+export function createResumeCitation(profile: ResumeProfile, entryId: string): ResumeCitation | undefined {
+  const label = describeResumeEntry(profile, entryId);
+  return label ? { entryId, label } : undefined;
+}
+
+/**
+ * Render the profile for prompts, each entry prefixed with its [id] so the model can cite it
+ */
+export function formatResumeProfileForPrompt(profile: ResumeProfile): string {
+  const lines: string[] = [];
+
+  if (profile.summary) {
+    lines.push(`Summary: ${profile.summary}`, '');
+  }
+
+  lines.push('EXPERIENCE:');
+  if (profile.experiences.length === 0) lines.push('(none listed)');
+  for (const experience of profile.experiences) {
+    lines.push(`[${experience.id}] ${describeResumeEntry(profile, experience.id)}${experience.location ? `, ${experience.location}` : ''}`);
+    experience.bullets.forEach(bullet => lines.push(`  - ${bullet}`));
+  }
+
+  lines.push('', 'PROJECTS:');
+  if (profile.projects.length === 0) lines.push('(none listed)');
+  for (const project of profile.projects) {
+    const technologies = project.technologies.length > 0 ? ` [${project.technologies.join(', ')}]` : '';
+    lines.push(`[${project.id}] ${project.name}${technologies}${project.description ? ` - ${project.description}` : ''}`);
+    project.bullets.forEach(bullet => lines.push(`  - ${bullet}`));
+  }
+
+  lines.push('', 'EDUCATION:');
+  if (profile.education.length === 0) lines.push('(none listed)');
+  for (const education of profile.education) {
+    lines.push(`[${education.id}] ${describeResumeEntry(profile, education.id)}${education.graduationDate ? ` (${education.graduationDate})` : ''}`);
+  }
+
+  lines.push('', `SKILLS: ${profile.skills.length > 0 ? profile.skills.join(', ') : '(none listed)'}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,143 @@
+import fs from 'fs';
+import defaultRubric from '../data/behavioralRubrics.json';
+import type { BehavioralRubric, CompetencyScore, RubricCompetency, RubricGrade } from '../types/rubric.types';
+
+/**
+ * Loads the behavioral grading rubric and maps question tags to competencies.
+ * BEHAVIORAL_RUBRIC_PATH can point at a replacement rubric JSON file.
+ */
+export class RubricService {
+  private rubric: BehavioralRubric;
+  private competencyById: Map<string, RubricCompetency>;
+  private competencyIdsByTag: Map<string, string[]> = new Map();
+
+  constructor(rubric: BehavioralRubric) {
+    this.validateRubric(rubric);
+    this.rubric = rubric;
+    this.competencyById = new Map(rubric.competencies.map(c => [c.id, c]));
+
+    for (const competency of rubric.competencies) {
+      for (const tag of [competency.id, ...competency.tags]) {
+        const key = tag.toLowerCase();
+        const ids = this.competencyIdsByTag.get(key) || [];
+        if (!ids.includes(competency.id)) {
+          ids.push(competency.id);
+        }
+        this.competencyIdsByTag.set(key, ids);
+      }
+    }
+  }
+
+  /**
+   * Fail fast on malformed rubric data so bad edits never reach grading
+   */
+  private validateRubric(rubric: BehavioralRubric): void {
+    if (!rubric.version || !Array.isArray(rubric.competencies) || rubric.competencies.length === 0) {
+      throw new Error('Rubric must have a version and at least one competency');
+    }
+
+    const seenIds = new Set<string>();
+    for (const competency of rubric.competencies) {
+      if (!competency.id || !competency.name || !(competency.weight > 0)) {
+        throw new Error(`Rubric competency ${competency.id || '(unnamed)'} needs an id, name and positive weight`);
+      }
+      if (seenIds.has(competency.id)) {
+        throw new Error(`Rubric competency ${competency.id} is defined more than once`);
+      }
+      seenIds.add(competency.id);
+      for (let level = rubric.scale.min; level <= rubric.scale.max; level++) {
+        if (!competency.levels[String(level)]) {
+          throw new Error(`Rubric competency ${competency.id} is missing a descriptor for level ${level}`);
+        }
+      }
+    }
+
+    const unknownDefaults = rubric.defaultCompetencies.filter(id => !rubric.competencies.some(c => c.id === id));
+    if (unknownDefaults.length > 0) {
+      throw new Error(`Unknown default competencies: ${unknownDefaults.join(', ')}`);
+    }
+  }
+
+  getRubric(): BehavioralRubric {
+    return this.rubric;
+  }
+
+  get version(): string {
+    return this.rubric.version;
+  }
+
+  /**
+   * Competencies to grade for a question, based on its tags
+   */
+  resolveCompetencies(tags: string[] = []): RubricCompetency[] {
+    const ids = new Set<string>();
+    for (const tag of tags) {
+      for (const id of this.competencyIdsByTag.get(String(tag).toLowerCase()) || []) {
+        ids.add(id);
+      }
+    }
+
+    const resolved = ids.size > 0 ? Array.from(ids) : this.rubric.defaultCompetencies;
+    return resolved.map(id => this.competencyById.get(id)!);
+  }
+
+  /**
+   * Rubric section of the grading prompt
+   */
+  describeCompetencies(competencies: RubricCompetency[]): string {
+    return competencies.map(competency => {
+      const levels = Object.entries(competency.levels)
+        .map(([level, descriptor]) => `    ${level} (${this.rubric.scale.labels[level]}): ${descriptor}`)
+        .join('\n');
+      return `- ${competency.id}: ${competency.name} - ${competency.description}\n${levels}`;
+    }).join('\n');
+  }
+
+  /**
+   * Combine model-assigned levels into named, weighted competency scores
+   */
+  buildGrade(levels: { id: string; level: number; evidence: string }[]): RubricGrade {
+    const { min, max, labels } = this.rubric.scale;
+
+    const competencies: CompetencyScore[] = levels.map(({ id, level, evidence }) => {
+      const competency = this.competencyById.get(id)!;
+      const rounded = Math.min(max, Math.max(min, Math.round(level)));
+      return {
+        id,
+        name: competency.name,
+        weight: competency.weight,
+        level: rounded,
+        label: labels[String(rounded)],
+        evidence
+      };
+    });
+
+    const totalWeight = competencies.reduce((sum, c) => sum + c.weight, 0);
+    const weightedLevel = competencies.reduce((sum, c) => sum + c.level * c.weight, 0) / totalWeight;
+    const rubricScore = Math.round((weightedLevel - min) / (max - min) * 100) / 10;
+
+    return { rubricVersion: this.rubric.version, competencies, rubricScore };
+  }
+}
+
+function loadRubric(): BehavioralRubric {
+  const rubricPath = process.env.BEHAVIORAL_RUBRIC_PATH;
+  if (!rubricPath) {
+    return defaultRubric as BehavioralRubric;
+  }
+
+  console.log(`📐 Loading behavioral rubric from ${rubricPath}`);
+  return JSON.parse(fs.readFileSync(rubricPath, 'utf-8')) as BehavioralRubric;
+}
+
+// Create and export singleton instance
+let rubricServiceInstance: RubricService | null = null;
+
+export function getRubricService(): RubricService {
+  if (!rubricServiceInstance) {
+    rubricServiceInstance = new RubricService(loadRubric());
+  }
+  return rubricServiceInstance;
+}
+
+export default RubricService;
@@ -0,0 +1,265 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { InterviewSessionData, SessionUpdate } from '../types/session.types';
+
+/**
+ * Pluggable storage for interview setup sessions
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<InterviewSessionData | null>;
+  getOrCreate(sessionId: string): Promise<InterviewSessionData>;
+  save(session: InterviewSessionData): Promise<InterviewSessionData>;
+  update(sessionId: string, changes: SessionUpdate): Promise<InterviewSessionData>;
+  delete(sessionId: string): Promise<boolean>;
+  purgeExpired(): Promise<number>;
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * Session IDs come from client headers, so only allow simple identifiers
+ */
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+  return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId);
+}
+
+function isExpired(session: InterviewSessionData, now = Date.now()): boolean {
+  return new Date(session.expiresAt).getTime() <= now;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Shared TTL and merge behaviour for all store implementations
+ */
+abstract class BaseSessionStore implements SessionStore {
+  protected readonly ttlMs: number;
+
+  constructor(ttlMs: number = DEFAULT_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  protected abstract read(sessionId: string): Promise<InterviewSessionData | null>;
+  protected abstract write(session: InterviewSessionData): Promise<void>;
+  protected abstract remove(sessionId: string): Promise<boolean>;
+  protected abstract listIds(): Promise<string[]>;
+
+  /**
+   * Get a session, treating expired sessions as missing
+   */
+  async get(sessionId: string): Promise<InterviewSessionData | null> {
+    if (!isValidSessionId(sessionId)) {
+      return null;
+    }
+
+    const session = await this.read(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    if (isExpired(session)) {
+      await this.remove(sessionId);
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Get a session or start a fresh one with no uploads
+   */
+  async getOrCreate(sessionId: string): Promise<InterviewSessionData> {
+    const existing = await this.get(sessionId);
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    return {
+      sessionId,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now,
+      uploads: {}
+    };
+  }
+
+  /**
+   * Persist a session and extend its expiry (sliding TTL)
+   */
+  async save(session: InterviewSessionData): Promise<InterviewSessionData> {
+    if (!isValidSessionId(session.sessionId)) {
+      throw new Error(`Invalid session ID: ${session.sessionId}`);
+    }
+
+    const now = Date.now();
+    const updated: InterviewSessionData = {
+      ...session,
+      updatedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString()
+    };
+
+    await this.write(updated);
+    return updated;
+  }
+
+  /**
+   * Merge client-editable fields into a session, creating it if needed
+   */
+  async update(sessionId: string, changes: SessionUpdate): Promise<InterviewSessionData> {
+    const session = await this.getOrCreate(sessionId);
+    return this.save({ ...session, ...changes });
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    if (!isValidSessionId(sessionId)) {
+      return false;
+    }
+    return this.remove(sessionId);
+  }
+
+  /**
+   * Remove every expired session, returning how many were removed
+   */
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let removedCount = 0;
+
+    for (const sessionId of await this.listIds()) {
+      const session = await this.read(sessionId);
+      if (session && isExpired(session, now)) {
+        await this.remove(sessionId);
+        removedCount++;
+      }
+    }
+
+    if (removedCount > 0) {
+      console.log(`🧹 Purged ${removedCount} expired interview sessions`);
+    }
+
+    return removedCount;
+  }
+}
+
+/**
+ * Process-local store, intended for tests and throwaway development runs
+ */
+export class InMemorySessionStore extends BaseSessionStore {
+  private sessions: Map<string, InterviewSessionData> = new Map();
+
+  protected async read(sessionId: string): Promise<InterviewSessionData | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? clone(session) : null;
+  }
+
+  protected async write(session: InterviewSessionData): Promise<void> {
+    this.sessions.set(session.sessionId, clone(session));
+  }
+
+  protected async remove(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+
+  protected async listIds(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+}
+
+/**
+ * File-backed store - one JSON document per session so that sessions
+ * survive backend restarts and can be shared between instances on one host
+ */
+export class FileSessionStore extends BaseSessionStore {
+  private sessionDir: string;
+  private dirReady: Promise<void> | null = null;
+
+  constructor(sessionDirectory?: string, ttlMs?: number) {
+    super(ttlMs);
+    this.sessionDir = sessionDirectory || path.join(process.cwd(), 'cache', 'sessions');
+  }
+
+  private filePath(sessionId: string): string {
+    return path.join(this.sessionDir, `${sessionId}.json`);
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.dirReady) {
+      this.dirReady = fs.mkdir(this.sessionDir, { recursive: true }).then(() => undefined);
+    }
+    return this.dirReady;
+  }
+
+  protected async read(sessionId: string): Promise<InterviewSessionData | null> {
+    try {
+      const content = await fs.readFile(this.filePath(sessionId), 'utf-8');
+      return JSON.parse(content) as InterviewSessionData;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      console.error(`⚠️ Failed to read session ${sessionId}:`, error);
+      return null;
+    }
+  }
+
+  protected async write(session: InterviewSessionData): Promise<void> {
+    await this.ensureDirectory();
+
+    // Write to a temp file first so a crash never leaves a half-written session
+    const target = this.filePath(session.sessionId);
+    const tempFile = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(session, null, 2));
+    await fs.rename(tempFile, target);
+  }
+
+  protected async remove(sessionId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(sessionId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  protected async listIds(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.sessionDir);
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.slice(0, -'.json'.length));
+    } catch {
+      return [];
+    }
+  }
+}
+
+// Create and export singleton instance
+let storeInstance: SessionStore | null = null;
+
+/**
+ * Get the configured session store.
+ * SESSION_STORE=memory|file (default file), SESSION_TTL_HOURS (default 24)
+ */
+export function getSessionStore(): SessionStore {
+  if (!storeInstance) {
+    const ttlHours = Number(process.env.SESSION_TTL_HOURS);
+    const ttlMs = ttlHours > 0 ? ttlHours * 60 * 60 * 1000 : DEFAULT_TTL_MS;
+
+    storeInstance = process.env.SESSION_STORE === 'memory'
+      ? new InMemorySessionStore(ttlMs)
+      : new FileSessionStore(process.env.SESSION_STORE_DIR, ttlMs);
+
+    // Periodically sweep expired sessions without keeping the process alive
+    setInterval(() => {
+      storeInstance?.purgeExpired().catch(error => {
+        console.error('Warning: Failed to purge expired sessions:', error);
+      });
+    }, 60 * 60 * 1000).unref();
+  }
+  return storeInstance;
+}
+
+export default getSessionStore;
@@ -0,0 +1,122 @@
+import type { StarComponentOutput } from '../types/llm.types';
+import type { StarAnalysis, StarComponent, StarComponentAnalysis, StarSpan } from '../types/star.types';
+
+const STAR_ORDER: StarComponent[] = ['situation', 'task', 'action', 'result'];
+const ANCHOR_WORDS = 6; // Words used to anchor long quotes that were paraphrased in the middle
+
+/**
+ * Lowercase text and keep only letters, digits and single spaces,
+ * remembering where each kept character came from in the original
+ */
+function normalizeWithMap(text: string): { normalized: string; indexMap: number[] } {
+  let normalized = '';
+  const indexMap: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i].toLowerCase();
+
+    if (/[\p{L}\p{N}]/u.test(char)) {
+      normalized += char;
+      indexMap.push(i);
+    } else if (/\s/.test(char) && normalized.length > 0 && !normalized.endsWith(' ')) {
+      normalized += ' ';
+      indexMap.push(i);
+    }
+  }
+
+  if (normalized.endsWith(' ')) {
+    normalized = normalized.slice(0, -1);
+    indexMap.pop();
+  }
+
+  return { normalized, indexMap };
+}
+
+function toSpan(answer: string, indexMap: number[], from: number, to: number): StarSpan {
+  const start = indexMap[from];
+  const end = indexMap[to - 1] + 1;
+  return { start, end, text: answer.substring(start, end) };
+}
+
+/**
+ * Find a model-provided quote in the transcript.
+ * Tries an exact match, then a punctuation/case-insensitive match, then anchors
+ * long quotes by their first and last few words.
+ */
+export function locateQuote(answer: string, quote: string): StarSpan | null {
+  const trimmed = quote.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const exactIndex = answer.indexOf(trimmed);
+  if (exactIndex !== -1) {
+    return { start: exactIndex, end: exactIndex + trimmed.length, text: trimmed };
+  }
+
+  const { normalized, indexMap } = normalizeWithMap(answer);
+  const normalizedQuote = normalizeWithMap(trimmed).normalized;
+  if (!normalizedQuote) {
+    return null;
+  }
+
+  const index = normalized.indexOf(normalizedQuote);
+  if (index !== -1) {
+    return toSpan(answer, indexMap, index, index + normalizedQuote.length);
+  }
+
+  const words = normalizedQuote.split(' ');
+  if (words.length < ANCHOR_WORDS * 2) {
+    return null;
+  }
+
+  const head = words.slice(0, ANCHOR_WORDS).join(' ');
+  const tail = words.slice(-ANCHOR_WORDS).join(' ');
+  const headIndex = normalized.indexOf(head);
+  const tailIndex = headIndex === -1 ? -1 : normalized.indexOf(tail, headIndex + head.length);
+  if (tailIndex === -1) {
+    return null;
+  }
+
+  return toSpan(answer, indexMap, headIndex, tailIndex + tail.length);
+}
+
+/**
+ * Turn the model's STAR assessment into component scores with character
+ * offsets into the answer, so the client can highlight the transcript
+ */
+export function buildStarAnalysis(
+  answer: string,
+  star: Record<StarComponent, StarComponentOutput>
+): StarAnalysis {
+  const components: StarComponentAnalysis[] = STAR_ORDER.map(component => {
+    const output = star[component];
+    const spans = output.quotes
+      .map(quote => locateQuote(answer, quote))
+      .filter((span): span is StarSpan => span !== null)
+      .sort((a, b) => a.start - b.start);
+
+    const unlocated = output.quotes.length - spans.length;
+    if (unlocated > 0) {
+      console.warn(`⚠️ Could not locate ${unlocated} ${component} quote(s) in the transcript`);
+    }
+
+    // A component counts as present when the model quoted it and we found it in the answer
+    const present = spans.length > 0 && output.score > 0;
+
+    return {
+      component,
+      present,
+      score: present ? output.score : 0,
+      comment: output.comment,
+      spans
+    };
+  });
+
+  const missing = components.filter(c => !c.present).map(c => c.component);
+  const overallScore = Math.round(
+    components.reduce((sum, c) => sum + c.score, 0) / components.length * 10
+  ) / 10;
+
+  return { components, missing, overallScore };
+}
@@ -0,0 +1,98 @@
+import type { SttProvider, StreamingRecognitionConfig } from '../../types/stt.types';
+import type { SpeechRecognizer } from './speechRecognizer';
+import type { StreamingRecognitionHandlers, StreamingRecognitionSession, StreamingRecognizer } from './streamingRecognizer';
+
+/**
+ * Streaming on top of a batch recognizer, for engines without a streaming API.
+ * WebM audio cannot be decoded from the middle of a stream, so the whole recording
+ * so far is re-recognized every `interimIntervalMs` for interim results, and once more
+ * when the audio ends for the final one.
+ */
+export class BufferedStreamingRecognizer implements StreamingRecognizer {
+  readonly provider: SttProvider;
+  private recognizer: SpeechRecognizer;
+  private interimIntervalMs: number;
+
+  constructor(recognizer: SpeechRecognizer, interimIntervalMs: number = 3000) {
+    this.recognizer = recognizer;
+    this.provider = recognizer.provider;
+    this.interimIntervalMs = interimIntervalMs;
+  }
+
+  start(config: StreamingRecognitionConfig, handlers: StreamingRecognitionHandlers): StreamingRecognitionSession {
+    const chunks: Buffer[] = [];
+    let bufferedBytes = 0;
+    let recognizedBytes = 0; // Audio covered by the last interim result
+    let pending: Promise<void> | null = null;
+    let ended = false;
+    let aborted = false;
+
+    const recognizeInterim = () => {
+      if (pending || ended || bufferedBytes === recognizedBytes) {
+        return;
+      }
+
+      const snapshot = bufferedBytes;
+      pending = this.recognizer.recognize(Buffer.concat(chunks), { ...config })
+        .then(result => {
+          recognizedBytes = snapshot;
+          if (!ended && result.transcript) {
+            handlers.onResult({ transcript: result.transcript, isFinal: false });
+          }
+        })
+        .catch(error => {
+          // A partial WebM may not decode yet - the final pass reports real failures
+          console.warn('⚠️ Interim recognition failed:', error instanceof Error ? error.message : error);
+        })
+        .finally(() => {
+          pending = null;
+        });
+    };
+
+    const timer = setInterval(recognizeInterim, this.interimIntervalMs);
+
+    return {
+      write: (audio: Buffer) => {
+        if (!ended) {
+          chunks.push(audio);
+          bufferedBytes += audio.length;
+        }
+      },
+      end: async () => {
+        if (ended) {
+          return;
+        }
+        ended = true;
+        clearInterval(timer);
+        await pending;
+
+        if (aborted || bufferedBytes === 0) {
+          return;
+        }
+
+        try {
+          const result = await this.recognizer.recognize(Buffer.concat(chunks), { ...config });
+          if (!aborted) {
+            handlers.onResult({
+              transcript: result.transcript,
+              isFinal: true,
+              confidence: result.confidence || undefined,
+              words: result.words
+            });
+          }
+        } catch (error) {
+          if (!aborted) {
+            handlers.onError(error instanceof Error ? error : new Error('Recognition failed'));
+          }
+        }
+      },
+      abort: () => {
+        ended = true;
+        aborted = true;
+        clearInterval(timer);
+      }
+    };
+  }
+}
+
+export default BufferedStreamingRecognizer;
@@ -0,0 +1,102 @@
+import type { RecognizedWord, SpeechRecognitionConfig, SpeechRecognitionResult, StreamingRecognitionConfig } from '../../types/stt.types';
+import type { SpeechRecognizer } from './speechRecognizer';
+import type { StreamingRecognitionHandlers, StreamingRecognitionSession, StreamingRecognizer } from './streamingRecognizer';
+
+const DEFAULT_SCRIPT = 'This is a simulated transcript. The fake recognizer reveals one word for every chunk of audio it receives.';
+
+// Synthetic word timings - a steady pace with a long pause after each sentence
+const WORD_MS = 300;
+const GAP_MS = 100;
+const SENTENCE_PAUSE_MS = 2500;
+
+/**
+ * Offline stand-in for tests and development without speech credentials.
+ * Ignores the audio content: batch recognition returns the whole script, streaming
+ * reveals it one word per `bytesPerWord` of audio received, finalising each sentence as it completes.
+ */
+export class FakeRecognizer implements StreamingRecognizer, SpeechRecognizer {
+  readonly provider = 'fake' as const;
+  private readonly words: string[];
+  private readonly bytesPerWord: number;
+
+  constructor(script: string = DEFAULT_SCRIPT, bytesPerWord: number = 2000) {
+    this.words = script.split(/\s+/).filter(Boolean);
+    this.bytesPerWord = bytesPerWord;
+  }
+
+  async recognize(audio: Buffer, _config: SpeechRecognitionConfig): Promise<SpeechRecognitionResult> {
+    return {
+      transcript: audio.length > 0 ? this.words.join(' ') : '',
+      confidence: audio.length > 0 ? 1 : 0,
+      words: audio.length > 0 ? this.timeWords(0, this.words.length) : []
+    };
+  }
+
+  /**
+   * Timings for script words [from, to), laid out from the start of the script
+   */
+  private timeWords(from: number, to: number): RecognizedWord[] {
+    const timed: RecognizedWord[] = [];
+    let offset = 0;
+    for (let i = 0; i < to; i++) {
+      if (i >= from) {
+        timed.push({ word: this.words[i], startMs: offset, endMs: offset + WORD_MS, confidence: 1 });
+      }
+      offset += WORD_MS + (/[.!?]$/.test(this.words[i]) ? SENTENCE_PAUSE_MS : GAP_MS);
+    }
+    return timed;
+  }
+
+  start(_config: StreamingRecognitionConfig, handlers: StreamingRecognitionHandlers): StreamingRecognitionSession {
+    let bytesReceived = 0;
+    let revealed = 0; // Words of the script emitted so far
+    let utteranceStart = 0; // First word of the utterance not yet finalised
+    let ended = false;
+
+    const finalise = () => {
+      if (revealed > utteranceStart) {
+        handlers.onResult({
+          transcript: this.words.slice(utteranceStart, revealed).join(' '),
+          isFinal: true,
+          confidence: 1,
+          words: this.timeWords(utteranceStart, revealed)
+        });
+        utteranceStart = revealed;
+      }
+    };
+
+    return {
+      write: (audio: Buffer) => {
+        if (ended) {
+          return;
+        }
+
+        bytesReceived += audio.length;
+        const target = Math.min(this.words.length, Math.ceil(bytesReceived / this.bytesPerWord));
+
+        while (revealed < target) {
+          revealed++;
+          if (/[.!?]$/.test(this.words[revealed - 1])) {
+            finalise();
+          } else {
+            handlers.onResult({
+              transcript: this.words.slice(utteranceStart, revealed).join(' '),
+              isFinal: false
+            });
+          }
+        }
+      },
+      end: async () => {
+        if (!ended) {
+          ended = true;
+          finalise();
+        }
+      },
+      abort: () => {
+        ended = true;
+      }
+    };
+  }
+}
+
+export default FakeRecognizer;
@@ -0,0 +1,163 @@
+import axios from 'axios';
+import type { RecognizedWord, SpeechRecognitionConfig, SpeechRecognitionResult } from '../../types/stt.types';
+import { SpeechRecognitionError, type ResumableSpeechRecognizer } from './speechRecognizer';
+
+const API_URL = 'https://speech.googleapis.com/v1';
+
+// Long running operations are polled every 5 seconds for up to 5 minutes
+const POLL_INTERVAL_MS = 5000;
+const MAX_POLL_ATTEMPTS = 60;
+
+// RecognitionConfig fields the Google API accepts - anything else is dropped
+const VALID_CONFIG_FIELDS = [
+  'encoding', 'sampleRateHertz', 'languageCode', 'audioChannelCount',
+  'enableAutomaticPunctuation', 'maxAlternatives', 'profanityFilter',
+  'enableSeparateRecognitionPerChannel', 'speechContexts', 'useEnhanced'
+];
+
+// Offsets are "1.300s" strings over REST and { seconds, nanos } objects over gRPC
+type GoogleDuration = string | { seconds?: number | string | { toString(): string } | null; nanos?: number | null } | null | undefined;
+
+export interface GoogleWordInfo {
+  word?: string | null;
+  startTime?: GoogleDuration;
+  endTime?: GoogleDuration;
+  confidence?: number | null;
+}
+
+interface GoogleRecognitionResult {
+  alternatives?: Array<{ transcript?: string; confidence?: number; words?: GoogleWordInfo[] }>;
+}
+
+function durationToMs(duration: GoogleDuration): number {
+  if (!duration) {
+    return 0;
+  }
+  if (typeof duration === 'string') {
+    return Math.round(parseFloat(duration) * 1000) || 0;
+  }
+  return Math.round(Number(duration.seconds?.toString() || 0) * 1000 + (duration.nanos || 0) / 1e6);
+}
+
+/**
+ * Convert Google's word time offsets (requested with enableWordTimeOffsets)
+ */
+export function toRecognizedWords(words: GoogleWordInfo[] | null | undefined): RecognizedWord[] {
+  return (words || [])
+    .filter(info => info.word)
+    .map(info => ({
+      word: info.word!,
+      startMs: durationToMs(info.startTime),
+      endMs: durationToMs(info.endTime),
+      confidence: info.confidence ?? undefined
+    }));
+}
+
+/**
+ * Google Cloud Speech-to-Text batch recognition.
+ * Uses longrunningrecognize so recordings longer than one minute are accepted;
+ * the operation can also be started and checked separately by the job queue.
+ */
+export class GoogleSpeechRecognizer implements ResumableSpeechRecognizer {
+  readonly provider = 'google' as const;
+  private apiKey?: string;
+
+  constructor(apiKey?: string) {
+    this.apiKey = apiKey;
+  }
+
+  async recognize(audio: Buffer, config: SpeechRecognitionConfig): Promise<SpeechRecognitionResult> {
+    const operationName = await this.startRecognition(audio, config);
+
+    for (let attempt = 1; attempt <= MAX_POLL_ATTEMPTS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+
+      const result = await this.checkRecognition(operationName);
+      if (result) {
+        return result;
+      }
+    }
+
+    throw new SpeechRecognitionError(`Transcription timeout - operation ${operationName} took too long to complete`, 408);
+  }
+
+  /**
+   * Start a long running operation and return its name
+   */
+  async startRecognition(audio: Buffer, config: SpeechRecognitionConfig): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error('Google Speech-to-Text API key not found in environment variables');
+    }
+
+    const googleConfig: Record<string, unknown> = { enableWordTimeOffsets: true };
+    for (const [key, value] of Object.entries(config)) {
+      if (VALID_CONFIG_FIELDS.includes(key) && value !== undefined) {
+        googleConfig[key] = value;
+      }
+    }
+
+    try {
+      console.log('Starting long running transcription...');
+      const startResponse = await axios.post(
+        `${API_URL}/speech:longrunningrecognize?key=${this.apiKey}`,
+        { config: googleConfig, audio: { content: audio.toString('base64') } },
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+
+      const operationName: string = startResponse.data.name;
+      console.log('Operation name:', operationName);
+      return operationName;
+
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 400) {
+        throw new SpeechRecognitionError(error.response.data?.error?.message || 'Bad request to STT API', 400);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check a long running operation - null while it is still running.
+   * Transient polling failures also return null so the caller simply checks again later.
+   */
+  async checkRecognition(operationName: string): Promise<SpeechRecognitionResult | null> {
+    let operation;
+    try {
+      const statusResponse = await axios.get(`${API_URL}/operations/${operationName}?key=${this.apiKey}`);
+      operation = statusResponse.data;
+    } catch (pollError) {
+      console.error('Error polling operation status:', pollError);
+      return null;
+    }
+
+    console.log(`Operation ${operationName} done: ${!!operation.done}`);
+    if (!operation.done) {
+      return null;
+    }
+    if (operation.error) {
+      throw new Error(`Long running operation failed: ${operation.error.message}`);
+    }
+    return this.combineResults(operation.response?.results || []);
+  }
+
+  private combineResults(results: GoogleRecognitionResult[]): SpeechRecognitionResult {
+    const best = results
+      .map(result => result.alternatives?.[0])
+      .filter((alternative): alternative is NonNullable<typeof alternative> => !!alternative);
+
+    const confidences = best
+      .map(alternative => alternative.confidence)
+      .filter((confidence): confidence is number => confidence !== undefined);
+
+    return {
+      transcript: best.map(alternative => alternative.transcript || '').join(' ').trim(),
+      confidence: confidences.length > 0
+        ? confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length
+        : 0,
+      words: best.flatMap(alternative => toRecognizedWords(alternative.words)),
+      results
+    };
+  }
+}
+
+export default GoogleSpeechRecognizer;
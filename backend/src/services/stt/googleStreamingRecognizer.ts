@@ -0,0 +1,99 @@
+import { SpeechClient } from '@google-cloud/speech';
+import type { StreamingRecognitionConfig } from '../../types/stt.types';
+import type { StreamingRecognitionHandlers, StreamingRecognitionSession, StreamingRecognizer } from './streamingRecognizer';
+import { toRecognizedWords, type GoogleWordInfo } from './googleSpeechRecognizer';
+
+// How long to wait for Google's last results after the audio ends
+const END_TIMEOUT_MS = 10000;
+
+/**
+ * Google Cloud Speech-to-Text streaming recognition (gRPC).
+ * Audio is forwarded as it arrives, so words are never split across request boundaries.
+ */
+export class GoogleStreamingRecognizer implements StreamingRecognizer {
+  readonly provider = 'google' as const;
+  private client: SpeechClient;
+
+  constructor(apiKey?: string) {
+    // Without an API key the client falls back to Application Default Credentials
+    this.client = new SpeechClient(apiKey ? { apiKey } : {});
+  }
+
+  start(config: StreamingRecognitionConfig, handlers: StreamingRecognitionHandlers): StreamingRecognitionSession {
+    let ended = false; // No more audio will be written
+    let aborted = false;
+
+    const stream = this.client.streamingRecognize({
+      config: {
+        encoding: config.encoding,
+        sampleRateHertz: config.sampleRateHertz,
+        languageCode: config.languageCode,
+        enableAutomaticPunctuation: true,
+        enableWordTimeOffsets: true,
+        maxAlternatives: 1
+      },
+      interimResults: true
+    });
+
+    stream.on('data', (response: { results?: Array<{ isFinal?: boolean | null; alternatives?: Array<{ transcript?: string | null; confidence?: number | null; words?: GoogleWordInfo[] | null }> | null }> }) => {
+      const results = response.results || [];
+      if (results.length === 0) {
+        return;
+      }
+
+      // A final result arrives on its own; interim responses may split the utterance by stability
+      if (results[0].isFinal) {
+        const best = results[0].alternatives?.[0];
+        handlers.onResult({
+          transcript: (best?.transcript || '').trim(),
+          isFinal: true,
+          confidence: best?.confidence ?? undefined,
+          words: toRecognizedWords(best?.words)
+        });
+        return;
+      }
+
+      const interim = results
+        .map(result => result.alternatives?.[0]?.transcript || '')
+        .join('')
+        .trim();
+      handlers.onResult({ transcript: interim, isFinal: false });
+    });
+
+    stream.on('error', (error: Error) => {
+      if (!aborted) {
+        handlers.onError(error);
+      }
+    });
+
+    return {
+      write: (audio: Buffer) => {
+        if (!ended) {
+          stream.write(audio);
+        }
+      },
+      end: () => new Promise<void>(resolve => {
+        if (ended) {
+          return resolve();
+        }
+
+        const timeout = setTimeout(resolve, END_TIMEOUT_MS);
+        const finish = () => {
+          clearTimeout(timeout);
+          resolve();
+        };
+        ended = true;
+        stream.once('end', finish);
+        stream.once('error', finish);
+        stream.end();
+      }),
+      abort: () => {
+        ended = true;
+        aborted = true;
+        stream.destroy();
+      }
+    };
+  }
+}
+
+export default GoogleStreamingRecognizer;
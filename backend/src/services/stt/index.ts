@@ -0,0 +1,88 @@
+import dotenv from 'dotenv';
+import type { SttProvider } from '../../types/stt.types';
+import type { SpeechRecognizer } from './speechRecognizer';
+import type { StreamingRecognizer } from './streamingRecognizer';
+import { GoogleSpeechRecognizer } from './googleSpeechRecognizer';
+import { GoogleStreamingRecognizer } from './googleStreamingRecognizer';
+import { LocalSpeechRecognizer, DEFAULT_LOCAL_STT_URL } from './localSpeechRecognizer';
+import { BufferedStreamingRecognizer } from './bufferedStreamingRecognizer';
+import { FakeRecognizer } from './fakeRecognizer';
+
+dotenv.config();
+
+export type { StreamingRecognizer, StreamingRecognitionSession, StreamingRecognitionHandlers } from './streamingRecognizer';
+export type { SpeechRecognizer } from './speechRecognizer';
+export { SpeechRecognitionError } from './speechRecognizer';
+
+export function resolveSttProvider(): SttProvider {
+  const provider = (process.env.STT_PROVIDER || 'google').toLowerCase();
+  if (provider === 'google' || provider === 'local' || provider === 'fake') {
+    return provider;
+  }
+  throw new Error(`Unsupported STT_PROVIDER: ${provider}`);
+}
+
+let fakeInstance: FakeRecognizer | null = null;
+
+function getFakeRecognizer(): FakeRecognizer {
+  if (!fakeInstance) {
+    fakeInstance = new FakeRecognizer(process.env.STT_FAKE_TRANSCRIPT || undefined);
+  }
+  return fakeInstance;
+}
+
+let speechRecognizerInstance: SpeechRecognizer | null = null;
+
+/**
+ * Get the configured batch recognizer.
+ * STT_PROVIDER=google|local|fake (default google)
+ * LOCAL_STT_URL, LOCAL_STT_MODEL configure the self-hosted engine
+ */
+export function getSpeechRecognizer(): SpeechRecognizer {
+  if (!speechRecognizerInstance) {
+    const provider = resolveSttProvider();
+
+    switch (provider) {
+      case 'local':
+        speechRecognizerInstance = new LocalSpeechRecognizer(
+          process.env.LOCAL_STT_URL || DEFAULT_LOCAL_STT_URL,
+          process.env.LOCAL_STT_MODEL || undefined
+        );
+        break;
+      case 'fake':
+        speechRecognizerInstance = getFakeRecognizer();
+        break;
+      default:
+        speechRecognizerInstance = new GoogleSpeechRecognizer(process.env.GOOGLE_STT_API_KEY);
+    }
+
+    console.log(`🎙️ STT provider: ${provider}`);
+  }
+  return speechRecognizerInstance;
+}
+
+let streamingRecognizerInstance: StreamingRecognizer | null = null;
+
+/**
+ * Get the configured streaming recognizer.
+ * Engines without a streaming API are wrapped in a BufferedStreamingRecognizer.
+ */
+export function getStreamingRecognizer(): StreamingRecognizer {
+  if (!streamingRecognizerInstance) {
+    const provider = resolveSttProvider();
+
+    switch (provider) {
+      case 'local':
+        streamingRecognizerInstance = new BufferedStreamingRecognizer(getSpeechRecognizer());
+        break;
+      case 'fake':
+        streamingRecognizerInstance = getFakeRecognizer();
+        break;
+      default:
+        streamingRecognizerInstance = new GoogleStreamingRecognizer(process.env.GOOGLE_STT_API_KEY);
+    }
+
+    console.log(`🎙️ Streaming STT provider: ${provider}`);
+  }
+  return streamingRecognizerInstance;
+}
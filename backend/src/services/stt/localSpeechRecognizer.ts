@@ -0,0 +1,96 @@
+import axios from 'axios';
+import type { RecognizedWord, SpeechRecognitionConfig, SpeechRecognitionResult } from '../../types/stt.types';
+import { SpeechRecognitionError, type SpeechRecognizer } from './speechRecognizer';
+
+export const DEFAULT_LOCAL_STT_URL = 'http://localhost:9000/v1/audio/transcriptions';
+
+const REQUEST_TIMEOUT_MS = 120000;
+
+interface TimedWord {
+  word?: string;
+  start?: number; // Seconds
+  end?: number;
+  probability?: number;
+}
+
+/**
+ * Word timings come back as a top-level `words` list (OpenAI format)
+ * or nested in each segment (faster-whisper and whisper.cpp)
+ */
+function parseWords(data: { words?: TimedWord[]; segments?: Array<{ words?: TimedWord[] }> }): RecognizedWord[] {
+  const timedWords = Array.isArray(data?.words)
+    ? data.words
+    : (Array.isArray(data?.segments) ? data.segments.flatMap(segment => segment.words || []) : []);
+
+  return timedWords
+    .filter(word => typeof word.word === 'string' && word.word.trim() && typeof word.start === 'number' && typeof word.end === 'number')
+    .map(word => ({
+      word: word.word!.trim(),
+      startMs: Math.round(word.start! * 1000),
+      endMs: Math.round(word.end! * 1000),
+      confidence: word.probability
+    }));
+}
+
+/**
+ * Self-hosted recognition through an OpenAI-compatible transcription endpoint
+ * (faster-whisper-server, whisper.cpp server, LocalAI, Vosk wrappers, ...).
+ * Audio never leaves the machine and no cloud credentials are needed.
+ */
+export class LocalSpeechRecognizer implements SpeechRecognizer {
+  readonly provider = 'local' as const;
+  private url: string;
+  private model?: string;
+
+  constructor(url: string = DEFAULT_LOCAL_STT_URL, model?: string) {
+    this.url = url;
+    this.model = model;
+  }
+
+  async recognize(audio: Buffer, config: SpeechRecognitionConfig): Promise<SpeechRecognitionResult> {
+    if (audio.length === 0) {
+      throw new SpeechRecognitionError('Audio content is empty', 400);
+    }
+
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(audio)], { type: 'audio/webm' }), 'audio.webm');
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'word');
+    form.append('timestamp_granularities[]', 'segment');
+    if (this.model) {
+      form.append('model', this.model);
+    }
+    if (typeof config.languageCode === 'string' && config.languageCode) {
+      // Whisper expects ISO-639-1 ("en"), not a BCP-47 locale ("en-US")
+      form.append('language', config.languageCode.split('-')[0].toLowerCase());
+    }
+
+    try {
+      const response = await axios.post(this.url, form, { timeout: REQUEST_TIMEOUT_MS });
+      const text = typeof response.data?.text === 'string' ? response.data.text.trim() : '';
+
+      return {
+        transcript: text.replace(/\s+/g, ' '),
+        confidence: 0, // Transcription servers do not report one
+        words: parseWords(response.data),
+        results: Array.isArray(response.data?.segments) ? response.data.segments : undefined
+      };
+
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (!error.response) {
+          throw new Error(`Local STT server unreachable at ${this.url}: ${error.message}`);
+        }
+        if (error.response.status === 400 || error.response.status === 422) {
+          throw new SpeechRecognitionError(
+            error.response.data?.error?.message || error.response.data?.detail || 'Local STT server rejected the audio',
+            400
+          );
+        }
+      }
+      throw error;
+    }
+  }
+}
+
+export default LocalSpeechRecognizer;
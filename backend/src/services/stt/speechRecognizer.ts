@@ -0,0 +1,38 @@
+import type { SpeechRecognitionConfig, SpeechRecognitionResult, SttProvider } from '../../types/stt.types';
+
+/**
+ * Contract every batch speech-to-text provider implements
+ */
+export interface SpeechRecognizer {
+  readonly provider: SttProvider;
+  recognize(audio: Buffer, config: SpeechRecognitionConfig): Promise<SpeechRecognitionResult>;
+}
+
+/**
+ * Recognition failure with the HTTP status the API should answer with
+ */
+export class SpeechRecognitionError extends Error {
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 500) {
+    super(message);
+    this.name = 'SpeechRecognitionError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Batch recognizer whose work runs as a provider-side operation that can be checked later,
+ * so a queued job can resume polling after a restart instead of starting over
+ */
+export interface ResumableSpeechRecognizer extends SpeechRecognizer {
+  /** Start recognition and return the provider's operation ID */
+  startRecognition(audio: Buffer, config: SpeechRecognitionConfig): Promise<string>;
+  /** Result once the operation is done, null while it is still running */
+  checkRecognition(operationId: string): Promise<SpeechRecognitionResult | null>;
+}
+
+export function isResumableRecognizer(recognizer: SpeechRecognizer): recognizer is ResumableSpeechRecognizer {
+  const candidate = recognizer as Partial<ResumableSpeechRecognizer>;
+  return typeof candidate.startRecognition === 'function' && typeof candidate.checkRecognition === 'function';
+}
@@ -0,0 +1,24 @@
+import type { SttProvider, StreamingRecognitionConfig, StreamingRecognitionResult } from '../../types/stt.types';
+
+export interface StreamingRecognitionHandlers {
+  onResult(result: StreamingRecognitionResult): void;
+  onError(error: Error): void;
+}
+
+/**
+ * One live recognition stream - audio goes in, results come out through the handlers
+ */
+export interface StreamingRecognitionSession {
+  write(audio: Buffer): void;
+  /** Signal the end of audio; resolves once every final result has been delivered */
+  end(): Promise<void>;
+  abort(): void;
+}
+
+/**
+ * Contract every streaming speech-to-text provider implements
+ */
+export interface StreamingRecognizer {
+  readonly provider: SttProvider;
+  start(config: StreamingRecognitionConfig, handlers: StreamingRecognitionHandlers): StreamingRecognitionSession;
+}
@@ -0,0 +1,348 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type { SpeechRecognitionResult } from '../../types/stt.types';
+import type { PublicSttJob, SttJob, SttJobInput } from '../../types/sttJob.types';
+import { computeDeliveryMetrics } from '../deliveryMetricsService';
+import { isResumableRecognizer, SpeechRecognitionError, type SpeechRecognizer } from './speechRecognizer';
+import { getSpeechRecognizer } from './index';
+
+export interface SttJobQueueOptions {
+  jobDirectory?: string;
+  concurrency?: number; // Jobs recognized at the same time
+  maxAttempts?: number; // Attempts before a job is marked failed
+  pollIntervalMs?: number; // How often running provider operations are checked
+  operationTimeoutMs?: number; // Give up on (and retry) an operation that has not finished by then
+  retryDelayMs?: number; // Delay before the first retry, doubled for each later one
+  ttlMs?: number; // How long finished jobs are kept
+}
+
+const JOB_ID_PATTERN = /^stt_job_[a-f0-9-]{36}$/;
+const TICK_INTERVAL_MS = 1000;
+
+/**
+ * Job IDs appear in URLs, so only accept the format the queue generates
+ */
+export function isValidSttJobId(jobId: unknown): jobId is string {
+  return typeof jobId === 'string' && JOB_ID_PATTERN.test(jobId);
+}
+
+export function toPublicJob(job: SttJob): PublicSttJob {
+  const { id, status, attempts, maxAttempts, result, error, createdAt, updatedAt, completedAt } = job;
+  return { id, status, attempts, maxAttempts, result, error, createdAt, updatedAt, completedAt };
+}
+
+function isFinished(job: SttJob): boolean {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+/**
+ * Persistent transcription queue.
+ * Each job is a JSON document plus its audio under cache/stt-jobs, so queued and running
+ * jobs are picked up again after a restart. Provider operations (Google longrunningrecognize)
+ * are polled without holding a request open, and resumed rather than restarted.
+ * Emits 'update' with the job whenever its status, attempts or result change.
+ */
+export class SttJobQueue extends EventEmitter {
+  private recognizer: SpeechRecognizer;
+  private jobDir: string;
+  private concurrency: number;
+  private maxAttempts: number;
+  private pollIntervalMs: number;
+  private operationTimeoutMs: number;
+  private retryDelayMs: number;
+  private ttlMs: number;
+
+  private jobs: Map<string, SttJob> = new Map();
+  private active: Set<string> = new Set();
+  private ready: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(recognizer: SpeechRecognizer, options: SttJobQueueOptions = {}) {
+    super();
+    this.recognizer = recognizer;
+    this.jobDir = options.jobDirectory || path.join(process.cwd(), 'cache', 'stt-jobs');
+    this.concurrency = options.concurrency ?? 2;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.operationTimeoutMs = options.operationTimeoutMs ?? 10 * 60 * 1000;
+    this.retryDelayMs = options.retryDelayMs ?? 5000;
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Load persisted jobs and start processing. Safe to call more than once.
+   */
+  start(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load().then(() => {
+        this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+        this.timer.unref();
+        this.tick();
+      });
+    }
+    return this.ready;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async enqueue(input: SttJobInput): Promise<SttJob> {
+    if (input.audio.length === 0) {
+      throw new SpeechRecognitionError('Audio content is empty', 400);
+    }
+
+    await this.start();
+
+    const now = new Date().toISOString();
+    const job: SttJob = {
+      id: `stt_job_${crypto.randomUUID()}`,
+      sessionId: input.sessionId,
+      status: 'queued',
+      provider: this.recognizer.provider,
+      config: input.config,
+      durationMs: input.durationMs,
+      question: input.question,
+      audioBytes: input.audio.length,
+      attempts: 0,
+      maxAttempts: this.maxAttempts,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    // The audio must be on disk before the job is, or a restart could find a job without audio
+    await this.writeFileAtomic(this.audioPath(job.id), input.audio);
+    await this.persist(job);
+
+    console.log(`📥 Queued transcription job ${job.id} (${job.audioBytes} bytes)`);
+    this.tick();
+    return job;
+  }
+
+  async get(jobId: string): Promise<SttJob | null> {
+    if (!isValidSttJobId(jobId)) {
+      return null;
+    }
+    await this.start();
+    return this.jobs.get(jobId) || null;
+  }
+
+  /**
+   * Remove finished jobs older than the TTL
+   */
+  async purgeExpired(): Promise<number> {
+    const cutoff = Date.now() - this.ttlMs;
+    let purged = 0;
+
+    for (const job of [...this.jobs.values()]) {
+      if (isFinished(job) && new Date(job.updatedAt).getTime() <= cutoff) {
+        this.jobs.delete(job.id);
+        await fs.unlink(this.jobPath(job.id)).catch(() => undefined);
+        await fs.unlink(this.audioPath(job.id)).catch(() => undefined);
+        purged++;
+      }
+    }
+
+    return purged;
+  }
+
+  /**
+   * Start every due job the concurrency limit allows
+   */
+  private tick(): void {
+    const now = Date.now();
+    for (const job of this.jobs.values()) {
+      if (this.active.size >= this.concurrency) {
+        return;
+      }
+      if (!isFinished(job) && !this.active.has(job.id) && new Date(job.nextAttemptAt).getTime() <= now) {
+        this.active.add(job.id);
+        this.process(job).finally(() => this.active.delete(job.id));
+      }
+    }
+  }
+
+  /**
+   * Run one step of a job: start recognition, or check the provider operation it is waiting on
+   */
+  private async process(job: SttJob): Promise<void> {
+    try {
+      if (job.operationId && isResumableRecognizer(this.recognizer)) {
+        const result = await this.recognizer.checkRecognition(job.operationId);
+        if (result) {
+          return await this.complete(job, result);
+        }
+
+        if (Date.now() - new Date(job.operationStartedAt || job.updatedAt).getTime() > this.operationTimeoutMs) {
+          throw new SpeechRecognitionError(`Operation ${job.operationId} took too long to complete`, 408);
+        }
+
+        // Still running - check again later without counting an attempt
+        job.nextAttemptAt = new Date(Date.now() + this.pollIntervalMs).toISOString();
+        return await this.persist(job, false);
+      }
+
+      job.status = 'running';
+      job.attempts++;
+      job.operationId = undefined;
+      await this.persist(job);
+
+      const audio = await fs.readFile(this.audioPath(job.id));
+
+      if (isResumableRecognizer(this.recognizer)) {
+        job.operationId = await this.recognizer.startRecognition(audio, job.config);
+        job.operationStartedAt = new Date().toISOString();
+        job.nextAttemptAt = new Date(Date.now() + this.pollIntervalMs).toISOString();
+        return await this.persist(job, false);
+      }
+
+      await this.complete(job, await this.recognizer.recognize(audio, job.config));
+
+    } catch (error) {
+      await this.fail(job, error);
+    }
+  }
+
+  private async complete(job: SttJob, result: SpeechRecognitionResult): Promise<void> {
+    job.status = 'completed';
+    job.result = {
+      transcript: result.transcript,
+      confidence: result.confidence,
+      words: result.words,
+      delivery: computeDeliveryMetrics({
+        transcript: result.transcript,
+        words: result.words,
+        durationMs: job.durationMs,
+        question: job.question
+      })
+    };
+    job.error = undefined;
+    job.operationId = undefined;
+    job.completedAt = new Date().toISOString();
+
+    await this.persist(job);
+    await fs.unlink(this.audioPath(job.id)).catch(() => undefined);
+    console.log(`✅ Transcription job ${job.id} completed`);
+  }
+
+  /**
+   * Retry with exponential backoff, unless the audio itself was rejected or attempts ran out
+   */
+  private async fail(job: SttJob, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const rejected = error instanceof SpeechRecognitionError && error.statusCode === 400;
+    const missingAudio = (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+    job.error = message;
+    job.operationId = undefined;
+
+    if (!rejected && !missingAudio && job.attempts < job.maxAttempts) {
+      const delay = this.retryDelayMs * 2 ** (job.attempts - 1);
+      job.status = 'queued';
+      job.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      console.warn(`⚠️ Transcription job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms:`, message);
+      return this.persist(job);
+    }
+
+    job.status = 'failed';
+    job.completedAt = new Date().toISOString();
+    console.error(`❌ Transcription job ${job.id} failed:`, message);
+    await this.persist(job);
+    await fs.unlink(this.audioPath(job.id)).catch(() => undefined);
+  }
+
+  private async load(): Promise<void> {
+    await fs.mkdir(this.jobDir, { recursive: true });
+
+    const files = (await fs.readdir(this.jobDir)).filter(file => file.endsWith('.json'));
+    for (const file of files) {
+      try {
+        const job = JSON.parse(await fs.readFile(path.join(this.jobDir, file), 'utf-8')) as SttJob;
+
+        // A job interrupted mid-request is retried; one waiting on a provider operation resumes polling
+        if (job.status === 'running' && !job.operationId) {
+          job.status = 'queued';
+          job.attempts = Math.max(0, job.attempts - 1);
+        }
+        if (!isFinished(job)) {
+          job.nextAttemptAt = new Date().toISOString();
+        }
+        this.jobs.set(job.id, job);
+      } catch (error) {
+        console.error(`⚠️ Failed to load transcription job ${file}:`, error);
+      }
+    }
+
+    const pending = [...this.jobs.values()].filter(job => !isFinished(job)).length;
+    if (pending > 0) {
+      console.log(`🔁 Resuming ${pending} transcription job(s)`);
+    }
+    await this.purgeExpired();
+  }
+
+  private async persist(job: SttJob, notify: boolean = true): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    this.jobs.set(job.id, job);
+    await this.writeFileAtomic(this.jobPath(job.id), JSON.stringify(job, null, 2));
+    if (notify) {
+      this.emit('update', job);
+    }
+  }
+
+  private async writeFileAtomic(target: string, data: string | Buffer): Promise<void> {
+    await fs.mkdir(this.jobDir, { recursive: true });
+    const tempFile = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, data);
+    await fs.rename(tempFile, target);
+  }
+
+  private jobPath(jobId: string): string {
+    return path.join(this.jobDir, `${jobId}.json`);
+  }
+
+  private audioPath(jobId: string): string {
+    return path.join(this.jobDir, `${jobId}.audio`);
+  }
+}
+
+// Create and export singleton instance
+let queueInstance: SttJobQueue | null = null;
+
+const positiveNumber = (value: string | undefined): number | undefined =>
+  Number(value) > 0 ? Number(value) : undefined;
+
+/**
+ * Get the transcription job queue for the configured recognizer.
+ * STT_JOB_DIR (default cache/stt-jobs), STT_JOB_CONCURRENCY (2), STT_JOB_MAX_ATTEMPTS (3),
+ * STT_JOB_TIMEOUT_MINUTES (10), STT_JOB_TTL_HOURS (24)
+ */
+export function getSttJobQueue(): SttJobQueue {
+  if (!queueInstance) {
+    const timeoutMinutes = positiveNumber(process.env.STT_JOB_TIMEOUT_MINUTES);
+    const ttlHours = positiveNumber(process.env.STT_JOB_TTL_HOURS);
+
+    queueInstance = new SttJobQueue(getSpeechRecognizer(), {
+      jobDirectory: process.env.STT_JOB_DIR,
+      concurrency: positiveNumber(process.env.STT_JOB_CONCURRENCY),
+      maxAttempts: positiveNumber(process.env.STT_JOB_MAX_ATTEMPTS),
+      operationTimeoutMs: timeoutMinutes ? timeoutMinutes * 60 * 1000 : undefined,
+      ttlMs: ttlHours ? ttlHours * 60 * 60 * 1000 : undefined
+    });
+
+    // Periodically drop finished jobs without keeping the process alive
+    setInterval(() => {
+      queueInstance?.purgeExpired().catch(error => {
+        console.error('Warning: Failed to purge transcription jobs:', error);
+      });
+    }, 60 * 60 * 1000).unref();
+  }
+  return queueInstance;
+}
+
+export default getSttJobQueue;
@@ -1,18 +1,14 @@
-import { getCohereService, CohereEmbeddingService } from './cohereEmbeddingService.js';
+import { getEmbeddingProvider, cosineSimilarity, type EmbeddingProvider } from './embeddings/index.js';
 import { getEmbeddingCache, EmbeddingCache } from './embeddingCache.js';
-import technicalQuestions from '../data/technicalQuestions.json' assert { type: 'json' };
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getQuestionBank, getReferenceAnswers, validateTechnicalQuestion } from './questionBankService.js';
+import { generateJson, technicalFeedbackSchema, technicalSuggestionsSchema, StructuredOutputError } from './llm/index.js';
+import type { ConceptPhrase, TechnicalQuestion } from '../types/questionBank.types.js';
 
 /**
  * Technical question with embedding data
  */
-export interface TechnicalQuestionWithEmbedding {
-  id: number;
-  role: string;
-  question: string;
-  reference_answer: string;
-  keywords: string[];
-  embedding?: number[];
+export interface TechnicalQuestionWithEmbedding extends TechnicalQuestion {
+  embeddings?: number[][]; // One per reference answer, in getReferenceAnswers order
 }
 
 /**
@@ -20,11 +16,14 @@ export interface TechnicalQuestionWithEmbedding {
  */
 export interface TechnicalEvaluationResult {
   questionId: number;
-  similarity: number;
+  similarity: number; // Similarity to the closest reference answer
+  matchedReference: number; // Index of that reference answer (0 = primary)
   score: number;
   feedback: string;
   isCorrect: boolean;
   keywordMatches: string[];
+  missingConcepts: string[]; // must_mention concepts the answer left out
+  incorrectClaims: string[]; // must_not_claim statements the answer made
   suggestions: string[];
 }
 
@@ -37,36 +36,41 @@ export interface EvaluationConfig {
   partialThreshold: number;
   keywordWeight: number;
   semanticWeight: number;
+  missingConceptPenalty: number; // Subtracted from the combined score per missing concept
+  incorrectClaimPenalty: number; // Subtracted per incorrect claim
 }
 
 /**
- * Production-quality technical question evaluator using Cohere embeddings
+ * Outcome of checking an answer against must_mention / must_not_claim
+ */
+interface ConceptCheck {
+  missingConcepts: string[];
+  incorrectClaims: string[];
+}
+
+/**
+ * Production-quality technical question evaluator using semantic embeddings
+ * (Cohere, or the offline local provider - see services/embeddings)
  * Pre-computes reference answer embeddings and evaluates user answers semantically
  */
 export class TechnicalQuestionEvaluator {
-  private cohereService: CohereEmbeddingService;
+  private embeddingProvider: EmbeddingProvider;
   private embeddingCache: EmbeddingCache;
   private questionsWithEmbeddings: Map<number, TechnicalQuestionWithEmbedding> = new Map();
   private isInitialized: boolean = false;
-  private geminiClient: GoogleGenerativeAI;
   private readonly defaultConfig: EvaluationConfig = {
     excellentThreshold: 0.85,
     goodThreshold: 0.70,
     partialThreshold: 0.50,
     keywordWeight: 0.3,
-    semanticWeight: 0.7
+    semanticWeight: 0.7,
+    missingConceptPenalty: 0.1,
+    incorrectClaimPenalty: 0.25
   };
 
   constructor() {
-    this.cohereService = getCohereService();
+    this.embeddingProvider = getEmbeddingProvider();
     this.embeddingCache = getEmbeddingCache();
-    
-    // Initialize Gemini client
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is required');
-    }
-    this.geminiClient = new GoogleGenerativeAI(apiKey);
   }
 
   /**
@@ -79,11 +83,11 @@ export class TechnicalQuestionEvaluator {
       // Initialize cache first
       await this.embeddingCache.initialize();
       
-      // Initialize Cohere service
-      await this.cohereService.initialize();
+      // Initialize the embedding provider
+      await this.embeddingProvider.initialize();
       
       // Load and validate technical questions
-      const questions = this.loadTechnicalQuestions();
+      const questions = await this.loadTechnicalQuestions();
       console.log(`📚 Loaded ${questions.length} technical questions`);
       
       // Pre-compute embeddings for all reference answers (with caching)
@@ -99,35 +103,21 @@ export class TechnicalQuestionEvaluator {
   }
 
   /**
-   * Load and validate technical questions from JSON data
+   * Load and validate technical questions from the question bank
    */
-  private loadTechnicalQuestions(): TechnicalQuestionWithEmbedding[] {
+  private async loadTechnicalQuestions(): Promise<TechnicalQuestionWithEmbedding[]> {
     try {
-      if (!Array.isArray(technicalQuestions)) {
-        throw new Error('Technical questions data is not an array');
-      }
-
+      const technicalQuestions = await getQuestionBank().list();
       const validQuestions: TechnicalQuestionWithEmbedding[] = [];
 
-      for (const question of technicalQuestions) {
-        // Validate required fields
-        if (!question.id || !question.reference_answer || !question.question) {
-          console.warn(`Skipping invalid question: missing required fields`, question);
+      for (const item of technicalQuestions) {
+        const { question, errors } = validateTechnicalQuestion(item);
+        if (errors.length > 0 || question.id === undefined) {
+          console.warn(`Skipping invalid question ${item.id}: ${errors.join('; ') || 'missing id'}`);
           continue;
         }
 
-        if (typeof question.reference_answer !== 'string' || question.reference_answer.trim().length < 10) {
-          console.warn(`Skipping question ${question.id}: reference answer too short`);
-          continue;
-        }
-
-        validQuestions.push({
-          id: question.id,
-          role: question.role || 'Software Engineer',
-          question: question.question,
-          reference_answer: question.reference_answer,
-          keywords: Array.isArray(question.keywords) ? question.keywords : []
-        });
+        validQuestions.push({ ...question, id: question.id });
       }
 
       if (validQuestions.length === 0) {
@@ -150,70 +140,51 @@ export class TechnicalQuestionEvaluator {
       console.log('⚡ Pre-computing embeddings for reference answers...');
       const startTime = Date.now();
 
-      // Check cache for existing embeddings using question IDs
-      const questionsNeedingEmbeddings: TechnicalQuestionWithEmbedding[] = [];
-      const cachedEmbeddings = new Map<number, number[]>();
+      const embeddingsToCache: { questionId: number; referenceIndex: number; text: string; embedding: number[] }[] = [];
+      let referenceCount = 0;
+      let cachedCount = 0;
 
       for (const question of questions) {
-        // Check if embedding is already cached by question ID
-        const cachedEmbedding = await this.embeddingCache.getQuestionEmbedding(question.id);
-        
-        if (cachedEmbedding) {
-          // Verify the cached text matches current reference answer
-          if (cachedEmbedding.text === question.reference_answer) {
-            cachedEmbeddings.set(question.id, cachedEmbedding.embedding);
-            console.log(`✅ Using cached embedding for question ${question.id}`);
-          } else {
-            console.log(`⚠️ Reference answer changed for question ${question.id}, will regenerate embedding`);
-            questionsNeedingEmbeddings.push(question);
+        const embeddings: number[][] = [];
+        const references = getReferenceAnswers(question);
+
+        for (let referenceIndex = 0; referenceIndex < references.length; referenceIndex++) {
+          const text = references[referenceIndex];
+          referenceCount++;
+
+          // Cached embeddings are keyed by question ID and reference index - verify the text still matches
+          const cachedEmbedding = await this.embeddingCache.getQuestionEmbedding(this.embeddingProvider, question.id, referenceIndex);
+          if (cachedEmbedding && cachedEmbedding.text === text) {
+            embeddings.push(cachedEmbedding.embedding);
+            cachedCount++;
+            continue;
           }
-        } else {
-          questionsNeedingEmbeddings.push(question);
-        }
-      }
 
-      console.log(`📊 Cache status: ${cachedEmbeddings.size} cached, ${questionsNeedingEmbeddings.length} need computation`);
+          if (cachedEmbedding) {
+            console.log(`⚠️ Reference answer ${referenceIndex} changed for question ${question.id}, will regenerate embedding`);
+          }
 
-      // Generate embeddings for questions that need them
-      if (questionsNeedingEmbeddings.length > 0) {
-        console.log(`🔄 Generating embeddings for ${questionsNeedingEmbeddings.length} reference answers...`);
-        
-        const embeddingsToCache: { questionId: number; text: string; embedding: number[] }[] = [];
-        
-        for (const question of questionsNeedingEmbeddings) {
           try {
-            const embedding = await this.cohereService.generateEmbedding(question.reference_answer);
-            question.embedding = embedding;
-            
-            // Prepare for batch caching
-            embeddingsToCache.push({
-              questionId: question.id,
-              text: question.reference_answer,
-              embedding
-            });
-            
-            console.log(`✅ Generated embedding for question ${question.id} (${question.role})`);
-            
+            const embedding = await this.embeddingProvider.generateEmbedding(text);
+            embeddings.push(embedding);
+            embeddingsToCache.push({ questionId: question.id, referenceIndex, text, embedding });
+
+            console.log(`✅ Generated embedding for question ${question.id} reference ${referenceIndex} (${question.role})`);
+
           } catch (error) {
             console.error(`❌ Failed to generate embedding for question ${question.id}:`, error);
             throw new Error(`Failed to generate embedding for question ${question.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
           }
         }
 
-        // Batch cache all new embeddings
-        if (embeddingsToCache.length > 0) {
-          await this.embeddingCache.storeQuestionEmbeddings(embeddingsToCache);
-        }
+        question.embeddings = embeddings;
       }
 
-      // Set embeddings for questions that were cached
-      for (const question of questions) {
-        if (!question.embedding) {
-          const embedding = cachedEmbeddings.get(question.id);
-          if (embedding) {
-            question.embedding = embedding;
-          }
-        }
+      console.log(`📊 Cache status: ${cachedCount} cached, ${embeddingsToCache.length} computed`);
+
+      // Batch cache all new embeddings
+      if (embeddingsToCache.length > 0) {
+        await this.embeddingCache.storeQuestionEmbeddings(this.embeddingProvider, embeddingsToCache);
       }
 
       // Store all questions in the map for easy access
@@ -222,10 +193,10 @@ export class TechnicalQuestionEvaluator {
       }
 
       const duration = Date.now() - startTime;
-      const cacheHitRate = cachedEmbeddings.size / questions.length * 100;
+      const cacheHitRate = referenceCount > 0 ? cachedCount / referenceCount * 100 : 0;
       
       console.log(`✅ Embedding pre-computation completed in ${duration}ms`);
-      console.log(`📈 Cache hit rate: ${cacheHitRate.toFixed(1)}% (${cachedEmbeddings.size}/${questions.length})`);
+      console.log(`📈 Cache hit rate: ${cacheHitRate.toFixed(1)}% (${cachedCount}/${referenceCount})`);
       
     } catch (error) {
       console.error('❌ Failed to pre-compute reference embeddings:', error);
@@ -233,6 +204,34 @@ export class TechnicalQuestionEvaluator {
     }
   }
 
+  /**
+   * Re-sync with the question bank after it has been edited.
+   * Only new or changed reference answers are re-embedded (the cache is keyed
+   * by provider, model and question ID and checked against the current text); deleted questions
+   * are dropped along with their cached embeddings.
+   */
+  async reloadQuestions(): Promise<{ questionCount: number, removed: number[] }> {
+    if (!this.isInitialized) {
+      throw new Error('Evaluator not initialized. Call initialize() first.');
+    }
+
+    const questions = await this.loadTechnicalQuestions();
+    const currentIds = new Set(questions.map(q => q.id));
+    const removed = Array.from(this.questionsWithEmbeddings.keys()).filter(id => !currentIds.has(id));
+
+    await this.precomputeReferenceEmbeddings(questions);
+
+    for (const id of removed) {
+      this.questionsWithEmbeddings.delete(id);
+    }
+    if (removed.length > 0) {
+      await this.embeddingCache.removeQuestionEmbeddings(removed);
+    }
+
+    console.log(`🔄 Reloaded ${questions.length} technical questions (${removed.length} removed)`);
+    return { questionCount: this.questionsWithEmbeddings.size, removed };
+  }
+
   /**
    * Evaluate a user's answer against a specific technical question
    * @param questionId - ID of the technical question
@@ -254,16 +253,19 @@ export class TechnicalQuestionEvaluator {
       return {
         questionId,
         similarity: 0,
+        matchedReference: 0,
         score: 1, // Minimum score on 1-10 scale
         feedback: 'Answer is too short. Please provide a more detailed explanation with at least a few sentences.',
         isCorrect: false,
         keywordMatches: [],
+        missingConcepts: [],
+        incorrectClaims: [],
         suggestions: ['Provide more detail in your answer', 'Explain the concept step by step', 'Include relevant examples or use cases']
       };
     }
 
     const question = this.questionsWithEmbeddings.get(questionId);
-    if (!question || !question.embedding) {
+    if (!question || !question.embeddings || question.embeddings.length === 0) {
       throw new Error(`Question with ID ${questionId} not found or missing embedding`);
     }
 
@@ -271,24 +273,30 @@ export class TechnicalQuestionEvaluator {
 
     try {
       // Generate embedding for user answer
-      const userEmbedding = await this.cohereService.generateEmbedding(
+      const userEmbedding = await this.embeddingProvider.generateEmbedding(
         userAnswer.trim(),
         'search_query' // User answer is a query against the reference document
       );
 
-      // Calculate semantic similarity
-      const semanticSimilarity = CohereEmbeddingService.cosineSimilarity(
-        question.embedding,
-        userEmbedding
+      // Semantic similarity to the closest acceptable reference answer
+      const similarities = question.embeddings.map(referenceEmbedding =>
+        cosineSimilarity(referenceEmbedding, userEmbedding)
       );
+      const semanticSimilarity = Math.max(...similarities);
+      const matchedReference = similarities.indexOf(semanticSimilarity);
 
       // Calculate keyword match score
       const keywordScore = this.calculateKeywordMatch(userAnswer, question.keywords);
 
-      // Combine semantic and keyword scores
-      const combinedScore = (
+      // Required concepts and known misconceptions
+      const concepts = this.checkConcepts(userAnswer, question);
+
+      // Combine semantic and keyword scores, then apply concept penalties
+      const combinedScore = Math.max(0,
         semanticSimilarity * evaluationConfig.semanticWeight +
-        keywordScore.score * evaluationConfig.keywordWeight
+        keywordScore.score * evaluationConfig.keywordWeight -
+        concepts.missingConcepts.length * evaluationConfig.missingConceptPenalty -
+        concepts.incorrectClaims.length * evaluationConfig.incorrectClaimPenalty
       );
 
       // Convert to 1-10 score
@@ -301,18 +309,23 @@ export class TechnicalQuestionEvaluator {
         keywordScore,
         evaluationConfig,
         question,
-        userAnswer
+        userAnswer,
+        getReferenceAnswers(question)[matchedReference],
+        concepts
       );
 
-      console.log(`📊 Question ${questionId} evaluation: semantic=${semanticSimilarity.toFixed(3)}, keyword=${keywordScore.score.toFixed(3)}, final=${finalScore}`);
+      console.log(`📊 Question ${questionId} evaluation: semantic=${semanticSimilarity.toFixed(3)} (reference ${matchedReference}), keyword=${keywordScore.score.toFixed(3)}, missing=${concepts.missingConcepts.length}, claims=${concepts.incorrectClaims.length}, final=${finalScore}`);
 
       return {
         questionId,
         similarity: semanticSimilarity,
+        matchedReference,
         score: finalScore,
         feedback,
         isCorrect,
         keywordMatches: keywordScore.matches,
+        missingConcepts: concepts.missingConcepts,
+        incorrectClaims: concepts.incorrectClaims,
         suggestions
       };
 
@@ -343,29 +356,54 @@ export class TechnicalQuestionEvaluator {
     return { score, matches };
   }
 
+  /**
+   * Check the answer for required concepts and known misconceptions.
+   * A concept matches when any of its aliases appears in the answer as whole words, ignoring
+   * case and punctuation, so spoken forms like "last in, first out" match "last in first out".
+   * Plural or inflected forms need their own alias.
+   * Concepts are reported by their first alias.
+   */
+  private checkConcepts(
+    userAnswer: string,
+    question: TechnicalQuestionWithEmbedding
+  ): ConceptCheck {
+    const normalize = (text: string) => ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+    const answer = normalize(userAnswer);
+    const aliasesOf = (concept: ConceptPhrase) => typeof concept === 'string' ? [concept] : concept;
+    const mentions = (concept: ConceptPhrase) =>
+      aliasesOf(concept).some(alias => answer.includes(normalize(alias)));
+
+    return {
+      missingConcepts: question.must_mention.filter(concept => !mentions(concept)).map(concept => aliasesOf(concept)[0]),
+      incorrectClaims: question.must_not_claim.filter(mentions).map(claim => aliasesOf(claim)[0])
+    };
+  }
+
 
 
   /**
-   * Generate AI-powered suggestions using Gemini
+   * Generate AI-powered suggestions using the configured LLM
    */
   private async generateAISuggestions(
     userAnswer: string,
     question: TechnicalQuestionWithEmbedding,
+    referenceAnswer: string,
     combinedScore: number,
-    keywordMatches: string[]
+    keywordMatches: string[],
+    concepts: ConceptCheck
   ): Promise<string[]> {
     try {
-      const model = this.geminiClient.getGenerativeModel({ model: 'gemini-1.5-flash' });
-      
       const prompt = `
 You are an expert technical interviewer providing constructive feedback. 
 
 QUESTION: ${question.question}
-REFERENCE ANSWER: ${question.reference_answer}
+REFERENCE ANSWER: ${referenceAnswer}
 USER'S ANSWER: ${userAnswer}
 SCORE: ${(combinedScore * 100).toFixed(1)}%
 KEYWORDS FOUND: ${keywordMatches.join(', ') || 'None'}
 MISSING KEYWORDS: ${question.keywords.filter(k => !keywordMatches.includes(k)).join(', ') || 'None'}
+REQUIRED CONCEPTS MISSING: ${concepts.missingConcepts.join(', ') || 'None'}
+INCORRECT CLAIMS MADE: ${concepts.incorrectClaims.join(', ') || 'None'}
 
 Please provide 1-2 specific, actionable suggestions to improve this answer. Focus on:
 - Technical accuracy and completeness
@@ -373,38 +411,23 @@ Please provide 1-2 specific, actionable suggestions to improve this answer. Focu
 - Areas for more detailed explanation
 - Better structure or clarity
 
-IMPORTANT: Return ONLY a valid JSON array of strings. Do NOT wrap in markdown code blocks or add any other text.
+IMPORTANT: Return ONLY a valid JSON array of 1-4 strings. Do NOT wrap in markdown code blocks or add any other text.
 Each suggestion should be concise (max 50 words) and actionable.
 
 Example format:
 ["Add more details about X concept", "Explain the relationship between Y and Z", "Include practical examples"]`;
 
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text().trim();
-      
-      console.log('🤖 Gemini raw response:', responseText);
-      
-      // Clean the response - remove markdown code blocks if present
-      let cleanedResponse = responseText;
-      if (cleanedResponse.startsWith('```json')) {
-        cleanedResponse = cleanedResponse.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (cleanedResponse.startsWith('```')) {
-        cleanedResponse = cleanedResponse.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      console.log('🧹 Cleaned response:', cleanedResponse);
-      
-      // Parse the JSON response
-      const suggestions = JSON.parse(cleanedResponse);
-      
-      // Validate that it's an array of strings
-      if (!Array.isArray(suggestions) || !suggestions.every(s => typeof s === 'string')) {
-        throw new Error('Invalid response format from Gemini');
-      }
+      const suggestions = await generateJson('technicalSuggestions', prompt, technicalSuggestionsSchema);
       
-      return suggestions.slice(0, 4); // Limit to 4 suggestions max
+      console.log('🤖 Generated AI suggestions:', suggestions);
+      return suggestions;
       
     } catch (error) {
+      // Invalid output after the repair round is surfaced to the client
+      if (error instanceof StructuredOutputError) {
+        throw error;
+      }
+
       console.error('❌ Error generating AI suggestions:', error);
       console.error('Error details:', {
         name: error instanceof Error ? error.name : 'Unknown',
@@ -418,28 +441,30 @@ Example format:
   }
 
   /**
-   * Generate AI-powered detailed feedback using Gemini
+   * Generate AI-powered detailed feedback using the configured LLM
    */
   private async generateAIFeedback(
     userAnswer: string,
     question: TechnicalQuestionWithEmbedding,
+    referenceAnswer: string,
     combinedScore: number,
     semanticSimilarity: number,
-    keywordMatches: string[]
+    keywordMatches: string[],
+    concepts: ConceptCheck
   ): Promise<string> {
     try {
-      const model = this.geminiClient.getGenerativeModel({ model: 'gemini-1.5-flash' });
-      
       const prompt = `
 You are an expert technical interviewer providing detailed feedback on a candidate's answer.
 
 QUESTION: ${question.question}
-REFERENCE ANSWER: ${question.reference_answer}
+REFERENCE ANSWER: ${referenceAnswer}
 USER'S ANSWER: ${userAnswer}
 SIMILARITY SCORE: ${(semanticSimilarity * 100).toFixed(1)}%
 OVERALL SCORE: ${(combinedScore * 100).toFixed(1)}%
 KEYWORDS FOUND: ${keywordMatches.join(', ') || 'None'}
 MISSING KEYWORDS: ${question.keywords.filter(k => !keywordMatches.includes(k)).join(', ') || 'None'}
+REQUIRED CONCEPTS MISSING: ${concepts.missingConcepts.join(', ') || 'None'}
+INCORRECT CLAIMS MADE: ${concepts.incorrectClaims.join(', ') || 'None'}
 
 Please provide detailed feedback on this answer. Your feedback should:
 1. Start with a clear assessment (e.g., "Fully correct", "Mostly correct", "Partially correct", "Incorrect", "Missing key elements")
@@ -448,22 +473,25 @@ Please provide detailed feedback on this answer. Your feedback should:
 4. Be constructive and encouraging
 5. Be 1-2 sentences maximum
 
-IMPORTANT: Return ONLY the feedback text. Do NOT wrap in quotes or add any other formatting.
+IMPORTANT: Return ONLY valid JSON with the shape { "feedback": "<your feedback>" }. Do NOT wrap in markdown code blocks or add any other text.
 
-Examples:
+Example feedback values:
 - "Fully correct! You demonstrate excellent understanding of the concept and covered all key points with clear explanations."
 - "Mostly correct! You understood the main concept but missed some important details about error handling."
 - "Partially correct. You touched on relevant concepts but missed key elements like performance considerations and best practices."
 - "Incorrect approach. Your answer focuses on a different concept and doesn't address the core question about data structures."
 - "Missing key elements. While you mentioned the basics, you didn't explain the implementation details or use cases."`;
 
-      const result = await model.generateContent(prompt);
-      const feedback = result.response.text().trim();
+      const { feedback } = await generateJson('technicalFeedback', prompt, technicalFeedbackSchema);
       
       console.log('🤖 Generated AI feedback:', feedback);
       return feedback;
       
     } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        throw error;
+      }
+
       console.error('❌ Error generating AI feedback:', error);
       
       // Fallback to score-based feedback if AI fails
@@ -488,26 +516,32 @@ Examples:
     keywordScore: { score: number, matches: string[] },
     config: EvaluationConfig,
     question: TechnicalQuestionWithEmbedding,
-    userAnswer: string
+    userAnswer: string,
+    referenceAnswer: string,
+    concepts: ConceptCheck
   ): Promise<{ feedback: string, isCorrect: boolean, suggestions: string[] }> {
     // Generate AI-powered detailed feedback
     const feedback = await this.generateAIFeedback(
       userAnswer,
       question,
+      referenceAnswer,
       combinedScore,
       semanticSimilarity,
-      keywordScore.matches
+      keywordScore.matches,
+      concepts
     );
 
-    // Determine correctness based on score thresholds
-    const isCorrect = combinedScore >= config.goodThreshold;
+    // Determine correctness based on score thresholds - a known misconception is never correct
+    const isCorrect = combinedScore >= config.goodThreshold && concepts.incorrectClaims.length === 0;
 
     // Generate AI-powered suggestions
     const suggestions = await this.generateAISuggestions(
       userAnswer,
       question,
+      referenceAnswer,
       combinedScore,
-      keywordScore.matches
+      keywordScore.matches,
+      concepts
     );
 
     return { feedback, isCorrect, suggestions };
@@ -532,10 +566,13 @@ Examples:
         results.push({
           questionId: item.questionId,
           similarity: 0,
+          matchedReference: 0,
           score: 1, // Minimum score on 1-10 scale
           feedback: 'Evaluation failed due to technical error',
           isCorrect: false,
           keywordMatches: [],
+          missingConcepts: [],
+          incorrectClaims: [],
           suggestions: ['Please try again later']
         });
       }
@@ -554,20 +591,14 @@ Examples:
   /**
    * Get all available technical questions (without embeddings for security)
    */
-  getAllQuestions(): Omit<TechnicalQuestionWithEmbedding, 'embedding'>[] {
-    return Array.from(this.questionsWithEmbeddings.values()).map(q => ({
-      id: q.id,
-      role: q.role,
-      question: q.question,
-      reference_answer: q.reference_answer,
-      keywords: q.keywords
-    }));
+  getAllQuestions(): TechnicalQuestion[] {
+    return Array.from(this.questionsWithEmbeddings.values()).map(({ embeddings, ...question }) => question);
   }
 
   /**
    * Get questions filtered by role
    */
-  getQuestionsByRole(role: string): Omit<TechnicalQuestionWithEmbedding, 'embedding'>[] {
+  getQuestionsByRole(role: string): TechnicalQuestion[] {
     return this.getAllQuestions().filter(q => 
       q.role.toLowerCase().includes(role.toLowerCase())
     );
@@ -579,6 +610,8 @@ Examples:
   getStatus(): {
     isInitialized: boolean,
     questionCount: number,
+    embeddingProvider: string,
+    embeddingModel: string,
     embeddingDimension?: number,
     config: EvaluationConfig
   } {
@@ -587,7 +620,9 @@ Examples:
     return {
       isInitialized: this.isInitialized,
       questionCount: this.questionsWithEmbeddings.size,
-      embeddingDimension: firstQuestion?.embedding?.length,
+      embeddingProvider: this.embeddingProvider.provider,
+      embeddingModel: this.embeddingProvider.model,
+      embeddingDimension: firstQuestion?.embeddings?.[0]?.length,
       config: this.defaultConfig
     };
   }
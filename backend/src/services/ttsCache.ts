@@ -0,0 +1,127 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024; // 200 MB
+
+/**
+ * Content-addressed store for synthesized speech.
+ * Audio is keyed by a hash of everything that affects the output (text or SSML, voice, rate, encoding),
+ * so identical requests are served from disk and any change produces a new entry.
+ * Once the cache grows past `maxBytes` the least recently used audio is deleted - reads
+ * refresh a file's modification time, so it doubles as its last-used time.
+ */
+export class TtsAudioCache {
+  private cacheDir: string;
+  private maxBytes: number;
+  private dirReady: Promise<void> | null = null;
+  private sizeBytes: number | null = null; // Counted from disk on the first write
+  private pruning: Promise<void> | null = null;
+
+  constructor(cacheDirectory?: string, maxBytes: number = DEFAULT_MAX_BYTES) {
+    this.cacheDir = cacheDirectory || path.join(process.cwd(), 'cache', 'tts');
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Hash a synthesis request - key order is fixed so equal requests always hash alike
+   */
+  static key(parts: { input: string; format: 'text' | 'ssml'; voice: string; languageCode: string; speakingRate: number; encoding: string }): string {
+    const canonical = JSON.stringify([parts.format, parts.input, parts.voice, parts.languageCode, parts.speakingRate, parts.encoding]);
+    return crypto.createHash('sha256').update(canonical).digest('hex');
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.cacheDir, `${key}.mp3`);
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.dirReady) {
+      this.dirReady = fs.mkdir(this.cacheDir, { recursive: true }).then(() => undefined);
+    }
+    return this.dirReady;
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const audio = await fs.readFile(this.filePath(key));
+      // Mark as recently used; a failure only makes the entry look older
+      const now = new Date();
+      await fs.utimes(this.filePath(key), now, now).catch(() => undefined);
+      return audio;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`⚠️ Failed to read cached speech ${key}:`, error);
+      }
+      return null;
+    }
+  }
+
+  async set(key: string, audio: Buffer): Promise<void> {
+    await this.ensureDirectory();
+
+    // Write to a temp file first so a crash never leaves truncated audio under a valid key
+    const target = this.filePath(key);
+    const tempFile = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, audio);
+    await fs.rename(tempFile, target);
+
+    if (this.sizeBytes === null) {
+      this.sizeBytes = (await this.listEntries()).reduce((total, entry) => total + entry.size, 0);
+    } else {
+      this.sizeBytes += audio.length;
+    }
+
+    if (this.sizeBytes > this.maxBytes) {
+      await this.prune();
+    }
+  }
+
+  private async listEntries(): Promise<{ file: string; size: number; lastUsed: number }[]> {
+    const files = (await fs.readdir(this.cacheDir)).filter(file => file.endsWith('.mp3'));
+    const entries = await Promise.all(files.map(async file => {
+      try {
+        const stats = await fs.stat(path.join(this.cacheDir, file));
+        return { file, size: stats.size, lastUsed: stats.mtimeMs };
+      } catch {
+        return null; // Removed by a concurrent prune
+      }
+    }));
+    return entries.filter(entry => entry !== null);
+  }
+
+  /**
+   * Delete least recently used audio until the cache is back under its size limit.
+   * Concurrent writes share one pass, which recounts the cache from disk.
+   */
+  private prune(): Promise<void> {
+    if (!this.pruning) {
+      this.pruning = (async () => {
+        const entries = (await this.listEntries()).sort((a, b) => a.lastUsed - b.lastUsed);
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+        let removedCount = 0;
+
+        for (const entry of entries) {
+          if (total <= this.maxBytes) break;
+          try {
+            await fs.unlink(path.join(this.cacheDir, entry.file));
+            total -= entry.size;
+            removedCount++;
+          } catch (error) {
+            console.error(`⚠️ Failed to evict cached speech ${entry.file}:`, error);
+          }
+        }
+
+        this.sizeBytes = total;
+        if (removedCount > 0) {
+          console.log(`🧹 Evicted ${removedCount} cached speech files to stay under ${Math.round(this.maxBytes / (1024 * 1024))} MB`);
+        }
+      })().finally(() => {
+        this.pruning = null;
+      });
+    }
+    return this.pruning;
+  }
+}
+
+export default TtsAudioCache;
@@ -0,0 +1,149 @@
+import axios from 'axios';
+import voiceCatalog from '../data/ttsVoices.json';
+import { TtsAudioCache } from './ttsCache';
+import { getDefaultStyleId, isInterviewerStyle } from './interviewerScriptService';
+import type { InterviewerPersona, SpeechScript, SynthesisResult, TtsVoice, TtsVoiceCatalog, VoiceGender } from '../types/tts.types';
+
+const GOOGLE_TTS_URL = 'https://texttospeech.googleapis.com/v1/text:synthesize';
+const AUDIO_ENCODING = 'MP3';
+const VOICE_GENDERS: VoiceGender[] = ['MALE', 'FEMALE', 'NEUTRAL'];
+
+/**
+ * Synthesizes interviewer speech with Google TTS, using the voice catalog to validate
+ * personas and a content-addressed disk cache so repeated lines are only paid for once.
+ */
+export class TtsService {
+  private catalog: TtsVoiceCatalog;
+  private voicesByName: Map<string, TtsVoice>;
+  private cache: TtsAudioCache;
+
+  constructor(catalog: TtsVoiceCatalog, cache: TtsAudioCache) {
+    this.catalog = catalog;
+    this.voicesByName = new Map(catalog.voices.map(voice => [voice.name, voice]));
+    this.cache = cache;
+
+    if (!this.voicesByName.has(catalog.defaultVoice)) {
+      throw new Error(`Default TTS voice ${catalog.defaultVoice} is not in the voice catalog`);
+    }
+  }
+
+  getCatalog(): TtsVoiceCatalog {
+    return this.catalog;
+  }
+
+  getDefaultPersona(): InterviewerPersona {
+    const voice = this.voicesByName.get(this.catalog.defaultVoice)!;
+    return { voice: voice.name, speakingRate: this.catalog.speakingRate.default, gender: voice.gender, style: getDefaultStyleId() };
+  }
+
+  /**
+   * Turn untrusted persona input into a persona the catalog supports.
+   * Unknown voices fall back to the first voice of the requested gender, then to the default;
+   * the gender always follows the chosen voice, the rate is clamped to the catalog range
+   * and unknown styles fall back to the default style.
+   */
+  resolvePersona(input?: unknown): InterviewerPersona {
+    const persona = this.getDefaultPersona();
+    if (!input || typeof input !== 'object') {
+      return persona;
+    }
+
+    const { voice, speakingRate, gender, style } = input as Record<string, unknown>;
+    const requestedGender = VOICE_GENDERS.includes(gender as VoiceGender) ? gender as VoiceGender : undefined;
+
+    const chosen = (typeof voice === 'string' && this.voicesByName.get(voice))
+      || (requestedGender && this.catalog.voices.find(v => v.gender === requestedGender))
+      || this.voicesByName.get(persona.voice)!;
+    persona.voice = chosen.name;
+    persona.gender = chosen.gender;
+
+    const rate = Number(speakingRate);
+    if (speakingRate !== undefined && Number.isFinite(rate)) {
+      const { min, max } = this.catalog.speakingRate;
+      persona.speakingRate = Math.round(Math.min(max, Math.max(min, rate)) * 100) / 100;
+    }
+
+    if (isInterviewerStyle(style)) {
+      persona.style = style;
+    }
+
+    return persona;
+  }
+
+  /**
+   * Synthesize plain text or a scripted line as base64 MP3, serving repeats from the audio cache.
+   * Scripts are sent as SSML when the voice supports it and as paced plain text otherwise.
+   */
+  async synthesize(speech: string | SpeechScript, personaInput?: unknown): Promise<SynthesisResult> {
+    const persona = this.resolvePersona(personaInput);
+    const voice = this.voicesByName.get(persona.voice)!;
+    const useSsml = typeof speech !== 'string' && voice.ssml;
+    const input = typeof speech === 'string' ? speech : useSsml ? speech.ssml : speech.spokenText;
+    const key = TtsAudioCache.key({
+      input,
+      format: useSsml ? 'ssml' : 'text',
+      voice: voice.name,
+      languageCode: voice.languageCode,
+      speakingRate: persona.speakingRate,
+      encoding: AUDIO_ENCODING
+    });
+
+    const cachedAudio = await this.cache.get(key);
+    if (cachedAudio) {
+      return { audioContent: cachedAudio.toString('base64'), cached: true };
+    }
+
+    const API_KEY = process.env.GOOGLE_TTS_API_KEY;
+    if (!API_KEY) {
+      throw new Error('Google TTS API key not found in environment variables');
+    }
+
+    const response = await axios.post(`${GOOGLE_TTS_URL}?key=${API_KEY}`, {
+      input: useSsml ? { ssml: input } : { text: input },
+      voice: {
+        languageCode: voice.languageCode,
+        name: voice.name,
+        ssmlGender: voice.gender
+      },
+      audioConfig: {
+        audioEncoding: AUDIO_ENCODING,
+        speakingRate: persona.speakingRate
+      }
+    });
+
+    const audioContent: string | undefined = response.data.audioContent;
+    if (!audioContent) {
+      console.error('No audioContent in response:', response.data);
+      throw new Error('No audio returned from TTS API');
+    }
+
+    // A failed cache write only costs a future API call - never fail the request over it
+    try {
+      await this.cache.set(key, Buffer.from(audioContent, 'base64'));
+    } catch (error) {
+      console.error('⚠️ Failed to cache synthesized speech:', error);
+    }
+
+    return { audioContent, cached: false };
+  }
+}
+
+// Create and export singleton instance
+let ttsServiceInstance: TtsService | null = null;
+
+/**
+ * Get the TTS service. TTS_CACHE_DIR overrides the audio cache location (default cache/tts),
+ * TTS_CACHE_MAX_MB its size limit (default 200)
+ */
+export function getTtsService(): TtsService {
+  if (!ttsServiceInstance) {
+    const maxMb = Number(process.env.TTS_CACHE_MAX_MB);
+    ttsServiceInstance = new TtsService(
+      voiceCatalog as TtsVoiceCatalog,
+      new TtsAudioCache(process.env.TTS_CACHE_DIR, maxMb > 0 ? maxMb * 1024 * 1024 : undefined)
+    );
+  }
+  return ttsServiceInstance;
+}
+
+export default TtsService;
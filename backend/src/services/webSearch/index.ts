@@ -0,0 +1,53 @@
+import dotenv from 'dotenv';
+import type { WebSearchProviderName } from '../../types/webSearch.types';
+import type { WebSearchProvider } from './webSearchProvider';
+import { TavilySearchProvider } from './tavilySearchProvider';
+import { LocalSearchProvider } from './localSearchProvider';
+import { CachedWebSearchProvider } from './webSearchCache';
+
+dotenv.config();
+
+export type { WebSearchProvider } from './webSearchProvider';
+export { TtlCache, normalizeSearchText, normalizeUrl } from './webSearchCache';
+
+const DEFAULT_CACHE_TTL_MINUTES = 60;
+
+export function resolveWebSearchProvider(): WebSearchProviderName {
+  const provider = (process.env.WEB_SEARCH_PROVIDER || 'tavily').toLowerCase();
+  if (provider === 'tavily' || provider === 'local') {
+    return provider;
+  }
+  throw new Error(`Unsupported WEB_SEARCH_PROVIDER: ${provider}`);
+}
+
+/**
+ * How long web search results, and job postings read from them, are reused - 0 when caching is off
+ */
+export function getWebSearchCacheTtlMs(): number {
+  const minutes = Number(process.env.WEB_SEARCH_CACHE_TTL_MINUTES ?? DEFAULT_CACHE_TTL_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60_000 : 0;
+}
+
+let providerInstance: WebSearchProvider | null = null;
+
+/**
+ * Get the configured web search provider.
+ * WEB_SEARCH_PROVIDER=tavily|local (default tavily)
+ * WEB_SEARCH_FIXTURES_DIR points the local provider at other fixtures
+ * WEB_SEARCH_CACHE_TTL_MINUTES sets how long results are reused (default 60, 0 disables the cache)
+ */
+export function getWebSearchProvider(): WebSearchProvider {
+  if (!providerInstance) {
+    const provider = resolveWebSearchProvider();
+
+    const inner: WebSearchProvider = provider === 'local'
+      ? new LocalSearchProvider(process.env.WEB_SEARCH_FIXTURES_DIR || undefined)
+      : new TavilySearchProvider(process.env.TAVILY_API_KEY);
+
+    const ttlMs = getWebSearchCacheTtlMs();
+    providerInstance = ttlMs > 0 ? new CachedWebSearchProvider(inner, ttlMs) : inner;
+
+    console.log(`🔎 Web search provider: ${provider}`);
+  }
+  return providerInstance;
+}
@@ -0,0 +1,54 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { JobSearchQuery, WebSearchFixture, WebSearchResult } from '../../types/webSearch.types';
+import type { WebSearchProvider } from './webSearchProvider';
+import { normalizeSearchText } from './webSearchCache';
+
+/**
+ * Offline provider serving recorded searches from fixture files, for development without a Tavily key.
+ * A search matches fixtures with the same company and title, ignoring case and punctuation.
+ */
+export class LocalSearchProvider implements WebSearchProvider {
+  readonly provider = 'local' as const;
+  private fixturesDir: string;
+  private fixtures: Promise<WebSearchFixture[]> | null = null;
+
+  constructor(fixturesDirectory?: string) {
+    this.fixturesDir = fixturesDirectory || path.join(process.cwd(), 'fixtures', 'webSearch');
+  }
+
+  private loadFixtures(): Promise<WebSearchFixture[]> {
+    if (!this.fixtures) {
+      this.fixtures = fs.readdir(this.fixturesDir)
+        .then(files => Promise.all(files
+          .filter(file => file.endsWith('.json'))
+          .map(async file => JSON.parse(await fs.readFile(path.join(this.fixturesDir, file), 'utf-8')) as WebSearchFixture)))
+        .catch(error => {
+          // Let the next request retry, e.g. after the fixtures are fixed
+          this.fixtures = null;
+          throw error;
+        });
+    }
+    return this.fixtures;
+  }
+
+  async searchJobPostings({ company, title, maxResults = 8 }: JobSearchQuery): Promise<WebSearchResult[]> {
+    const fixtures = await this.loadFixtures();
+    const companyKey = normalizeSearchText(company);
+    const titleKey = normalizeSearchText(title);
+
+    return fixtures
+      .filter(fixture => normalizeSearchText(fixture.company) === companyKey && normalizeSearchText(fixture.title) === titleKey)
+      .flatMap(fixture => fixture.results)
+      .slice(0, maxResults);
+  }
+
+  async extract(url: string): Promise<string> {
+    const fixtures = await this.loadFixtures();
+    const page = fixtures.find(fixture => fixture.pages[url] !== undefined)?.pages[url];
+    if (page === undefined) {
+      throw new Error(`No fixture page for ${url}`);
+    }
+    return page;
+  }
+}
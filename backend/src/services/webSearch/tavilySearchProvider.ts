@@ -0,0 +1,64 @@
+import type { JobSearchQuery, WebSearchResult } from '../../types/webSearch.types';
+import type { WebSearchProvider } from './webSearchProvider';
+
+const TAVILY_API = 'https://api.tavily.com';
+const REQUEST_TIMEOUT_MS = 12_000;
+
+/**
+ * Tavily search and extract APIs
+ */
+export class TavilySearchProvider implements WebSearchProvider {
+  readonly provider = 'tavily' as const;
+  private apiKey: string;
+
+  constructor(apiKey?: string) {
+    if (!apiKey) {
+      throw new Error('TAVILY_API_KEY missing');
+    }
+    this.apiKey = apiKey;
+  }
+
+  private async postJson<T>(endpoint: string, body: Record<string, unknown>): Promise<T> {
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${TAVILY_API}/${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'pitch-ai/1.0'
+        },
+        body: JSON.stringify({ api_key: this.apiKey, ...body }),
+        signal: ctrl.signal
+      });
+      if (!response.ok) {
+        throw new Error(`${TAVILY_API}/${endpoint} ${response.status}`);
+      }
+      return (await response.json()) as T;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async searchJobPostings({ company, title, maxResults = 8 }: JobSearchQuery): Promise<WebSearchResult[]> {
+    const companySlug = company.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const query =
+      `${company} "${title}" (Workday OR Greenhouse OR Lever OR ` +
+      `site:careers.${companySlug}.com OR site:jobs.${companySlug}.com)`;
+
+    const data = await this.postJson<{ results?: WebSearchResult[] }>('search', {
+      query,
+      search_depth: 'advanced',
+      max_results: maxResults,
+      include_answer: false,
+      include_raw_content: true
+    });
+    return data.results ?? [];
+  }
+
+  async extract(url: string): Promise<string> {
+    const data = await this.postJson<{ content?: string }>('extract', { url });
+    return String(data.content ?? '');
+  }
+}
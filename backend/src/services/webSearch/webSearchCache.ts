@@ -0,0 +1,99 @@
+import type { JobSearchQuery, WebSearchProviderName, WebSearchResult } from '../../types/webSearch.types';
+import type { WebSearchProvider } from './webSearchProvider';
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Lowercase, with punctuation and repeated whitespace collapsed - "Acme, Inc." and "acme inc" match
+ */
+export function normalizeSearchText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * URL without fragment or trailing slash, so links to the same page share an entry
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.toString().replace(/\/+$/, '').replace(/\/+\?/, '?');
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * In-memory store whose entries expire after a fixed time.
+ * The oldest entry is evicted once `maxEntries` is reached.
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private ttlMs: number, private maxEntries: number) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: T): void {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+}
+
+/**
+ * Serves repeated searches and extracts from memory.
+ * Searches are keyed by the normalized company and title, extracts by normalized URL;
+ * failures are not cached.
+ */
+export class CachedWebSearchProvider implements WebSearchProvider {
+  readonly provider: WebSearchProviderName;
+  private inner: WebSearchProvider;
+  private searches: TtlCache<WebSearchResult[]>;
+  private pages: TtlCache<string>;
+
+  constructor(inner: WebSearchProvider, ttlMs: number, maxEntries: number = 200) {
+    this.inner = inner;
+    this.provider = inner.provider;
+    this.searches = new TtlCache(ttlMs, maxEntries);
+    this.pages = new TtlCache(ttlMs, maxEntries);
+  }
+
+  async searchJobPostings(query: JobSearchQuery): Promise<WebSearchResult[]> {
+    const key = `${normalizeSearchText(query.company)}|${normalizeSearchText(query.title)}|${query.maxResults ?? ''}`;
+    const cached = this.searches.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const results = await this.inner.searchJobPostings(query);
+    this.searches.set(key, results);
+    return results;
+  }
+
+  async extract(url: string): Promise<string> {
+    const key = normalizeUrl(url);
+    const cached = this.pages.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const content = await this.inner.extract(url);
+    this.pages.set(key, content);
+    return content;
+  }
+}
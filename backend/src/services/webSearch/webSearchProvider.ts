@@ -0,0 +1,12 @@
+import type { JobSearchQuery, WebSearchProviderName, WebSearchResult } from '../../types/webSearch.types';
+
+/**
+ * Contract every web search backend implements
+ */
+export interface WebSearchProvider {
+  readonly provider: WebSearchProviderName;
+  /** Search for postings of a position at a company, best matches first */
+  searchJobPostings(query: JobSearchQuery): Promise<WebSearchResult[]>;
+  /** Full text of a page - throws if the page cannot be read */
+  extract(url: string): Promise<string>;
+}
@@ -0,0 +1,25 @@
+/**
+ * Types for job postings fetched from applicant tracking system (ATS) APIs
+ */
+
+export type AtsProvider =
+  | 'greenhouse'
+  | 'lever'
+  | 'workday'
+  | 'ashby'
+  | 'smartrecruiters'
+  | 'icims'
+  | 'taleo';
+
+/**
+ * A job posting normalized from an ATS response
+ */
+export interface AtsPosting {
+  provider: AtsProvider;
+  url: string; // Public posting URL the posting was fetched for
+  title: string;
+  location?: string;
+  remote?: boolean;
+  description: string; // Plain text, one paragraph or bullet per line
+  requirements: string[]; // Qualification bullets - empty when the posting has no recognizable list
+}
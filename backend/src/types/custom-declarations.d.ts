@@ -25,6 +25,6 @@ declare module '@google/generative-ai' {
   // Very small stub for GoogleGenerativeAI usage in repo
   export class GoogleGenerativeAI {
     constructor(apiKey?: string);
-    getGenerativeModel(opts: { model: string }): any;
+    getGenerativeModel(opts: { model: string; generationConfig?: { temperature?: number } }): any;
   }
 }
@@ -0,0 +1,27 @@
+/**
+ * Types for speech delivery analytics computed from an answer's transcript
+ */
+
+/**
+ * A silence between two words that is long enough to be noticeable
+ */
+export interface DeliveryPause {
+  startMs: number; // Offset from the start of the answer
+  durationMs: number;
+}
+
+export interface DeliveryMetrics {
+  wordCount: number;
+  durationMs: number; // Length of the whole answer recording
+  talkTimeMs: number; // First word to last word (the recording length when word timings are missing)
+  wordsPerMinute: number;
+  fillerCount: number;
+  fillers: Record<string, number>; // e.g. { "um": 3, "you know": 1 }
+  fillersPer100Words: number;
+  longPauses: DeliveryPause[];
+  longestPauseMs: number;
+  questionWordCount?: number;
+  questionLengthMs?: number; // Estimated time taken to ask the question
+  talkTimeToQuestionRatio?: number; // talkTimeMs / questionLengthMs
+  hasWordTimings: boolean; // False when the recognizer returned no word offsets
+}
@@ -0,0 +1,19 @@
+/**
+ * Types shared by the embedding provider layer
+ */
+
+export type EmbeddingProviderName = 'cohere' | 'local';
+
+/**
+ * How the text will be used - providers that support it embed queries and documents differently
+ */
+export type EmbeddingInputType = 'search_document' | 'search_query' | 'classification' | 'clustering';
+
+/**
+ * Identifies the vector space an embedding belongs to.
+ * Vectors are only comparable when both provider and model match.
+ */
+export interface EmbeddingSpace {
+  provider: EmbeddingProviderName;
+  model: string;
+}
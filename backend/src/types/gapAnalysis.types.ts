@@ -0,0 +1,39 @@
+import type { ResumeCitation } from './resumeProfile.types';
+
+/**
+ * Resume-to-job-description gap analysis: requirements extracted from the job
+ * description and how well the structured resume backs each of them up
+ */
+
+export type RequirementCategory = 'skill' | 'responsibility';
+
+export type RequirementPriority = 'required' | 'preferred';
+
+/**
+ * covered - a resume entry shows the requirement in practice
+ * weak - only listed as a skill, or only loosely related experience
+ * missing - nothing on the resume speaks to it
+ */
+export type RequirementCoverage = 'covered' | 'weak' | 'missing';
+
+export interface RequirementMatch {
+  id: string; // req_1, req_2, ... by position
+  requirement: string;
+  category: RequirementCategory;
+  priority: RequirementPriority;
+  coverage: RequirementCoverage;
+  citations: ResumeCitation[]; // Resume entries offered as evidence
+  note?: string; // Short explanation of the rating
+}
+
+/**
+ * How a report was produced - the heuristic fallback matches keywords only
+ */
+export type GapAnalysisSource = 'llm' | 'heuristic';
+
+export interface GapAnalysisReport {
+  requirements: RequirementMatch[];
+  summary: Record<RequirementCoverage, number>;
+  source: GapAnalysisSource;
+  createdAt: string;
+}
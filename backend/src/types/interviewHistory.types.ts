@@ -0,0 +1,86 @@
+/**
+ * Types for completed interviews saved to a user's history
+ */
+
+import type { DeliveryMetrics } from './delivery.types';
+import type { ResumeCitation } from './resumeProfile.types';
+
+export type InterviewQuestionType = 'behavioral' | 'technical';
+
+/**
+ * One answered question with its transcript and grader payload.
+ * `feedback` holds either the behavioral grader feedback or a
+ * TechnicalEvaluationResult, exactly as the interview page received it.
+ */
+export interface InterviewFeedbackItem {
+  questionIndex: number;
+  question: string;
+  answer: string;
+  feedback: Record<string, unknown> | null;
+  questionType: InterviewQuestionType;
+  citation?: ResumeCitation; // Resume entry the question was based on
+  recording?: AnswerRecording; // Video of the answer, kept in the media store
+  delivery?: DeliveryMetrics; // Pace, fillers and pauses computed from the transcript
+  timing?: AnswerTiming; // How the answer fit the interview template's time budget
+  followUp?: { question: string; answer: string; recording?: AnswerRecording; timing?: AnswerTiming }; // Probing follow-up asked after the answer
+}
+
+export type AnswerPacing = 'under' | 'within' | 'over';
+
+/**
+ * Think and answer time used against the question's budget.
+ * Answers cut off by the auto-stop are paced 'over'; answers using under a quarter
+ * of their time are paced 'under'.
+ */
+export interface AnswerTiming {
+  thinkTimeSeconds: number;
+  thinkTimeUsedSeconds: number;
+  answerTimeSeconds: number;
+  answerDurationSeconds: number;
+  overrunSeconds: number; // Seconds past the answer time limit
+  underrunSeconds: number; // Answer time left unused
+  pacing: AnswerPacing;
+  autoStopped: boolean; // Recording was ended by the time limit rather than the candidate
+  wrapUpWarned: boolean; // The interviewer asked the candidate to wrap up
+}
+
+/**
+ * Reference to an answer's recording in the media store (see /api/media)
+ */
+export interface AnswerRecording {
+  mediaId: string;
+  sessionId: string; // Session that uploaded the recording - playback is authorized by it
+  url: string;
+  mimeType: string;
+  durationMs?: number;
+}
+
+/**
+ * Body accepted by POST /api/interviews
+ */
+export interface InterviewResultsPayload {
+  duration: number;
+  questionsAnswered: number;
+  totalQuestions: number;
+  feedbackData: InterviewFeedbackItem[];
+  completedAt: string;
+  position?: string;
+  company?: string;
+}
+
+/**
+ * Row shape of the Supabase "Interviews" table
+ */
+export interface InterviewRecordRow {
+  id: string;
+  user_id: string;
+  completed_at: string;
+  duration_minutes: number;
+  questions_answered: number;
+  total_questions: number;
+  average_score: number | null;
+  position: string | null;
+  company: string | null;
+  feedback_data: InterviewFeedbackItem[];
+  created_at: string;
+}
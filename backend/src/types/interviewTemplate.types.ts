@@ -0,0 +1,22 @@
+/**
+ * Interview formats selectable on the setup page - how many questions of each kind
+ * are asked and the time budget for each one
+ */
+
+export type TemplateQuestionType = 'behavioral' | 'technical';
+
+export interface InterviewTemplate {
+  id: string;
+  name: string;
+  description: string;
+  behavioralCount: number;
+  technicalCount: number;
+  thinkTimeSeconds: Record<TemplateQuestionType, number>; // Pause between hearing a question and recording the answer
+  answerTimeSeconds: Record<TemplateQuestionType, number>; // Per-question answer time limit - recording stops here
+  wrapUpWarningSeconds: number; // The interviewer asks for a wrap-up when this much answer time is left
+}
+
+export interface InterviewTemplateCatalog {
+  defaultTemplate: string;
+  templates: InterviewTemplate[];
+}
@@ -0,0 +1,44 @@
+/**
+ * Structured fields extracted from a job posting for the job brief
+ */
+
+export type Seniority = 'intern' | 'entry' | 'mid' | 'senior' | 'staff' | 'principal' | 'manager' | 'director';
+
+export type WorkplaceType = 'remote' | 'hybrid' | 'onsite';
+
+export type CompensationPeriod = 'year' | 'month' | 'hour';
+
+export interface Compensation {
+  text: string; // As written on the posting, e.g. "$120,000 - $150,000 USD"
+  min?: number;
+  max?: number;
+  currency?: string; // ISO code, e.g. USD
+  period?: CompensationPeriod;
+}
+
+export interface JobPostingDetails {
+  title?: string;
+  responsibilities: string[];
+  requiredQualifications: string[];
+  preferredQualifications: string[];
+  techStack: string[];
+  seniority?: Seniority;
+  location?: string;
+  workplaceType?: WorkplaceType;
+  compensation?: Compensation; // Only when the posting states pay
+}
+
+/**
+ * How the details were produced - the heuristic fallback reads section headings and keywords
+ */
+export type JobPostingSource = 'llm' | 'heuristic';
+
+/**
+ * What is already known about the posting, e.g. from an ATS API, to fill gaps in the text
+ */
+export interface JobPostingHints {
+  title?: string;
+  location?: string;
+  remote?: boolean;
+  requirements?: string[];
+}
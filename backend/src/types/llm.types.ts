@@ -0,0 +1,112 @@
+import type { StarComponent } from './star.types';
+
+/**
+ * Types shared by the LLM client layer
+ */
+
+export type LlmProvider = 'gemini' | 'openai' | 'fake';
+
+/**
+ * Every backend feature that calls an LLM. Each one can be pointed at its
+ * own model through configuration (see services/llm/index.ts)
+ */
+export type LlmFeature =
+  | 'questionGeneration'
+  | 'behavioralGrading'
+  | 'technicalSelection'
+  | 'technicalFeedback'
+  | 'technicalSuggestions'
+  | 'followUp'
+  | 'resumeParsing'
+  | 'gapAnalysis'
+  | 'jobPostingExtraction';
+
+export interface LlmGenerateRequest {
+  feature: LlmFeature;
+  prompt: string;
+  model: string;
+  temperature?: number;
+}
+
+/**
+ * Typed responses produced by schema-validated LLM calls
+ */
+
+export interface GeneratedBehavioralQuestion {
+  id: string;
+  question: string;
+  category: 'behavioral';
+  difficulty: 'easy' | 'medium' | 'hard';
+  tags: string[];
+  resumeEntryId?: string; // Structured resume entry the question references
+}
+
+export interface QuestionGenerationOutput {
+  behavioral: GeneratedBehavioralQuestion[];
+}
+
+/**
+ * STAR assessment as returned by the model - quotes are verbatim excerpts
+ * of the answer, located in the transcript afterwards by starAnalysisService
+ */
+export interface StarComponentOutput {
+  quotes: string[];
+  score: number; // 0-10
+  comment: string;
+}
+
+/**
+ * Rubric level the model assigned to one competency
+ */
+export interface CompetencyLevelOutput {
+  id: string;
+  level: number;
+  evidence: string;
+}
+
+export interface BehavioralFeedbackOutput {
+  strengths: string;
+  weaknesses: string;
+  suggestions: string[];
+  score: number; // 1-10
+  star: Record<StarComponent, StarComponentOutput>;
+  competencies: CompetencyLevelOutput[];
+}
+
+export interface SelectableTechnicalQuestion {
+  id: number;
+  role: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  question: string;
+  keywords: string[];
+}
+
+export interface TechnicalSelectionOutput {
+  selected: SelectableTechnicalQuestion[];
+}
+
+export interface TechnicalFeedbackOutput {
+  feedback: string;
+}
+
+/**
+ * One job requirement rated against the structured resume
+ */
+export interface GapRequirementOutput {
+  requirement: string;
+  category: 'skill' | 'responsibility';
+  priority: 'required' | 'preferred';
+  coverage: 'covered' | 'weak' | 'missing';
+  resumeEntryIds: string[]; // Evidence entries from the structured resume
+  note?: string;
+}
+
+export interface GapAnalysisOutput {
+  requirements: GapRequirementOutput[];
+}
+
+export interface FollowUpDecisionOutput {
+  askFollowUp: boolean;
+  reason: string;
+  followUp: string; // Empty when askFollowUp is false
+}
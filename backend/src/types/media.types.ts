@@ -0,0 +1,34 @@
+/**
+ * Types for recorded interview media (per-answer video + audio)
+ */
+
+export type MediaKind = 'answer' | 'followUp';
+
+/**
+ * Metadata stored alongside each recording
+ */
+export interface MediaRecord {
+  id: string;
+  sessionId: string;
+  runId: string; // The interview the recording belongs to (one session can run many interviews)
+  questionIndex: number;
+  questionId?: string;
+  kind: MediaKind;
+  mimeType: string;
+  size: number; // Bytes
+  durationMs?: number;
+  createdAt: string;
+}
+
+/**
+ * Fields supplied by the client when uploading a recording
+ */
+export type MediaUploadInput = Omit<MediaRecord, 'id' | 'size' | 'createdAt'>;
+
+/**
+ * Inclusive byte range for partial reads (HTTP Range requests)
+ */
+export interface MediaByteRange {
+  start: number;
+  end: number;
+}
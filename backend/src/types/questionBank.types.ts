@@ -0,0 +1,48 @@
+/**
+ * Technical question bank (seeded from data/technicalQuestions.json)
+ */
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+/**
+ * A concept phrase, or a list of ways to say it (e.g. ["LIFO", "last in first out"]).
+ * The first entry names the concept in feedback.
+ */
+export type ConceptPhrase = string | string[];
+
+export interface TechnicalQuestion {
+  id: number;
+  role: string;
+  difficulty: QuestionDifficulty;
+  question: string;
+  reference_answer: string;
+  alternate_answers: string[]; // Other acceptable answers - an answer is scored against its closest reference
+  keywords: string[];
+  must_mention: ConceptPhrase[]; // Concepts a correct answer has to include
+  must_not_claim: ConceptPhrase[]; // Misconceptions that mark an answer as incorrect
+}
+
+export interface QuestionFilters {
+  role?: string;
+  difficulty?: QuestionDifficulty;
+}
+
+/**
+ * Question as submitted by API clients - id is assigned on create when omitted
+ */
+export type TechnicalQuestionInput = Partial<TechnicalQuestion>;
+
+export type QuestionExportFormat = 'json' | 'csv';
+
+/**
+ * merge: update questions with a matching id and add the rest
+ * replace: the imported questions become the whole bank
+ */
+export type QuestionImportMode = 'merge' | 'replace';
+
+export interface QuestionImportResult {
+  created: number;
+  updated: number;
+  removed: number;
+  total: number;
+}
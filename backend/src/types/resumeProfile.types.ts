@@ -0,0 +1,52 @@
+/**
+ * Structured resume data parsed from the uploaded resume text and reviewed by the user.
+ * Entry ids (exp_1, proj_1, edu_1) are assigned by position so generated questions can cite them.
+ */
+
+export interface ResumeExperience {
+  id: string;
+  employer: string;
+  role: string;
+  startDate?: string; // As written on the resume, e.g. "Jun 2023"
+  endDate?: string; // "Present" for a current role
+  location?: string;
+  bullets: string[];
+}
+
+export interface ResumeProject {
+  id: string;
+  name: string;
+  description?: string;
+  technologies: string[];
+  bullets: string[];
+}
+
+export interface ResumeEducation {
+  id: string;
+  institution: string;
+  degree?: string;
+  field?: string;
+  graduationDate?: string;
+}
+
+export interface ResumeProfile {
+  name?: string;
+  summary?: string;
+  experiences: ResumeExperience[];
+  projects: ResumeProject[];
+  skills: string[];
+  education: ResumeEducation[];
+}
+
+/**
+ * How a profile was produced - the heuristic fallback only recognizes skills and education
+ */
+export type ResumeProfileSource = 'llm' | 'heuristic';
+
+/**
+ * Resume entry a generated question is based on
+ */
+export interface ResumeCitation {
+  entryId: string;
+  label: string; // e.g. "Software Engineer Intern at Acme (Jun 2023 - Aug 2023)"
+}
@@ -0,0 +1,41 @@
+/**
+ * Behavioral grading rubric model (see data/behavioralRubrics.json)
+ */
+
+export interface RubricCompetency {
+  id: string;
+  name: string;
+  description: string;
+  weight: number;
+  tags: string[]; // Question tags that map to this competency
+  levels: Record<string, string>; // Level number -> descriptor
+}
+
+export interface BehavioralRubric {
+  version: string;
+  scale: {
+    min: number;
+    max: number;
+    labels: Record<string, string>;
+  };
+  defaultCompetencies: string[]; // Used when no question tag maps to a competency
+  competencies: RubricCompetency[];
+}
+
+/**
+ * Graded result for one competency
+ */
+export interface CompetencyScore {
+  id: string;
+  name: string;
+  weight: number;
+  level: number;
+  label: string; // Scale label for the level, e.g. "Proficient"
+  evidence: string;
+}
+
+export interface RubricGrade {
+  rubricVersion: string;
+  competencies: CompetencyScore[];
+  rubricScore: number; // Weighted average normalised to 0-10
+}
@@ -0,0 +1,104 @@
+import type { InterviewerPersona } from './tts.types';
+import type { ResumeCitation, ResumeProfile } from './resumeProfile.types';
+import type { GapAnalysisReport } from './gapAnalysis.types';
+
+/**
+ * Typed schema for interview setup sessions persisted by the SessionStore
+ */
+
+export type UploadType = 'resume' | 'jobDescription' | 'companyInfo' | 'otherInfo';
+
+export type UploadMethod = 'file' | 'text' | 'url';
+
+export type SessionStatus = 'setup' | 'ready' | 'in-progress' | 'completed';
+
+/**
+ * A single piece of uploaded content (resume, job description, ...)
+ */
+export interface SessionUpload {
+  method: UploadMethod;
+  content: string;
+  uploadedAt: string;
+  filename?: string;
+  url?: string;
+  postingUrl?: string; // Job posting a job description was taken from by the job brief
+  metadata?: {
+    originalSize: number;
+    extractedLength: number;
+    processingTime: number;
+    pagesProcessed: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Processed content entry as sent by the frontend setup page
+ */
+export interface SessionProcessedContent {
+  type: UploadType | 'position' | 'company';
+  content: string;
+  method: UploadMethod;
+  filename?: string;
+  url?: string;
+  postingUrl?: string;
+}
+
+/**
+ * Generated interview question stored with the session
+ */
+export interface SessionQuestion {
+  id: string;
+  question: string;
+  category: 'behavioral';
+  difficulty: 'easy' | 'medium' | 'hard';
+  tags: string[];
+  citation?: ResumeCitation; // Resume entry the question is based on
+}
+
+/**
+ * Probing follow-up asked after an answer during the live interview.
+ * runId scopes the follow-up budget to one interview, since a setup session can be reused.
+ * It is issued by the server (see interviewRunId), so clients cannot mint fresh budgets.
+ */
+export interface SessionFollowUp {
+  runId: string;
+  questionId: string;
+  question: string;
+  followUp: string;
+  reason: string;
+  askedAt: string;
+}
+
+/**
+ * Full interview session record
+ */
+export interface InterviewSessionData {
+  sessionId: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+  status?: SessionStatus;
+  uploads: Partial<Record<UploadType, SessionUpload>>;
+  processedContent?: SessionProcessedContent[];
+  questions?: {
+    behavioral: SessionQuestion[];
+    technical?: SessionQuestion[];
+  };
+  position?: string;
+  company?: string;
+  interviewer?: InterviewerPersona; // Voice and speaking rate used for interviewer speech
+  templateId?: string; // Interview format from interviewTemplates.json
+  resumeProfile?: ResumeProfile; // Structured resume, parsed from uploads.resume and reviewed by the user
+  gapAnalysis?: GapAnalysisReport; // Managed by the gap analysis endpoint, not client-editable
+  interviewRunId?: string; // Interview currently running - issued by POST /interview/run, not client-editable
+  followUps?: SessionFollowUp[]; // Managed by the follow-up endpoint, not client-editable
+  data?: unknown; // Raw setup form snapshot from the frontend
+}
+
+/**
+ * Fields a client is allowed to change through PUT /session/:sessionId
+ */
+export type SessionUpdate = Partial<Pick<
+  InterviewSessionData,
+  'status' | 'processedContent' | 'questions' | 'position' | 'company' | 'interviewer' | 'templateId' | 'resumeProfile' | 'data'
+>>;
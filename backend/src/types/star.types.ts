@@ -0,0 +1,29 @@
+/**
+ * STAR-method (Situation, Task, Action, Result) analysis of a behavioral answer
+ */
+
+export type StarComponent = 'situation' | 'task' | 'action' | 'result';
+
+/**
+ * A located excerpt of the transcript. Offsets are character positions
+ * into the submitted answer (`end` is exclusive).
+ */
+export interface StarSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface StarComponentAnalysis {
+  component: StarComponent;
+  present: boolean;
+  score: number; // 0-10, 0 when the component is missing
+  comment: string;
+  spans: StarSpan[];
+}
+
+export interface StarAnalysis {
+  components: StarComponentAnalysis[]; // Always in S, T, A, R order
+  missing: StarComponent[];
+  overallScore: number; // Average of the component scores
+}
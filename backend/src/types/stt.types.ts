@@ -0,0 +1,70 @@
+/**
+ * Types shared by the speech-to-text layer
+ */
+
+import type { DeliveryMetrics } from './delivery.types';
+
+export type SttProvider = 'google' | 'local' | 'fake';
+
+/**
+ * Options for transcribing a complete recording.
+ * Provider-specific fields (e.g. Google's enableAutomaticPunctuation) may be included;
+ * each recognizer forwards only the fields it understands.
+ */
+export interface SpeechRecognitionConfig {
+  languageCode?: string;
+  encoding?: string;
+  sampleRateHertz?: number;
+  [option: string]: unknown;
+}
+
+/**
+ * One recognized word with its offsets from the start of the audio
+ */
+export interface RecognizedWord {
+  word: string;
+  startMs: number;
+  endMs: number;
+  confidence?: number;
+}
+
+export interface SpeechRecognitionResult {
+  transcript: string;
+  confidence: number; // 0-1, or 0 when the engine does not report one
+  words: RecognizedWord[]; // Empty when the engine does not report word offsets
+  results?: unknown[]; // Raw provider results, for debugging
+}
+
+export interface StreamingRecognitionConfig {
+  languageCode: string;
+  encoding: 'WEBM_OPUS';
+  sampleRateHertz: number;
+}
+
+/**
+ * One recognition result for the utterance currently being spoken.
+ * Interim results are replaced by later ones; a final result closes the utterance.
+ */
+export interface StreamingRecognitionResult {
+  transcript: string;
+  isFinal: boolean;
+  confidence?: number;
+  words?: RecognizedWord[]; // Final results only, offsets from the start of the stream
+}
+
+/**
+ * Messages the client sends over the /api/stt/stream WebSocket.
+ * Audio itself is sent as binary frames between start and stop.
+ */
+export type SttClientMessage =
+  | { type: 'start'; config?: Partial<StreamingRecognitionConfig>; question?: string } // question enables talk-time vs question length
+  | { type: 'stop' };
+
+/**
+ * Messages the server sends back
+ */
+export type SttServerMessage =
+  | { type: 'ready'; provider: SttProvider }
+  | { type: 'transcript'; text: string; transcript: string; isFinal: boolean; confidence?: number }
+  | { type: 'end'; transcript: string; words: RecognizedWord[]; delivery: DeliveryMetrics }
+  | { type: 'error'; error: string };
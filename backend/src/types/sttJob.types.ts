@@ -0,0 +1,52 @@
+/**
+ * Types for queued (asynchronous) transcription jobs
+ */
+
+import type { DeliveryMetrics } from './delivery.types';
+import type { RecognizedWord, SpeechRecognitionConfig, SttProvider } from './stt.types';
+
+export type SttJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface SttJobResult {
+  transcript: string;
+  confidence: number;
+  words: RecognizedWord[];
+  delivery: DeliveryMetrics;
+}
+
+/**
+ * A transcription job as persisted by the queue. The audio is stored next to it until the job finishes.
+ */
+export interface SttJob {
+  id: string;
+  sessionId: string;
+  status: SttJobStatus;
+  provider: SttProvider;
+  config: SpeechRecognitionConfig;
+  durationMs?: number;
+  question?: string;
+  audioBytes: number;
+  attempts: number;
+  maxAttempts: number;
+  operationId?: string; // Provider operation being polled (resumable recognizers only)
+  operationStartedAt?: string;
+  nextAttemptAt: string;
+  result?: SttJobResult;
+  error?: string; // Last failure - kept while a retry is pending
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface SttJobInput {
+  sessionId: string;
+  audio: Buffer;
+  config: SpeechRecognitionConfig;
+  durationMs?: number;
+  question?: string;
+}
+
+/**
+ * What the API exposes - no session or provider internals
+ */
+export type PublicSttJob = Pick<SttJob, 'id' | 'status' | 'attempts' | 'maxAttempts' | 'result' | 'error' | 'createdAt' | 'updatedAt' | 'completedAt'>;
@@ -0,0 +1,91 @@
+/**
+ * Types for interviewer speech synthesis
+ */
+
+export type VoiceGender = 'MALE' | 'FEMALE' | 'NEUTRAL';
+
+/**
+ * A voice offered in the interviewer voice catalog
+ */
+export interface TtsVoice {
+  name: string; // Google voice name, e.g. en-US-Chirp3-HD-Sadaltager
+  languageCode: string;
+  gender: VoiceGender;
+  label: string;
+  description?: string;
+  ssml: boolean; // Whether the voice accepts SSML - Chirp 3 HD voices only take plain text
+}
+
+export interface TtsVoiceCatalog {
+  defaultVoice: string;
+  speakingRate: { min: number; max: number; default: number };
+  voices: TtsVoice[];
+}
+
+/**
+ * Interviewer persona chosen on the setup page and stored with the session
+ */
+export interface InterviewerPersona {
+  voice: string;
+  speakingRate: number; // 1.0 is normal speed
+  gender: VoiceGender;
+  style: string; // Interviewer style id from interviewerStyles.json
+}
+
+/**
+ * Which scripted line leads into a question
+ */
+export type TransitionKind = 'first' | 'next' | 'toTechnical' | 'toBehavioral' | 'last' | 'followUp';
+
+/**
+ * Which kinds of question the interview template asks, used to pick the introduction's agenda
+ */
+export type AgendaKind = 'mixed' | 'behavioralOnly' | 'technicalOnly';
+
+/**
+ * Scripted interviewer personality. Templates are SSML fragments with {placeholder} slots
+ * for position, company, interviewerName, questionNumber and totalQuestions. The introduction's
+ * {agenda} slot is filled with the agenda line for the interview template, which can use
+ * {behavioralQuestions} and {technicalQuestions} (e.g. "two behavioral questions").
+ */
+export interface InterviewerStyle {
+  id: string;
+  name: string;
+  description: string;
+  introduction: string;
+  agenda: Record<AgendaKind, string>;
+  transitions: Record<TransitionKind, string[]>;
+  wrapUp: string; // Spoken over the candidate when their answer time is nearly up
+  closing: string;
+}
+
+export interface InterviewerStyleCatalog {
+  defaultStyle: string;
+  styles: InterviewerStyle[];
+}
+
+/**
+ * Where a question sits in the interview, used to pick the transition before it
+ */
+export interface QuestionSpeechContext {
+  kind?: 'question' | 'followUp';
+  category?: 'behavioral' | 'technical';
+  previousCategory?: 'behavioral' | 'technical';
+  questionNumber?: number; // 1-based
+  totalQuestions?: number;
+}
+
+/**
+ * A line of interviewer speech as SSML, plus the same words as plain text for on-screen
+ * captions and as paced text for voices without SSML support
+ */
+export interface SpeechScript {
+  ssml: string;
+  text: string;
+  spokenText: string; // Breaks written as commas and ellipses - emphasis cannot be expressed in text
+}
+
+export interface SynthesisResult {
+  audioContent: string; // Base64 MP3
+  cached: boolean;
+}
@@ -0,0 +1,31 @@
+/**
+ * Types for the web search behind job briefs
+ */
+
+export type WebSearchProviderName = 'tavily' | 'local';
+
+/**
+ * Job posting search for a position at a company
+ */
+export interface JobSearchQuery {
+  company: string;
+  title: string;
+  maxResults?: number;
+}
+
+export interface WebSearchResult {
+  title?: string;
+  url?: string;
+  content?: string; // Snippet or raw page text, depending on the provider
+  score?: number;
+}
+
+/**
+ * Recorded search for the local provider, stored in fixtures/webSearch
+ */
+export interface WebSearchFixture {
+  company: string;
+  title: string;
+  results: WebSearchResult[];
+  pages: Record<string, string>; // Page text returned by extract, by URL
+}
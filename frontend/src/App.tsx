@@ -29,6 +29,7 @@ function App(): React.ReactElement {
       <Route path="/interview/setup" element={<InterviewSetupPage />} />
       <Route path="/interview/session" element={<InterviewPage />} />
       <Route path="/interview/feedback" element={<InterviewFeedbackPage />} />
+      <Route path="/interview/feedback/:interviewId" element={<InterviewFeedbackPage />} />
       <Route path="/job-brief-tester" element={<JobBriefTester />} />
     </Routes>
   )
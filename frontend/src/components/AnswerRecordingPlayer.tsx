@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { VideoOff } from 'lucide-react';
+import { AnswerRecording } from '../types/interview.types';
+import interviewService from '../services/interviewService';
+
+interface AnswerRecordingPlayerProps {
+  recording: AnswerRecording;
+}
+
+/**
+ * Inline player for the video recorded while the candidate answered
+ */
+const AnswerRecordingPlayer: React.FC<AnswerRecordingPlayerProps> = ({ recording }) => {
+  const [failed, setFailed] = useState(false);
+
+  if (failed) {
+    return (
+      <div className="flex items-center gap-2 text-slate-400 text-sm bg-slate-800/60 rounded-lg p-3">
+        <VideoOff className="w-4 h-4" />
+        Recording is no longer available
+      </div>
+    );
+  }
+
+  return (
+    <video
+      controls
+      preload="metadata"
+      className="w-full max-h-80 rounded-lg bg-black"
+    >
+      {/* A failed <source> reports the error on itself - it does not bubble to the <video> */}
+      <source
+        src={interviewService.getRecordingUrl(recording)}
+        type={recording.mimeType.split(';')[0]}
+        onError={() => setFailed(true)}
+      />
+    </video>
+  );
+};
+
+export default AnswerRecordingPlayer;
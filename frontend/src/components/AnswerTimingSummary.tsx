@@ -0,0 +1,45 @@
+import React from 'react';
+import { AnswerPacing, AnswerTiming } from '../types/interview.types';
+
+interface AnswerTimingSummaryProps {
+  timing: AnswerTiming;
+}
+
+const formatSeconds = (totalSeconds: number): string => {
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const PACING_LABELS: Record<AnswerPacing, { text: string; className: string }> = {
+  under: { text: 'Short - there was room to add detail', className: 'text-yellow-300' },
+  within: { text: 'Within the time limit', className: 'text-green-300' },
+  over: { text: 'Ran out of time', className: 'text-red-300' }
+};
+
+/**
+ * Think and answer time used against the question's budget
+ */
+const AnswerTimingSummary: React.FC<AnswerTimingSummaryProps> = ({ timing }) => {
+  const pacing = PACING_LABELS[timing.pacing];
+
+  return (
+    <div className="text-sm">
+      <div className="text-slate-200">
+        Answered in {formatSeconds(timing.answerDurationSeconds)} of {formatSeconds(timing.answerTimeSeconds)}
+        {timing.thinkTimeSeconds > 0 && (
+          <span className="text-slate-400">
+            {' '}· thought for {formatSeconds(timing.thinkTimeUsedSeconds)} of {formatSeconds(timing.thinkTimeSeconds)}
+          </span>
+        )}
+      </div>
+      <div className={`text-xs ${pacing.className}`}>
+        {pacing.text}
+        {timing.autoStopped && ' - recording stopped at the limit'}
+        {!timing.autoStopped && timing.wrapUpWarned && ' - finished after the wrap-up warning'}
+      </div>
+    </div>
+  );
+};
+
+export default AnswerTimingSummary;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { CompetencyScore } from '../types/interview.types';
+
+interface CompetencyScoresProps {
+  competencies: CompetencyScore[];
+  rubricScore?: number;
+  rubricVersion?: string;
+  maxLevel?: number;
+}
+
+/**
+ * Per-competency rubric levels with the evidence the grader cited
+ */
+const CompetencyScores: React.FC<CompetencyScoresProps> = ({
+  competencies,
+  rubricScore,
+  rubricVersion,
+  maxLevel = 4
+}) => {
+  return (
+    <div className="space-y-3">
+      {competencies.map(competency => (
+        <div key={competency.id}>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-slate-200 text-sm font-medium">{competency.name}</span>
+            <span className="text-xs text-slate-400">
+              {competency.label} ({competency.level}/{maxLevel})
+            </span>
+          </div>
+          <div className="flex gap-1 mb-1">
+            {Array.from({ length: maxLevel }, (_, index) => (
+              <div
+                key={index}
+                className={`h-1.5 flex-1 rounded-full ${index < competency.level ? 'bg-indigo-400' : 'bg-slate-600'}`}
+              />
+            ))}
+          </div>
+          {competency.evidence && (
+            <p className="text-slate-400 text-xs leading-relaxed">{competency.evidence}</p>
+          )}
+        </div>
+      ))}
+
+      {rubricScore !== undefined && (
+        <div className="flex items-center justify-between pt-2 border-t border-slate-600 text-sm">
+          <span className="text-slate-300">Rubric score</span>
+          <span className="text-white font-semibold">
+            {rubricScore}/10
+            {rubricVersion && <span className="text-slate-500 font-normal text-xs ml-2">rubric v{rubricVersion}</span>}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompetencyScores;
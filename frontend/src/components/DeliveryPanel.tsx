@@ -0,0 +1,97 @@
+import React from 'react';
+import { Gauge, MessageSquareWarning, PauseCircle, Timer } from 'lucide-react';
+import { DeliveryMetrics } from '../types/interview.types';
+
+interface DeliveryPanelProps {
+  delivery: DeliveryMetrics;
+}
+
+// Comfortable interview speaking pace, in words per minute
+const PACE_MIN_WPM = 110;
+const PACE_MAX_WPM = 170;
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const paceLabel = (wpm: number): { text: string; className: string } => {
+  if (wpm === 0) return { text: 'Not enough speech', className: 'text-slate-400' };
+  if (wpm < PACE_MIN_WPM) return { text: 'A little slow', className: 'text-yellow-300' };
+  if (wpm > PACE_MAX_WPM) return { text: 'Fast - slow down', className: 'text-yellow-300' };
+  return { text: 'Good pace', className: 'text-green-300' };
+};
+
+/**
+ * Speaking pace, filler words, long pauses and talk time for one answer
+ */
+const DeliveryPanel: React.FC<DeliveryPanelProps> = ({ delivery }) => {
+  const pace = paceLabel(delivery.wordsPerMinute);
+  const fillers = Object.entries(delivery.fillers).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+      <div className="bg-slate-800/60 rounded-lg p-3">
+        <div className="flex items-center gap-2 text-slate-400 mb-1">
+          <Gauge className="w-4 h-4" />
+          Pace
+        </div>
+        <div className="text-white font-semibold">{delivery.wordsPerMinute} words/min</div>
+        <div className={`text-xs ${pace.className}`}>{pace.text}</div>
+      </div>
+
+      <div className="bg-slate-800/60 rounded-lg p-3">
+        <div className="flex items-center gap-2 text-slate-400 mb-1">
+          <MessageSquareWarning className="w-4 h-4" />
+          Filler words
+        </div>
+        <div className="text-white font-semibold">
+          {delivery.fillerCount}
+          <span className="text-slate-400 font-normal text-xs ml-2">{delivery.fillersPer100Words} per 100 words</span>
+        </div>
+        {fillers.length > 0 && (
+          <div className="text-xs text-slate-400">
+            {fillers.map(([filler, count]) => `"${filler}" ×${count}`).join(', ')}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-800/60 rounded-lg p-3">
+        <div className="flex items-center gap-2 text-slate-400 mb-1">
+          <PauseCircle className="w-4 h-4" />
+          Long pauses
+        </div>
+        {delivery.hasWordTimings ? (
+          <>
+            <div className="text-white font-semibold">{delivery.longPauses.length}</div>
+            {delivery.longPauses.length > 0 && (
+              <div className="text-xs text-slate-400">Longest {(delivery.longestPauseMs / 1000).toFixed(1)}s</div>
+            )}
+          </>
+        ) : (
+          <div className="text-xs text-slate-400">Word timings unavailable</div>
+        )}
+      </div>
+
+      <div className="bg-slate-800/60 rounded-lg p-3">
+        <div className="flex items-center gap-2 text-slate-400 mb-1">
+          <Timer className="w-4 h-4" />
+          Talk time
+        </div>
+        <div className="text-white font-semibold">
+          {formatDuration(delivery.talkTimeMs)}
+          <span className="text-slate-400 font-normal text-xs ml-2">{delivery.wordCount} words</span>
+        </div>
+        {delivery.talkTimeToQuestionRatio !== undefined && (
+          <div className="text-xs text-slate-400">
+            {delivery.talkTimeToQuestionRatio}× the time taken to ask the question
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryPanel;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import { GapAnalysisReport, RequirementCoverage } from '../types/interview.types';
+
+interface GapAnalysisPanelProps {
+  report: GapAnalysisReport;
+}
+
+const COVERAGE_STYLES: Record<RequirementCoverage, { label: string; icon: React.ElementType; className: string }> = {
+  covered: { label: 'Covered', icon: CheckCircle, className: 'bg-green-500/20 text-green-300 border-green-500/30' },
+  weak: { label: 'Weakly covered', icon: AlertTriangle, className: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30' },
+  missing: { label: 'Missing', icon: XCircle, className: 'bg-red-500/20 text-red-300 border-red-500/30' }
+};
+
+// Gaps first - they are what the interview will probe
+const COVERAGE_ORDER: RequirementCoverage[] = ['missing', 'weak', 'covered'];
+
+/**
+ * Coverage matrix of job requirements against the resume, shown before the interview starts
+ */
+const GapAnalysisPanel: React.FC<GapAnalysisPanelProps> = ({ report }) => {
+  const requirements = [...report.requirements].sort(
+    (a, b) => COVERAGE_ORDER.indexOf(a.coverage) - COVERAGE_ORDER.indexOf(b.coverage)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        {(['covered', 'weak', 'missing'] as RequirementCoverage[]).map(coverage => {
+          const style = COVERAGE_STYLES[coverage];
+          return (
+            <div key={coverage} className={`p-3 rounded-lg border text-center ${style.className}`}>
+              <div className="text-2xl font-bold">{report.summary[coverage]}</div>
+              <div className="text-xs">{style.label}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      {report.source === 'heuristic' && (
+        <p className="text-xs text-slate-400">
+          Matched by keywords only - the AI analysis was unavailable, so treat these ratings as a rough guide.
+        </p>
+      )}
+
+      {requirements.length === 0 ? (
+        <p className="text-sm text-slate-400">No requirements could be found in the job description.</p>
+      ) : (
+        <ul className="space-y-3">
+          {requirements.map(requirement => {
+            const style = COVERAGE_STYLES[requirement.coverage];
+            const Icon = style.icon;
+            return (
+              <li key={requirement.id} className="p-3 bg-slate-700/30 border border-slate-600 rounded-lg">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-sm text-slate-200">{requirement.requirement}</p>
+                    <p className="text-xs text-slate-500 mt-1 capitalize">
+                      {requirement.priority} {requirement.category}
+                    </p>
+                  </div>
+                  <span className={`flex items-center gap-1 px-2 py-1 rounded-full border text-xs whitespace-nowrap ${style.className}`}>
+                    <Icon className="w-3 h-3" />
+                    {style.label}
+                  </span>
+                </div>
+                {requirement.citations.length > 0 && (
+                  <p className="text-xs text-slate-400 mt-2">
+                    Evidence: {requirement.citations.map(citation => citation.label).join('; ')}
+                  </p>
+                )}
+                {requirement.note && (
+                  <p className="text-xs text-slate-500 mt-1">{requirement.note}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GapAnalysisPanel;
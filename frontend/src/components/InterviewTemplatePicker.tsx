@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Hourglass, Loader } from 'lucide-react';
+import { InterviewTemplate } from '../types/interview.types';
+import interviewService from '../services/interviewService';
+
+interface InterviewTemplatePickerProps {
+  value: string | null;
+  onChange: (templateId: string) => void;
+}
+
+const formatMinutes = (seconds: number): string => {
+  const minutes = seconds / 60;
+  return `${Number.isInteger(minutes) ? minutes : minutes.toFixed(1)} min`;
+};
+
+/**
+ * Interview format selection - question mix and per-question think and answer time
+ */
+const InterviewTemplatePicker: React.FC<InterviewTemplatePickerProps> = ({ value, onChange }) => {
+  const [templates, setTemplates] = useState<InterviewTemplate[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    interviewService.getTemplates().then(result => {
+      if (cancelled) return;
+      if (!result.success || result.templates.length === 0) {
+        setLoadError('Interview formats are unavailable - the standard format will be used.');
+        return;
+      }
+      setTemplates(result.templates);
+      if (!value) {
+        onChange(result.defaultTemplate);
+      }
+    });
+
+    return () => { cancelled = true; };
+    // Load the templates once; the default only matters when nothing is chosen yet
+  }, []);
+
+  if (loadError) {
+    return <p className="text-sm text-slate-400">{loadError}</p>;
+  }
+
+  if (!templates) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-slate-400">
+        <Loader className="w-4 h-4 animate-spin" />
+        Loading interview formats...
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {templates.map(template => {
+        const times = template.technicalCount > 0 && template.behavioralCount > 0
+          ? `${formatMinutes(template.answerTimeSeconds.behavioral)} behavioral / ${formatMinutes(template.answerTimeSeconds.technical)} technical`
+          : formatMinutes(template.answerTimeSeconds[template.technicalCount > 0 ? 'technical' : 'behavioral']);
+        const thinkTime = Math.max(
+          template.behavioralCount > 0 ? template.thinkTimeSeconds.behavioral : 0,
+          template.technicalCount > 0 ? template.thinkTimeSeconds.technical : 0
+        );
+
+        return (
+          <button
+            key={template.id}
+            type="button"
+            onClick={() => onChange(template.id)}
+            className={`p-4 rounded-lg border-2 text-left transition-all ${
+              value === template.id
+                ? 'border-blue-500 bg-blue-500/10 text-blue-300'
+                : 'border-slate-600 bg-slate-700/30 text-slate-400 hover:border-slate-500'
+            }`}
+          >
+            <div className="font-medium">{template.name}</div>
+            <div className="text-xs mt-1">{template.description}</div>
+            <div className="flex items-center gap-1 text-xs mt-2 text-slate-400">
+              <Clock className="w-3 h-3" />
+              {times} per answer
+            </div>
+            {thinkTime > 0 && (
+              <div className="flex items-center gap-1 text-xs mt-1 text-slate-400">
+                <Hourglass className="w-3 h-3" />
+                Up to {thinkTime}s to think first
+              </div>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default InterviewTemplatePicker;
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { Loader, Volume2 } from 'lucide-react';
+import { InterviewerPersona, TtsVoice, VoiceGender } from '../types/interview.types';
+import { ttsService, TTSVoicesResponse } from '../services/ttsService';
+
+interface InterviewerPersonaPickerProps {
+  value: InterviewerPersona | null;
+  onChange: (persona: InterviewerPersona) => void;
+}
+
+const GENDER_LABELS: Record<VoiceGender, string> = {
+  MALE: 'Male',
+  FEMALE: 'Female',
+  NEUTRAL: 'Neutral'
+};
+
+/**
+ * Interviewer persona, voice, gender and speaking rate selection with an audio preview of the introduction
+ */
+const InterviewerPersonaPicker: React.FC<InterviewerPersonaPickerProps> = ({ value, onChange }) => {
+  const [catalog, setCatalog] = useState<TTSVoicesResponse | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    ttsService.getVoices()
+      .then(result => {
+        if (cancelled) return;
+        setCatalog(result);
+        if (!value) {
+          onChange(result.defaultPersona);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load interviewer voices:', error);
+        if (!cancelled) {
+          setLoadError('Interviewer voices are unavailable - the default voice will be used.');
+        }
+      });
+
+    return () => { cancelled = true; };
+    // Load the catalog once; the initial persona only matters when nothing is chosen yet
+  }, []);
+
+  if (loadError) {
+    return <p className="text-sm text-slate-400">{loadError}</p>;
+  }
+
+  if (!catalog || !value) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-slate-400">
+        <Loader className="w-4 h-4 animate-spin" />
+        Loading voices...
+      </div>
+    );
+  }
+
+  const genders = Array.from(new Set(catalog.voices.map(voice => voice.gender)));
+  const voicesForGender = catalog.voices.filter(voice => voice.gender === value.gender);
+
+  const selectGender = (gender: VoiceGender) => {
+    const firstVoice = catalog.voices.find(voice => voice.gender === gender);
+    if (firstVoice) {
+      onChange({ ...value, voice: firstVoice.name, gender });
+    }
+  };
+
+  const selectVoice = (voice: TtsVoice) => {
+    onChange({ ...value, voice: voice.name, gender: voice.gender });
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const { audioContent } = await ttsService.generateIntroduction('Software Engineer', 'your target company', 'Prepper', value);
+      await ttsService.playAudio(audioContent);
+    } catch (error) {
+      console.error('Voice preview failed:', error);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const selectedStyle = catalog.styles.find(style => style.id === value.style);
+  const selectedVoice = catalog.voices.find(voice => voice.name === value.voice);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="interviewer-style" className="block text-sm font-medium text-slate-300 mb-2">
+          Persona
+        </label>
+        <select
+          id="interviewer-style"
+          value={value.style}
+          onChange={(e) => onChange({ ...value, style: e.target.value })}
+          className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+        >
+          {catalog.styles.map(style => (
+            <option key={style.id} value={style.id}>{style.name}</option>
+          ))}
+        </select>
+        {selectedStyle && <p className="text-xs text-slate-400 mt-1">{selectedStyle.description}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="interviewer-gender" className="block text-sm font-medium text-slate-300 mb-2">
+            Gender
+          </label>
+          <select
+            id="interviewer-gender"
+            value={value.gender}
+            onChange={(e) => selectGender(e.target.value as VoiceGender)}
+            className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+          >
+            {genders.map(gender => (
+              <option key={gender} value={gender}>{GENDER_LABELS[gender]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="interviewer-voice" className="block text-sm font-medium text-slate-300 mb-2">
+            Voice
+          </label>
+          <select
+            id="interviewer-voice"
+            value={value.voice}
+            onChange={(e) => {
+              const voice = catalog.voices.find(v => v.name === e.target.value);
+              if (voice) selectVoice(voice);
+            }}
+            className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+          >
+            {voicesForGender.map(voice => (
+              <option key={voice.name} value={voice.name}>
+                {voice.label}{voice.description ? ` - ${voice.description}` : ''}
+              </option>
+            ))}
+          </select>
+          {selectedVoice && !selectedVoice.ssml && (
+            <p className="text-xs text-slate-400 mt-1">
+              This voice reads plain text, so the persona's pauses are approximated with punctuation and its emphasis is not spoken.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="interviewer-rate" className="flex items-center justify-between text-sm font-medium text-slate-300 mb-2">
+          <span>Speaking rate</span>
+          <span className="text-slate-400">{value.speakingRate.toFixed(2)}×</span>
+        </label>
+        <input
+          id="interviewer-rate"
+          type="range"
+          min={catalog.speakingRate.min}
+          max={catalog.speakingRate.max}
+          step={0.05}
+          value={value.speakingRate}
+          onChange={(e) => onChange({ ...value, speakingRate: Number(e.target.value) })}
+          className="w-full accent-blue-500"
+        />
+      </div>
+
+      <button
+        type="button"
+        onClick={handlePreview}
+        disabled={isPreviewing}
+        className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border text-blue-300 bg-blue-500/20 hover:bg-blue-500/30 border-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {isPreviewing ? <Loader className="w-4 h-4 animate-spin" /> : <Volume2 className="w-4 h-4" />}
+        {isPreviewing ? 'Playing...' : 'Preview voice'}
+      </button>
+    </div>
+  );
+};
+
+export default InterviewerPersonaPicker;
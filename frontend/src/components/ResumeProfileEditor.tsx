@@ -0,0 +1,245 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { ResumeEducation, ResumeExperience, ResumeProfile, ResumeProject } from '../types/interview.types';
+
+interface ResumeProfileEditorProps {
+  profile: ResumeProfile;
+  onChange: (profile: ResumeProfile) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Lists are edited as plain text - trimming and dropping blanks waits until the profile is saved
+const toLines = (values: string[]): string => values.join('\n');
+const fromLines = (text: string): string[] => text.split('\n');
+const toCommaList = (values: string[]): string => values.join(',');
+const fromCommaList = (text: string): string[] => text.split(',');
+
+const SectionHeader: React.FC<{ title: string; onAdd: () => void }> = ({ title, onAdd }) => (
+  <div className="flex items-center justify-between mb-2">
+    <h3 className="text-sm font-medium text-slate-200">{title}</h3>
+    <button
+      type="button"
+      onClick={onAdd}
+      className="flex items-center gap-1 text-xs text-blue-300 hover:text-blue-200"
+    >
+      <Plus className="w-3 h-3" />
+      Add
+    </button>
+  </div>
+);
+
+const RemoveButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="flex items-center gap-1 text-xs text-red-400 hover:text-red-300"
+  >
+    <X className="w-3 h-3" />
+    Remove
+  </button>
+);
+
+/**
+ * Review and correct the structured profile parsed from the resume.
+ * Generated questions cite these entries, so fixing them here fixes the citations.
+ */
+const ResumeProfileEditor: React.FC<ResumeProfileEditorProps> = ({ profile, onChange }) => {
+  const updateExperience = (index: number, changes: Partial<ResumeExperience>) => {
+    onChange({
+      ...profile,
+      experiences: profile.experiences.map((entry, i) => (i === index ? { ...entry, ...changes } : entry))
+    });
+  };
+
+  const updateProject = (index: number, changes: Partial<ResumeProject>) => {
+    onChange({
+      ...profile,
+      projects: profile.projects.map((entry, i) => (i === index ? { ...entry, ...changes } : entry))
+    });
+  };
+
+  const updateEducation = (index: number, changes: Partial<ResumeEducation>) => {
+    onChange({
+      ...profile,
+      education: profile.education.map((entry, i) => (i === index ? { ...entry, ...changes } : entry))
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Experience */}
+      <div>
+        <SectionHeader
+          title="Experience"
+          onAdd={() => onChange({
+            ...profile,
+            experiences: [...profile.experiences, { id: `exp_${profile.experiences.length + 1}`, employer: '', role: '', bullets: [] }]
+          })}
+        />
+        {profile.experiences.length === 0 && (
+          <p className="text-xs text-slate-500">No experience found - add any roles that were missed.</p>
+        )}
+        <div className="space-y-4">
+          {profile.experiences.map((experience, index) => (
+            <div key={index} className="p-3 bg-slate-700/30 border border-slate-600 rounded-lg space-y-2">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <input
+                  value={experience.role}
+                  onChange={(e) => updateExperience(index, { role: e.target.value })}
+                  placeholder="Role"
+                  className={inputClassName}
+                />
+                <input
+                  value={experience.employer}
+                  onChange={(e) => updateExperience(index, { employer: e.target.value })}
+                  placeholder="Employer"
+                  className={inputClassName}
+                />
+                <input
+                  value={experience.startDate || ''}
+                  onChange={(e) => updateExperience(index, { startDate: e.target.value })}
+                  placeholder="Start (e.g. Jun 2023)"
+                  className={inputClassName}
+                />
+                <input
+                  value={experience.endDate || ''}
+                  onChange={(e) => updateExperience(index, { endDate: e.target.value })}
+                  placeholder="End (e.g. Present)"
+                  className={inputClassName}
+                />
+              </div>
+              <input
+                value={experience.location || ''}
+                onChange={(e) => updateExperience(index, { location: e.target.value })}
+                placeholder="Location"
+                className={inputClassName}
+              />
+              <textarea
+                value={toLines(experience.bullets)}
+                onChange={(e) => updateExperience(index, { bullets: fromLines(e.target.value) })}
+                placeholder="Accomplishments, one per line"
+                rows={3}
+                className={inputClassName}
+              />
+              <div className="flex justify-end">
+                <RemoveButton onClick={() => onChange({ ...profile, experiences: profile.experiences.filter((_, i) => i !== index) })} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Projects */}
+      <div>
+        <SectionHeader
+          title="Projects"
+          onAdd={() => onChange({
+            ...profile,
+            projects: [...profile.projects, { id: `proj_${profile.projects.length + 1}`, name: '', technologies: [], bullets: [] }]
+          })}
+        />
+        {profile.projects.length === 0 && (
+          <p className="text-xs text-slate-500">No projects found.</p>
+        )}
+        <div className="space-y-4">
+          {profile.projects.map((project, index) => (
+            <div key={index} className="p-3 bg-slate-700/30 border border-slate-600 rounded-lg space-y-2">
+              <input
+                value={project.name}
+                onChange={(e) => updateProject(index, { name: e.target.value })}
+                placeholder="Project name"
+                className={inputClassName}
+              />
+              <input
+                value={project.description || ''}
+                onChange={(e) => updateProject(index, { description: e.target.value })}
+                placeholder="Short description"
+                className={inputClassName}
+              />
+              <input
+                value={toCommaList(project.technologies)}
+                onChange={(e) => updateProject(index, { technologies: fromCommaList(e.target.value) })}
+                placeholder="Technologies, comma separated"
+                className={inputClassName}
+              />
+              <textarea
+                value={toLines(project.bullets)}
+                onChange={(e) => updateProject(index, { bullets: fromLines(e.target.value) })}
+                placeholder="Highlights, one per line"
+                rows={3}
+                className={inputClassName}
+              />
+              <div className="flex justify-end">
+                <RemoveButton onClick={() => onChange({ ...profile, projects: profile.projects.filter((_, i) => i !== index) })} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Skills */}
+      <div>
+        <h3 className="text-sm font-medium text-slate-200 mb-2">Skills</h3>
+        <textarea
+          value={toCommaList(profile.skills)}
+          onChange={(e) => onChange({ ...profile, skills: fromCommaList(e.target.value) })}
+          placeholder="Skills, comma separated"
+          rows={2}
+          className={inputClassName}
+        />
+      </div>
+
+      {/* Education */}
+      <div>
+        <SectionHeader
+          title="Education"
+          onAdd={() => onChange({
+            ...profile,
+            education: [...profile.education, { id: `edu_${profile.education.length + 1}`, institution: '' }]
+          })}
+        />
+        {profile.education.length === 0 && (
+          <p className="text-xs text-slate-500">No education found.</p>
+        )}
+        <div className="space-y-4">
+          {profile.education.map((education, index) => (
+            <div key={index} className="p-3 bg-slate-700/30 border border-slate-600 rounded-lg space-y-2">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <input
+                  value={education.institution}
+                  onChange={(e) => updateEducation(index, { institution: e.target.value })}
+                  placeholder="Institution"
+                  className={inputClassName}
+                />
+                <input
+                  value={education.degree || ''}
+                  onChange={(e) => updateEducation(index, { degree: e.target.value })}
+                  placeholder="Degree"
+                  className={inputClassName}
+                />
+                <input
+                  value={education.field || ''}
+                  onChange={(e) => updateEducation(index, { field: e.target.value })}
+                  placeholder="Field of study"
+                  className={inputClassName}
+                />
+                <input
+                  value={education.graduationDate || ''}
+                  onChange={(e) => updateEducation(index, { graduationDate: e.target.value })}
+                  placeholder="Graduation (e.g. 2025)"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex justify-end">
+                <RemoveButton onClick={() => onChange({ ...profile, education: profile.education.filter((_, i) => i !== index) })} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeProfileEditor;
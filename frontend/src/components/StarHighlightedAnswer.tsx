@@ -0,0 +1,97 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { StarAnalysis, StarComponent } from '../types/interview.types';
+
+interface StarHighlightedAnswerProps {
+  answer: string;
+  star: StarAnalysis;
+}
+
+const STAR_STYLES: Record<StarComponent, { label: string; highlight: string; chip: string; text: string }> = {
+  situation: { label: 'Situation', highlight: 'bg-sky-500/25', chip: 'bg-sky-500/20 border-sky-500/30', text: 'text-sky-300' },
+  task: { label: 'Task', highlight: 'bg-violet-500/25', chip: 'bg-violet-500/20 border-violet-500/30', text: 'text-violet-300' },
+  action: { label: 'Action', highlight: 'bg-amber-500/25', chip: 'bg-amber-500/20 border-amber-500/30', text: 'text-amber-300' },
+  result: { label: 'Result', highlight: 'bg-emerald-500/25', chip: 'bg-emerald-500/20 border-emerald-500/30', text: 'text-emerald-300' }
+};
+
+/**
+ * Split the answer into plain and highlighted segments. Overlapping spans are
+ * clipped so every character belongs to at most one STAR component.
+ */
+function buildSegments(answer: string, star: StarAnalysis) {
+  const spans = star.components
+    .flatMap(c => c.spans.map(span => ({ ...span, component: c.component })))
+    .filter(span => span.start >= 0 && span.end <= answer.length && span.end > span.start)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: { text: string; component?: StarComponent }[] = [];
+  let cursor = 0;
+
+  for (const span of spans) {
+    const start = Math.max(span.start, cursor);
+    if (start >= span.end) continue;
+
+    if (start > cursor) {
+      segments.push({ text: answer.substring(cursor, start) });
+    }
+    segments.push({ text: answer.substring(start, span.end), component: span.component });
+    cursor = span.end;
+  }
+
+  if (cursor < answer.length) {
+    segments.push({ text: answer.substring(cursor) });
+  }
+
+  return segments;
+}
+
+/**
+ * Answer transcript highlighted by STAR component, with per-component scores
+ */
+const StarHighlightedAnswer: React.FC<StarHighlightedAnswerProps> = ({ answer, star }) => {
+  const segments = buildSegments(answer, star);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-slate-200 leading-relaxed">
+        {segments.map((segment, index) =>
+          segment.component ? (
+            <mark
+              key={index}
+              title={STAR_STYLES[segment.component].label}
+              className={`${STAR_STYLES[segment.component].highlight} text-slate-100 rounded px-0.5`}
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {star.components.map(c => {
+          const style = STAR_STYLES[c.component];
+          return (
+            <div key={c.component} className={`p-3 border rounded-lg ${style.chip}`}>
+              <div className="flex items-center justify-between mb-1">
+                <span className={`font-medium ${style.text}`}>{style.label}</span>
+                {c.present ? (
+                  <span className="text-sm font-semibold text-white">{c.score}/10</span>
+                ) : (
+                  <span className="flex items-center gap-1 text-xs font-medium text-red-300">
+                    <AlertCircle className="w-3 h-3" />
+                    Missing
+                  </span>
+                )}
+              </div>
+              {c.comment && <p className="text-slate-300 text-xs leading-relaxed">{c.comment}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StarHighlightedAnswer;
@@ -1,10 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { User, LogOut, MessageSquare, BarChart3, Briefcase, FileText, Bot, Sparkles, Upload, Star } from 'lucide-react';
+import { User, LogOut, MessageSquare, BarChart3, Briefcase, FileText, Bot, Sparkles, Upload, Star, History, Clock, ChevronRight } from 'lucide-react';
 import { authService } from '../services/authService';
+import interviewHistoryService from '../services/interviewHistoryService';
+import { InterviewSummary } from '../types/interview.types';
 
 function DashboardPage(): React.ReactElement {
   const [user, setUser] = useState<{ name: string; email: string; firstName?: string } | null>(null);
+  const [pastInterviews, setPastInterviews] = useState<InterviewSummary[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+  const [historyError, setHistoryError] = useState<string>('');
 
   useEffect(() => {
     // Check if user is authenticated
@@ -22,6 +27,15 @@ function DashboardPage(): React.ReactElement {
     } else {
       setUser(userData);
     }
+
+    // Load saved interviews for the Past Interviews section
+    interviewHistoryService.listInterviews()
+      .then(setPastInterviews)
+      .catch(error => {
+        console.error('Failed to load interview history:', error);
+        setHistoryError('Could not load your past interviews');
+      })
+      .finally(() => setIsLoadingHistory(false));
   }, []);
 
   const handleLogout = () => {
@@ -217,6 +231,62 @@ function DashboardPage(): React.ReactElement {
             </div>
           </div>
         </motion.div>
+
+        {/* Past Interviews Section */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, delay: 0.3 }}
+          className="mt-6 bg-slate-800 rounded-xl p-6 border border-slate-700"
+        >
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-8 h-8 bg-blue-500/20 rounded-lg flex items-center justify-center">
+              <History className="w-4 h-4 text-blue-400" />
+            </div>
+            <h3 className="font-semibold text-white">Past Interviews</h3>
+          </div>
+
+          {isLoadingHistory ? (
+            <p className="text-slate-400 text-sm">Loading your interviews...</p>
+          ) : historyError ? (
+            <p className="text-red-400 text-sm">{historyError}</p>
+          ) : pastInterviews.length === 0 ? (
+            <p className="text-slate-400 text-sm">
+              No interviews yet. Complete an interview simulation and it will show up here.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {pastInterviews.map(interview => (
+                <button
+                  key={interview.id}
+                  onClick={() => window.location.href = `/interview/feedback/${interview.id}`}
+                  className="w-full flex items-center justify-between gap-4 p-4 border border-slate-700 rounded-lg hover:border-slate-600 hover:bg-slate-700/30 transition-colors text-left"
+                >
+                  <div>
+                    <div className="font-medium text-white">
+                      {interview.position || 'Mock Interview'}
+                      {interview.company && <span className="text-slate-400"> at {interview.company}</span>}
+                    </div>
+                    <div className="flex items-center gap-3 text-sm text-slate-400 mt-1">
+                      <span>{new Date(interview.completedAt).toLocaleString()}</span>
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {interview.duration} min
+                      </span>
+                      <span>{interview.questionsAnswered}/{interview.totalQuestions} answered</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {interview.averageScore !== null && (
+                      <span className="text-lg font-bold text-blue-400">{interview.averageScore}/10</span>
+                    )}
+                    <ChevronRight className="w-5 h-5 text-slate-500" />
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </motion.div>
       </main>
     </div>
   );
@@ -1,12 +1,24 @@
-import React from 'react';
-import { useLocation, useNavigate } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Clock, CheckCircle, Target, Lightbulb, User, Brain, Star } from 'lucide-react';
+import { ArrowLeft, Clock, CheckCircle, Target, Lightbulb, User, Brain, Star, MessageCircle, AlertTriangle, Mic } from 'lucide-react';
+import interviewHistoryService from '../services/interviewHistoryService';
+import StarHighlightedAnswer from '../components/StarHighlightedAnswer';
+import CompetencyScores from '../components/CompetencyScores';
+import AnswerRecordingPlayer from '../components/AnswerRecordingPlayer';
+import DeliveryPanel from '../components/DeliveryPanel';
+import AnswerTimingSummary from '../components/AnswerTimingSummary';
+import { AnswerRecording, AnswerTiming, CompetencyScore, DeliveryMetrics, FollowUpExchange, ResumeCitation, StarAnalysis } from '../types/interview.types';
 
 interface BehavioralFeedback {
-  score?: number;
-  strengths?: string;
-  suggestions?: string[] | string; // Handle both array and string formats
+  score: number;
+  strengths: string;
+  weaknesses: string;
+  suggestions: string[];
+  star?: StarAnalysis; // Absent on interviews graded before STAR analysis
+  competencies?: CompetencyScore[]; // Absent on interviews graded before rubrics
+  rubricScore?: number;
+  rubricVersion?: string;
 }
 
 interface TechnicalFeedback {
@@ -16,6 +28,8 @@ interface TechnicalFeedback {
   feedback: string;
   isCorrect: boolean;
   keywordMatches: string[];
+  missingConcepts?: string[]; // Absent from interviews saved before concept checks existed
+  incorrectClaims?: string[];
   suggestions: string[];
 }
 
@@ -25,29 +39,79 @@ interface FeedbackData {
   answer: string;
   feedback: BehavioralFeedback | TechnicalFeedback | null;
   questionType: 'behavioral' | 'technical';
+  citation?: ResumeCitation;
+  recording?: AnswerRecording;
+  delivery?: DeliveryMetrics;
+  timing?: AnswerTiming;
+  followUp?: FollowUpExchange;
 }
 
 interface InterviewResults {
+  id?: string;
   duration: number;
   questionsAnswered: number;
   totalQuestions: number;
   feedbackData: FeedbackData[];
   completedAt: string;
+  position?: string;
+  company?: string;
 }
 
 /**
- * Interview Feedback Page - Shows detailed feedback for completed behavioral interview
+ * Interview Feedback Page - Shows detailed feedback for completed behavioral interview.
+ * Results come from navigation state right after an interview, or are loaded from
+ * the user's history when opened as /interview/feedback/:interviewId
  */
 function InterviewFeedbackPage(): React.ReactElement {
   const navigate = useNavigate();
   const location = useLocation();
+  const { interviewId } = useParams<{ interviewId: string }>();
   
-  // Get results from navigation state
-  const results = location.state as InterviewResults;
+  // Get results from navigation state, falling back to saved history
+  const [results, setResults] = useState<InterviewResults | null>(
+    (location.state as InterviewResults) || null
+  );
+  const [loadError, setLoadError] = useState<string>('');
+
+  useEffect(() => {
+    if (results || !interviewId) return;
+
+    interviewHistoryService.getInterview(interviewId)
+      .then(interview => setResults(interview as InterviewResults))
+      .catch(error => {
+        console.error('❌ Failed to load saved interview:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load interview');
+      });
+  }, [interviewId, results]);
 
   // Debug: Log the received data
   console.log('📊 Feedback page received data:', results);
 
+  if (!results && interviewId) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-950 to-slate-900 flex items-center justify-center">
+        <div className="text-center">
+          {loadError ? (
+            <>
+              <p className="text-red-400 mb-4">{loadError}</p>
+              <button
+                onClick={() => navigate('/dashboard')}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white transition-colors"
+              >
+                Back to Dashboard
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+              <p className="text-white">Loading interview feedback...</p>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   // Redirect to dashboard if no results data
   if (!results) {
     console.log('❌ No results data found, redirecting to dashboard');
@@ -184,6 +248,11 @@ function InterviewFeedbackPage(): React.ReactElement {
                   <p className="text-slate-300 mb-4 leading-relaxed">
                     {item.question}
                   </p>
+                  {item.citation && (
+                    <p className="-mt-2 mb-4 text-xs text-slate-400">
+                      Based on your resume: {item.citation.label}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -193,13 +262,71 @@ function InterviewFeedbackPage(): React.ReactElement {
                   <User className="w-4 h-4" />
                   Your Answer
                 </h4>
+                {item.recording && (
+                  <div className="mb-3">
+                    <AnswerRecordingPlayer recording={item.recording} />
+                  </div>
+                )}
                 <div className="bg-slate-700/50 rounded-lg p-4">
-                  <p className="text-slate-200 leading-relaxed">
-                    {item.answer || 'No transcription available'}
-                  </p>
+                  {item.answer && item.questionType === 'behavioral' && (item.feedback as BehavioralFeedback | null)?.star ? (
+                    <StarHighlightedAnswer
+                      answer={item.answer}
+                      star={(item.feedback as BehavioralFeedback).star!}
+                    />
+                  ) : (
+                    <p className="text-slate-200 leading-relaxed">
+                      {item.answer || 'No transcription available'}
+                    </p>
+                  )}
                 </div>
               </div>
 
+              {/* Delivery */}
+              {item.delivery && (
+                <div className="mb-6">
+                  <h4 className="text-white font-medium mb-2 flex items-center gap-2">
+                    <Mic className="w-4 h-4" />
+                    Delivery
+                  </h4>
+                  <DeliveryPanel delivery={item.delivery} />
+                </div>
+              )}
+
+              {/* Timing */}
+              {item.timing && (
+                <div className="mb-6">
+                  <h4 className="text-white font-medium mb-2 flex items-center gap-2">
+                    <Clock className="w-4 h-4" />
+                    Timing
+                  </h4>
+                  <div className="bg-slate-700/50 rounded-lg p-4">
+                    <AnswerTimingSummary timing={item.timing} />
+                  </div>
+                </div>
+              )}
+
+              {/* Follow-up */}
+              {item.followUp && (
+                <div className="mb-6">
+                  <h4 className="text-white font-medium mb-2 flex items-center gap-2">
+                    <MessageCircle className="w-4 h-4" />
+                    Follow-up
+                  </h4>
+                  <div className="bg-slate-700/50 rounded-lg p-4 space-y-2">
+                    <p className="text-slate-300 italic">{item.followUp.question}</p>
+                    {item.followUp.recording && (
+                      <AnswerRecordingPlayer recording={item.followUp.recording} />
+                    )}
+                    <p className="text-slate-200 leading-relaxed">
+                      {item.followUp.answer || 'No transcription available'}
+                    </p>
+                    {item.followUp.timing && (
+                      <AnswerTimingSummary timing={item.followUp.timing} />
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* AI Feedback */}
               {item.feedback ? (
                 <div className="space-y-4">
@@ -221,6 +348,21 @@ function InterviewFeedbackPage(): React.ReactElement {
                         </div>
                       )}
                       
+                      {/* Rubric Competencies */}
+                      {(item.feedback as BehavioralFeedback).competencies && (
+                        <div className="p-4 bg-indigo-500/10 border border-indigo-500/20 rounded-lg">
+                          <h5 className="text-indigo-300 font-medium mb-3 flex items-center gap-2">
+                            <Star className="w-4 h-4" />
+                            Competencies
+                          </h5>
+                          <CompetencyScores
+                            competencies={(item.feedback as BehavioralFeedback).competencies!}
+                            rubricScore={(item.feedback as BehavioralFeedback).rubricScore}
+                            rubricVersion={(item.feedback as BehavioralFeedback).rubricVersion}
+                          />
+                        </div>
+                      )}
+                      
                       {/* Strengths */}
                       {(item.feedback as BehavioralFeedback).strengths && (
                         <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
@@ -241,51 +383,14 @@ function InterviewFeedbackPage(): React.ReactElement {
                             <Lightbulb className="w-4 h-4" />
                             Suggestions for Improvement
                           </h5>
-                          <div className="text-slate-200 text-sm leading-relaxed">
-                            {(() => {
-                              const suggestions = (item.feedback as BehavioralFeedback).suggestions;
-                              
-                              // Handle array format (new format)
-                              if (Array.isArray(suggestions)) {
-                                return (
-                                  <ul className="space-y-1">
-                                    {suggestions.map((suggestion, idx) => (
-                                      <li key={idx} className="flex items-start">
-                                        <span className="text-blue-400 mr-2">•</span>
-                                        <span>{suggestion}</span>
-                                      </li>
-                                    ))}
-                                  </ul>
-                                );
-                              }
-                              
-                              // Handle string format (fallback for old data)
-                              if (typeof suggestions === 'string') {
-                                // Check if it contains multiple sentences and format as bullets
-                                if (suggestions.includes('.') && suggestions.split('.').length > 2) {
-                                  const suggestionList = suggestions
-                                    .split('.')
-                                    .map(s => s.trim())
-                                    .filter(s => s.length > 10);
-                                  
-                                  return (
-                                    <ul className="space-y-1">
-                                      {suggestionList.map((suggestion, idx) => (
-                                        <li key={idx} className="flex items-start">
-                                          <span className="text-blue-400 mr-2">•</span>
-                                          <span>{suggestion}{suggestion.endsWith('.') ? '' : '.'}</span>
-                                        </li>
-                                      ))}
-                                    </ul>
-                                  );
-                                } else {
-                                  return <p>{suggestions}</p>;
-                                }
-                              }
-                              
-                              return null;
-                            })()}
-                          </div>
+                          <ul className="text-slate-200 text-sm leading-relaxed space-y-1">
+                            {(item.feedback as BehavioralFeedback).suggestions.map((suggestion, idx) => (
+                              <li key={idx} className="flex items-start">
+                                <span className="text-blue-400 mr-2">•</span>
+                                <span>{suggestion}</span>
+                              </li>
+                            ))}
+                          </ul>
                         </div>
                       )}
                     </>
@@ -356,6 +461,35 @@ function InterviewFeedbackPage(): React.ReactElement {
                           </div>
                         )}
 
+                        {((item.feedback as TechnicalFeedback).missingConcepts?.length || (item.feedback as TechnicalFeedback).incorrectClaims?.length) ? (
+                          <div className="p-4 bg-amber-500/10 border border-amber-500/20 rounded-lg space-y-3">
+                            <h5 className="text-amber-300 font-medium flex items-center gap-2">
+                              <AlertTriangle className="w-4 h-4" />
+                              Key Concepts
+                            </h5>
+                            {(item.feedback as TechnicalFeedback).missingConcepts?.length ? (
+                              <div className="flex flex-wrap items-center gap-2">
+                                <span className="text-slate-300 text-sm">Missing:</span>
+                                {(item.feedback as TechnicalFeedback).missingConcepts!.map((concept, conceptIndex) => (
+                                  <span key={conceptIndex} className="bg-amber-600 text-white px-2 py-1 rounded-full text-xs">
+                                    {concept}
+                                  </span>
+                                ))}
+                              </div>
+                            ) : null}
+                            {(item.feedback as TechnicalFeedback).incorrectClaims?.length ? (
+                              <div className="flex flex-wrap items-center gap-2">
+                                <span className="text-slate-300 text-sm">Incorrect claims:</span>
+                                {(item.feedback as TechnicalFeedback).incorrectClaims!.map((claim, claimIndex) => (
+                                  <span key={claimIndex} className="bg-red-600 text-white px-2 py-1 rounded-full text-xs">
+                                    {claim}
+                                  </span>
+                                ))}
+                              </div>
+                            ) : null}
+                          </div>
+                        ) : null}
+
                         {(item.feedback as TechnicalFeedback).suggestions && (item.feedback as TechnicalFeedback).suggestions.length > 0 && (
                           <div className="p-4 bg-blue-500/10 border border-blue-500/20 rounded-lg">
                             <h5 className="text-blue-300 font-medium mb-2 flex items-center gap-2">
@@ -1,16 +1,129 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Camera, Mic, ArrowLeft, Square, CheckCircle } from 'lucide-react';
-import { GeneratedQuestions } from '../types/interview.types';
+import { Camera, Mic, ArrowLeft, Square, CheckCircle, Hourglass } from 'lucide-react';
+import {
+  AnswerTiming,
+  DeliveryMetrics,
+  GeneratedQuestions,
+  InterviewerPersona,
+  InterviewFeedbackItem,
+  InterviewQuestionSlot,
+  InterviewResults,
+  InterviewTemplate,
+  Question,
+  QuestionSpeechContext
+} from '../types/interview.types';
 import interviewService from '../services/interviewService';
+import interviewHistoryService from '../services/interviewHistoryService';
+import { authService } from '../services/authService';
 import { ttsService } from '../services/ttsService';
-import { sttService } from '../services/sttService';
+import { sttService, StreamTranscriptionResult } from '../services/sttService';
 import { videoService } from '../services/videoService';
 import { behavGraderService } from '../services/behavGraderService';
 import { technicalQuestionsService } from '../services/technicalQuestionsService';
 import technicalEvaluationService from '../services/technicalEvaluationService';
 
+// Used when the interview templates cannot be loaded - matches the backend's standard template
+const DEFAULT_TEMPLATE: InterviewTemplate = {
+  id: 'standard',
+  name: 'Standard mock interview',
+  description: '2 behavioral + 2 technical questions',
+  behavioralCount: 2,
+  technicalCount: 2,
+  thinkTimeSeconds: { behavioral: 20, technical: 30 },
+  answerTimeSeconds: { behavioral: 180, technical: 180 },
+  wrapUpWarningSeconds: 30
+};
+
+// Asked when the technical question service is unavailable - enough for the longest template (5 questions)
+const FALLBACK_TECHNICAL_QUESTIONS: Question[] = [
+  {
+    id: 'tech_fallback_1',
+    question: 'Implement a function that finds the two numbers in an array that add up to a specific target. Explain your approach and analyze the time complexity.',
+    category: 'behavioral', // Same type as the selected technical questions
+    difficulty: 'medium',
+    tags: ['algorithm', 'coding']
+  },
+  {
+    id: 'tech_fallback_2',
+    question: 'Design a simple URL shortener service like bit.ly. Explain your database schema, API design, and how you would handle scaling to millions of URLs.',
+    category: 'behavioral',
+    difficulty: 'hard',
+    tags: ['system-design', 'architecture']
+  },
+  {
+    id: 'tech_fallback_3',
+    question: 'Explain the difference between a process and a thread. When would you choose one over the other?',
+    category: 'behavioral',
+    difficulty: 'easy',
+    tags: ['operating-systems', 'concurrency']
+  },
+  {
+    id: 'tech_fallback_4',
+    question: 'How would you design a cache for a slow downstream service? Cover the eviction policy, invalidation, and what happens when the cache is cold.',
+    category: 'behavioral',
+    difficulty: 'medium',
+    tags: ['caching', 'system-design']
+  },
+  {
+    id: 'tech_fallback_5',
+    question: 'Walk through how you would debug an API endpoint whose latency has doubled since the last release.',
+    category: 'behavioral',
+    difficulty: 'medium',
+    tags: ['debugging', 'performance']
+  }
+];
+
+// Answers using less than this share of their time are reported as running short
+const UNDERRUN_RATIO = 0.25;
+
+/**
+ * Time budget for the answer being recorded, and how much of it has been used
+ */
+interface AnswerBudget {
+  thinkTimeSeconds: number;
+  thinkTimeUsedSeconds: number;
+  answerTimeSeconds: number;
+  wrapUpWarningSeconds: number;
+  startedAt: number;
+  wrapUpWarned: boolean;
+  autoStopped: boolean;
+}
+
+/**
+ * Compare the recorded answer against its budget for the feedback data
+ */
+const summarizeAnswerTiming = (budget: AnswerBudget): AnswerTiming => {
+  const answerDurationSeconds = Math.round((Date.now() - budget.startedAt) / 1000);
+  const overrunSeconds = Math.max(0, answerDurationSeconds - budget.answerTimeSeconds);
+  const underrunSeconds = Math.max(0, budget.answerTimeSeconds - answerDurationSeconds);
+
+  return {
+    thinkTimeSeconds: budget.thinkTimeSeconds,
+    thinkTimeUsedSeconds: budget.thinkTimeUsedSeconds,
+    answerTimeSeconds: budget.answerTimeSeconds,
+    answerDurationSeconds,
+    overrunSeconds,
+    underrunSeconds,
+    pacing: budget.autoStopped || overrunSeconds > 0 ? 'over'
+      : answerDurationSeconds < budget.answerTimeSeconds * UNDERRUN_RATIO ? 'under'
+      : 'within',
+    autoStopped: budget.autoStopped,
+    wrapUpWarned: budget.wrapUpWarned
+  };
+};
+
+/**
+ * Find the session's interview template, falling back to the default
+ */
+const loadTemplate = async (templateId?: string): Promise<InterviewTemplate> => {
+  const { templates, defaultTemplate } = await interviewService.getTemplates();
+  return templates.find(t => t.id === templateId)
+    || templates.find(t => t.id === defaultTemplate)
+    || DEFAULT_TEMPLATE;
+};
+
 /**
  * Interview Page - Manages a complete behavioral interview session
  * Flows through: Introduction -> Question 1 -> Answer 1 -> Question 2 -> Answer 2 -> Complete Behavorial
@@ -23,6 +136,9 @@ function InterviewPage(): React.ReactElement {
   const [isPlayingIntro, setIsPlayingIntro] = useState(false);
   const [introComplete, setIntroComplete] = useState(false);
   const [isPlayingQuestion, setIsPlayingQuestion] = useState(false);
+  const [isPlayingClosing, setIsPlayingClosing] = useState(false);
+  const [isThinking, setIsThinking] = useState(false);
+  const [thinkTimeLeft, setThinkTimeLeft] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -30,7 +146,8 @@ function InterviewPage(): React.ReactElement {
   const [interviewStarted, setInterviewStarted] = useState(false);
   
   // Questions and current state
-  const [questions, setQuestions] = useState<GeneratedQuestions>({ behavioral: [], technical: [] });
+  // Questions in the order they are asked - behavioral first, then technical
+  const [interviewQuestions, setInterviewQuestions] = useState<InterviewQuestionSlot[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
@@ -40,6 +157,17 @@ function InterviewPage(): React.ReactElement {
     position?: string;
     company?: string;
   }>({});
+
+  // Interviewer voice chosen during setup - a ref so queued TTS calls never see a stale value
+  const interviewerRef = useRef<InterviewerPersona | undefined>(undefined);
+
+  // Interview template from setup - a ref for the same reason, it sets the wrap-up warning point
+  const templateRef = useRef<InterviewTemplate>(DEFAULT_TEMPLATE);
+
+  // Question waiting for the think time to finish, and the budget of the answer being recorded
+  const thinkingRef = useRef<{ question: string; slot: InterviewQuestionSlot; startedAt: number } | null>(null);
+  const answerBudgetRef = useRef<AnswerBudget | null>(null);
+  const wrapUpAudioRef = useRef<Promise<string | null> | null>(null);
   
   // Recording and transcription
   const [transcription, setTranscription] = useState<string>('');
@@ -47,22 +175,16 @@ function InterviewPage(): React.ReactElement {
   const [answeredQuestions, setAnsweredQuestions] = useState<Set<string>>(new Set());
   
   // Store feedback data for all questions
-  const [feedbackData, setFeedbackData] = useState<Array<{
-    questionIndex: number;
-    question: string;
-    answer: string;
-    feedback: any;
-    questionType: 'behavioral' | 'technical';
-  }>>([]);
+  const [feedbackData, setFeedbackData] = useState<InterviewFeedbackItem[]>([]);
   
   // Ref to track feedback data synchronously
-  const feedbackDataRef = useRef<Array<{
-    questionIndex: number;
-    question: string;
-    answer: string;
-    feedback: any;
-    questionType: 'behavioral' | 'technical';
-  }>>([]);
+  const feedbackDataRef = useRef<InterviewFeedbackItem[]>([]);
+
+  // Follow-up currently being answered - a ref so the auto-stop timer sees it too
+  const activeFollowUpRef = useRef<{ question: string; questionIndex: number } | null>(null);
+  const [followUpQuestion, setFollowUpQuestion] = useState<string | null>(null);
+  // Replaced by the server-issued run once the questions load - the local ID only groups recordings
+  const interviewRunIdRef = useRef<string>(`run_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`);
   
   // Session management
   const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
@@ -70,8 +192,13 @@ function InterviewPage(): React.ReactElement {
   // Refs for recording
   const videoRef = useRef<HTMLVideoElement>(null);
   const videoRecorderRef = useRef<MediaRecorder | null>(null);
+  const recordingChunksRef = useRef<Blob[]>([]);
+  const recordingStartRef = useRef<number>(0);
+  const recordingStoppedRef = useRef<((result: { blob: Blob; durationMs: number }) => void) | null>(null);
+  const recordingUploadsRef = useRef<Promise<void>[]>([]);
   const timerRef = useRef<number | null>(null);
-  const chunkedRecordingRef = useRef<{ stopRecording: () => void } | null>(null);
+  const thinkTimerRef = useRef<number | null>(null);
+  const chunkedRecordingRef = useRef<{ stopRecording: () => void; finished: Promise<StreamTranscriptionResult> } | null>(null);
   const initializationRef = useRef<boolean>(false);
   const introPlayedRef = useRef<boolean>(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
@@ -110,20 +237,25 @@ function InterviewPage(): React.ReactElement {
           }
         }
 
-        // Create video-only recorder for visual recording
-        const videoStream = new MediaStream(mediaStream.getVideoTracks());
-        const videoRecorder = new MediaRecorder(videoStream, {
-          mimeType: 'video/webm;codecs=vp9'
+        // Record video and audio together so each answer can be replayed on the feedback page
+        const videoRecorder = new MediaRecorder(mediaStream, {
+          mimeType: videoService.getAnswerRecordingMimeType()
         });
 
         videoRecorder.ondataavailable = (event) => {
           if (event.data.size > 0) {
-            console.log('Video chunk recorded:', event.data.size, 'bytes');
+            recordingChunksRef.current.push(event.data);
           }
         };
 
         videoRecorder.onstop = () => {
-          console.log('Video recording stopped');
+          const blob = new Blob(recordingChunksRef.current, { type: videoRecorder.mimeType || 'video/webm' });
+          const durationMs = Date.now() - recordingStartRef.current;
+          recordingChunksRef.current = [];
+          console.log(`Video recording stopped: ${(blob.size / 1024 / 1024).toFixed(2)} MB, ${Math.round(durationMs / 1000)}s`);
+
+          recordingStoppedRef.current?.({ blob, durationMs });
+          recordingStoppedRef.current = null;
         };
 
         videoRecorderRef.current = videoRecorder;
@@ -149,12 +281,40 @@ function InterviewPage(): React.ReactElement {
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
+      if (thinkTimerRef.current) {
+        clearInterval(thinkTimerRef.current);
+      }
       if (chunkedRecordingRef.current) {
         chunkedRecordingRef.current.stopRecording();
       }
     };
   }, []);
 
+  // Think time ran out - start recording the answer
+  useEffect(() => {
+    if (isThinking && thinkTimeLeft <= 0) {
+      finishThinking();
+    }
+  }, [isThinking, thinkTimeLeft]);
+
+  // Pace the answer: ask the candidate to wrap up near the limit, then stop recording at it
+  useEffect(() => {
+    const budget = answerBudgetRef.current;
+    if (!isRecording || !budget) {
+      return;
+    }
+
+    const remaining = budget.answerTimeSeconds - recordingTime;
+    if (remaining <= 0 && !budget.autoStopped) {
+      console.log(`⏰ Answer time of ${budget.answerTimeSeconds}s reached, stopping recording`);
+      budget.autoStopped = true;
+      handleStopAnswer();
+    } else if (remaining > 0 && remaining <= budget.wrapUpWarningSeconds && !budget.wrapUpWarned) {
+      budget.wrapUpWarned = true;
+      playWrapUpWarning();
+    }
+  }, [isRecording, recordingTime]);
+
   /**
    * Load questions from the session
    */
@@ -169,86 +329,73 @@ function InterviewPage(): React.ReactElement {
       }
 
       const loadedQuestions = session.questions;
+      const template = await loadTemplate(session.templateId);
+      templateRef.current = template;
+      console.log(`📐 Interview template: ${template.name}`);
       
       // Get technical questions from service instead of hardcoding
-      let technicalQuestions = [];
-      try {
-        console.log('🔧 Fetching technical questions...');
-        const techResponse = await technicalQuestionsService.selectTechnicalQuestions(
-          session.processedContent || [],
-          interviewService.getSessionId()
-        );
+      let technicalQuestions: Question[] = [];
+      if (template.technicalCount > 0) {
+        try {
+          console.log('🔧 Fetching technical questions...');
+          const techResponse = await technicalQuestionsService.selectTechnicalQuestions(
+            session.processedContent || [],
+            interviewService.getSessionId(),
+            template.id
+          );
         
-        if (techResponse.success && techResponse.selected) {
-          // Convert service response to our question format
-          technicalQuestions = techResponse.selected.map(q => ({
-            id: `tech_${q.id}`,
-            question: q.question,
-            category: 'behavioral' as const, // Keep same type for simplicity
-            difficulty: 'medium' as const,
-            tags: q.keywords || []
-          }));
-          console.log('📋 Full Technical Questions Details:', technicalQuestions);
+          if (techResponse.success && techResponse.selected) {
+            // Convert service response to our question format
+            technicalQuestions = techResponse.selected.map(q => ({
+              id: `tech_${q.id}`,
+              question: q.question,
+              category: 'behavioral' as const, // Keep same type for simplicity
+              difficulty: q.difficulty || 'medium',
+              tags: q.keywords || []
+            }));
+            console.log('📋 Full Technical Questions Details:', technicalQuestions);
           
-          // Initialize technical evaluator for grading
-          console.log('🔧 Initializing technical evaluator...');
-          try {
-            const initResult = await technicalEvaluationService.initialize();
-            if (initResult.success) {
-              console.log('✅ Technical evaluator initialized successfully');
-            } else {
-              console.warn('⚠️ Technical evaluator initialization failed:', initResult.error);
+            // Initialize technical evaluator for grading
+            console.log('🔧 Initializing technical evaluator...');
+            try {
+              const initResult = await technicalEvaluationService.initialize();
+              if (initResult.success) {
+                console.log('✅ Technical evaluator initialized successfully');
+              } else {
+                console.warn('⚠️ Technical evaluator initialization failed:', initResult.error);
+              }
+            } catch (initError) {
+              console.warn('⚠️ Technical evaluator initialization error:', initError);
             }
-          } catch (initError) {
-            console.warn('⚠️ Technical evaluator initialization error:', initError);
+          } else {
+            console.warn('⚠️ Technical questions service failed, using fallback');
+            technicalQuestions = FALLBACK_TECHNICAL_QUESTIONS.slice(0, template.technicalCount);
           }
-        } else {
-          console.warn('⚠️ Technical questions service failed, using fallback');
-          // Fallback to hardcoded questions if service fails
-          technicalQuestions = [
-            {
-              id: 'tech_fallback_1',
-              question: 'Implement a function that finds the two numbers in an array that add up to a specific target. Explain your approach and analyze the time complexity.',
-              category: 'behavioral' as const,
-              difficulty: 'medium' as const,
-              tags: ['algorithm', 'coding']
-            },
-            {
-              id: 'tech_fallback_2',
-              question: 'Design a simple URL shortener service like bit.ly. Explain your database schema, API design, and how you would handle scaling to millions of URLs.',
-              category: 'behavioral' as const,
-              difficulty: 'hard' as const,
-              tags: ['system-design', 'architecture']
-            }
-          ];
+        } catch (error) {
+          console.error('❌ Error fetching technical questions:', error);
+          technicalQuestions = FALLBACK_TECHNICAL_QUESTIONS.slice(0, template.technicalCount);
         }
-      } catch (error) {
-        console.error('❌ Error fetching technical questions:', error);
-        // Fallback to hardcoded questions on error
-        technicalQuestions = [
-          {
-            id: 'tech_fallback_1',
-            question: 'Implement a function that finds the two numbers in an array that add up to a specific target. Explain your approach and analyze the time complexity.',
-            category: 'behavioral' as const,
-            difficulty: 'medium' as const,
-            tags: ['algorithm', 'coding']
-          },
-          {
-            id: 'tech_fallback_2',
-            question: 'Design a simple URL shortener service like bit.ly. Explain your database schema, API design, and how you would handle scaling to millions of URLs.',
-            category: 'behavioral' as const,
-            difficulty: 'hard' as const,
-            tags: ['system-design', 'architecture']
-          }
-        ];
       }
       
-      const questionsWithTechnical = {
+      const questionsWithTechnical: GeneratedQuestions = {
         behavioral: loadedQuestions.behavioral,
         technical: technicalQuestions
       };
       
-      setQuestions(questionsWithTechnical);
+      setInterviewQuestions([
+        ...questionsWithTechnical.behavioral.map(question => ({
+          question,
+          type: 'behavioral' as const,
+          thinkTimeSeconds: template.thinkTimeSeconds.behavioral,
+          answerTimeSeconds: template.answerTimeSeconds.behavioral
+        })),
+        ...questionsWithTechnical.technical.map(question => ({
+          question,
+          type: 'technical' as const,
+          thinkTimeSeconds: template.thinkTimeSeconds.technical,
+          answerTimeSeconds: template.answerTimeSeconds.technical
+        }))
+      ]);
       
       // Load session data (position and company) - store in a variable for immediate use
       const currentSessionData = {
@@ -256,6 +403,7 @@ function InterviewPage(): React.ReactElement {
         company: session.company || undefined
       };
       setSessionData(currentSessionData);
+      interviewerRef.current = session.interviewer;
       
       // Log questions for debugging
       console.group('🎯 Interview Questions Loaded');
@@ -273,11 +421,17 @@ function InterviewPage(): React.ReactElement {
       
       console.log('🔧 Technical Questions:');
       questionsWithTechnical.technical.forEach((q, index) => {
-        console.log(`  ${index + 3}. [${q.difficulty.toUpperCase()}] ${q.question.substring(0, 100)}...`);
+        console.log(`  ${questionsWithTechnical.behavioral.length + index + 1}. [${q.difficulty.toUpperCase()}] ${q.question.substring(0, 100)}...`);
         console.log(`     Tags: ${q.tags.join(', ')}`);
       });
       console.groupEnd();
       
+      // A fresh run resets the follow-up budget for this interview
+      const runId = await interviewService.startInterviewRun();
+      if (runId) {
+        interviewRunIdRef.current = runId;
+      }
+
       setSessionStartTime(new Date());
       
       // Return session data for immediate use
@@ -319,12 +473,17 @@ function InterviewPage(): React.ReactElement {
         const introResponse = await ttsService.generateIntroduction(
           dataToUse.position || 'the position you are applying for',
           dataToUse.company || 'your target company',
-          'Prepper' // ai name
+          'Prepper', // ai name
+          interviewerRef.current,
+          templateRef.current.id
         );
         
         console.log('🔊 Playing introduction audio...');
         await ttsService.playAudio(introResponse.audioContent);
         console.log('✅ Introduction completed');
+
+        // Fetch the wrap-up warning now so it plays on time during the first answer
+        loadWrapUpAudio();
         
         // Introduction complete - show button to start first question
         setIsPlayingIntro(false);
@@ -339,6 +498,17 @@ function InterviewPage(): React.ReactElement {
     }
   };
 
+  /**
+   * Tell the backend where a question falls so the interviewer can lead into it naturally
+   */
+  const questionSpeechContext = (questionIndex: number, kind: 'question' | 'followUp' = 'question'): QuestionSpeechContext => ({
+    kind,
+    category: interviewQuestions[questionIndex]?.type,
+    previousCategory: interviewQuestions[questionIndex - 1]?.type,
+    questionNumber: questionIndex + 1,
+    totalQuestions: interviewQuestions.length
+  });
+
   /**
    * Play the current question (behavioral or technical)
    */
@@ -346,13 +516,8 @@ function InterviewPage(): React.ReactElement {
     console.log('🎯 Playing question', currentQuestionIndex + 1);
     console.log('🔍 Debug - currentQuestionIndex:', currentQuestionIndex);
 
-    // Simple: 0-1 = behavioral, 2-3 = technical
-    let currentQuestion;
-    if (currentQuestionIndex < 2) {
-      currentQuestion = questions.behavioral[currentQuestionIndex];
-    } else {
-      currentQuestion = questions.technical[currentQuestionIndex - 2];
-    }
+    const currentSlot = interviewQuestions[currentQuestionIndex];
+    const currentQuestion = currentSlot?.question;
 
     if (!currentQuestion) { 
       console.log('❌ Current question is undefined at index:', currentQuestionIndex);
@@ -372,14 +537,18 @@ function InterviewPage(): React.ReactElement {
       setIsPlayingQuestion(true);
       
       console.log(`🎤 Playing question ${currentQuestionIndex + 1}: ${currentQuestion.question}`);
-      const questionResponse = await ttsService.askQuestion(currentQuestion.question);
+      const questionResponse = await ttsService.askQuestion(
+        currentQuestion.question,
+        interviewerRef.current,
+        questionSpeechContext(currentQuestionIndex)
+      );
       
       console.log('🔊 Playing question audio...');
       await ttsService.playAudio(questionResponse.audioContent);
-      console.log('✅ Question completed, auto-starting recording...');
+      console.log('✅ Question completed, starting think time...');
       
       setIsPlayingQuestion(false);
-      startRecording();
+      beginThinkTime(currentQuestion.question, currentSlot);
       
     } catch (error) {
       console.error('❌ Error playing question:', error);
@@ -396,13 +565,8 @@ function InterviewPage(): React.ReactElement {
     console.log('🎯 Playing question at index', questionIndex + 1);
     console.log('🔍 Debug - questionIndex:', questionIndex);
 
-    // Simple: 0-1 = behavioral, 2-3 = technical
-    let targetQuestion;
-    if (questionIndex < 2) {
-      targetQuestion = questions.behavioral[questionIndex];
-    } else {
-      targetQuestion = questions.technical[questionIndex - 2];
-    }
+    const targetSlot = interviewQuestions[questionIndex];
+    const targetQuestion = targetSlot?.question;
 
     if (!targetQuestion) {
       console.log('❌ Target question is undefined at index:', questionIndex);
@@ -421,14 +585,18 @@ function InterviewPage(): React.ReactElement {
       setIsPlayingQuestion(true);
       
       console.log(`🎤 Playing question ${questionIndex + 1}: ${targetQuestion.question}`);
-      const questionResponse = await ttsService.askQuestion(targetQuestion.question);
+      const questionResponse = await ttsService.askQuestion(
+        targetQuestion.question,
+        interviewerRef.current,
+        questionSpeechContext(questionIndex)
+      );
       
       console.log('🔊 Playing question audio...');
       await ttsService.playAudio(questionResponse.audioContent);
-      console.log('✅ Question completed, auto-starting recording...');
+      console.log('✅ Question completed, starting think time...');
       
       setIsPlayingQuestion(false);
-      startRecording();
+      beginThinkTime(targetQuestion.question, targetSlot);
       
     } catch (error) {
       console.error('❌ Error playing question:', error);
@@ -439,9 +607,82 @@ function InterviewPage(): React.ReactElement {
   };
 
   /**
-   * Start recording answer
+   * Give the candidate the slot's think time before recording starts - they can skip ahead
+   */
+  const beginThinkTime = (question: string, slot: InterviewQuestionSlot) => {
+    thinkingRef.current = { question, slot, startedAt: Date.now() };
+    if (slot.thinkTimeSeconds <= 0) {
+      finishThinking();
+      return;
+    }
+
+    console.log(`🤔 Think time: ${slot.thinkTimeSeconds}s`);
+    setThinkTimeLeft(slot.thinkTimeSeconds);
+    setIsThinking(true);
+    thinkTimerRef.current = window.setInterval(() => {
+      setThinkTimeLeft(prev => Math.max(0, prev - 1));
+    }, 1000);
+  };
+
+  /**
+   * End the think time (countdown finished or the candidate is ready) and start recording
+   */
+  const finishThinking = () => {
+    const thinking = thinkingRef.current;
+    thinkingRef.current = null;
+    if (thinkTimerRef.current) {
+      clearInterval(thinkTimerRef.current);
+      thinkTimerRef.current = null;
+    }
+    setIsThinking(false);
+    if (!thinking) {
+      return;
+    }
+
+    answerBudgetRef.current = {
+      thinkTimeSeconds: thinking.slot.thinkTimeSeconds,
+      thinkTimeUsedSeconds: Math.min(thinking.slot.thinkTimeSeconds, Math.round((Date.now() - thinking.startedAt) / 1000)),
+      answerTimeSeconds: thinking.slot.answerTimeSeconds,
+      wrapUpWarningSeconds: templateRef.current.wrapUpWarningSeconds,
+      startedAt: Date.now(),
+      wrapUpWarned: false,
+      autoStopped: false
+    };
+    startRecording(thinking.question);
+  };
+
+  /**
+   * Wrap-up warning audio - the line is the same for every answer, so it is fetched once
+   */
+  const loadWrapUpAudio = (): Promise<string | null> => {
+    if (!wrapUpAudioRef.current) {
+      wrapUpAudioRef.current = ttsService.generateWrapUp(interviewerRef.current)
+        .then(response => response.audioContent)
+        .catch(error => {
+          console.error('❌ Error generating wrap-up warning:', error);
+          wrapUpAudioRef.current = null;
+          return null;
+        });
+    }
+    return wrapUpAudioRef.current;
+  };
+
+  /**
+   * Have the interviewer ask the candidate to wrap up - the recording keeps running underneath
    */
-  const startRecording = async () => {
+  const playWrapUpWarning = async () => {
+    const audioContent = await loadWrapUpAudio();
+    if (!audioContent || !answerBudgetRef.current) {
+      return;
+    }
+    console.log('⏳ Playing wrap-up warning');
+    ttsService.playAudio(audioContent).catch(error => console.error('❌ Error playing wrap-up warning:', error));
+  };
+
+  /**
+   * Start recording the answer to `question` (used for the delivery talk-time comparison)
+   */
+  const startRecording = async (question: string) => {
     try {
       console.log('🎥 Starting recording...');
       setIsRecording(true);
@@ -452,45 +693,34 @@ function InterviewPage(): React.ReactElement {
       
       // Start video recording
       if (videoRecorderRef.current && videoRecorderRef.current.state === 'inactive') {
+        recordingChunksRef.current = [];
+        recordingStartRef.current = Date.now();
         videoRecorderRef.current.start();
         console.log('📹 Video recording started');
       }
 
-      // Start timer
+      // Start timer - the pacing effect stops the recording at the answer time limit
       timerRef.current = window.setInterval(() => {
-        setRecordingTime(prev => {
-          const newTime = prev + 1;
-          // Auto-stop recording after 3 minutes
-          if (newTime >= 180) {
-            handleStopAnswer();
-          }
-          return newTime;
-        });
+        setRecordingTime(prev => prev + 1);
       }, 1000);
 
-      // Start live audio transcription
-      try {
-        const liveResult = await sttService.recordAndTranscribeLive(
-          (message, type) => {
-            if (type === 'error' || type === 'info') {
-              console.log(`🎙️ Transcription status: ${message} (${type})`);
-            }
-            // Note: isTranscribing state removed for cleaner code
-          },
-          (transcript, isFinal) => {
-            if (isFinal) {
-              console.log(`📝 Final transcript:`, transcript);
-            }
-            setTranscription(transcript);
-            setShowTranscription(true);
-          },
-          {
-            languageCode: 'en-US',
-          }
-        );
+      // Start live audio transcription - streamed to the backend's recognizer
+      const onStatus = (message: string, type: string) => {
+        if (type === 'error' || type === 'info') {
+          console.log(`🎙️ Transcription status: ${message} (${type})`);
+        }
+      };
+      const onTranscript = (transcript: string, isFinal: boolean) => {
+        if (isFinal) {
+          console.log(`📝 Final transcript:`, transcript);
+        }
+        setTranscription(transcript);
+        setShowTranscription(true);
+      };
 
-        chunkedRecordingRef.current = liveResult;
-        console.log('🎙️ Live transcription setup complete');
+      try {
+        chunkedRecordingRef.current = await sttService.streamTranscription(onStatus, onTranscript, { languageCode: 'en-US', question });
+        console.log('🎙️ Streaming transcription setup complete');
       } catch (error) {
         console.error('❌ Error setting up live transcription:', error);
         setIsRecording(false);
@@ -509,31 +739,54 @@ function InterviewPage(): React.ReactElement {
     setIsRecording(false);
     setIsProcessing(true);
     
-    // Stop video recording
-    if (videoRecorderRef.current && videoRecorderRef.current.state === 'recording') {
-      videoRecorderRef.current.stop();
-      console.log('⏹️ Video recording stopped');
-    }
-    
-    // Stop live transcription
-    if (chunkedRecordingRef.current) {
-      chunkedRecordingRef.current.stopRecording();
-      console.log('⏹️ Live transcription stopped');
-    }
+    // Stop video recording - the recording is uploaded once the answer has been stored
+    const recordingDone = stopVideoRecording();
     
-    // Stop timer
+    // Stop timer and measure the answer against its time budget
     if (timerRef.current) {
       clearInterval(timerRef.current);
       timerRef.current = null;
     }
+    const timing = answerBudgetRef.current ? summarizeAnswerTiming(answerBudgetRef.current) : undefined;
+    answerBudgetRef.current = null;
 
-    // Get current question - simple logic
-    let currentQuestion;
-    if (currentQuestionIndex < 2) {
-      currentQuestion = questions.behavioral[currentQuestionIndex];
-    } else {
-      currentQuestion = questions.technical[currentQuestionIndex - 2];
+    // Stop live transcription, waiting for the streamed final transcript and delivery metrics
+    let answerText = transcription;
+    let delivery: DeliveryMetrics | undefined;
+    const liveTranscription = chunkedRecordingRef.current;
+    chunkedRecordingRef.current = null;
+    if (liveTranscription) {
+      liveTranscription.stopRecording();
+      const result = await liveTranscription.finished;
+      answerText = result.transcript;
+      delivery = result.delivery || undefined;
+      setTranscription(answerText);
+      console.log('⏹️ Live transcription stopped');
+    }
+
+    // Answer to a follow-up: attach it to the question it probed, then move on
+    const activeFollowUp = activeFollowUpRef.current;
+    if (activeFollowUp) {
+      activeFollowUpRef.current = null;
+      setFollowUpQuestion(null);
+
+      const attachFollowUp = (items: InterviewFeedbackItem[]) => items.map(item =>
+        item.questionIndex === activeFollowUp.questionIndex
+          ? { ...item, followUp: { question: activeFollowUp.question, answer: answerText || '', timing } }
+          : item
+      );
+      feedbackDataRef.current = attachFollowUp(feedbackDataRef.current);
+      setFeedbackData(attachFollowUp);
+      console.log('📝 Follow-up answer recorded for question', activeFollowUp.questionIndex + 1);
+      saveRecording(recordingDone, activeFollowUp.questionIndex, 'followUp');
+
+      advanceInterview();
+      return;
     }
+
+    // Get current question and its type from the interview order
+    const currentSlot = interviewQuestions[currentQuestionIndex];
+    const currentQuestion = currentSlot?.question;
     if (currentQuestion) {
       // Mark question as answered
       setAnsweredQuestions(prev => new Set([...prev, currentQuestion.id]));
@@ -541,21 +794,21 @@ function InterviewPage(): React.ReactElement {
 
     // Store feedback data - do this synchronously to ensure it's captured
     let feedbackResult = null;
-    let questionType: 'behavioral' | 'technical' = currentQuestionIndex < 2 ? 'behavioral' : 'technical';
+    const questionType: 'behavioral' | 'technical' = currentSlot?.type || 'behavioral';
     
     // Grade the answer based on question type
-    if (transcription && transcription.trim() && currentQuestion) {
+    if (answerText && answerText.trim() && currentQuestion) {
       try {
         if (questionType === 'behavioral') {
           console.log('📊 Sending transcript to behavioral grader...');
-          const gradeResp = await behavGraderService.gradeBehavioral(currentQuestion.question, transcription);
+          const gradeResp = await behavGraderService.gradeBehavioral(currentQuestion.question, answerText, currentQuestion.tags);
           console.log('✅ Behavioral grader response received:', gradeResp);
           feedbackResult = gradeResp.feedback || null;
           
           // Log feedback to console but don't show in UI
           console.group(`🎯 Question ${currentQuestionIndex + 1} Behavioral Feedback`);
           console.log('Question:', currentQuestion.question);
-          console.log('Answer:', transcription);
+          console.log('Answer:', answerText);
           console.log('Score:', gradeResp.feedback?.score || 'N/A');
           console.log('Strengths:', gradeResp.feedback?.strengths || 'N/A');
           console.log('Suggestions:', gradeResp.feedback?.suggestions || 'N/A');
@@ -567,7 +820,7 @@ function InterviewPage(): React.ReactElement {
           // Extract the numeric ID from the technical question ID (e.g., "tech_123" -> 123)
           const numericId = parseInt(currentQuestion.id.replace('tech_', ''));
           
-          const evalResp = await technicalEvaluationService.evaluateAnswer(numericId, transcription);
+          const evalResp = await technicalEvaluationService.evaluateAnswer(numericId, answerText);
           console.log('✅ Technical evaluator response received:', evalResp);
           
           if (evalResp.success && evalResp.evaluation) {
@@ -576,7 +829,7 @@ function InterviewPage(): React.ReactElement {
             // Log technical feedback to console
             console.group(`🎯 Question ${currentQuestionIndex + 1} Technical Feedback`);
             console.log('Question:', currentQuestion.question);
-            console.log('Answer:', transcription);
+            console.log('Answer:', answerText);
             console.log('Score:', evalResp.evaluation.score || 'N/A');
             console.log('Similarity:', evalResp.evaluation.similarity || 'N/A');
             console.log('Keywords Found:', evalResp.evaluation.keywordMatches || []);
@@ -601,9 +854,12 @@ function InterviewPage(): React.ReactElement {
     const questionData = {
       questionIndex: currentQuestionIndex,
       question: currentQuestion?.question || '',
-      answer: transcription || '',
+      answer: answerText || '',
       feedback: feedbackResult,
-      questionType
+      questionType,
+      citation: currentQuestion?.citation,
+      delivery,
+      timing
     };
 
     // Update both state and ref for immediate access
@@ -619,9 +875,135 @@ function InterviewPage(): React.ReactElement {
     console.log('📊 Current state feedback items:', feedbackData.length);
     console.log('📊 Current ref feedback items:', feedbackDataRef.current.length);
 
+    saveRecording(recordingDone, currentQuestionIndex, 'answer', currentQuestion?.id);
+
+    // Probe the answer with a follow-up before moving on, if the budget allows
+    if (currentQuestion && answerText && answerText.trim()) {
+      const askedFollowUp = await askFollowUp(currentQuestion, questionType, answerText);
+      if (askedFollowUp) {
+        return;
+      }
+    }
+
+    advanceInterview();
+  };
+
+  /**
+   * Stop the video recorder and resolve with the recording (null if it was not recording)
+   */
+  const stopVideoRecording = (): Promise<{ blob: Blob; durationMs: number } | null> => {
+    const recorder = videoRecorderRef.current;
+    if (!recorder || recorder.state !== 'recording') {
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      recordingStoppedRef.current = resolve;
+      recorder.stop();
+      console.log('⏹️ Video recording stopped');
+    });
+  };
+
+  /**
+   * Upload an answer's recording in the background and attach it to its feedback item.
+   * Uploads are awaited before the interview is saved so the history includes them.
+   */
+  const saveRecording = (
+    recordingDone: Promise<{ blob: Blob; durationMs: number } | null>,
+    questionIndex: number,
+    kind: 'answer' | 'followUp',
+    questionId?: string
+  ) => {
+    const upload = recordingDone.then(async (result) => {
+      if (!result || result.blob.size === 0) {
+        return;
+      }
+
+      const recording = await interviewService.uploadRecording(result.blob, {
+        runId: interviewRunIdRef.current,
+        questionIndex,
+        questionId,
+        kind,
+        durationMs: result.durationMs
+      });
+      if (!recording) {
+        return;
+      }
+
+      const attachRecording = (items: InterviewFeedbackItem[]) => items.map(item => {
+        if (item.questionIndex !== questionIndex) {
+          return item;
+        }
+        if (kind === 'answer') {
+          return { ...item, recording };
+        }
+        return item.followUp ? { ...item, followUp: { ...item.followUp, recording } } : item;
+      });
+      feedbackDataRef.current = attachRecording(feedbackDataRef.current);
+      setFeedbackData(attachRecording);
+      console.log(`🎞️ ${kind === 'answer' ? 'Answer' : 'Follow-up'} recording saved for question ${questionIndex + 1}`);
+    });
+
+    recordingUploadsRef.current.push(upload);
+  };
+
+  /**
+   * Ask the backend for a follow-up to the answer just given and play it via TTS.
+   * Returns true if a follow-up was asked and its think time has started.
+   */
+  const askFollowUp = async (
+    question: Question,
+    questionType: 'behavioral' | 'technical',
+    answer: string
+  ): Promise<boolean> => {
+    const decision = await interviewService.requestFollowUp({
+      runId: interviewRunIdRef.current,
+      questionId: question.id,
+      question: question.question,
+      answer,
+      questionType
+    });
+
+    if (!decision.askFollowUp || !decision.followUp) {
+      console.log('➡️ No follow-up:', decision.reason || decision.error || 'not needed');
+      return false;
+    }
+
+    console.log(`🔎 Asking follow-up (${decision.remainingBudget} left): ${decision.followUp}`);
+    activeFollowUpRef.current = { question: decision.followUp, questionIndex: currentQuestionIndex };
+    setFollowUpQuestion(decision.followUp);
+
+    try {
+      setIsProcessing(false);
+      setIsPlayingQuestion(true);
+
+      const followUpResponse = await ttsService.askQuestion(
+        decision.followUp,
+        interviewerRef.current,
+        questionSpeechContext(currentQuestionIndex, 'followUp')
+      );
+      await ttsService.playAudio(followUpResponse.audioContent);
+      console.log('✅ Follow-up completed, starting think time...');
+
+      // Follow-ups get the same time budget as the question they probe
+      setIsPlayingQuestion(false);
+      beginThinkTime(decision.followUp, interviewQuestions[currentQuestionIndex]);
+      return true;
+    } catch (error) {
+      console.error('❌ Error playing follow-up, moving on:', error);
+      activeFollowUpRef.current = null;
+      setFollowUpQuestion(null);
+      setIsPlayingQuestion(false);
+      return false;
+    }
+  };
+
+  /**
+   * Move to the next question or complete the interview
+   */
+  const advanceInterview = () => {
     // Move to next question or complete interview automatically
-    // Now we have 4 total questions: 0,1,2,3
-    if (currentQuestionIndex < 3) {
+    if (currentQuestionIndex < interviewQuestions.length - 1) {
       console.log(`➡️ Auto-moving to question ${currentQuestionIndex + 2}`);
       setIsProcessing(false);
       handleNextQuestion();
@@ -658,11 +1040,40 @@ function InterviewPage(): React.ReactElement {
   };
 
   /**
-   * Complete the interview and navigate to results using ref data
+   * Play the interviewer's closing statement - a failure here should never block the results
+   */
+  const playClosing = async () => {
+    setIsPlayingClosing(true);
+    try {
+      const closingResponse = await ttsService.generateClosing(
+        sessionData.position || 'the position you are applying for',
+        sessionData.company || 'your target company',
+        'Prepper', // ai name
+        interviewerRef.current
+      );
+      await ttsService.playAudio(closingResponse.audioContent);
+      console.log('✅ Closing statement completed');
+    } catch (error) {
+      console.error('❌ Error playing closing statement:', error);
+    } finally {
+      setIsPlayingClosing(false);
+    }
+  };
+
+  /**
+   * Complete the interview, save it to the user's history and navigate to results using ref data
    */
-  const handleCompleteInterviewWithData = () => {
+  const handleCompleteInterviewWithData = async () => {
+    await playClosing();
+
     const endTime = new Date();
     const duration = sessionStartTime ? Math.round((endTime.getTime() - sessionStartTime.getTime()) / 1000 / 60) : 0;
+
+    // Wait for recordings still uploading so they are attached to the saved results
+    if (recordingUploadsRef.current.length > 0) {
+      console.log('⏳ Waiting for answer recordings to finish uploading...');
+      await Promise.all(recordingUploadsRef.current);
+    }
     
     // Use ref data which is immediately available
     const finalFeedbackData = feedbackDataRef.current;
@@ -684,16 +1095,30 @@ function InterviewPage(): React.ReactElement {
       });
     });
     
-    // Navigate to feedback page with all collected data from ref
-    navigate('/interview/feedback', { 
-      state: { 
-        duration,
-        questionsAnswered: answeredQuestions.size,
-        totalQuestions: totalQuestionsToAsk,
-        feedbackData: finalFeedbackData, // Use ref data
-        completedAt: endTime.toISOString()
+    const results: InterviewResults = {
+      duration,
+      questionsAnswered: answeredQuestions.size,
+      totalQuestions: totalQuestionsToAsk,
+      feedbackData: finalFeedbackData, // Use ref data
+      completedAt: endTime.toISOString(),
+      position: sessionData.position,
+      company: sessionData.company
+    };
+
+    // Save to history when signed in - the feedback page still works from state if this fails
+    if (authService.isAuthenticated()) {
+      try {
+        const saved = await interviewHistoryService.saveInterview(results);
+        console.log('💾 Interview saved to history:', saved.id);
+        navigate(`/interview/feedback/${saved.id}`, { state: { ...results, id: saved.id } });
+        return;
+      } catch (error) {
+        console.error('❌ Failed to save interview to history:', error);
       }
-    });
+    }
+
+    // Navigate to feedback page with all collected data from ref
+    navigate('/interview/feedback', { state: results });
   };
 
   /**
@@ -737,8 +1162,13 @@ function InterviewPage(): React.ReactElement {
     );
   }
 
-  // Get total questions (2 behavioral + 2 technical = 4)
-  const totalQuestionsToAsk = 4;
+  // Get total questions from the interview template
+  const totalQuestionsToAsk = interviewQuestions.length;
+
+  // Answer countdown - follow-ups share the budget of the question they probe
+  const answerTimeLimit = interviewQuestions[currentQuestionIndex]?.answerTimeSeconds ?? DEFAULT_TEMPLATE.answerTimeSeconds.behavioral;
+  const answerTimeLeft = Math.max(0, answerTimeLimit - recordingTime);
+  const isWrappingUp = answerTimeLeft <= templateRef.current.wrapUpWarningSeconds;
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-950 to-slate-900 font-sans text-white">
@@ -759,10 +1189,16 @@ function InterviewPage(): React.ReactElement {
           </div>
           <div className="flex items-center gap-3">
             <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm ${
-              isRecording ? 'bg-red-500/20 text-red-300' : 'bg-slate-700 text-slate-300'
+              isRecording ? 'bg-red-500/20 text-red-300' :
+              isThinking ? 'bg-amber-500/20 text-amber-300' :
+              'bg-slate-700 text-slate-300'
             }`}>
-              {isRecording ? <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" /> : <Mic className="w-4 h-4" />}
-              {isRecording ? `Recording ${formatTime(recordingTime)}` : 'Ready'}
+              {isRecording ? <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" /> :
+               isThinking ? <Hourglass className="w-4 h-4" /> :
+               <Mic className="w-4 h-4" />}
+              {isRecording ? `Recording ${formatTime(recordingTime)}` :
+               isThinking ? `Think time ${formatTime(thinkTimeLeft)}` :
+               'Ready'}
             </div>
             {sessionStartTime && (
               <div className="text-sm text-slate-400">
@@ -813,6 +1249,8 @@ function InterviewPage(): React.ReactElement {
                   <p className="text-slate-400 text-sm">
                     {isPlayingIntro ? 'Playing introduction...' :
                      isPlayingQuestion ? 'Asking question...' :
+                     isThinking ? 'Giving you a moment to think...' :
+                     isPlayingClosing ? 'Wrapping up...' :
                      isRecording ? 'Listening to your answer...' :
                      isProcessing ? 'Processing your response...' :
                      isLoadingNextQuestion ? 'Preparing next question...' :
@@ -900,10 +1338,26 @@ function InterviewPage(): React.ReactElement {
                           <div className="w-8 h-8 bg-purple-500 rounded-full"></div>
                         </div>
                       </div>
-                      <h3 className="text-lg font-medium text-white mb-2">Question {currentQuestionIndex + 1}</h3>
+                      <h3 className="text-lg font-medium text-white mb-2">
+                        {followUpQuestion ? `Follow-up to Question ${currentQuestionIndex + 1}` : `Question ${currentQuestionIndex + 1}`}
+                      </h3>
                       <p className="text-slate-400 text-sm">Listen carefully to the question...</p>
                     </div>
                   </div>
+                ) : isThinking ? (
+                  // Think time before the answer is recorded
+                  <div className="bg-slate-700/50 rounded-lg p-6 mb-6 flex-1 flex items-center justify-center">
+                    <div className="text-center">
+                      <div className="mb-4">
+                        <div className="w-16 h-16 bg-amber-500/20 rounded-full mx-auto mb-4 flex items-center justify-center">
+                          <Hourglass className="w-8 h-8 text-amber-400" />
+                        </div>
+                      </div>
+                      <h3 className="text-lg font-medium text-white mb-2">Take a Moment to Think</h3>
+                      <p className="text-slate-400 text-sm">{followUpQuestion || 'Recording starts when the countdown ends'}</p>
+                      <div className="text-amber-300 text-2xl font-semibold mt-3">{formatTime(thinkTimeLeft)}</div>
+                    </div>
+                  </div>
                 ) : isRecording ? (
                   // Recording answer
                   <div className="bg-slate-700/50 rounded-lg p-6 mb-6 flex-1 flex items-center justify-center">
@@ -913,10 +1367,12 @@ function InterviewPage(): React.ReactElement {
                           <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
                         </div>
                       </div>
-                      <h3 className="text-lg font-medium text-white mb-2">Recording Your Answer</h3>
-                      <p className="text-slate-400 text-sm">Take your time and speak clearly...</p>
-                      <div className="text-red-300 text-sm mt-2">
-                        {formatTime(recordingTime)} / 03:00
+                      <h3 className="text-lg font-medium text-white mb-2">
+                        {followUpQuestion ? 'Recording Your Follow-up Answer' : 'Recording Your Answer'}
+                      </h3>
+                      <p className="text-slate-400 text-sm">{followUpQuestion || 'Take your time and speak clearly...'}</p>
+                      <div className={`text-sm mt-2 ${isWrappingUp ? 'text-amber-300 font-semibold' : 'text-red-300'}`}>
+                        {formatTime(answerTimeLeft)} left
                       </div>
                     </div>
                   </div>
@@ -953,6 +1409,14 @@ function InterviewPage(): React.ReactElement {
                       <Mic className="w-4 h-4" />
                       Start Interview
                     </button>
+                  ) : isThinking ? (
+                    <button
+                      onClick={finishThinking}
+                      className="flex-1 bg-amber-600 hover:bg-amber-700 text-white px-6 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+                    >
+                      <Mic className="w-4 h-4" />
+                      Start Answering
+                    </button>
                   ) : isRecording ? (
                     <button
                       onClick={handleStopAnswer}
@@ -1030,10 +1494,12 @@ function InterviewPage(): React.ReactElement {
                 <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 text-center mb-4">
                   <div className="text-red-300 font-medium mb-1">Recording in Progress</div>
                   <div className="text-red-200 text-sm">
-                    Time: {formatTime(recordingTime)} / 03:00
+                    Time: {formatTime(recordingTime)} / {formatTime(answerTimeLimit)}
                   </div>
-                  <div className="text-red-200 text-xs mt-2">
-                    Recording will auto-stop at 3 minutes
+                  <div className={`text-xs mt-2 ${isWrappingUp ? 'text-amber-300' : 'text-red-200'}`}>
+                    {isWrappingUp
+                      ? `Time to wrap up - recording stops in ${answerTimeLeft}s`
+                      : `Recording will auto-stop at ${formatTime(answerTimeLimit)}`}
                   </div>
                 </div>
               )}
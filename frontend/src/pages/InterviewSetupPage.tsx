@@ -1,16 +1,23 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Briefcase, User, Plus, X, Loader, ArrowRight, ArrowLeft } from 'lucide-react';
+import { Briefcase, User, Plus, X, Loader, ArrowRight, ArrowLeft, Mic, ListChecks, FileSearch, Target, Search, CheckCircle, ExternalLink } from 'lucide-react';
 import UploadField from '../components/UploadField';
+import InterviewerPersonaPicker from '../components/InterviewerPersonaPicker';
+import InterviewTemplatePicker from '../components/InterviewTemplatePicker';
+import ResumeProfileEditor from '../components/ResumeProfileEditor';
+import GapAnalysisPanel from '../components/GapAnalysisPanel';
 import { 
   InterviewData, 
   UploadData, 
   InterviewSetupErrors, 
   ProcessedContent,
-  UploadFieldError
+  UploadFieldError,
+  InterviewerPersona,
+  ResumeProfile,
+  GapAnalysisReport
 } from '../types/interview.types';
 import interviewService from '../services/interviewService';
-import { jobBriefService } from '../services/tavilyService';
+import { jobBriefService, JobBriefResponse } from '../services/tavilyService';
 
 /**
  * Interview Setup Page - Main page for configuring interview data
@@ -21,6 +28,34 @@ import { jobBriefService } from '../services/tavilyService';
  *    - OR Manual entry (position + company)
  * 3. Other relevant info (multiple entries, optional)
  */
+
+/**
+ * Drop entries left without their required fields in the editor - the backend
+ * rejects the whole profile otherwise. List items are trimmed by the backend.
+ */
+const removeBlankResumeEntries = (profile: ResumeProfile): ResumeProfile => ({
+  ...profile,
+  experiences: profile.experiences.filter(entry => entry.employer.trim() && entry.role.trim()),
+  projects: profile.projects.filter(entry => entry.name.trim()),
+  education: profile.education.filter(entry => entry.institution.trim())
+});
+
+/**
+ * Job description text built from a job brief
+ */
+const formatJobBrief = (jobBrief: JobBriefResponse): string => `Job Information (webscraped from Tavily):
+
+Position: ${jobBrief.title}
+Company: ${jobBrief.company}
+
+Job Summary:
+${jobBrief.summary}
+
+${jobBrief.raw ? `Additional Details:
+${jobBrief.raw.slice(0, 1500)}...` : ''}
+
+${jobBrief.postingUrl ? `Source: ${jobBrief.postingUrl}` : ''}`;
+
 const InterviewSetupPage: React.FC = () => {
   const navigate = useNavigate();
   
@@ -37,6 +72,28 @@ const InterviewSetupPage: React.FC = () => {
   const [company, setCompany] = useState<string>('');
   const [inputMethod, setInputMethod] = useState<'manual' | 'jobDescription'>('manual');
 
+  // Job postings found for the manual position and company - the previewed one can fill the job description
+  const [postingSources, setPostingSources] = useState<{ title?: string; url: string }[]>([]);
+  const [jobBrief, setJobBrief] = useState<JobBriefResponse | null>(null);
+  const [jobBriefNote, setJobBriefNote] = useState<string | null>(null);
+  const [isFindingPostings, setIsFindingPostings] = useState(false);
+  // Bumped by every search, preview and reset - a response for an older request is dropped
+  const jobBriefRequestRef = useRef(0);
+
+  // Interviewer voice - null until the voice catalog loads, in which case the backend default is used
+  const [interviewer, setInterviewer] = useState<InterviewerPersona | null>(null);
+
+  // Interview format - null until the templates load, in which case the backend default is used
+  const [templateId, setTemplateId] = useState<string | null>(null);
+
+  // Structured resume, parsed on request for review or automatically when the interview starts
+  const [resumeProfile, setResumeProfile] = useState<ResumeProfile | null>(null);
+  const [resumeProfileNote, setResumeProfileNote] = useState<string | null>(null);
+  const [isParsingResume, setIsParsingResume] = useState(false);
+
+  // Resume-to-job coverage report, shown once the interview is ready and before it starts
+  const [gapReport, setGapReport] = useState<GapAnalysisReport | null>(null);
+
   // Form validation errors
   const [errors, setErrors] = useState<InterviewSetupErrors>({});
   
@@ -49,6 +106,9 @@ const InterviewSetupPage: React.FC = () => {
    */
   const handleResumeChange = useCallback((data: UploadData | null) => {
     setInterviewData(prev => ({ ...prev, resume: data }));
+    // A new resume needs to be parsed again
+    setResumeProfile(null);
+    setResumeProfileNote(null);
     // Clear resume errors when data changes
     if (errors.resume) {
       setErrors(prev => ({ ...prev, resume: undefined }));
@@ -111,6 +171,135 @@ const InterviewSetupPage: React.FC = () => {
     }));
   };
 
+  /**
+   * Upload the resume and parse it into a profile the user can correct before starting
+   */
+  const handleReviewResume = async () => {
+    if (!interviewData.resume?.method) {
+      setErrors(prev => ({ ...prev, resume: { method: 'Resume is required' } }));
+      return;
+    }
+
+    setIsParsingResume(true);
+    setResumeProfileNote(null);
+
+    try {
+      const upload = await interviewService.upload(interviewData.resume, 'resume');
+      if (!upload.success) {
+        throw new Error(upload.error || 'Failed to process resume');
+      }
+
+      const result = await interviewService.parseResume();
+      if (!result.success || !result.profile) {
+        throw new Error(result.error || 'Failed to parse resume');
+      }
+
+      setResumeProfile(result.profile);
+      if (result.source === 'heuristic') {
+        setResumeProfileNote('Only skills and education could be read automatically - add your experience and projects below.');
+      }
+    } catch (error) {
+      console.error('Resume review error:', error);
+      setResumeProfileNote(error instanceof Error ? error.message : 'Failed to parse resume');
+    } finally {
+      setIsParsingResume(false);
+    }
+  };
+
+  /**
+   * Forget found postings when the position or company changes, including a job description filled in from one
+   */
+  const resetJobBrief = () => {
+    jobBriefRequestRef.current++;
+    setIsFindingPostings(false);
+    setPostingSources([]);
+    setJobBrief(null);
+    setJobBriefNote(null);
+    if (interviewData.jobDescription?.postingUrl) {
+      handleJobDescriptionChange(null);
+    }
+  };
+
+  /**
+   * Search for postings of the entered position and preview the best match
+   */
+  const handleFindPostings = async () => {
+    if (!position.trim() || !company.trim()) {
+      setErrors(prev => ({ ...prev, company: 'Enter the position and company to find job postings' }));
+      return;
+    }
+
+    const requestId = ++jobBriefRequestRef.current;
+    setIsFindingPostings(true);
+    setJobBriefNote(null);
+
+    try {
+      const brief = await jobBriefService.fetchBrief(company, position);
+      if (requestId !== jobBriefRequestRef.current) return;
+      if (brief.error || brief.notFound || !brief.summary || !brief.postingUrl) {
+        setPostingSources([]);
+        setJobBrief(null);
+        setJobBriefNote(brief.error || 'No job posting found - questions will be based on the position and company only.');
+        return;
+      }
+
+      // The best match is not always among the listed sources
+      const sources = brief.sources ?? [];
+      setPostingSources(sources.some(source => source.url === brief.postingUrl)
+        ? sources
+        : [{ title: brief.title, url: brief.postingUrl }, ...sources]);
+      setJobBrief(brief);
+    } catch (error) {
+      if (requestId !== jobBriefRequestRef.current) return;
+      console.error('Job posting search error:', error);
+      setJobBriefNote(error instanceof Error ? error.message : 'Failed to find job postings');
+    } finally {
+      if (requestId === jobBriefRequestRef.current) {
+        setIsFindingPostings(false);
+      }
+    }
+  };
+
+  /**
+   * Preview another of the found postings
+   */
+  const handlePreviewPosting = async (url: string) => {
+    if (url === jobBrief?.postingUrl) return;
+
+    const requestId = ++jobBriefRequestRef.current;
+    setIsFindingPostings(true);
+    setJobBriefNote(null);
+
+    try {
+      const brief = await jobBriefService.fetchBrief(company, position, url);
+      if (requestId !== jobBriefRequestRef.current) return;
+      if (brief.error || !brief.summary) {
+        throw new Error(brief.error || 'This posting could not be read');
+      }
+      setJobBrief(brief);
+    } catch (error) {
+      if (requestId !== jobBriefRequestRef.current) return;
+      console.error('Job posting preview error:', error);
+      setJobBriefNote(error instanceof Error ? error.message : 'Failed to load the posting');
+    } finally {
+      if (requestId === jobBriefRequestRef.current) {
+        setIsFindingPostings(false);
+      }
+    }
+  };
+
+  /**
+   * Use the previewed posting as the job description
+   */
+  const handleUsePosting = () => {
+    if (!jobBrief?.summary || !jobBrief.postingUrl) return;
+    handleJobDescriptionChange({
+      method: 'text',
+      content: formatJobBrief(jobBrief),
+      postingUrl: jobBrief.postingUrl
+    });
+  };
+
   /**
    * Validate the form before submission
    */
@@ -186,6 +375,18 @@ const InterviewSetupPage: React.FC = () => {
         }
       }
 
+      // Parse the resume if it was not reviewed - questions can still be generated without a profile
+      let profile = resumeProfile ? removeBlankResumeEntries(resumeProfile) : null;
+      if (!profile) {
+        setProcessingStep('Reading your resume...');
+        const parsed = await interviewService.parseResume();
+        if (parsed.success && parsed.profile) {
+          profile = parsed.profile;
+        } else {
+          console.warn('⚠️ Resume parsing failed, questions will not cite resume entries:', parsed.error);
+        }
+      }
+
       // Process job information based on input method
       if (inputMethod === 'jobDescription' && interviewData.jobDescription) {
         setProcessingStep('Processing job description...');
@@ -200,6 +401,29 @@ const InterviewSetupPage: React.FC = () => {
           });
         }
         // Don't throw error for optional fields
+      } else if (inputMethod === 'manual' && interviewData.jobDescription?.postingUrl) {
+        // A posting picked on the setup page
+        processed.push({
+          type: 'position',
+          content: `Position/Role: ${position.trim()}`,
+          method: 'text'
+        });
+        processed.push({
+          type: 'company',
+          content: `Company: ${company.trim()}`,
+          method: 'text'
+        });
+
+        setProcessingStep('Processing job description...');
+        const result = await interviewService.upload(interviewData.jobDescription, 'jobDescription');
+        if (result.success && result.content) {
+          processed.push({
+            type: 'jobDescription',
+            content: result.content,
+            method: 'text',
+            postingUrl: interviewData.jobDescription.postingUrl
+          });
+        }
       } else if (inputMethod === 'manual') {
         // Webscrape job information if position is provided
         if (position.trim()) {
@@ -245,23 +469,11 @@ const InterviewSetupPage: React.FC = () => {
 
             // Add webscraped job information if available and valid
             if (jobBrief.summary && !jobBrief.error && !jobBrief.notFound) {
-              const jobContent = `Job Information (webscraped from Tavily):
-
-Position: ${jobBrief.title}
-Company: ${jobBrief.company}
-
-Job Summary:
-${jobBrief.summary}
-
-${jobBrief.raw ? `Additional Details:
-${jobBrief.raw.slice(0, 1500)}...` : ''}
-
-${jobBrief.postingUrl ? `Source: ${jobBrief.postingUrl}` : ''}`;
-
               processed.push({
                 type: 'jobDescription',
-                content: jobContent,
-                method: 'text'
+                content: formatJobBrief(jobBrief),
+                method: 'text',
+                postingUrl: jobBrief.postingUrl
               });
             } else {
               console.log('💡 Using basic position/company info for AI analysis');
@@ -308,9 +520,26 @@ ${jobBrief.postingUrl ? `Source: ${jobBrief.postingUrl}` : ''}`;
         }
       }
 
+      // Compare the resume with the job first, so the questions can target the gaps
+      let gapAnalysis: GapAnalysisReport | null = null;
+      const jobContent = processed.find(c => c.type === 'jobDescription')?.content;
+      if (jobContent && profile) {
+        setProcessingStep('Comparing your resume with the job...');
+        const analysis = await interviewService.analyzeGaps(jobContent, profile);
+        if (analysis.success && analysis.report) {
+          gapAnalysis = analysis.report;
+        } else {
+          console.warn('⚠️ Gap analysis failed, questions will not target resume gaps:', analysis.error);
+        }
+      }
+
       // Generate interview questions
       setProcessingStep('Generating personalized interview questions...');
-      const questionsResult = await interviewService.generateQuestions(processed);
+      const questionsResult = await interviewService.generateQuestions(
+        processed,
+        templateId || undefined,
+        profile || undefined
+      );
       
       if (!questionsResult.success) {
         throw new Error(questionsResult.error || 'Failed to generate questions');
@@ -327,6 +556,9 @@ ${jobBrief.postingUrl ? `Source: ${jobBrief.postingUrl}` : ''}`;
       questionsResult.questions.behavioral.forEach((q, i) => {
         console.log(`${i + 1}. ${q.question}`);
         console.log(`   Difficulty: ${q.difficulty} | Tags: ${q.tags.join(', ')}`);
+        if (q.citation) {
+          console.log(`   Based on: ${q.citation.label}`);
+        }
         console.log('');
       });
       
@@ -339,9 +571,18 @@ ${jobBrief.postingUrl ? `Source: ${jobBrief.postingUrl}` : ''}`;
         processedContent: processed,
         questions: questionsResult.questions,
         position: inputMethod === 'manual' ? position.trim() : undefined,
-        company: inputMethod === 'manual' ? company.trim() : undefined
+        company: inputMethod === 'manual' ? company.trim() : undefined,
+        interviewer: interviewer || undefined,
+        templateId: templateId || undefined,
+        resumeProfile: profile || undefined
       });
 
+      // Show the coverage report before the interview starts
+      if (gapAnalysis) {
+        setGapReport(gapAnalysis);
+        return;
+      }
+
       // Navigate to actual interview session page
       navigate('/interview/session');
 
@@ -356,6 +597,48 @@ ${jobBrief.postingUrl ? `Source: ${jobBrief.postingUrl}` : ''}`;
     }
   };
 
+  if (gapReport) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-950 to-slate-900 font-sans text-white">
+        <div className="max-w-4xl mx-auto px-4 py-8">
+          <div className="bg-slate-800 rounded-xl shadow-lg border border-slate-700 p-6">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="flex items-center justify-center w-10 h-10 bg-gradient-to-r from-amber-500 to-orange-500 rounded-lg">
+                <Target className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">How Your Resume Matches the Job</h2>
+                <p className="text-sm text-slate-400">
+                  Your interview focuses on the missing and weakly covered requirements
+                </p>
+              </div>
+            </div>
+
+            <GapAnalysisPanel report={gapReport} />
+          </div>
+
+          <div className="flex items-center justify-between pt-6">
+            <button
+              onClick={() => setGapReport(null)}
+              className="flex items-center gap-2 px-6 py-2 text-slate-400 hover:text-slate-200 font-medium transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Setup
+            </button>
+
+            <button
+              onClick={() => navigate('/interview/session')}
+              className="flex items-center gap-2 px-8 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 font-medium transition-all duration-200 shadow-lg"
+            >
+              Begin Interview
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-950 to-slate-900 font-sans text-white">
       {/* Header */}
@@ -408,6 +691,37 @@ ${jobBrief.postingUrl ? `Source: ${jobBrief.postingUrl}` : ''}`;
               required
               contentType="resume"
             />
+
+            {/* Parsed resume review */}
+            <div className="mt-6 pt-6 border-t border-slate-700">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <h3 className="text-sm font-medium text-white">Parsed Resume</h3>
+                  <p className="text-xs text-slate-400">
+                    Questions reference these entries - check that roles, projects and dates were read correctly
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleReviewResume}
+                  disabled={isParsingResume || isProcessing}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border text-blue-300 bg-blue-500/20 hover:bg-blue-500/30 border-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isParsingResume ? <Loader className="w-4 h-4 animate-spin" /> : <FileSearch className="w-4 h-4" />}
+                  {resumeProfile ? 'Parse Again' : 'Review Parsed Resume'}
+                </button>
+              </div>
+
+              {resumeProfileNote && (
+                <p className="mt-3 text-sm text-yellow-300">{resumeProfileNote}</p>
+              )}
+
+              {resumeProfile && (
+                <div className="mt-4">
+                  <ResumeProfileEditor profile={resumeProfile} onChange={setResumeProfile} />
+                </div>
+              )}
+            </div>
           </div>
 
           {/* Job Information Section - Either/Or */}
@@ -466,7 +780,10 @@ ${jobBrief.postingUrl ? `Source: ${jobBrief.postingUrl}` : ''}`;
                     id="position"
                     type="text"
                     value={position}
-                    onChange={(e) => setPosition(e.target.value)}
+                    onChange={(e) => {
+                      setPosition(e.target.value);
+                      resetJobBrief();
+                    }}
                     placeholder="e.g., Software Engineer, Product Manager, Data Scientist..."
                     className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
                   />
@@ -482,6 +799,7 @@ ${jobBrief.postingUrl ? `Source: ${jobBrief.postingUrl}` : ''}`;
                     value={company}
                     onChange={(e) => {
                       setCompany(e.target.value);
+                      resetJobBrief();
                       if (errors.company) {
                         setErrors(prev => ({ ...prev, company: undefined }));
                       }
@@ -494,11 +812,89 @@ ${jobBrief.postingUrl ? `Source: ${jobBrief.postingUrl}` : ''}`;
                   )}
                 </div>
                 
-                <div className="mt-3 p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
-                  <p className="text-blue-300 text-sm">
-                    💡 Our AI will automatically find relevant job details and requirements based on your input.
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-slate-400">
+                    Pick the posting to prepare for, or we will use the best match when the interview starts.
                   </p>
+                  <button
+                    type="button"
+                    onClick={handleFindPostings}
+                    disabled={isFindingPostings || isProcessing || !position.trim() || !company.trim()}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border text-blue-300 bg-blue-500/20 hover:bg-blue-500/30 border-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+                  >
+                    {isFindingPostings ? <Loader className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                    {postingSources.length > 0 ? 'Search Again' : 'Find Job Posting'}
+                  </button>
                 </div>
+
+                {jobBriefNote && (
+                  <p className="text-sm text-yellow-300">{jobBriefNote}</p>
+                )}
+
+                {postingSources.length > 0 && (
+                  <div className="space-y-2">
+                    {postingSources.map(source => (
+                      <label
+                        key={source.url}
+                        className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                          jobBrief?.postingUrl === source.url
+                            ? 'border-blue-500 bg-blue-500/10'
+                            : 'border-slate-600 bg-slate-700/30 hover:border-slate-500'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="postingSource"
+                          checked={jobBrief?.postingUrl === source.url}
+                          onChange={() => handlePreviewPosting(source.url)}
+                          disabled={isFindingPostings}
+                          className="mt-1"
+                        />
+                        <div className="min-w-0">
+                          <p className="text-sm text-slate-200">{source.title || source.url}</p>
+                          <p className="text-xs text-slate-500 truncate">{source.url}</p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {jobBrief?.summary && (
+                  <div className="p-4 bg-slate-700/30 border border-slate-600 rounded-lg">
+                    <div className="flex items-center justify-between gap-3 mb-3">
+                      <h3 className="text-sm font-medium text-white">{jobBrief.title} @ {jobBrief.company}</h3>
+                      {jobBrief.postingUrl && (
+                        <a
+                          href={jobBrief.postingUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="flex items-center gap-1 text-xs text-blue-300 hover:text-blue-200"
+                        >
+                          View posting
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      )}
+                    </div>
+                    <p className="text-sm text-slate-300 whitespace-pre-wrap max-h-64 overflow-y-auto">{jobBrief.summary}</p>
+                    <div className="mt-3 flex justify-end">
+                      {interviewData.jobDescription?.postingUrl === jobBrief.postingUrl ? (
+                        <span className="flex items-center gap-2 text-sm text-green-300">
+                          <CheckCircle className="w-4 h-4" />
+                          Used as the job description
+                        </span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={handleUsePosting}
+                          disabled={isFindingPostings}
+                          className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Use This Posting
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
@@ -590,6 +986,36 @@ ${jobBrief.postingUrl ? `Source: ${jobBrief.postingUrl}` : ''}`;
             )}
           </div>
 
+          {/* Interview Format Section */}
+          <div className="bg-slate-800 rounded-xl shadow-lg border border-slate-700 p-6">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="flex items-center justify-center w-10 h-10 bg-gradient-to-r from-cyan-500 to-sky-500 rounded-lg">
+                <ListChecks className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">Interview Format</h2>
+                <p className="text-sm text-slate-400">Choose the question mix and answer time</p>
+              </div>
+            </div>
+
+            <InterviewTemplatePicker value={templateId} onChange={setTemplateId} />
+          </div>
+
+          {/* Interviewer Section */}
+          <div className="bg-slate-800 rounded-xl shadow-lg border border-slate-700 p-6">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="flex items-center justify-center w-10 h-10 bg-gradient-to-r from-pink-500 to-rose-500 rounded-lg">
+                <Mic className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">Interviewer</h2>
+                <p className="text-sm text-slate-400">Choose how your interviewer sounds</p>
+              </div>
+            </div>
+
+            <InterviewerPersonaPicker value={interviewer} onChange={setInterviewer} />
+          </div>
+
           {/* Error Display */}
           {errors.general && (
             <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
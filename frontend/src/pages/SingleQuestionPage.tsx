@@ -2,9 +2,13 @@ import React, { useState, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Camera, Mic, ArrowLeft, Square } from 'lucide-react';
 import { ttsService } from '../services/ttsService';
-import { sttService } from '../services/sttService';
+import { sttService, StreamTranscriptionResult } from '../services/sttService';
 import { videoService } from '../services/videoService';
 import { behavGraderService, type GraderFeedback } from '../services/behavGraderService';
+import StarHighlightedAnswer from '../components/StarHighlightedAnswer';
+import CompetencyScores from '../components/CompetencyScores';
+import DeliveryPanel from '../components/DeliveryPanel';
+import { DeliveryMetrics } from '../types/interview.types';
 
 function SingleQuestionPage(): React.ReactElement {
   const [isRecording, setIsRecording] = useState(false);
@@ -16,12 +20,13 @@ function SingleQuestionPage(): React.ReactElement {
   const [transcription, setTranscription] = useState<string>('');
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [graderFeedback, setGraderFeedback] = useState<GraderFeedback | null>(null);
+  const [delivery, setDelivery] = useState<DeliveryMetrics | null>(null);
   const [showTranscription, setShowTranscription] = useState(false);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const videoRecorderRef = useRef<MediaRecorder | null>(null);
   const timerRef = useRef<number | null>(null);
-  const chunkedRecordingRef = useRef<{ stopRecording: () => void } | null>(null);
+  const chunkedRecordingRef = useRef<{ stopRecording: () => void; finished: Promise<StreamTranscriptionResult> } | null>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
 
   // Initialize webcam and video recorder
@@ -129,6 +134,7 @@ function SingleQuestionPage(): React.ReactElement {
       setIsRecording(true);
       setRecordingTime(0);
       setTranscription(''); // Reset previous transcription
+      setDelivery(null);
       setShowTranscription(false); // Hide transcription during recording
       
       // Check MediaRecorder state before starting
@@ -154,7 +160,7 @@ function SingleQuestionPage(): React.ReactElement {
 
       // Start live audio transcription
       try {
-        const liveResult = await sttService.recordAndTranscribeLive(
+        const liveResult = await sttService.streamTranscription(
           (message, type) => {
             // Only log important status changes, not every update
             if (type === 'error' || type === 'info') {
@@ -173,6 +179,7 @@ function SingleQuestionPage(): React.ReactElement {
           },
           {
             languageCode: 'en-US',
+            question: sampleQuestion,
           }
         );
 
@@ -203,23 +210,30 @@ function SingleQuestionPage(): React.ReactElement {
       console.log('Stopped video recording');
     }
     
-    // Stop live transcription
-    if (chunkedRecordingRef.current) {
-      chunkedRecordingRef.current.stopRecording();
-      console.log('Stopped live transcription');
-    }
-    
     // Stop timer
     if (timerRef.current) {
       clearInterval(timerRef.current);
       timerRef.current = null;
     }
 
-    // Send transcription to grader (transcription is already available)
-    if (transcription && transcription.trim()) {
+    // Stop live transcription and wait for the final transcript
+    let answerText = transcription;
+    const liveTranscription = chunkedRecordingRef.current;
+    chunkedRecordingRef.current = null;
+    if (liveTranscription) {
+      liveTranscription.stopRecording();
+      const result = await liveTranscription.finished;
+      answerText = result.transcript;
+      setTranscription(answerText);
+      setDelivery(result.delivery);
+      console.log('Stopped live transcription');
+    }
+
+    // Send transcription to grader
+    if (answerText && answerText.trim()) {
       try {
-        console.log('Sending transcript to grader:', transcription);
-        const gradeResp = await behavGraderService.gradeBehavioral(sampleQuestion, transcription);
+        console.log('Sending transcript to grader:', answerText);
+        const gradeResp = await behavGraderService.gradeBehavioral(sampleQuestion, answerText);
         console.log('Grader response:', gradeResp);
         setGraderFeedback(gradeResp.feedback || null);
       } catch (gErr) {
@@ -313,93 +327,51 @@ function SingleQuestionPage(): React.ReactElement {
                         <div className="flex items-center justify-between p-3 bg-slate-600/50 rounded-lg">
                           <span className="text-slate-300 font-medium">Overall Score:</span>
                           <span className="text-xl font-bold text-green-400">
-                            {graderFeedback.score ? `${graderFeedback.score}/10` : 'None'}
+                            {graderFeedback.score}/10
                           </span>
                         </div>
                         
+                        <div className="p-3 bg-indigo-500/10 border border-indigo-500/20 rounded-lg">
+                          <h4 className="text-indigo-300 font-medium mb-2">📐 Competencies</h4>
+                          <CompetencyScores
+                            competencies={graderFeedback.competencies}
+                            rubricScore={graderFeedback.rubricScore}
+                            rubricVersion={graderFeedback.rubricVersion}
+                          />
+                        </div>
+                        
+                        {transcription && (
+                          <div className="p-3 bg-slate-600/30 rounded-lg">
+                            <h4 className="text-slate-200 font-medium mb-2">⭐ STAR Breakdown</h4>
+                            <StarHighlightedAnswer answer={transcription} star={graderFeedback.star} />
+                          </div>
+                        )}
+                        
+                        {delivery && (
+                          <div className="p-3 bg-slate-600/30 rounded-lg">
+                            <h4 className="text-slate-200 font-medium mb-2">🎙️ Delivery</h4>
+                            <DeliveryPanel delivery={delivery} />
+                          </div>
+                        )}
+                        
                         <div className="p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
                           <h4 className="text-green-300 font-medium mb-2">✅ Strengths</h4>
-                          {graderFeedback.strengths ? (
-                            Array.isArray(graderFeedback.strengths) ? (
-                              graderFeedback.strengths.length > 0 ? (
-                                <ul className="text-slate-200 text-sm space-y-1">
-                                  {graderFeedback.strengths.map((strength, index) => (
-                                    <li key={index}>• {strength}</li>
-                                  ))}
-                                </ul>
-                              ) : (
-                                <p className="text-slate-400 text-sm italic">None</p>
-                              )
-                            ) : (
-                              graderFeedback.strengths.trim() ? (
-                                <p className="text-slate-200 text-sm">{graderFeedback.strengths}</p>
-                              ) : (
-                                <p className="text-slate-400 text-sm italic">None</p>
-                              )
-                            )
-                          ) : (
-                            <p className="text-slate-400 text-sm italic">None</p>
-                          )}
+                          <p className="text-slate-200 text-sm">{graderFeedback.strengths}</p>
                         </div>
                         
                         <div className="p-3 bg-orange-500/10 border border-orange-500/20 rounded-lg">
                           <h4 className="text-orange-300 font-medium mb-2">⚠️ Areas for Improvement</h4>
-                          {graderFeedback.weaknesses ? (
-                            Array.isArray(graderFeedback.weaknesses) ? (
-                              graderFeedback.weaknesses.length > 0 ? (
-                                <ul className="text-slate-200 text-sm space-y-1">
-                                  {graderFeedback.weaknesses.map((weakness, index) => (
-                                    <li key={index}>• {weakness}</li>
-                                  ))}
-                                </ul>
-                              ) : (
-                                <p className="text-slate-400 text-sm italic">None</p>
-                              )
-                            ) : (
-                              graderFeedback.weaknesses.trim() ? (
-                                <p className="text-slate-200 text-sm">{graderFeedback.weaknesses}</p>
-                              ) : (
-                                <p className="text-slate-400 text-sm italic">None</p>
-                              )
-                            )
-                          ) : (
-                            <p className="text-slate-400 text-sm italic">None</p>
-                          )}
+                          <p className="text-slate-200 text-sm">{graderFeedback.weaknesses}</p>
                         </div>
                         
                         <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
                           <h4 className="text-blue-300 font-medium mb-2">💡 Suggestions</h4>
-                          {graderFeedback.suggestions ? (
-                            Array.isArray(graderFeedback.suggestions) ? (
-                              graderFeedback.suggestions.length > 0 ? (
-                                <ul className="text-slate-200 text-sm space-y-1">
-                                  {graderFeedback.suggestions.map((suggestion, index) => (
-                                    <li key={index}>• {suggestion}</li>
-                                  ))}
-                                </ul>
-                              ) : (
-                                <p className="text-slate-400 text-sm italic">None</p>
-                              )
-                            ) : (
-                              graderFeedback.suggestions.trim() ? (
-                                <p className="text-slate-200 text-sm">{graderFeedback.suggestions}</p>
-                              ) : (
-                                <p className="text-slate-400 text-sm italic">None</p>
-                              )
-                            )
-                          ) : (
-                            <p className="text-slate-400 text-sm italic">None</p>
-                          )}
+                          <ul className="text-slate-200 text-sm space-y-1">
+                            {graderFeedback.suggestions.map((suggestion, index) => (
+                              <li key={index}>• {suggestion}</li>
+                            ))}
+                          </ul>
                         </div>
-                        
-                        {graderFeedback.raw && !graderFeedback.strengths && (
-                          <div className="p-3 bg-slate-600/50 rounded-lg">
-                            <h4 className="text-slate-300 font-medium mb-2">📝 AI Feedback</h4>
-                            <p className="text-slate-200 text-sm whitespace-pre-wrap">
-                              {graderFeedback.raw.trim() || 'None'}
-                            </p>
-                          </div>
-                        )}
                       </div>
                     </div>
                   ) : (
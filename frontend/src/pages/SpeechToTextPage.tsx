@@ -1,127 +1,63 @@
 import React, { useEffect, useRef, useState } from 'react'
+import { sttService, StreamTranscriptionResult } from '../services/sttService'
 
 type StatusType = 'info' | 'recording' | 'loading' | 'success' | 'error' | 'warning'
 
 function SpeechToTextPage(): React.ReactElement {
-  const envApiKey = (import.meta.env as any).VITE_GOOGLE_API_KEY || ''
   const [status, setStatus] = useState<{ msg: string; type: StatusType }>({ msg: 'Ready to record.', type: 'info' })
   const [transcript, setTranscript] = useState('Your transcribed text will appear here...')
+  const [isInterim, setIsInterim] = useState(false)
   const [isRecording, setIsRecording] = useState(false)
 
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null)
-  const streamRef = useRef<MediaStream | null>(null)
-  const audioChunksRef = useRef<Blob[]>([])
+  const streamRef = useRef<{ stopRecording: () => void; finished: Promise<StreamTranscriptionResult> } | null>(null)
 
   useEffect(() => {
     // initial status
     setStatus({ msg: 'Ready to record.', type: 'info' })
+
+    // Stop streaming if the page is left mid-recording
+    return () => streamRef.current?.stopRecording()
   }, [])
 
   const updateStatus = (message: string, type: StatusType = 'info') => {
     setStatus({ msg: message, type })
   }
 
-  const blobToBase64 = (blob: Blob) => {
-    return new Promise<string>((resolve, reject) => {
-      const reader = new FileReader()
-      reader.readAsDataURL(blob)
-      reader.onloadend = () => {
-        const result = reader.result as string
-        resolve(result.split(',')[1] || '')
-      }
-      reader.onerror = (err) => reject(err)
-    })
-  }
-
   async function startRecording() {
-    if (!envApiKey) {
-      updateStatus('Missing Google API key in env (VITE_GOOGLE_API_KEY).', 'error')
-      return
-    }
-
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
-      streamRef.current = stream
-      const mediaRecorder = new (window as any).MediaRecorder(stream)
-      mediaRecorderRef.current = mediaRecorder
-
-      mediaRecorder.ondataavailable = (event: BlobEvent) => {
-        audioChunksRef.current.push(event.data)
-      }
-
-      mediaRecorder.onstop = async () => {
-        await sendAudioToAPI()
-      }
-
-      audioChunksRef.current = []
-      mediaRecorder.start()
+      setTranscript('')
+      streamRef.current = await sttService.streamTranscription(
+        updateStatus,
+        (text, isFinal) => {
+          setTranscript(text)
+          setIsInterim(!isFinal)
+        }
+      )
       setIsRecording(true)
-      updateStatus('Recording in progress...', 'recording')
     } catch (error) {
-      console.error('Error accessing microphone:', error)
-      updateStatus('Could not access microphone. Please grant permission.', 'error')
+      console.error('Error starting streaming transcription:', error)
+      updateStatus(`Could not start transcription: ${(error as Error).message}`, 'error')
     }
   }
 
-  function stopRecording() {
-    const mediaRecorder = mediaRecorderRef.current
-    if (mediaRecorder && mediaRecorder.state !== 'inactive') {
-      mediaRecorder.stop()
-    }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((t) => t.stop())
-      streamRef.current = null
+  async function stopRecording() {
+    const stream = streamRef.current
+    if (!stream) {
+      return
     }
-    setIsRecording(false)
-    updateStatus('Processing audio...', 'loading')
-  }
 
-  async function sendAudioToAPI() {
-    const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm;codecs=opus' })
-    
-    // Log audio file size before sending
-    console.log(`Audio file size: ${audioBlob.size} bytes (${(audioBlob.size / 1024 / 1024).toFixed(2)} MB)`)
-    
-    try {
-      const base64Audio = await blobToBase64(audioBlob)
-  const apiUrl = `https://speech.googleapis.com/v1/speech:recognize?key=${envApiKey}`
-
-      const requestBody = {
-        config: {
-          encoding: 'WEBM_OPUS',
-          sampleRateHertz: 16000, // Reduced from 48000 to 16000 for smaller file size
-          languageCode: 'en-US',
-        },
-        audio: {
-          content: base64Audio,
-        },
-      }
-
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody),
-      })
-
-      if (!response.ok) {
-        const err = await response.json()
-        console.error('API Error:', err)
-        throw new Error(err?.error?.message || `HTTP ${response.status}`)
-      }
-
-      const data = await response.json()
-      if (data.results && data.results.length > 0) {
-        const t = data.results[0].alternatives[0].transcript
-        setTranscript(t)
-        updateStatus('Transcription successful!', 'success')
-      } else {
-        setTranscript('No speech was detected.')
-        updateStatus('No speech detected.', 'warning')
-      }
-    } catch (error: any) {
-      console.error('Error sending audio to API:', error)
-      setTranscript('Failed to transcribe audio. Please check the console and your API key.')
-      updateStatus(`Error: ${error?.message || 'Unknown'}`, 'error')
+    streamRef.current = null
+    setIsRecording(false)
+    stream.stopRecording()
+
+    const { transcript: finalTranscript } = await stream.finished
+    setIsInterim(false)
+    if (finalTranscript) {
+      setTranscript(finalTranscript)
+      updateStatus('Transcription successful!', 'success')
+    } else {
+      setTranscript('No speech was detected.')
+      updateStatus('No speech detected.', 'warning')
     }
   }
 
@@ -151,8 +87,6 @@ function SpeechToTextPage(): React.ReactElement {
             <p className="text-gray-500 dark:text-gray-400 mt-2">Record your voice and see the magic of transcription.</p>
           </div>
 
-          {/* API key is read from Vite env (VITE_GOOGLE_API_KEY) - no input shown */}
-
           <div className="flex flex-col sm:flex-row items-center justify-center gap-4 mb-6">
             <button
               onClick={startRecording}
@@ -178,11 +112,11 @@ function SpeechToTextPage(): React.ReactElement {
           </div>
 
           <div className="bg-gray-100 dark:bg-gray-900/50 rounded-lg p-4 min-h-[150px] shadow-inner">
-            <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{transcript}</p>
+            <p className={`whitespace-pre-wrap ${isInterim ? 'text-gray-500 dark:text-gray-400 italic' : 'text-gray-700 dark:text-gray-300'}`}>{transcript}</p>
           </div>
         </div>
         <footer className="text-center mt-6 text-sm text-gray-400 dark:text-gray-500">
-          <p>Powered by Google Cloud Speech-to-Text API</p>
+          <p>Streamed live to the backend speech-to-text service</p>
         </footer>
       </div>
     </div>
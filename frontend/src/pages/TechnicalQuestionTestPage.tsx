@@ -2,10 +2,10 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Camera, Mic, ArrowLeft, Square, RefreshCw, Brain, Target } from 'lucide-react';
-import { sttService } from '../services/sttService';
+import { sttService, StreamTranscriptionResult } from '../services/sttService';
 import { videoService } from '../services/videoService';
 import technicalEvaluationService from '../services/technicalEvaluationService';
-import type { TechnicalQuestion, TechnicalEvaluationResult } from '../services/technicalEvaluationService';
+import type { QuestionDifficulty, TechnicalQuestion, TechnicalEvaluationResult } from '../services/technicalEvaluationService';
 
 /**
  * Technical Question Test Page - Practice technical interviews with AI evaluation
@@ -22,6 +22,7 @@ function TechnicalQuestionTestPage(): React.ReactElement {
   const [currentQuestion, setCurrentQuestion] = useState<TechnicalQuestion | null>(null);
   const [allQuestions, setAllQuestions] = useState<TechnicalQuestion[]>([]);
   const [selectedRole, setSelectedRole] = useState<string>('');
+  const [selectedDifficulty, setSelectedDifficulty] = useState<QuestionDifficulty | ''>('');
   const [availableRoles, setAvailableRoles] = useState<string[]>([]);
   
   // Recording state
@@ -38,7 +39,7 @@ function TechnicalQuestionTestPage(): React.ReactElement {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const recordingTimerRef = useRef<number | null>(null);
-  const stopRecordingRef = useRef<(() => void) | null>(null);
+  const liveTranscriptionRef = useRef<{ stopRecording: () => void; finished: Promise<StreamTranscriptionResult> } | null>(null);
 
   /**
    * Initialize the technical evaluation system
@@ -49,6 +50,7 @@ function TechnicalQuestionTestPage(): React.ReactElement {
       if (recordingTimerRef.current) {
         clearInterval(recordingTimerRef.current);
       }
+      liveTranscriptionRef.current?.stopRecording();
     };
   }, []);
 
@@ -96,13 +98,17 @@ function TechnicalQuestionTestPage(): React.ReactElement {
   };
 
   /**
-   * Load a random question based on selected role or all questions
+   * Load a random question matching the role and difficulty filters
    */
-  const loadRandomQuestion = (questions?: TechnicalQuestion[]) => {
+  const loadRandomQuestion = (
+    questions?: TechnicalQuestion[],
+    filters: { role: string; difficulty: QuestionDifficulty | '' } = { role: selectedRole, difficulty: selectedDifficulty }
+  ) => {
     const questionPool = questions || allQuestions;
-    const filteredQuestions = selectedRole 
-      ? questionPool.filter(q => q.role === selectedRole)
-      : questionPool;
+    const filteredQuestions = questionPool.filter(q =>
+      (!filters.role || q.role === filters.role) &&
+      (!filters.difficulty || q.difficulty === filters.difficulty)
+    );
 
     if (filteredQuestions.length === 0) return;
 
@@ -122,7 +128,15 @@ function TechnicalQuestionTestPage(): React.ReactElement {
    */
   const handleRoleChange = (role: string) => {
     setSelectedRole(role);
-    loadRandomQuestion();
+    loadRandomQuestion(undefined, { role, difficulty: selectedDifficulty });
+  };
+
+  /**
+   * Handle difficulty filter change
+   */
+  const handleDifficultyChange = (difficulty: QuestionDifficulty | '') => {
+    setSelectedDifficulty(difficulty);
+    loadRandomQuestion(undefined, { role: selectedRole, difficulty });
   };
 
   /**
@@ -137,19 +151,16 @@ function TechnicalQuestionTestPage(): React.ReactElement {
       setShowEvaluation(false);
 
       // Start live speech-to-text
-      const { stopRecording } = await sttService.recordAndTranscribeLive(
+      liveTranscriptionRef.current = await sttService.streamTranscription(
         (message, type) => {
           console.log(`STT Status: ${message} (${type})`);
         },
         (transcript, _isFinal) => {
           setTranscription(transcript);
         },
-        { languageCode: 'en-US' }
+        { languageCode: 'en-US', question: currentQuestion?.question }
       );
 
-      // Store stop function for later use
-      stopRecordingRef.current = stopRecording;
-
       // Start recording timer
       recordingTimerRef.current = window.setInterval(() => {
         setRecordingTime(prev => prev + 1);
@@ -178,21 +189,25 @@ function TechnicalQuestionTestPage(): React.ReactElement {
         recordingTimerRef.current = null;
       }
 
-      // Stop speech-to-text
-      if (stopRecordingRef.current) {
-        stopRecordingRef.current();
-        stopRecordingRef.current = null;
+      // Stop speech-to-text and wait for the final transcript
+      let answerText = transcription;
+      const liveTranscription = liveTranscriptionRef.current;
+      liveTranscriptionRef.current = null;
+      if (liveTranscription) {
+        liveTranscription.stopRecording();
+        answerText = (await liveTranscription.finished).transcript;
+        setTranscription(answerText);
       }
 
-      console.log('🎙️ Recording stopped, transcription:', transcription);
+      console.log('🎙️ Recording stopped, transcription:', answerText);
 
       // Evaluate the answer if we have transcription and current question
-      if (transcription.trim() && currentQuestion) {
+      if (answerText.trim() && currentQuestion) {
         console.log('⚡ Evaluating answer...');
         
         const evaluationResult = await technicalEvaluationService.evaluateAnswer(
           currentQuestion.id,
-          transcription.trim()
+          answerText.trim()
         );
 
         if (evaluationResult.success && evaluationResult.evaluation) {
@@ -328,6 +343,16 @@ function TechnicalQuestionTestPage(): React.ReactElement {
                 );
               })}
             </select>
+            <select
+              value={selectedDifficulty}
+              onChange={(e) => handleDifficultyChange(e.target.value as QuestionDifficulty | '')}
+              className="w-full mt-3 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white"
+            >
+              <option value="">All Difficulties</option>
+              <option value="easy">Easy</option>
+              <option value="medium">Medium</option>
+              <option value="hard">Hard</option>
+            </select>
           </div>
 
           {/* Recording Controls */}
@@ -399,6 +424,9 @@ function TechnicalQuestionTestPage(): React.ReactElement {
                   <span className="bg-green-600 text-white px-3 py-1 rounded-full text-sm">
                     {currentQuestion.role}
                   </span>
+                  <span className="bg-purple-600 text-white px-3 py-1 rounded-full text-sm capitalize">
+                    {currentQuestion.difficulty}
+                  </span>
                 </div>
                 
                 <div className="bg-slate-700 rounded-lg p-4">
@@ -497,6 +525,38 @@ function TechnicalQuestionTestPage(): React.ReactElement {
                   </div>
                 )}
 
+                {evaluation.missingConcepts.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold mb-2">🧩 Concepts You Missed:</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {evaluation.missingConcepts.map((concept, index) => (
+                        <span
+                          key={index}
+                          className="bg-amber-600 text-white px-3 py-1 rounded-full text-sm"
+                        >
+                          {concept}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {evaluation.incorrectClaims.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold mb-2">⚠️ Incorrect Claims:</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {evaluation.incorrectClaims.map((claim, index) => (
+                        <span
+                          key={index}
+                          className="bg-red-600 text-white px-3 py-1 rounded-full text-sm"
+                        >
+                          {claim}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {evaluation.suggestions && evaluation.suggestions.length > 0 && (
                   <div>
                     <h4 className="font-semibold mb-2">💡 Suggestions for Improvement:</h4>
@@ -1,19 +1,24 @@
+import { CompetencyScore, StarAnalysis } from '../types/interview.types';
+
 const API_URL = `${import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000'}/api/behav-grader`;
 
 export interface GraderFeedback {
-  strengths?: string;
-  weaknesses?: string;
-  suggestions?: string;
-  score?: number | string;
-  raw?: string;
+  strengths: string;
+  weaknesses: string;
+  suggestions: string[];
+  score: number; // 1-10
+  star: StarAnalysis;
+  competencies: CompetencyScore[];
+  rubricScore: number; // Weighted rubric score, 0-10
+  rubricVersion: string; // Only compare rubric scores graded with the same version
 }
 
 export const behavGraderService = {
-  gradeBehavioral: async (question: string, answer: string): Promise<{ success: boolean; feedback: GraderFeedback }> => {
+  gradeBehavioral: async (question: string, answer: string, tags: string[] = []): Promise<{ success: boolean; feedback: GraderFeedback }> => {
     const res = await fetch(`${API_URL}/grade`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ question, answer }),
+      body: JSON.stringify({ question, answer, tags }),
     });
 
     if (!res.ok) {
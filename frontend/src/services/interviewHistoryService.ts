@@ -0,0 +1,82 @@
+import { InterviewResults, InterviewSummary } from '../types/interview.types';
+
+const API_BASE_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
+
+/**
+ * Service for the signed-in user's saved interview history
+ */
+class InterviewHistoryService {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = `${API_BASE_URL}/api/interviews`;
+  }
+
+  /**
+   * Get headers for API requests
+   */
+  private getHeaders(): HeadersInit {
+    const token = localStorage.getItem('token');
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` })
+    };
+  }
+
+  /**
+   * Save a completed interview to the user's history
+   */
+  async saveInterview(results: InterviewResults): Promise<InterviewResults> {
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(results)
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to save interview');
+    }
+
+    return data.interview;
+  }
+
+  /**
+   * List the user's past interviews, newest first
+   */
+  async listInterviews(limit: number = 20): Promise<InterviewSummary[]> {
+    const response = await fetch(`${this.baseUrl}?limit=${limit}`, {
+      headers: this.getHeaders()
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load interviews');
+    }
+
+    return data.interviews;
+  }
+
+  /**
+   * Load a single saved interview with full feedback
+   */
+  async getInterview(interviewId: string): Promise<InterviewResults> {
+    const response = await fetch(`${this.baseUrl}/${encodeURIComponent(interviewId)}`, {
+      headers: this.getHeaders()
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load interview');
+    }
+
+    return data.interview;
+  }
+}
+
+// Export a singleton instance
+export const interviewHistoryService = new InterviewHistoryService();
+export default interviewHistoryService;
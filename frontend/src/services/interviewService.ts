@@ -4,7 +4,15 @@ import {
   ProcessedContent, 
   GenerateQuestionsRequest,
   GenerateQuestionsResponse,
-  InterviewSession 
+  InterviewSession,
+  InterviewTemplatesResponse,
+  ResumeParseResponse,
+  ResumeProfile,
+  GapAnalysisResponse,
+  FollowUpRequest,
+  FollowUpResponse,
+  AnswerRecording,
+  RecordingUploadRequest
 } from '../types/interview.types';
 
 const API_BASE_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
@@ -99,8 +107,9 @@ class InterviewService {
    * Process text input directly
    * @param text - The text content to process
    * @param type - Type of content (resume, jobDescription, etc.)
+   * @param postingUrl - Job posting a job description was taken from, if any
    */
-  async uploadText(text: string, type: string): Promise<UploadResponse> {
+  async uploadText(text: string, type: string, postingUrl?: string): Promise<UploadResponse> {
     try {
       // Validate text content
       if (!text.trim()) {
@@ -121,7 +130,8 @@ class InterviewService {
         headers: this.getHeaders(),
         body: JSON.stringify({
           text: text.trim(),
-          type
+          type,
+          postingUrl
         })
       });
 
@@ -211,7 +221,7 @@ class InterviewService {
             error: 'Text content is required for text input method'
           };
         }
-        return this.uploadText(uploadData.content, type);
+        return this.uploadText(uploadData.content, type, uploadData.postingUrl);
 
       case 'url':
         if (!uploadData.url) {
@@ -233,10 +243,97 @@ class InterviewService {
   }
 
   /**
-   * Generate interview questions based on all uploaded content
+   * Get the interview formats (question mix and answer time limits) offered during setup
+   */
+  async getTemplates(): Promise<InterviewTemplatesResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/interview/templates`, {
+        headers: this.getHeaders()
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to load interview templates');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Get templates error:', error);
+      return {
+        success: false,
+        templates: [],
+        defaultTemplate: '',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Parse the resume uploaded to this session into a structured profile for review
+   */
+  async parseResume(): Promise<ResumeParseResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/interview/resume/parse`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({})
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || error.message || 'Resume parsing failed');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Resume parsing error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Compare the resume against the job description
+   * @param jobDescription - Job text to analyze (the uploaded job description if omitted)
+   * @param resumeProfile - Reviewed resume profile (the session's profile, or the parsed resume, if omitted)
+   */
+  async analyzeGaps(jobDescription?: string, resumeProfile?: ResumeProfile): Promise<GapAnalysisResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/interview/gap-analysis`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({ jobDescription, resumeProfile })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || error.message || 'Gap analysis failed');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Gap analysis error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Generate interview questions based on all uploaded content.
+   * The session's gap analysis, when there is one, steers the job-tailored question toward missing requirements.
    * @param processedContent - Array of all processed content
+   * @param templateId - Interview format deciding how many questions to generate (backend default if omitted)
+   * @param resumeProfile - Reviewed resume profile, lets questions cite specific resume entries
    */
-  async generateQuestions(processedContent: ProcessedContent[]): Promise<GenerateQuestionsResponse> {
+  async generateQuestions(
+    processedContent: ProcessedContent[],
+    templateId?: string,
+    resumeProfile?: ResumeProfile
+  ): Promise<GenerateQuestionsResponse> {
     try {
       if (processedContent.length === 0) {
         throw new Error('No content provided for question generation');
@@ -244,7 +341,9 @@ class InterviewService {
 
       const request: GenerateQuestionsRequest = {
         sessionId: this.sessionId,
-        processedContent
+        processedContent,
+        templateId,
+        resumeProfile
       };
 
       const response = await fetch(`${API_BASE_URL}/api/interview/generate-questions`, {
@@ -269,6 +368,114 @@ class InterviewService {
     }
   }
 
+  /**
+   * Start an interview run on the backend, which scopes the follow-up budget to this interview.
+   * Resolves to null on failure - the interview then simply runs without follow-ups.
+   */
+  async startInterviewRun(): Promise<string | null> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/interview/run`, {
+        method: 'POST',
+        headers: this.getHeaders()
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to start interview run');
+      }
+
+      const result = await response.json();
+      return result.runId;
+    } catch (error) {
+      console.error('Start interview run error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Ask the backend whether the answer just given deserves a probing follow-up.
+   * Failures resolve to "no follow-up" so the interview can always move on.
+   * @param request - The question, the captured transcript and the interview run ID
+   */
+  async requestFollowUp(request: FollowUpRequest): Promise<FollowUpResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/interview/follow-up`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(request)
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Follow-up request failed');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Follow-up request error:', error);
+      return {
+        success: false,
+        askFollowUp: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Upload the video recording of one answer to the backend media store.
+   * Resolves to null on failure - a missing recording should never block the interview.
+   * @param recording - Recorded video + audio blob
+   * @param details - Interview run and question the recording belongs to
+   */
+  async uploadRecording(recording: Blob, details: RecordingUploadRequest): Promise<AnswerRecording | null> {
+    try {
+      const formData = new FormData();
+      formData.append('media', recording, `${details.kind}-${details.questionIndex + 1}.webm`);
+      formData.append('runId', details.runId);
+      formData.append('questionIndex', String(details.questionIndex));
+      formData.append('kind', details.kind);
+      if (details.questionId) {
+        formData.append('questionId', details.questionId);
+      }
+      if (details.durationMs) {
+        formData.append('durationMs', String(details.durationMs));
+      }
+
+      const response = await fetch(`${API_BASE_URL}/api/media`, {
+        method: 'POST',
+        headers: this.getFileHeaders(),
+        body: formData
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Recording upload failed');
+      }
+
+      const result = await response.json();
+      return {
+        mediaId: result.data.media.id,
+        sessionId: result.data.media.sessionId,
+        url: result.data.url,
+        mimeType: result.data.media.mimeType,
+        durationMs: result.data.media.durationMs
+      };
+    } catch (error) {
+      console.error('Recording upload error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Absolute URL for playing back a stored recording.
+   * Recordings only play for the session that made them - media elements cannot send headers,
+   * so the recording's own session ID goes in the query string. That keeps recordings from saved
+   * interviews playable after a new session starts or on another device.
+   */
+  getRecordingUrl(recording: AnswerRecording): string {
+    return `${API_BASE_URL}${recording.url}?sessionId=${encodeURIComponent(recording.sessionId)}`;
+  }
+
   /**
    * Get the current interview session
    */
@@ -1,4 +1,15 @@
+import { DeliveryMetrics, RecognizedWord } from '../types/interview.types';
+import interviewService from './interviewService';
+
 const API_URL = `${import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000'}/api/stt`;
+const STREAM_URL = `${API_URL.replace(/^http/, 'ws')}/stream`;
+const STREAM_TIMESLICE_MS = 250; // How often recorded audio is sent to the stream
+// The streaming recognizers decode WebM/Opus - Safari only records MP4 and cannot stream
+const STREAM_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm'];
+const STREAM_CONNECT_TIMEOUT_MS = 5000;
+const STREAM_FINISH_TIMEOUT_MS = 15000; // Give up waiting for final results after stopping
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_WAIT_TIMEOUT_MS = 15 * 60 * 1000; // Queued jobs retry server-side, so allow for a long wait
 
 /**
  * Response interface for STT API calls
@@ -7,9 +18,41 @@ interface STTResponse {
   message: string;
   transcript: string;
   confidence?: number;
+  words?: RecognizedWord[];
+  delivery?: DeliveryMetrics;
   results?: any[];
 }
 
+/**
+ * A queued transcription job (POST /api/stt/jobs). Jobs survive backend restarts
+ * and are retried server-side, so the client only has to poll until one finishes.
+ */
+export interface TranscriptionJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  result?: {
+    transcript: string;
+    confidence: number;
+    words: RecognizedWord[];
+    delivery: DeliveryMetrics;
+  };
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Final result of a streamed transcription
+ */
+export interface StreamTranscriptionResult {
+  transcript: string;
+  words: RecognizedWord[];
+  delivery: DeliveryMetrics | null; // Null when the stream closed before the server finished
+}
+
 /**
  * Audio configuration options for speech recognition
  */
@@ -26,20 +69,21 @@ interface AudioConfig {
 /**
  * Speech-to-Text Service
  * 
- * This service handles all speech-to-text functionality by calling backend endpoints
- * that interface with Google's Speech-to-Text API. The backend keeps API keys secure
- * and provides a clean interface for audio transcription.
+ * This service handles all speech-to-text functionality by calling backend endpoints.
+ * The backend runs the configured recognizer (Google Cloud or a self-hosted engine),
+ * so transcription behaves the same in every browser and API keys stay on the server.
  */
 export const sttService = {
   /**
    * Transcribe Audio Content
    * 
-   * Converts base64-encoded audio data to text using Google's Speech-to-Text API.
-   * This is the core transcription function that processes pre-recorded audio.
+   * Converts base64-encoded audio data to text with the backend's speech recognizer.
+   * The recording is queued as a transcription job and polled until it finishes, so
+   * long answers are not lost to request timeouts, reconnects or backend restarts.
    * 
    * @param audioContent - Base64-encoded audio data (without data URI prefix)
    * @param config - Optional audio configuration (encoding, sample rate, language)
-   * @returns Promise<STTResponse> - Contains transcript, confidence score, and raw results
+   * @returns Promise<STTResponse> - Contains transcript, confidence score, word timings and delivery metrics
    * 
    * @example
    * ```typescript
@@ -54,46 +98,91 @@ export const sttService = {
    * ```
    */
   transcribeAudio: async (audioContent: string, config?: AudioConfig): Promise<STTResponse> => {
-    const res = await fetch(`${API_URL}/transcribe`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ audioContent, config }),
-    });
+    const job = await sttService.createTranscriptionJob(audioContent, config);
+    const finished = await sttService.waitForTranscriptionJob(job.id);
 
-    if (!res.ok) {
-      const error = await res.json();
-      throw new Error(error.message || 'STT transcription failed');
+    if (finished.status === 'failed' || !finished.result) {
+      throw new Error(finished.error || 'STT transcription failed');
     }
 
-    const data = await res.json();
-    return data;
+    return {
+      message: finished.result.transcript ? 'Transcription successful' : 'No speech detected',
+      transcript: finished.result.transcript,
+      confidence: finished.result.confidence,
+      words: finished.result.words,
+      delivery: finished.result.delivery
+    };
   },
 
   /**
-   * Transcribe Audio Chunk
-   * 
-   * Converts a single 30-second audio chunk to text using Google's Speech-to-Text API.
-   * Used for real-time chunked transcription.
-   * 
-   * @param audioContent - Base64-encoded audio data (without data URI prefix)
-   * @param chunkIndex - Index of the chunk for tracking
-   * @param config - Optional audio configuration (encoding, sample rate, language)
-   * @returns Promise<STTResponse> - Contains transcript, confidence score, and chunk info
+   * Queue a recording for transcription and return the job without waiting for it
+   *
+   * @param details - Optional answer length and question, used for delivery metrics
    */
-  transcribeChunk: async (audioContent: string, chunkIndex: number, config?: AudioConfig): Promise<STTResponse> => {
-    const res = await fetch(`${API_URL}/transcribe-chunk`, {
+  createTranscriptionJob: async (
+    audioContent: string,
+    config?: AudioConfig,
+    details?: { durationMs?: number; question?: string }
+  ): Promise<TranscriptionJob> => {
+    const res = await fetch(`${API_URL}/jobs`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ audioContent, chunkIndex, config }),
+      headers: {
+        'Content-Type': 'application/json',
+        'x-session-id': interviewService.getSessionId()
+      },
+      body: JSON.stringify({ audioContent, config, ...details }),
     });
 
-    if (!res.ok) {
-      const error = await res.json();
-      throw new Error(error.message || 'Chunk transcription failed');
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+      throw new Error(data.error || data.message || 'Failed to queue transcription');
     }
+    return data.data.job;
+  },
+
+  /**
+   * Get the current state of a transcription job
+   */
+  getTranscriptionJob: async (jobId: string): Promise<TranscriptionJob> => {
+    const res = await fetch(`${API_URL}/jobs/${encodeURIComponent(jobId)}`, {
+      headers: { 'x-session-id': interviewService.getSessionId() },
+    });
 
     const data = await res.json();
-    return data;
+    if (!res.ok || !data.success) {
+      throw new Error(data.error || data.message || 'Failed to get transcription job');
+    }
+    return data.data.job;
+  },
+
+  /**
+   * Poll a transcription job until it completes or fails.
+   * Network errors are retried, so a dropped connection only delays the result.
+   */
+  waitForTranscriptionJob: async (
+    jobId: string,
+    onUpdate?: (job: TranscriptionJob) => void
+  ): Promise<TranscriptionJob> => {
+    const deadline = Date.now() + JOB_WAIT_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      try {
+        const job = await sttService.getTranscriptionJob(jobId);
+        onUpdate?.(job);
+        if (job.status === 'completed' || job.status === 'failed') {
+          return job;
+        }
+      } catch (error) {
+        if (!(error instanceof TypeError)) {
+          throw error; // The backend answered - the job is gone or not ours
+        }
+        console.warn('Lost connection while waiting for transcription, retrying...', error);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+
+    throw new Error('Timed out waiting for transcription');
   },
 
   /**
@@ -157,315 +246,159 @@ export const sttService = {
     });
   },
 
-  // Helper function to record audio and transcribe
-  recordAndTranscribe: async (
-    onStatusUpdate?: (message: string, type: 'info' | 'recording' | 'loading' | 'success' | 'error' | 'warning') => void,
-    config?: AudioConfig
-  ): Promise<STTResponse> => {
-    return new Promise(async (resolve, reject) => {
-      try {
-        onStatusUpdate?.('Requesting microphone access...', 'info');
-        
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        const mediaRecorder = new MediaRecorder(stream);
-        const audioChunks: Blob[] = [];
-
-        mediaRecorder.ondataavailable = (event) => {
-          audioChunks.push(event.data);
-        };
-
-        mediaRecorder.onstop = async () => {
-          try {
-            onStatusUpdate?.('Processing audio...', 'loading');
-            
-            const audioBlob = new Blob(audioChunks, { type: 'audio/webm;codecs=opus' });
-            
-            // Log audio file size before processing
-            console.log(`Audio file size: ${audioBlob.size} bytes (${(audioBlob.size / 1024 / 1024).toFixed(2)} MB)`);
-            
-            const base64Audio = await sttService.blobToBase64(audioBlob);
-            
-            const defaultConfig: AudioConfig = {
-              encoding: 'WEBM_OPUS',
-              sampleRateHertz: 16000, // Reduced from 48000 to 16000 for smaller file size
-              languageCode: 'en-US',
-            };
-
-            const audioConfig = config || defaultConfig;
-            const result = await sttService.transcribeAudio(base64Audio, audioConfig);
-            
-            // Clean up stream
-            stream.getTracks().forEach(track => track.stop());
-            
-            if (result.transcript) {
-              onStatusUpdate?.('Transcription successful!', 'success');
-            } else {
-              onStatusUpdate?.(result.message || 'No speech detected', 'warning');
-            }
-            
-            resolve(result);
-          } catch (error) {
-            stream.getTracks().forEach(track => track.stop());
-            onStatusUpdate?.(`Error: ${(error as Error).message}`, 'error');
-            reject(error);
-          }
-        };
-
-        // Start recording
-        onStatusUpdate?.('Recording... Click stop when done', 'recording');
-        mediaRecorder.start();
-
-        // Return control functions
-        const stopRecording = () => {
-          if (mediaRecorder.state !== 'inactive') {
-            mediaRecorder.stop();
-          }
-        };
-
-        // Auto-stop after 30 seconds (optional safety)
-        const autoStopTimeout = setTimeout(() => {
-          if (mediaRecorder.state === 'recording') {
-            stopRecording();
-            onStatusUpdate?.('Recording stopped automatically after 30 seconds', 'warning');
-          }
-        }, 30000);
-
-        // Expose stop function for manual control
-        (resolve as any).stopRecording = () => {
-          clearTimeout(autoStopTimeout);
-          stopRecording();
-        };
-
-      } catch (error) {
-        onStatusUpdate?.(`Error accessing microphone: ${(error as Error).message}`, 'error');
-        reject(error);
-      }
-    });
-  },
-
-  // Helper function for live transcription using Web Speech API
-  recordAndTranscribeLive: async (
+  /**
+   * Stream Microphone Audio for Live Transcription
+   *
+   * Streams WebM/Opus audio to the backend over a WebSocket (/api/stt/stream, scoped to the interview session), which
+   * forwards it to the configured streaming recognizer. Interim and final transcripts
+   * are reported through onTranscriptUpdate as the full transcript so far.
+   *
+   * @param onStatusUpdate - Status callback for microphone, recording and error messages
+   * @param onTranscriptUpdate - Called with the full transcript and whether the latest utterance is final
+   * @param config - Optional language configuration, plus the question being answered for delivery metrics
+   * @returns stopRecording to end the stream, and finished - resolves with the final transcript, word timings and delivery metrics
+   *
+   * @example
+   * ```typescript
+   * const { stopRecording, finished } = await sttService.streamTranscription(
+   *   undefined,
+   *   (transcript, isFinal) => setTranscript(transcript)
+   * );
+   * stopRecording();
+   * const { transcript, delivery } = await finished;
+   * ```
+   */
+  streamTranscription: async (
     onStatusUpdate?: (message: string, type: 'info' | 'recording' | 'loading' | 'success' | 'error' | 'warning') => void,
     onTranscriptUpdate?: (transcript: string, isFinal: boolean) => void,
-    config?: AudioConfig
-  ): Promise<{ stopRecording: () => void }> => {
-    return new Promise((resolve, reject) => {
-      // Check if browser supports Web Speech API
-      if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
-        reject(new Error('Browser does not support speech recognition'));
-        return;
-      }
-
-      const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-      const recognition = new SpeechRecognition();
-
-      // Configure speech recognition
-      recognition.continuous = true;
-      recognition.interimResults = true;
-      recognition.lang = config?.languageCode || 'en-US';
-      recognition.maxAlternatives = 1;
-
-      let finalTranscript = '';
-      let isRecording = true;
+    config?: AudioConfig & { question?: string }
+  ): Promise<{ stopRecording: () => void; finished: Promise<StreamTranscriptionResult> }> => {
+    const mimeType = typeof MediaRecorder !== 'undefined'
+      ? STREAM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+      : undefined;
+    if (!mimeType) {
+      const error = new Error('This browser cannot record WebM audio for live transcription - please use Chrome, Edge or Firefox');
+      onStatusUpdate?.(`Error: ${error.message}`, 'error');
+      throw error;
+    }
 
-      recognition.onstart = () => {
-        console.log('Live speech recognition started');
-        onStatusUpdate?.('Recording... (live transcription active)', 'recording');
-      };
+    onStatusUpdate?.('Requesting microphone access...', 'info');
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const stopTracks = () => stream.getTracks().forEach(track => track.stop());
+
+    // Create the recorder before opening the socket, so a failure leaves no server-side stream behind
+    let mediaRecorder: MediaRecorder;
+    try {
+      mediaRecorder = new MediaRecorder(stream, { mimeType });
+    } catch (error) {
+      stopTracks();
+      onStatusUpdate?.(`Error: ${(error as Error).message}`, 'error');
+      throw error;
+    }
 
-      recognition.onresult = (event: any) => {
-        let interimTranscript = '';
-        
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const transcript = event.results[i][0].transcript;
-          
-          if (event.results[i].isFinal) {
-            finalTranscript += transcript + ' ';
-            console.log('Final transcript chunk:', transcript);
-            onTranscriptUpdate?.(finalTranscript.trim(), true);
+    const socket = new WebSocket(`${STREAM_URL}?sessionId=${encodeURIComponent(interviewService.getSessionId())}`);
+    let latestTranscript = '';
+    let words: RecognizedWord[] = [];
+    let delivery: DeliveryMetrics | null = null;
+
+    // Wait for the server to accept the stream before recording
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error('Timed out connecting to transcription stream')), STREAM_CONNECT_TIMEOUT_MS);
+
+        socket.onopen = () => {
+          socket.send(JSON.stringify({
+            type: 'start',
+            config: {
+              languageCode: config?.languageCode || 'en-US',
+              sampleRateHertz: config?.sampleRateHertz
+            },
+            question: config?.question
+          }));
+        };
+        socket.onmessage = (event) => {
+          const message = JSON.parse(event.data);
+          clearTimeout(timeout);
+          if (message.type === 'ready') {
+            resolve();
           } else {
-            interimTranscript += transcript;
+            reject(new Error(message.error || 'Transcription stream rejected'));
           }
-        }
-        
-        // Show interim results
-        if (interimTranscript) {
-          const combinedTranscript = finalTranscript + interimTranscript;
-          onTranscriptUpdate?.(combinedTranscript.trim(), false);
-        }
-      };
-
-      recognition.onerror = (event: any) => {
-        console.error('Speech recognition error:', event.error);
-        onStatusUpdate?.(`Speech recognition error: ${event.error}`, 'error');
-        
-        if (event.error === 'no-speech') {
-          onStatusUpdate?.('No speech detected, continuing...', 'warning');
-        } else {
-          reject(new Error(`Speech recognition error: ${event.error}`));
-        }
-      };
+        };
+        socket.onerror = () => {
+          clearTimeout(timeout);
+          reject(new Error('Could not connect to transcription stream'));
+        };
+      });
+    } catch (error) {
+      socket.close();
+      stopTracks();
+      onStatusUpdate?.(`Error: ${(error as Error).message}`, 'error');
+      throw error;
+    }
 
-      recognition.onend = () => {
-        console.log('Speech recognition ended');
-        if (isRecording) {
-          // Restart if we're still supposed to be recording (handles auto-restart)
-          try {
-            recognition.start();
-          } catch (error) {
-            console.log('Recognition restart failed:', error);
-          }
-        } else {
+    const finished = new Promise<StreamTranscriptionResult>((resolve) => {
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data);
+
+        if (message.type === 'transcript') {
+          latestTranscript = message.transcript;
+          onTranscriptUpdate?.(message.transcript, message.isFinal);
+        } else if (message.type === 'end') {
+          latestTranscript = message.transcript;
+          words = message.words || [];
+          delivery = message.delivery || null;
+          onTranscriptUpdate?.(message.transcript, true);
           onStatusUpdate?.('Recording complete!', 'success');
+        } else if (message.type === 'error') {
+          console.error('Streaming transcription error:', message.error);
+          onStatusUpdate?.(`Transcription error: ${message.error}`, 'error');
         }
       };
 
-      const stopRecording = () => {
-        console.log('Stop live recording called');
-        isRecording = false;
-        try {
-          recognition.stop();
-        } catch (error) {
-          console.log('Error stopping recognition:', error);
+      // The server closes the socket after the final transcript (or an error)
+      socket.onclose = () => {
+        if (mediaRecorder.state !== 'inactive') {
+          mediaRecorder.stop();
         }
+        stopTracks();
+        resolve({ transcript: latestTranscript, words, delivery });
       };
-
-      try {
-        recognition.start();
-        onStatusUpdate?.('Starting live transcription...', 'info');
-        resolve({ stopRecording });
-      } catch (error) {
-        reject(error);
-      }
     });
-  },
 
-  // ...existing code...
-  recordAndTranscribeChunked: async (
-    onStatusUpdate?: (message: string, type: 'info' | 'recording' | 'loading' | 'success' | 'error' | 'warning') => void,
-    onTranscriptUpdate?: (transcript: string, chunkIndex: number) => void,
-    config?: AudioConfig
-  ): Promise<{ fullTranscript: string; stopRecording: () => void }> => {
-    onStatusUpdate?.('Requesting microphone access...', 'info');
-    
-    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-    const mediaRecorder = new MediaRecorder(stream, {
-      mimeType: 'audio/webm;codecs=opus'
-    });
-    
-    let chunkIndex = 0;
-    let fullTranscript = '';
-    let isRecording = true;
-    let recordingStartTime = Date.now();
-    let allAudioChunks: Blob[] = []; // Store all audio data
-
-    const defaultConfig: AudioConfig = {
-      encoding: 'WEBM_OPUS',
-      sampleRateHertz: 48000,
-      languageCode: 'en-US',
-      enableAutomaticPunctuation: true,
-    };
-
-    const audioConfig = config || defaultConfig;
-
-    mediaRecorder.ondataavailable = async (event) => {
-      if (event.data.size > 0) {
-        // Always store the audio chunk
-        allAudioChunks.push(event.data);
-        
-        if (isRecording) {
-          const currentChunkIndex = chunkIndex++;
-          const chunkDuration = (Date.now() - recordingStartTime) / 1000;
-          console.log(`Processing chunk ${currentChunkIndex}, size: ${event.data.size} bytes, duration: ${chunkDuration.toFixed(1)}s`);
-          
-          // Reset timer for next chunk
-          recordingStartTime = Date.now();
-          
-          try {
-            onStatusUpdate?.(`Processing chunk ${currentChunkIndex}...`, 'loading');
-            
-            const base64Audio = await sttService.blobToBase64(event.data);
-            console.log(`Chunk ${currentChunkIndex} base64 length: ${base64Audio.length} characters`);
-            
-            const result = await sttService.transcribeChunk(base64Audio, currentChunkIndex, audioConfig);
-            
-            if (result.transcript) {
-              // Add space if there's already text
-              const separator = fullTranscript ? ' ' : '';
-              fullTranscript += separator + result.transcript;
-              
-              console.log(`Chunk ${currentChunkIndex} transcript:`, result.transcript);
-              onTranscriptUpdate?.(fullTranscript, currentChunkIndex);
-              onStatusUpdate?.(isRecording ? 'Recording... (real-time transcription active)' : 'Processing final chunks...', 'recording');
-            } else {
-              console.log(`No speech detected in chunk ${currentChunkIndex}`);
-            }
-          } catch (error) {
-            console.error(`Error transcribing chunk ${currentChunkIndex}:`, error);
-            onStatusUpdate?.(`Error processing chunk ${currentChunkIndex}`, 'warning');
-          }
-        }
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0 && socket.readyState === WebSocket.OPEN) {
+        socket.send(event.data);
       }
     };
 
-    mediaRecorder.onstart = () => {
-      console.log('Chunked recording started');
-      recordingStartTime = Date.now();
-      onStatusUpdate?.('Recording... (real-time transcription active)', 'recording');
-    };
-
-    mediaRecorder.onstop = async () => {
-      console.log('Chunked recording stopped, final transcript:', fullTranscript);
-      
-      // If no chunks were processed during recording (short recording), process the entire audio
-      if (chunkIndex === 0 && allAudioChunks.length > 0) {
-        console.log('No chunks were processed during recording, processing entire audio as single chunk...');
-        try {
-          onStatusUpdate?.('Processing final audio...', 'loading');
-          
-          const completeAudioBlob = new Blob(allAudioChunks, { type: 'audio/webm;codecs=opus' });
-          const base64Audio = await sttService.blobToBase64(completeAudioBlob);
-          console.log(`Complete audio base64 length: ${base64Audio.length} characters`);
-          
-          const result = await sttService.transcribeChunk(base64Audio, 0, audioConfig);
-          
-          if (result.transcript) {
-            fullTranscript = result.transcript;
-            console.log(`Final transcript from complete audio:`, result.transcript);
-            onTranscriptUpdate?.(fullTranscript, 0);
-          }
-        } catch (error) {
-          console.error('Error transcribing final audio:', error);
-        }
+    // The last audio frame is delivered before onstop, so stop only after it has been sent
+    mediaRecorder.onstop = () => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: 'stop' }));
       }
-      
-      stream.getTracks().forEach(track => track.stop());
-      onStatusUpdate?.('Recording complete!', 'success');
+      stopTracks();
     };
 
-    mediaRecorder.onerror = (event) => {
-      console.error('MediaRecorder error:', event);
-      stream.getTracks().forEach(track => track.stop());
-      onStatusUpdate?.(`Recording error: ${(event as any).error?.message || 'Unknown error'}`, 'error');
-      throw new Error('Recording failed');
-    };
+    try {
+      mediaRecorder.start(STREAM_TIMESLICE_MS);
+    } catch (error) {
+      socket.close();
+      stopTracks();
+      onStatusUpdate?.(`Error: ${(error as Error).message}`, 'error');
+      throw error;
+    }
+    onStatusUpdate?.('Recording... (streaming transcription active)', 'recording');
 
-    // Return stop function
     const stopRecording = () => {
-      console.log('Stop recording called');
-      isRecording = false;
       if (mediaRecorder.state !== 'inactive') {
-        // Request final data before stopping
-        mediaRecorder.requestData();
+        onStatusUpdate?.('Finishing transcription...', 'loading');
         mediaRecorder.stop();
+        // Closing the socket resolves `finished` with whatever was transcribed
+        setTimeout(() => socket.close(), STREAM_FINISH_TIMEOUT_MS);
       }
     };
 
-    // Start recording with 5-second chunks instead of 10 seconds
-    console.log('Starting MediaRecorder with 5-second chunks...');
-    mediaRecorder.start(5000); // Request data every 5 seconds
-
-    // Return the control object immediately
-    return { fullTranscript: '', stopRecording };
+    return { stopRecording, finished };
   },
 };
@@ -8,9 +8,10 @@ console.log("jobBriefService BASE =", BASE);
 console.log("jobBriefService ENDPOINT =", ENDPOINT);
 
 export const jobBriefService = {
-  fetchBrief: async (company: string, title: string): Promise<JobBriefResponse> => {
+  // postingUrl briefs one of the sources of an earlier brief instead of searching
+  fetchBrief: async (company: string, title: string, postingUrl?: string): Promise<JobBriefResponse> => {
     try {
-      const data = await postJSON(ENDPOINT, { company: company.trim(), title: title.trim() });
+      const data = await postJSON(ENDPOINT, { company: company.trim(), title: title.trim(), postingUrl });
       return { ...(data as JobBriefResponse), _endpointTried: ENDPOINT };
     } catch (e: any) {
       // surfacing server-side message is still useful
@@ -24,13 +25,42 @@ export type JobBriefResponse = {
   title: string;
   postingUrl?: string;
   summary?: string;
+  // Fields extracted from the posting - "heuristic" when the LLM was unavailable
+  details?: JobPostingDetails;
+  detailsSource?: "llm" | "heuristic";
   raw?: string;
+  // Structured posting when the posting URL is on a supported ATS (Greenhouse, Lever, Workday, ...)
+  posting?: {
+    provider: string;
+    title: string;
+    location?: string;
+    remote?: boolean;
+    requirements: string[];
+  };
   sources?: { title?: string; url: string }[];
   notFound?: boolean;
   error?: string;
   _endpointTried?: string; // handy for debugging
 };
 
+export type JobPostingDetails = {
+  title?: string;
+  responsibilities: string[];
+  requiredQualifications: string[];
+  preferredQualifications: string[];
+  techStack: string[];
+  seniority?: "intern" | "entry" | "mid" | "senior" | "staff" | "principal" | "manager" | "director";
+  location?: string;
+  workplaceType?: "remote" | "hybrid" | "onsite";
+  compensation?: {
+    text: string;
+    min?: number;
+    max?: number;
+    currency?: string;
+    period?: "year" | "month" | "hour";
+  };
+};
+
 async function postJSON(url: string, body: any, timeoutMs = 30000) {
   const ctrl = new AbortController();
   const t = setTimeout(() => ctrl.abort(), timeoutMs);
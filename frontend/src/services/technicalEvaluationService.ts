@@ -4,21 +4,33 @@
 
 const API_BASE_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
 
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+// A concept phrase, or a list of ways to say it - the first entry names it
+export type ConceptPhrase = string | string[];
+
 export interface TechnicalQuestion {
   id: number;
   role: string;
+  difficulty: QuestionDifficulty;
   question: string;
   reference_answer: string;
+  alternate_answers: string[];
   keywords: string[];
+  must_mention: ConceptPhrase[];
+  must_not_claim: ConceptPhrase[];
 }
 
 export interface TechnicalEvaluationResult {
   questionId: number;
-  similarity: number;
+  similarity: number; // Similarity to the closest reference answer
+  matchedReference: number;
   score: number;
   feedback: string;
   isCorrect: boolean;
   keywordMatches: string[];
+  missingConcepts: string[];
+  incorrectClaims: string[];
   suggestions: string[];
 }
 
@@ -28,6 +40,8 @@ export interface EvaluationConfig {
   partialThreshold?: number;
   keywordWeight?: number;
   semanticWeight?: number;
+  missingConceptPenalty?: number;
+  incorrectClaimPenalty?: number;
 }
 
 export interface EvaluationSummary {
@@ -64,6 +78,8 @@ class TechnicalEvaluationService {
   async initialize(): Promise<{
     success: boolean;
     questionCount?: number;
+    embeddingProvider?: string;
+    embeddingModel?: string;
     embeddingDimension?: number;
     config?: any;
     error?: string;
@@ -83,6 +99,8 @@ class TechnicalEvaluationService {
       return {
         success: true,
         questionCount: result.data?.questionCount,
+        embeddingProvider: result.data?.embeddingProvider,
+        embeddingModel: result.data?.embeddingModel,
         embeddingDimension: result.data?.embeddingDimension,
         config: result.data?.config
       };
@@ -225,17 +243,20 @@ class TechnicalEvaluationService {
   }
 
   /**
-   * Get all technical questions or filter by role
+   * Get all technical questions, optionally filtered by role and difficulty
    */
-  async getAllQuestions(role?: string): Promise<{
+  async getAllQuestions(role?: string, difficulty?: QuestionDifficulty): Promise<{
     success: boolean;
     questions?: TechnicalQuestion[];
     total?: number;
     error?: string;
   }> {
     try {
-      const url = role 
-        ? `${this.baseUrl}/questions?role=${encodeURIComponent(role)}`
+      const params = new URLSearchParams();
+      if (role) params.set('role', role);
+      if (difficulty) params.set('difficulty', difficulty);
+      const url = params.toString()
+        ? `${this.baseUrl}/questions?${params.toString()}`
         : `${this.baseUrl}/questions`;
 
       const response = await fetch(url, {
@@ -272,6 +293,8 @@ class TechnicalEvaluationService {
     status?: {
       isInitialized: boolean;
       questionCount: number;
+      embeddingProvider: string;
+      embeddingModel: string;
       embeddingDimension?: number;
       config: any;
     };
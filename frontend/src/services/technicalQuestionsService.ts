@@ -5,6 +5,7 @@ const API_BASE_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000'
 export interface TechnicalQuestion {
   id: number;
   role: string;
+  difficulty: 'easy' | 'medium' | 'hard';
   question: string;
   keywords: string[];
 }
@@ -23,14 +24,17 @@ export interface SelectTechnicalQuestionsResponse {
 class TechnicalQuestionsService {
   
   /**
-   * Select two technical questions tailored to the job description
+   * Select technical questions tailored to the job description.
+   * Questions on skills the session's gap analysis found weak or missing are preferred.
    * @param processedContent Array of processed content from the interview setup
    * @param sessionId Session ID for tracking
+   * @param templateId Interview format deciding how many questions are selected (backend default if omitted)
    * @returns Promise with selected technical questions
    */
   async selectTechnicalQuestions(
     processedContent: ProcessedContent[], 
-    sessionId: string
+    sessionId: string,
+    templateId?: string
   ): Promise<SelectTechnicalQuestionsResponse> {
     try {
       const response = await fetch(`${API_BASE_URL}/api/interview/select-technical-questions`, {
@@ -40,7 +44,8 @@ class TechnicalQuestionsService {
           'x-session-id': sessionId
         },
         body: JSON.stringify({
-          processedContent        // contains job description text
+          processedContent,       // contains job description text
+          templateId
         })
       });
 
@@ -1,3 +1,5 @@
+import { InterviewerPersona, InterviewerStyle, QuestionSpeechContext, TtsVoice } from '../types/interview.types';
+
 const API_URL = `${import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000'}/api/tts`;
 
 /**
@@ -7,6 +9,20 @@ interface TTSResponse {
   message: string;
   audioContent: string;
   introText?: string;
+  spokenText?: string; // Question with its lead-in transition
+  wrapUpText?: string;
+  closingText?: string;
+  cached?: boolean; // Served from the backend audio cache
+}
+
+/**
+ * Voice catalog returned by GET /api/tts/voices
+ */
+export interface TTSVoicesResponse {
+  voices: TtsVoice[];
+  speakingRate: { min: number; max: number; default: number };
+  styles: InterviewerStyle[];
+  defaultPersona: InterviewerPersona;
 }
 
 /**
@@ -26,6 +42,8 @@ export const ttsService = {
    * @param position - The job position being interviewed for (e.g., "Software Engineer")
    * @param company - The company name (e.g., "Google")
    * @param interviewerName - The interviewer's name (e.g., "John Doe")
+   * @param persona - Optional interviewer voice and speaking rate (defaults to the backend's default voice)
+   * @param templateId - Optional interview template whose question counts the agenda describes (defaults to the standard template)
    * @returns Promise<TTSResponse> - Contains base64 audio content and introduction text
    * 
    * @example
@@ -39,11 +57,11 @@ export const ttsService = {
    * await ttsService.playAudio(intro.audioContent); // Play the audio
    * ```
    */
-  generateIntroduction: async (position: string, company: string, interviewerName: string): Promise<TTSResponse> => {
+  generateIntroduction: async (position: string, company: string, interviewerName: string, persona?: InterviewerPersona, templateId?: string): Promise<TTSResponse> => {
     const res = await fetch(`${API_URL}/introduction`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ position, company, interviewerName }),
+      body: JSON.stringify({ position, company, interviewerName, persona, templateId }),
     });
 
     if (!res.ok) {
@@ -88,11 +106,33 @@ export const ttsService = {
     return data;
   },
 
-  askQuestion: async (question: string): Promise<TTSResponse> => {
+  /**
+   * Voice Catalog
+   *
+   * Lists the interviewer voices and speaking rate range the backend accepts.
+   */
+  getVoices: async (): Promise<TTSVoicesResponse> => {
+    const res = await fetch(`${API_URL}/voices`);
+
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || 'Failed to load TTS voices');
+    }
+
+    return res.json();
+  },
+
+  /**
+   * Ask a Question
+   *
+   * Speaks the question, led in by the interviewer style's transition when `context`
+   * says where it falls in the interview ("Thanks for that. Moving on to a technical question...").
+   */
+  askQuestion: async (question: string, persona?: InterviewerPersona, context?: QuestionSpeechContext): Promise<TTSResponse> => {
     const res = await fetch(`${API_URL}/question`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ question }),
+      body: JSON.stringify({ question, persona, context }),
     });
 
     if (!res.ok) {
@@ -104,6 +144,47 @@ export const ttsService = {
     return data;
   },
 
+  /**
+   * Wrap-up Warning
+   *
+   * Short prompt from the interviewer asking the candidate to finish their answer.
+   * The same line is used for every question, so fetch it once and replay it.
+   */
+  generateWrapUp: async (persona?: InterviewerPersona): Promise<TTSResponse> => {
+    const res = await fetch(`${API_URL}/wrap-up`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ persona }),
+    });
+
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || 'Wrap-up TTS generation failed');
+    }
+
+    return res.json();
+  },
+
+  /**
+   * Closing Statement
+   *
+   * The interviewer's sign-off at the end of the interview, in the chosen style.
+   */
+  generateClosing: async (position: string, company: string, interviewerName: string, persona?: InterviewerPersona): Promise<TTSResponse> => {
+    const res = await fetch(`${API_URL}/closing`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ position, company, interviewerName, persona }),
+    });
+
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || 'Closing TTS generation failed');
+    }
+
+    return res.json();
+  },
+
   // Helper function to play audio from base64 content
   playAudio: (audioContent: string): Promise<void> => {
     return new Promise((resolve, reject) => {
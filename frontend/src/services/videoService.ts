@@ -252,6 +252,20 @@ export const videoService = {
     return types.filter(type => MediaRecorder.isTypeSupported(type));
   },
 
+  /**
+   * Best supported MIME type for recording video together with its audio track
+   */
+  getAnswerRecordingMimeType(): string | undefined {
+    const types = [
+      'video/webm;codecs=vp9,opus',
+      'video/webm;codecs=vp8,opus',
+      'video/webm',
+      'video/mp4'
+    ];
+
+    return types.find(type => MediaRecorder.isTypeSupported(type));
+  },
+
   /**
    * Stop all tracks in a media stream
    */
@@ -7,6 +7,7 @@ export interface UploadData {
   content?: string; // For text input
   file?: File; // For file upload
   url?: string; // For URL input
+  postingUrl?: string; // Job posting the text was taken from by the job brief
 }
 
 export interface InterviewData {
@@ -22,6 +23,7 @@ export interface ProcessedContent {
   method: UploadMethod;
   filename?: string; // For file uploads
   url?: string; // For URL uploads
+  postingUrl?: string; // Job posting a job description was taken from
 }
 
 export interface GeneratedQuestions {
@@ -35,6 +37,86 @@ export interface Question {
   category: 'behavioral';
   difficulty: 'easy' | 'medium' | 'hard';
   tags: string[]; // e.g., ['leadership', 'teamwork'], ['company-fit', 'motivation']
+  citation?: ResumeCitation; // Resume entry the question is based on
+}
+
+/**
+ * Structured resume parsed by the backend and reviewed on the setup page.
+ * Entry ids (exp_1, proj_1, edu_1) are reassigned by position whenever the profile is saved.
+ */
+export interface ResumeExperience {
+  id: string;
+  employer: string;
+  role: string;
+  startDate?: string;
+  endDate?: string;
+  location?: string;
+  bullets: string[];
+}
+
+export interface ResumeProject {
+  id: string;
+  name: string;
+  description?: string;
+  technologies: string[];
+  bullets: string[];
+}
+
+export interface ResumeEducation {
+  id: string;
+  institution: string;
+  degree?: string;
+  field?: string;
+  graduationDate?: string;
+}
+
+export interface ResumeProfile {
+  name?: string;
+  summary?: string;
+  experiences: ResumeExperience[];
+  projects: ResumeProject[];
+  skills: string[];
+  education: ResumeEducation[];
+}
+
+export interface ResumeParseResponse {
+  success: boolean;
+  profile?: ResumeProfile;
+  source?: 'llm' | 'heuristic'; // heuristic: only skills and education were recognized
+  error?: string;
+}
+
+export interface ResumeCitation {
+  entryId: string;
+  label: string; // e.g. "Software Engineer Intern at Acme (Jun 2023 - Aug 2023)"
+}
+
+/**
+ * Resume-to-job-description coverage matrix from POST /api/interview/gap-analysis
+ */
+export type RequirementCoverage = 'covered' | 'weak' | 'missing';
+
+export interface RequirementMatch {
+  id: string;
+  requirement: string;
+  category: 'skill' | 'responsibility';
+  priority: 'required' | 'preferred';
+  coverage: RequirementCoverage;
+  citations: ResumeCitation[]; // Resume entries offered as evidence
+  note?: string;
+}
+
+export interface GapAnalysisReport {
+  requirements: RequirementMatch[];
+  summary: Record<RequirementCoverage, number>;
+  source: 'llm' | 'heuristic'; // heuristic: keyword matching only
+  createdAt: string;
+}
+
+export interface GapAnalysisResponse {
+  success: boolean;
+  report?: GapAnalysisReport;
+  error?: string;
 }
 
 export interface InterviewSession {
@@ -47,6 +129,87 @@ export interface InterviewSession {
   questions: GeneratedQuestions;
   position?: string;
   company?: string;
+  interviewer?: InterviewerPersona;
+  templateId?: string;
+  resumeProfile?: ResumeProfile;
+  gapAnalysis?: GapAnalysisReport; // Written by the gap analysis endpoint
+}
+
+export type InterviewQuestionType = 'behavioral' | 'technical';
+
+/**
+ * Interview format offered by GET /api/interview/templates
+ */
+export interface InterviewTemplate {
+  id: string;
+  name: string;
+  description: string;
+  behavioralCount: number;
+  technicalCount: number;
+  thinkTimeSeconds: Record<InterviewQuestionType, number>; // Pause between hearing a question and recording the answer
+  answerTimeSeconds: Record<InterviewQuestionType, number>; // Per-question answer time limit - recording stops here
+  wrapUpWarningSeconds: number; // The interviewer asks for a wrap-up when this much answer time is left
+}
+
+export interface InterviewTemplatesResponse {
+  success: boolean;
+  templates: InterviewTemplate[];
+  defaultTemplate: string;
+  error?: string;
+}
+
+/**
+ * One entry in the order questions are asked during the interview
+ */
+export interface InterviewQuestionSlot {
+  question: Question;
+  type: InterviewQuestionType;
+  thinkTimeSeconds: number;
+  answerTimeSeconds: number;
+}
+
+export type VoiceGender = 'MALE' | 'FEMALE' | 'NEUTRAL';
+
+/**
+ * Interviewer voice offered by GET /api/tts/voices
+ */
+export interface TtsVoice {
+  name: string;
+  languageCode: string;
+  gender: VoiceGender;
+  label: string;
+  description?: string;
+  ssml: boolean;
+}
+
+/**
+ * Scripted interviewer personality (friendly recruiter, panel lead, ...)
+ */
+export interface InterviewerStyle {
+  id: string;
+  name: string;
+  description: string;
+}
+
+/**
+ * Where a spoken question sits in the interview - the backend picks the transition from it
+ */
+export interface QuestionSpeechContext {
+  kind?: 'question' | 'followUp';
+  category?: 'behavioral' | 'technical';
+  previousCategory?: 'behavioral' | 'technical';
+  questionNumber?: number; // 1-based
+  totalQuestions?: number;
+}
+
+/**
+ * Interviewer voice and speaking rate chosen on the setup page
+ */
+export interface InterviewerPersona {
+  voice: string;
+  speakingRate: number; // 1.0 is normal speed
+  gender: VoiceGender;
+  style: string; // InterviewerStyle id
 }
 
 export interface UploadResponse {
@@ -59,6 +222,8 @@ export interface UploadResponse {
 export interface GenerateQuestionsRequest {
   sessionId: string;
   processedContent: ProcessedContent[];
+  templateId?: string;
+  resumeProfile?: ResumeProfile;
 }
 
 export interface GenerateQuestionsResponse {
@@ -83,4 +248,167 @@ export interface InterviewSetupErrors {
   general?: string;
   company?: string; // Error message for manual company input
   position?: string; // Error message for manual position input
-}
\ No newline at end of file
+}
+
+// Completed interview results, passed to the feedback page and saved to history
+export interface InterviewFeedbackItem {
+  questionIndex: number;
+  question: string;
+  answer: string;
+  feedback: any; // Behavioral grader feedback or TechnicalEvaluationResult
+  questionType: 'behavioral' | 'technical';
+  citation?: ResumeCitation; // Resume entry the question was based on
+  recording?: AnswerRecording; // Video of the answer, replayable on the feedback page
+  delivery?: DeliveryMetrics; // Pace, fillers and pauses of the spoken answer
+  timing?: AnswerTiming; // How the answer fit the template's time budget
+  followUp?: FollowUpExchange; // Probing follow-up asked after this answer, if any
+}
+
+export interface FollowUpExchange {
+  question: string;
+  answer: string;
+  recording?: AnswerRecording;
+  timing?: AnswerTiming;
+}
+
+export type AnswerPacing = 'under' | 'within' | 'over';
+
+/**
+ * Think and answer time used against a question's budget
+ */
+export interface AnswerTiming {
+  thinkTimeSeconds: number;
+  thinkTimeUsedSeconds: number;
+  answerTimeSeconds: number;
+  answerDurationSeconds: number;
+  overrunSeconds: number; // Seconds past the answer time limit
+  underrunSeconds: number; // Answer time left unused
+  pacing: AnswerPacing;
+  autoStopped: boolean; // Recording was ended by the time limit
+  wrapUpWarned: boolean; // The interviewer asked the candidate to wrap up
+}
+
+/**
+ * Reference to a recording held by the backend media store
+ */
+export interface AnswerRecording {
+  mediaId: string;
+  sessionId: string; // Session that uploaded the recording - required to play it back
+  url: string; // Backend path, e.g. /api/media/<id> - resolve with interviewService.getRecordingUrl
+  mimeType: string;
+  durationMs?: number;
+}
+
+/**
+ * One transcribed word with offsets from the start of the answer
+ */
+export interface RecognizedWord {
+  word: string;
+  startMs: number;
+  endMs: number;
+  confidence?: number;
+}
+
+export interface DeliveryPause {
+  startMs: number;
+  durationMs: number;
+}
+
+/**
+ * Speech delivery analytics computed by the backend when a transcription stream ends
+ */
+export interface DeliveryMetrics {
+  wordCount: number;
+  durationMs: number;
+  talkTimeMs: number;
+  wordsPerMinute: number;
+  fillerCount: number;
+  fillers: Record<string, number>;
+  fillersPer100Words: number;
+  longPauses: DeliveryPause[];
+  longestPauseMs: number;
+  questionWordCount?: number;
+  questionLengthMs?: number;
+  talkTimeToQuestionRatio?: number;
+  hasWordTimings: boolean;
+}
+
+export interface RecordingUploadRequest {
+  runId: string;
+  questionIndex: number;
+  questionId?: string;
+  kind: 'answer' | 'followUp';
+  durationMs?: number;
+}
+
+export interface FollowUpRequest {
+  runId: string; // Interview run issued by interviewService.startInterviewRun - the follow-up budget is per run
+  questionId: string;
+  question: string;
+  answer: string;
+  questionType: 'behavioral' | 'technical';
+}
+
+export interface FollowUpResponse {
+  success: boolean;
+  askFollowUp: boolean;
+  followUp?: string;
+  reason?: string;
+  remainingBudget?: number;
+  error?: string;
+}
+
+export interface InterviewResults {
+  id?: string; // Present once the interview has been saved to history
+  duration: number;
+  questionsAnswered: number;
+  totalQuestions: number;
+  feedbackData: InterviewFeedbackItem[];
+  completedAt: string;
+  position?: string;
+  company?: string;
+}
+
+export interface InterviewSummary {
+  id: string;
+  completedAt: string;
+  duration: number;
+  questionsAnswered: number;
+  totalQuestions: number;
+  averageScore: number | null;
+  position?: string;
+  company?: string;
+}
+
+// STAR-method analysis returned by the behavioral grader
+export type StarComponent = 'situation' | 'task' | 'action' | 'result';
+
+export interface StarSpan {
+  start: number; // Character offsets into the answer transcript (end exclusive)
+  end: number;
+  text: string;
+}
+
+export interface StarComponentAnalysis {
+  component: StarComponent;
+  present: boolean;
+  score: number; // 0-10
+  comment: string;
+  spans: StarSpan[];
+}
+
+export interface StarAnalysis {
+  components: StarComponentAnalysis[];
+  missing: StarComponent[];
+  overallScore: number;
+}
+
+// Per-competency rubric score returned by the behavioral grader
+export interface CompetencyScore {
+  id: string;
+  name: string;
+  weight: number;
+  level: number; // Rubric level, 1 (Developing) - 4 (Exemplary)
+  label: string;
+  evidence: string;
+}